@@ -0,0 +1,29 @@
+import apiClient from './client'
+import type { ApiToken, CreateApiTokenRequest, CreateApiTokenResponse } from './types'
+
+const BASE_PATH = '/api/qa/api-tokens'
+
+export const apiTokensApi = {
+  /**
+   * List the caller's personal tokens and the workspace's service tokens
+   */
+  list(signal?: AbortSignal): Promise<ApiToken[]> {
+    return apiClient.get<ApiToken[]>(BASE_PATH, { signal })
+  },
+
+  /**
+   * Create a token; the response is the only place the secret appears
+   */
+  create(data: CreateApiTokenRequest): Promise<CreateApiTokenResponse> {
+    return apiClient.post<CreateApiTokenResponse>(BASE_PATH, data)
+  },
+
+  /**
+   * Revoke a token; requests using it are rejected immediately
+   */
+  revoke(id: string): Promise<undefined> {
+    return apiClient.delete<undefined>(`${BASE_PATH}/${id}`)
+  },
+}
+
+export default apiTokensApi
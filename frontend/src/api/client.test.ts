@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ApiError, apiClient, setAuthToken, setTokenRefresher } from './client'
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+const authorizationOf = (init: RequestInit | undefined) =>
+  new Headers(init?.headers).get('Authorization')
+
+/** Answers 401 to the expired token and echoes the path for the fresh one */
+function mockApi() {
+  return vi
+    .spyOn(globalThis, 'fetch')
+    .mockImplementation((input, init) =>
+      Promise.resolve(
+        authorizationOf(init) === 'Bearer fresh'
+          ? jsonResponse({ path: new URL(input as string).pathname })
+          : jsonResponse({ message: 'Token expired', code: 'UNAUTHORIZED' }, 401)
+      )
+    )
+}
+
+describe('apiClient token refresh', () => {
+  beforeEach(() => {
+    setAuthToken('expired')
+  })
+
+  afterEach(() => {
+    setTokenRefresher(null)
+    setAuthToken(null)
+    vi.restoreAllMocks()
+  })
+
+  it('refreshes once for concurrent 401s and replays every request', async () => {
+    const fetchSpy = mockApi()
+    const refresher = vi.fn(async () => {
+      await Promise.resolve()
+      setAuthToken('fresh')
+      return true
+    })
+    setTokenRefresher(refresher)
+
+    const results = await Promise.all([
+      apiClient.get('/api/qa/packages'),
+      apiClient.get('/api/qa/runs'),
+      apiClient.post('/api/qa/packages/pkg-1/runs', {}),
+    ])
+
+    expect(refresher).toHaveBeenCalledTimes(1)
+    expect(results).toEqual([
+      { path: '/api/qa/packages' },
+      { path: '/api/qa/runs' },
+      { path: '/api/qa/packages/pkg-1/runs' },
+    ])
+    expect(fetchSpy).toHaveBeenCalledTimes(6)
+    expect(fetchSpy.mock.calls[5]?.[1]?.body).toBe('{}')
+  })
+
+  it('holds requests started during a refresh until the new token is set', async () => {
+    const fetchSpy = mockApi()
+    let finishRefresh: () => void = () => undefined
+    setTokenRefresher(
+      () =>
+        new Promise((resolve) => {
+          finishRefresh = () => {
+            setAuthToken('fresh')
+            resolve(true)
+          }
+        })
+    )
+
+    const first = apiClient.get('/api/qa/packages')
+    await vi.waitFor(() => {
+      expect(fetchSpy).toHaveBeenCalledTimes(1)
+    })
+    const second = apiClient.get('/api/qa/runs')
+    finishRefresh()
+
+    await expect(Promise.all([first, second])).resolves.toHaveLength(2)
+    expect(fetchSpy.mock.calls.map(([, init]) => authorizationOf(init))).toEqual([
+      'Bearer expired',
+      'Bearer fresh',
+      'Bearer fresh',
+    ])
+  })
+
+  it('fails with the 401 when the refresh fails', async () => {
+    const fetchSpy = mockApi()
+    const refresher = vi.fn(() => Promise.resolve(false))
+    setTokenRefresher(refresher)
+
+    const error: unknown = await apiClient.get('/api/qa/packages').catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error).toMatchObject({ status: 401, code: 'UNAUTHORIZED' })
+    expect(refresher).toHaveBeenCalledTimes(1)
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not replay without a refresher', async () => {
+    const fetchSpy = mockApi()
+
+    await expect(apiClient.get('/api/qa/packages')).rejects.toMatchObject({ status: 401 })
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+})
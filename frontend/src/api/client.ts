@@ -34,6 +34,10 @@ export class TimeoutError extends Error {
   }
 }
 
+export function getApiUrl(endpoint: string): string {
+  return `${API_BASE_URL}${endpoint}`
+}
+
 // Request interceptors
 type RequestInterceptor = (config: RequestInit) => RequestInit | Promise<RequestInit>
 type ResponseInterceptor = (response: Response) => Response | Promise<Response>
@@ -72,6 +76,32 @@ export function getAuthToken(): string | null {
   return authToken
 }
 
+// Token refresh on 401
+type TokenRefresher = () => Promise<boolean>
+
+let tokenRefresher: TokenRefresher | null = null
+let pendingRefresh: Promise<boolean> | null = null
+
+/**
+ * Registers how to renew the auth token when the API answers 401. The refresher resolves
+ * false when the session cannot be renewed, in which case the request fails with the 401.
+ */
+export function setTokenRefresher(refresher: TokenRefresher | null): void {
+  tokenRefresher = refresher
+}
+
+// Requests that hit a 401 while a refresh is in flight share it instead of starting their own
+function refreshAuthToken(): Promise<boolean> {
+  if (!tokenRefresher) return Promise.resolve(false)
+
+  pendingRefresh ??= tokenRefresher()
+    .catch(() => false)
+    .finally(() => {
+      pendingRefresh = null
+    })
+  return pendingRefresh
+}
+
 // Default request interceptor for auth
 addRequestInterceptor((config) => {
   if (authToken) {
@@ -106,10 +136,10 @@ async function apiFetch<T>(endpoint: string, options: RequestOptions = {}): Prom
     ? combineAbortSignals(externalSignal, timeoutController.signal)
     : timeoutController.signal
 
-  const url = `${API_BASE_URL}${endpoint}`
+  const url = getApiUrl(endpoint)
 
   // Build request config
-  let config: RequestInit = {
+  const baseConfig: RequestInit = {
     method: method ?? 'GET',
     signal,
     headers: {
@@ -120,13 +150,17 @@ async function apiFetch<T>(endpoint: string, options: RequestOptions = {}): Prom
     body: body !== undefined ? JSON.stringify(body) : null,
   }
 
-  // Apply request interceptors
-  for (const interceptor of requestInterceptors) {
-    config = await interceptor(config)
-  }
-
   try {
-    let response = await fetch(url, config)
+    // Hold new requests while the token is being refreshed so they go out with the new one
+    if (pendingRefresh) await pendingRefresh
+
+    const sentToken = authToken
+    let response = await fetch(url, await applyRequestInterceptors(baseConfig))
+
+    // Replay once with a renewed token; skip the refresh when another request already did it
+    if (response.status === 401 && (sentToken !== authToken || (await refreshAuthToken()))) {
+      response = await fetch(url, await applyRequestInterceptors(baseConfig))
+    }
 
     // Apply response interceptors
     for (const interceptor of responseInterceptors) {
@@ -166,6 +200,14 @@ async function apiFetch<T>(endpoint: string, options: RequestOptions = {}): Prom
   }
 }
 
+async function applyRequestInterceptors(baseConfig: RequestInit): Promise<RequestInit> {
+  let config = baseConfig
+  for (const interceptor of requestInterceptors) {
+    config = await interceptor(config)
+  }
+  return config
+}
+
 async function parseErrorResponse(response: Response): Promise<ApiErrorResponse> {
   try {
     const data = (await response.json()) as {
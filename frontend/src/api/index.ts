@@ -8,12 +8,32 @@ export {
   getAuthToken,
   addRequestInterceptor,
   addResponseInterceptor,
+  getApiUrl,
 } from './client'
 
 // API Modules
 export { default as packagesApi, packagesApi as packages } from './packages'
 export { default as scenariosApi, scenariosApi as scenarios, type ScenariosListParams } from './scenarios'
 export { default as runsApi, runsApi as runs } from './runs'
+export {
+  default as schedulesApi,
+  schedulesApi as schedules,
+  type ListSchedulesParams,
+} from './schedules'
+export { default as apiTokensApi, apiTokensApi as apiTokens } from './apiTokens'
+export { default as preferencesApi, preferencesApi as preferences } from './preferences'
+export {
+  default as webhooksApi,
+  webhooksApi as webhooks,
+  type ListWebhooksParams,
+} from './webhooks'
+export {
+  subscribeToRunEvents,
+  applyRunEvent,
+  type RunStreamStatus,
+  type RunEventStreamOptions,
+  type EventSourceLike,
+} from './runEvents'
 
 // Types
 export type * from './types'
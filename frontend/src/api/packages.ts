@@ -5,6 +5,11 @@ import type {
   UpdateQaPackageRequest,
   PaginatedResponse,
   TestRun,
+  PackageEnvironment,
+  CreateEnvironmentRequest,
+  UpdateEnvironmentRequest,
+  StartRunRequest,
+  FetchedSpec,
 } from './types'
 
 const BASE_PATH = '/api/qa/packages'
@@ -48,6 +53,13 @@ export const packagesApi = {
     return apiClient.delete<undefined>(`${BASE_PATH}/${id}`)
   },
 
+  /**
+   * Download an OpenAPI spec from a URL through the backend
+   */
+  fetchSpec(url: string): Promise<FetchedSpec> {
+    return apiClient.post<FetchedSpec>(`${BASE_PATH}/spec/fetch`, { url })
+  },
+
   /**
    * Trigger scenario generation for a package
    */
@@ -56,10 +68,10 @@ export const packagesApi = {
   },
 
   /**
-   * Start a test run for a package
+   * Start a test run for a package, optionally against one of its environments
    */
-  startRun(id: string): Promise<TestRun> {
-    return apiClient.post<TestRun>(`${BASE_PATH}/${id}/runs`)
+  startRun(id: string, data: StartRunRequest = {}): Promise<TestRun> {
+    return apiClient.post<TestRun>(`${BASE_PATH}/${id}/runs`, data)
   },
 
   /**
@@ -71,6 +83,41 @@ export const packagesApi = {
       { signal }
     )
   },
+
+  /**
+   * List the environments of a package
+   */
+  listEnvironments(id: string, signal?: AbortSignal): Promise<PackageEnvironment[]> {
+    return apiClient.get<PackageEnvironment[]>(`${BASE_PATH}/${id}/environments`, { signal })
+  },
+
+  /**
+   * Create an environment for a package
+   */
+  createEnvironment(id: string, data: CreateEnvironmentRequest): Promise<PackageEnvironment> {
+    return apiClient.post<PackageEnvironment>(`${BASE_PATH}/${id}/environments`, data)
+  },
+
+  /**
+   * Update an environment of a package
+   */
+  updateEnvironment(
+    id: string,
+    environmentId: string,
+    data: UpdateEnvironmentRequest
+  ): Promise<PackageEnvironment> {
+    return apiClient.patch<PackageEnvironment>(
+      `${BASE_PATH}/${id}/environments/${environmentId}`,
+      data
+    )
+  },
+
+  /**
+   * Delete an environment of a package
+   */
+  deleteEnvironment(id: string, environmentId: string): Promise<undefined> {
+    return apiClient.delete<undefined>(`${BASE_PATH}/${id}/environments/${environmentId}`)
+  },
 }
 
 export default packagesApi
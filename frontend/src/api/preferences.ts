@@ -0,0 +1,22 @@
+import apiClient from './client'
+import type { UserPreferences } from './types'
+
+const BASE_PATH = '/api/qa/me/preferences'
+
+export const preferencesApi = {
+  /**
+   * Get the signed-in user's preferences
+   */
+  get(signal?: AbortSignal): Promise<Partial<UserPreferences>> {
+    return apiClient.get<Partial<UserPreferences>>(BASE_PATH, { signal })
+  },
+
+  /**
+   * Replace the signed-in user's preferences
+   */
+  update(data: UserPreferences): Promise<UserPreferences> {
+    return apiClient.put<UserPreferences>(BASE_PATH, data)
+  },
+}
+
+export default preferencesApi
@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { applyRunEvent, subscribeToRunEvents, type RunStreamStatus } from './runEvents'
+import type { RunEvent, StepResult, TestRun } from './types'
+import { mockScenarioResult, mockTestRun } from '@/test/mocks'
+import { MockEventSource } from '@/test/mockEventSource'
+
+const pendingRun: TestRun = {
+  ...mockTestRun,
+  status: 'PENDING',
+  completedAt: null,
+  scenarioResults: [],
+  summary: { ...mockTestRun.summary, passedScenarios: 0, failedScenarios: 0 },
+}
+
+const [stepResult] = mockScenarioResult.stepResults as [StepResult]
+
+describe('applyRunEvent', () => {
+  it('marks the run as running and adds the started scenario', () => {
+    const run = applyRunEvent(pendingRun, {
+      type: 'scenario-started',
+      runId: 'run-1',
+      scenarioId: 'scenario-1',
+      scenarioName: 'Create User Flow',
+    })
+
+    expect(run.status).toBe('RUNNING')
+    expect(run.scenarioResults).toEqual([
+      expect.objectContaining({ scenarioId: 'scenario-1', status: 'RUNNING', stepResults: [] }),
+    ])
+  })
+
+  it('upserts step results so replayed events are not duplicated', () => {
+    const event: RunEvent = {
+      type: 'step-finished',
+      runId: 'run-1',
+      scenarioId: 'scenario-1',
+      stepResult,
+    }
+
+    const once = applyRunEvent(pendingRun, event)
+    const twice = applyRunEvent(once, event)
+
+    expect(twice.scenarioResults[0]?.stepResults).toEqual([stepResult])
+  })
+
+  it('recomputes summary counts from finished scenarios', () => {
+    const run = applyRunEvent(pendingRun, {
+      type: 'scenario-finished',
+      runId: 'run-1',
+      scenarioResult: mockScenarioResult,
+    })
+
+    expect(run.summary).toMatchObject({ totalScenarios: 2, passedScenarios: 1, failedScenarios: 0 })
+  })
+
+  it('replaces the run with the completed snapshot', () => {
+    expect(
+      applyRunEvent(pendingRun, { type: 'run-completed', runId: 'run-1', run: mockTestRun })
+    ).toBe(mockTestRun)
+  })
+})
+
+describe('subscribeToRunEvents', () => {
+  let statuses: RunStreamStatus[]
+  let events: RunEvent[]
+  let tickets: number
+
+  const requestTicket = () => Promise.resolve(`ticket-${String(++tickets)}`)
+
+  const subscribe = (
+    options: { maxRetries?: number; requestTicket?: (runId: string) => Promise<string> } = {}
+  ) =>
+    subscribeToRunEvents('run-1', {
+      onEvent: (event) => events.push(event),
+      onStatusChange: (status) => statuses.push(status),
+      createEventSource: MockEventSource.create,
+      requestTicket,
+      retryDelayMs: 100,
+      ...options,
+    })
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    MockEventSource.reset()
+    statuses = []
+    events = []
+    tickets = 0
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('delivers typed events from the run stream', async () => {
+    subscribe()
+    await vi.advanceTimersByTimeAsync(0)
+    const source = MockEventSource.latest()
+    source.open()
+    source.emit('scenario-finished', { runId: 'run-1', scenarioResult: mockScenarioResult }, '1')
+
+    expect(source.url).toContain('/api/qa/runs/run-1/events?ticket=ticket-1')
+    expect(source.url).not.toContain('access_token')
+    expect(statuses).toEqual(['connecting', 'open'])
+    expect(events).toEqual([
+      { type: 'scenario-finished', runId: 'run-1', scenarioResult: mockScenarioResult },
+    ])
+  })
+
+  it('reconnects with backoff and a new ticket, resuming from the last event id', async () => {
+    subscribe()
+    await vi.advanceTimersByTimeAsync(0)
+    const first = MockEventSource.latest()
+    first.open()
+    first.emit('step-finished', { runId: 'run-1', scenarioId: 'scenario-1', stepResult }, '7')
+    first.fail()
+
+    expect(first.closed).toBe(true)
+    expect(statuses).toEqual(['connecting', 'open', 'connecting'])
+    expect(MockEventSource.instances).toHaveLength(1)
+
+    await vi.advanceTimersByTimeAsync(100)
+
+    expect(MockEventSource.instances).toHaveLength(2)
+    expect(MockEventSource.latest().url).toContain('ticket=ticket-2&lastEventId=7')
+  })
+
+  it('reports the stream unavailable once retries are exhausted', async () => {
+    subscribe({ maxRetries: 2 })
+    await vi.advanceTimersByTimeAsync(0)
+
+    MockEventSource.latest().fail()
+    await vi.advanceTimersByTimeAsync(100)
+    MockEventSource.latest().fail()
+    await vi.advanceTimersByTimeAsync(200)
+    MockEventSource.latest().fail()
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(MockEventSource.instances).toHaveLength(3)
+    expect(statuses.at(-1)).toBe('unavailable')
+  })
+
+  it('counts a refused ticket as a failed attempt', async () => {
+    subscribe({ maxRetries: 1, requestTicket: () => Promise.reject(new Error('Forbidden')) })
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(MockEventSource.instances).toHaveLength(0)
+    expect(statuses).toEqual(['connecting', 'connecting', 'unavailable'])
+  })
+
+  it('closes the stream when the run completes', async () => {
+    subscribe()
+    await vi.advanceTimersByTimeAsync(0)
+    const source = MockEventSource.latest()
+    source.open()
+    source.emit('run-completed', { runId: 'run-1', run: mockTestRun })
+
+    expect(source.closed).toBe(true)
+    expect(statuses.at(-1)).toBe('closed')
+  })
+
+  it('stops reconnecting after unsubscribe', async () => {
+    const unsubscribe = subscribe()
+    await vi.advanceTimersByTimeAsync(0)
+    MockEventSource.latest().fail()
+    unsubscribe()
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(MockEventSource.instances).toHaveLength(1)
+  })
+
+  it('does not connect when unsubscribed while the ticket is pending', async () => {
+    const unsubscribe = subscribe()
+    unsubscribe()
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(MockEventSource.instances).toHaveLength(0)
+  })
+})
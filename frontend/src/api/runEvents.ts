@@ -0,0 +1,247 @@
+import apiClient, { getApiUrl } from './client'
+import type {
+  RunEvent,
+  RunEventType,
+  RunStreamTicket,
+  ScenarioResult,
+  TestRun,
+  TestRunSummary,
+} from './types'
+
+const BASE_PATH = '/api/qa/runs'
+
+const RUN_EVENT_TYPES: RunEventType[] = [
+  'scenario-started',
+  'step-finished',
+  'scenario-finished',
+  'run-completed',
+]
+
+const DEFAULT_MAX_RETRIES = 3
+const DEFAULT_RETRY_DELAY_MS = 1000
+const MAX_RETRY_DELAY_MS = 30000
+
+export type RunStreamStatus = 'connecting' | 'open' | 'unavailable' | 'closed'
+
+/**
+ * Minimal subset of the browser EventSource used by the stream client,
+ * so tests can supply a local stand-in.
+ */
+export interface EventSourceLike {
+  addEventListener(type: string, listener: (event: MessageEvent<string>) => void): void
+  close(): void
+}
+
+export interface RunEventStreamOptions {
+  onEvent: (event: RunEvent) => void
+  onStatusChange?: (status: RunStreamStatus) => void
+  /** Consecutive failed connection attempts before the stream is reported unavailable */
+  maxRetries?: number
+  retryDelayMs?: number
+  createEventSource?: (url: string) => EventSourceLike
+  /** Fetches the ticket each connection attempt authenticates with */
+  requestTicket?: (runId: string) => Promise<string>
+}
+
+function defaultCreateEventSource(url: string): EventSourceLike {
+  return new EventSource(url)
+}
+
+/**
+ * EventSource cannot send an Authorization header. Rather than putting the access token in
+ * the URL, where proxies and access logs keep it, each connection uses a single-use ticket.
+ */
+async function defaultRequestTicket(runId: string): Promise<string> {
+  const { ticket } = await apiClient.post<RunStreamTicket>(`${BASE_PATH}/${runId}/events/ticket`)
+  return ticket
+}
+
+/**
+ * Subscribe to live events for a run. Reconnects with exponential backoff, resuming
+ * from the last received event id, and reports 'unavailable' once retries are exhausted
+ * so callers can fall back to polling. Returns an unsubscribe function.
+ */
+export function subscribeToRunEvents(runId: string, options: RunEventStreamOptions): () => void {
+  const {
+    onEvent,
+    onStatusChange,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    createEventSource = defaultCreateEventSource,
+    requestTicket = defaultRequestTicket,
+  } = options
+
+  if (!options.createEventSource && typeof EventSource === 'undefined') {
+    onStatusChange?.('unavailable')
+    return () => undefined
+  }
+
+  let source: EventSourceLike | null = null
+  let lastEventId: string | null = null
+  let failedAttempts = 0
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+  let isClosed = false
+
+  const setStatus = (status: RunStreamStatus) => {
+    onStatusChange?.(status)
+  }
+
+  const close = (status: RunStreamStatus) => {
+    if (isClosed) return
+    isClosed = true
+    if (retryTimer) clearTimeout(retryTimer)
+    source?.close()
+    source = null
+    setStatus(status)
+  }
+
+  const retry = () => {
+    failedAttempts++
+    if (failedAttempts > maxRetries) {
+      close('unavailable')
+      return
+    }
+
+    const delay = Math.min(retryDelayMs * 2 ** (failedAttempts - 1), MAX_RETRY_DELAY_MS)
+    retryTimer = setTimeout(connect, delay)
+  }
+
+  const connect = () => {
+    setStatus('connecting')
+    requestTicket(runId).then(
+      (ticket) => {
+        if (!isClosed) open(ticket)
+      },
+      () => {
+        if (!isClosed) retry()
+      }
+    )
+  }
+
+  const open = (ticket: string) => {
+    const eventSource = createEventSource(buildStreamUrl(runId, ticket, lastEventId))
+    source = eventSource
+
+    eventSource.addEventListener('open', () => {
+      failedAttempts = 0
+      setStatus('open')
+    })
+
+    eventSource.addEventListener('error', () => {
+      if (isClosed || source !== eventSource) return
+      eventSource.close()
+      source = null
+      // Pollers cover the gap until the retry reopens the stream
+      setStatus('connecting')
+      retry()
+    })
+
+    RUN_EVENT_TYPES.forEach((type) => {
+      eventSource.addEventListener(type, (message) => {
+        if (message.lastEventId) lastEventId = message.lastEventId
+
+        const event = parseRunEvent(type, message.data)
+        if (!event) return
+
+        onEvent(event)
+        if (event.type === 'run-completed') {
+          close('closed')
+        }
+      })
+    })
+  }
+
+  connect()
+
+  return () => {
+    close('closed')
+  }
+}
+
+function buildStreamUrl(runId: string, ticket: string, lastEventId: string | null): string {
+  const params = new URLSearchParams({ ticket })
+  if (lastEventId) params.set('lastEventId', lastEventId)
+  return getApiUrl(`${BASE_PATH}/${runId}/events?${params.toString()}`)
+}
+
+function parseRunEvent(type: RunEventType, data: string): RunEvent | null {
+  try {
+    const payload = JSON.parse(data) as Omit<RunEvent, 'type'>
+    return { ...payload, type } as RunEvent
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Apply a streamed event to a run snapshot. Idempotent, so events replayed after a
+ * resume can be applied again safely.
+ */
+export function applyRunEvent(run: TestRun, event: RunEvent): TestRun {
+  switch (event.type) {
+    case 'scenario-started': {
+      const existing = run.scenarioResults.find((r) => r.scenarioId === event.scenarioId)
+      const scenarioResult: ScenarioResult = existing
+        ? { ...existing, status: 'RUNNING' }
+        : {
+            scenarioId: event.scenarioId,
+            scenarioName: event.scenarioName,
+            status: 'RUNNING',
+            scenarioVersion: null,
+            stepResults: [],
+            duration: 0,
+            error: null,
+          }
+      return withScenarioResult(markRunning(run), scenarioResult)
+    }
+
+    case 'step-finished': {
+      const existing = run.scenarioResults.find((r) => r.scenarioId === event.scenarioId)
+      const base: ScenarioResult = existing ?? {
+        scenarioId: event.scenarioId,
+        scenarioName: event.scenarioId,
+        status: 'RUNNING',
+        scenarioVersion: null,
+        stepResults: [],
+        duration: 0,
+        error: null,
+      }
+      const hasStep = base.stepResults.some((s) => s.stepId === event.stepResult.stepId)
+      const stepResults = hasStep
+        ? base.stepResults.map((s) => (s.stepId === event.stepResult.stepId ? event.stepResult : s))
+        : [...base.stepResults, event.stepResult]
+      return withScenarioResult(markRunning(run), { ...base, stepResults })
+    }
+
+    case 'scenario-finished':
+      return withScenarioResult(markRunning(run), event.scenarioResult)
+
+    case 'run-completed':
+      return event.run
+  }
+}
+
+function markRunning(run: TestRun): TestRun {
+  return run.status === 'PENDING' ? { ...run, status: 'RUNNING' } : run
+}
+
+function withScenarioResult(run: TestRun, scenarioResult: ScenarioResult): TestRun {
+  const exists = run.scenarioResults.some((r) => r.scenarioId === scenarioResult.scenarioId)
+  const scenarioResults = exists
+    ? run.scenarioResults.map((r) =>
+        r.scenarioId === scenarioResult.scenarioId ? scenarioResult : r
+      )
+    : [...run.scenarioResults, scenarioResult]
+
+  return { ...run, scenarioResults, summary: summarize(run.summary, scenarioResults) }
+}
+
+function summarize(summary: TestRunSummary, results: ScenarioResult[]): TestRunSummary {
+  return {
+    ...summary,
+    totalScenarios: Math.max(summary.totalScenarios, results.length),
+    passedScenarios: results.filter((r) => r.status === 'PASSED').length,
+    failedScenarios: results.filter((r) => r.status === 'FAILED').length,
+    skippedScenarios: results.filter((r) => r.status === 'SKIPPED').length,
+  }
+}
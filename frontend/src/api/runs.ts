@@ -1,15 +1,35 @@
 import apiClient from './client'
-import type { TestRun, PaginatedResponse, TestRunStatus } from './types'
+import type {
+  TestRun,
+  CollectedList,
+  PaginatedResponse,
+  TestRunStatus,
+  ResolvedRequest,
+  ReplayResponse,
+  ReplayRunRequest,
+} from './types'
 
 const BASE_PATH = '/api/qa/runs'
+const PROXY_PATH = '/api/qa/proxy'
+const HISTORY_PAGE_SIZE = 100
+// Upper bound on pages fetched for analytics, so a huge history cannot stall the page
+const MAX_HISTORY_PAGES = 20
 
 export interface ListRunsParams {
   page?: number | undefined
   size?: number | undefined
   packageId?: string | undefined
   status?: TestRunStatus | undefined
+  /** Environment name; only runs that targeted an environment of this name */
+  environment?: string | undefined
+  /** ISO timestamp; only runs started at or after it */
+  from?: string | undefined
+  /** ISO timestamp; only runs started before it */
+  to?: string | undefined
 }
 
+export type RunHistoryParams = Omit<ListRunsParams, 'page' | 'size'>
+
 export const runsApi = {
   /**
    * List all test runs with optional filters
@@ -20,9 +40,30 @@ export const runsApi = {
     searchParams.set('size', String(params.size ?? 20))
     if (params.packageId) searchParams.set('packageId', params.packageId)
     if (params.status) searchParams.set('status', params.status)
+    if (params.environment) searchParams.set('environment', params.environment)
+    if (params.from) searchParams.set('from', params.from)
+    if (params.to) searchParams.set('to', params.to)
     return apiClient.get<PaginatedResponse<TestRun>>(`${BASE_PATH}?${searchParams.toString()}`, { signal })
   },
 
+  /**
+   * Fetch every run matching the filters, following pages up to a fixed limit
+   */
+  async listHistory(
+    params: RunHistoryParams = {},
+    signal?: AbortSignal
+  ): Promise<CollectedList<TestRun>> {
+    const content: TestRun[] = []
+    let totalElements = 0
+    for (let page = 0; page < MAX_HISTORY_PAGES; page++) {
+      const response = await runsApi.list({ ...params, page, size: HISTORY_PAGE_SIZE }, signal)
+      content.push(...response.content)
+      totalElements = response.totalElements
+      if (response.last || page + 1 >= response.totalPages) break
+    }
+    return { content, totalElements, truncated: content.length < totalElements }
+  },
+
   /**
    * Get a single test run by ID
    */
@@ -44,6 +85,13 @@ export const runsApi = {
     return apiClient.post<TestRun>(`${BASE_PATH}/${id}/retry`)
   },
 
+  /**
+   * Re-execute the scenarios stored with a run, without regenerating them
+   */
+  replay(id: string, data: ReplayRunRequest = {}): Promise<TestRun> {
+    return apiClient.post<TestRun>(`${BASE_PATH}/${id}/replay`, data)
+  },
+
   /**
    * Export test run results in specified format
    */
@@ -70,6 +118,13 @@ export const runsApi = {
       scenarioIds,
     })
   },
+
+  /**
+   * Re-send a recorded step request through the backend proxy
+   */
+  replayRequest(request: ResolvedRequest): Promise<ReplayResponse> {
+    return apiClient.post<ReplayResponse>(`${PROXY_PATH}/replay`, request)
+  },
 }
 
 export default runsApi
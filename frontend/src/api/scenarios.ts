@@ -1,7 +1,20 @@
 import apiClient from './client'
-import type { Scenario, PaginatedResponse, TestStep } from './types'
+import type {
+  Scenario,
+  BulkTagScenariosRequest,
+  BulkTagScenariosResponse,
+  CollectedList,
+  ImportScenariosRequest,
+  PaginatedResponse,
+  ScenarioVersion,
+  ScenarioVersionSummary,
+  TestStep,
+} from './types'
 
 const BASE_PATH = '/api/qa/scenarios'
+const ALL_SCENARIOS_PAGE_SIZE = 500
+// Bounds the requests made for very large packages
+const MAX_ALL_SCENARIOS_PAGES = 10
 
 export interface ScenarioValidationResult {
   valid: boolean
@@ -22,6 +35,8 @@ export interface ScenariosListParams {
   packageId?: string | undefined
   status?: string | undefined
   search?: string | undefined
+  /** Only scenarios carrying every one of these tags */
+  tags?: string[] | undefined
 }
 
 export const scenariosApi = {
@@ -35,6 +50,9 @@ export const scenariosApi = {
     if (params.packageId) searchParams.set('packageId', params.packageId)
     if (params.status) searchParams.set('status', params.status)
     if (params.search) searchParams.set('search', params.search)
+    params.tags?.forEach((tag) => {
+      searchParams.append('tag', tag)
+    })
 
     const queryString = searchParams.toString()
     return apiClient.get<PaginatedResponse<Scenario>>(
@@ -58,6 +76,29 @@ export const scenariosApi = {
     )
   },
 
+  /**
+   * Fetch every scenario of a package, following pages up to a fixed limit
+   */
+  async listAllByPackage(
+    packageId: string,
+    signal?: AbortSignal
+  ): Promise<CollectedList<Scenario>> {
+    const content: Scenario[] = []
+    let totalElements = 0
+    for (let page = 0; page < MAX_ALL_SCENARIOS_PAGES; page++) {
+      const response = await scenariosApi.listByPackage(
+        packageId,
+        page,
+        ALL_SCENARIOS_PAGE_SIZE,
+        signal
+      )
+      content.push(...response.content)
+      totalElements = response.totalElements
+      if (response.last || page + 1 >= response.totalPages) break
+    }
+    return { content, totalElements, truncated: content.length < totalElements }
+  },
+
   /**
    * Get a single scenario by ID
    */
@@ -93,12 +134,62 @@ export const scenariosApi = {
     return apiClient.patch<Scenario>(`${BASE_PATH}/${id}`, { steps })
   },
 
+  /**
+   * Replace the tags of a scenario
+   */
+  updateTags(id: string, tags: string[]): Promise<Scenario> {
+    return apiClient.patch<Scenario>(`${BASE_PATH}/${id}`, { tags })
+  },
+
+  /**
+   * Add and remove tags on several scenarios at once
+   */
+  bulkUpdateTags(data: BulkTagScenariosRequest): Promise<BulkTagScenariosResponse> {
+    return apiClient.post<BulkTagScenariosResponse>(`${BASE_PATH}/tags/bulk`, data)
+  },
+
+  /**
+   * Create scenarios in a package from imported steps
+   */
+  importScenarios(data: ImportScenariosRequest): Promise<Scenario[]> {
+    return apiClient.post<Scenario[]>(`${BASE_PATH}/import`, data)
+  },
+
+  /**
+   * List every tag in use, optionally within one package
+   */
+  listTags(packageId?: string, signal?: AbortSignal): Promise<string[]> {
+    const query = packageId ? `?packageId=${packageId}` : ''
+    return apiClient.get<string[]>(`${BASE_PATH}/tags${query}`, { signal })
+  },
+
   /**
    * Validate scenario JSON without saving
    */
   validate(json: string): Promise<ScenarioValidationResult> {
     return apiClient.post<ScenarioValidationResult>(`${BASE_PATH}/validate`, { json })
   },
+
+  /**
+   * List saved versions of a scenario, newest first
+   */
+  listVersions(id: string, signal?: AbortSignal): Promise<ScenarioVersionSummary[]> {
+    return apiClient.get<ScenarioVersionSummary[]>(`${BASE_PATH}/${id}/versions`, { signal })
+  },
+
+  /**
+   * Get a single version including its steps
+   */
+  getVersion(id: string, versionId: string, signal?: AbortSignal): Promise<ScenarioVersion> {
+    return apiClient.get<ScenarioVersion>(`${BASE_PATH}/${id}/versions/${versionId}`, { signal })
+  },
+
+  /**
+   * Restore a version; the server records the restore as a new version
+   */
+  restoreVersion(id: string, versionId: string): Promise<Scenario> {
+    return apiClient.post<Scenario>(`${BASE_PATH}/${id}/versions/${versionId}/restore`)
+  },
 }
 
 export default scenariosApi
@@ -0,0 +1,48 @@
+import apiClient from './client'
+import type { CreateScheduleRequest, PackageSchedule, UpdateScheduleRequest } from './types'
+
+const BASE_PATH = '/api/qa/schedules'
+
+export interface ListSchedulesParams {
+  packageId?: string | undefined
+}
+
+export const schedulesApi = {
+  /**
+   * List run schedules, optionally for a single package
+   */
+  list(params: ListSchedulesParams = {}, signal?: AbortSignal): Promise<PackageSchedule[]> {
+    const query = params.packageId ? `?packageId=${encodeURIComponent(params.packageId)}` : ''
+    return apiClient.get<PackageSchedule[]>(`${BASE_PATH}${query}`, { signal })
+  },
+
+  /**
+   * Get a single schedule by ID
+   */
+  get(id: string, signal?: AbortSignal): Promise<PackageSchedule> {
+    return apiClient.get<PackageSchedule>(`${BASE_PATH}/${id}`, { signal })
+  },
+
+  /**
+   * Create a new schedule
+   */
+  create(data: CreateScheduleRequest): Promise<PackageSchedule> {
+    return apiClient.post<PackageSchedule>(BASE_PATH, data)
+  },
+
+  /**
+   * Update a schedule; pausing and resuming toggle `enabled`
+   */
+  update(id: string, data: UpdateScheduleRequest): Promise<PackageSchedule> {
+    return apiClient.patch<PackageSchedule>(`${BASE_PATH}/${id}`, data)
+  },
+
+  /**
+   * Delete a schedule
+   */
+  delete(id: string): Promise<undefined> {
+    return apiClient.delete<undefined>(`${BASE_PATH}/${id}`)
+  },
+}
+
+export default schedulesApi
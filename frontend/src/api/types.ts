@@ -10,6 +10,14 @@ export interface PaginatedResponse<T> {
   last: boolean
 }
 
+/** Items of a listing fetched across pages, up to a fixed limit */
+export interface CollectedList<T> {
+  content: T[]
+  totalElements: number
+  /** More items matched than were fetched */
+  truncated: boolean
+}
+
 // QA Package Types
 export interface QaPackage {
   id: string
@@ -38,6 +46,58 @@ export interface UpdateQaPackageRequest {
   baseUrl?: string
 }
 
+/** Spec document downloaded by the backend, which avoids CORS limits on the spec host */
+export interface FetchedSpec {
+  url: string
+  content: string
+  contentType: string | null
+}
+
+// Environment Types
+export interface PackageEnvironment {
+  id: string
+  packageId: string
+  name: string
+  /** Replaces the package base URL for runs in this environment */
+  baseUrl: string
+  /** Values for `{{name}}` placeholders in steps */
+  variables: Record<string, string>
+  /** Variable name to secret reference (e.g. `vault:qa/staging#token`), resolved by the runner */
+  secrets: Record<string, string>
+  /** Preselected when starting a run */
+  isDefault: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateEnvironmentRequest {
+  name: string
+  baseUrl: string
+  variables?: Record<string, string>
+  secrets?: Record<string, string>
+  isDefault?: boolean
+}
+
+export interface UpdateEnvironmentRequest {
+  name?: string
+  baseUrl?: string
+  variables?: Record<string, string>
+  secrets?: Record<string, string>
+  isDefault?: boolean
+}
+
+export interface StartRunRequest {
+  /** Omit to run against the package base URL */
+  environmentId?: string
+  /** Omit to run every scenario of the package */
+  scenarioIds?: string[]
+  maxConcurrency?: number
+  /** Replaces the timeout of every step */
+  stepTimeoutMs?: number
+  /** Skip the remaining scenarios after the first failure */
+  failFast?: boolean
+}
+
 // Scenario Types
 export interface Scenario {
   id: string
@@ -46,12 +106,54 @@ export interface Scenario {
   description: string | null
   steps: TestStep[]
   status: ScenarioStatus
+  /** Free-form labels such as `smoke` or `auth`, normalized to lower case */
+  tags: string[]
   createdAt: string
   updatedAt: string
 }
 
 export type ScenarioStatus = 'PENDING' | 'RUNNING' | 'PASSED' | 'FAILED' | 'SKIPPED'
 
+/** Adds and removes tags on several scenarios at once; other tags are left untouched */
+export interface BulkTagScenariosRequest {
+  scenarioIds: string[]
+  add: string[]
+  remove: string[]
+}
+
+export interface BulkTagScenariosResponse {
+  updated: number
+}
+
+/** Scenario created from an external source such as a Postman collection */
+export type ImportedScenarioRequest = Pick<Scenario, 'name' | 'description' | 'steps' | 'tags'>
+
+export interface ImportScenariosRequest {
+  packageId: string
+  scenarios: ImportedScenarioRequest[]
+}
+
+// Scenario Version Types
+export type ScenarioVersionSource = 'AI' | 'MANUAL' | 'IMPORT'
+
+/** A snapshot of a scenario, recorded each time it is generated, edited or restored */
+export interface ScenarioVersionSummary {
+  id: string
+  scenarioId: string
+  version: number
+  source: ScenarioVersionSource
+  author: string | null
+  createdAt: string
+  /** Set when this version was created by restoring an earlier one */
+  restoredFrom: number | null
+}
+
+export interface ScenarioVersion extends ScenarioVersionSummary {
+  name: string
+  description: string | null
+  steps: TestStep[]
+}
+
 export interface TestStep {
   id: string
   order: number
@@ -93,10 +195,39 @@ export interface TestRun {
   status: TestRunStatus
   startedAt: string | null
   completedAt: string | null
+  /** Environment the run targeted; null when it used the package base URL */
+  environment: RunEnvironment | null
+  /** Run whose stored scenarios this run replayed; null for regular runs */
+  replayOf: string | null
+  /** Launch options; null when the run was started with the defaults */
+  options: RunOptions | null
   scenarioResults: ScenarioResult[]
   summary: TestRunSummary
 }
 
+/** Snapshot of the environment at run start, kept even if the environment is later edited */
+export interface RunEnvironment {
+  id: string
+  name: string
+  baseUrl: string
+}
+
+export interface RunOptions {
+  /** Scenarios selected at launch; null when all of them ran */
+  scenarioIds: string[] | null
+  /** null uses the server default */
+  maxConcurrency: number | null
+  /** null keeps each step's own timeout */
+  stepTimeoutMs: number | null
+  failFast: boolean
+}
+
+/** Overrides for replaying a run's stored scenarios; omitted fields keep the original values */
+export interface ReplayRunRequest {
+  baseUrl?: string
+  variables?: Record<string, string>
+}
+
 export type TestRunStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'CANCELLED'
 
 export interface TestRunSummary {
@@ -111,6 +242,8 @@ export interface ScenarioResult {
   scenarioId: string
   scenarioName: string
   status: ScenarioStatus
+  /** Version of the scenario content that was executed; null for results recorded before versioning */
+  scenarioVersion: number | null
   stepResults: StepResult[]
   duration: number
   error: string | null
@@ -119,6 +252,8 @@ export interface ScenarioResult {
 export interface StepResult {
   stepId: string
   status: StepResultStatus
+  /** Request as sent, after placeholder resolution; null for runs recorded before it was captured */
+  request: ResolvedRequest | null
   actualStatus: number
   responseBody: string | null
   responseHeaders: Record<string, string>
@@ -130,6 +265,20 @@ export interface StepResult {
 
 export type StepResultStatus = 'PASSED' | 'FAILED' | 'SKIPPED' | 'ERROR'
 
+export interface ResolvedRequest {
+  method: HttpMethod
+  url: string
+  headers: Record<string, string>
+  body: string | null
+}
+
+export interface ReplayResponse {
+  status: number
+  headers: Record<string, string>
+  body: string | null
+  duration: number
+}
+
 export interface AssertionResult {
   assertion: StepAssertion
   passed: boolean
@@ -137,6 +286,213 @@ export interface AssertionResult {
   message: string | null
 }
 
+// Schedule Types
+export interface PackageSchedule {
+  id: string
+  packageId: string
+  name: string
+  /** Five-field cron expression, evaluated in `timezone` */
+  cronExpression: string
+  /** IANA time zone, e.g. `Europe/Berlin` */
+  timezone: string
+  enabled: boolean
+  createdAt: string
+  updatedAt: string
+  /** null until the schedule has fired once */
+  lastRun: ScheduleLastRun | null
+}
+
+export interface ScheduleLastRun {
+  /** null when the run could not be started */
+  runId: string | null
+  firedAt: string
+  outcome: ScheduleOutcome
+  error: string | null
+}
+
+export type ScheduleOutcome = 'RUNNING' | 'PASSED' | 'FAILED' | 'ERROR'
+
+export interface CreateScheduleRequest {
+  packageId: string
+  name: string
+  cronExpression: string
+  timezone: string
+  enabled?: boolean
+}
+
+export interface UpdateScheduleRequest {
+  name?: string
+  cronExpression?: string
+  timezone?: string
+  enabled?: boolean
+}
+
+// Webhook Types
+// Mirrors the backend webhook API; package scoping, the pass rate event and delivery retry
+// are the only additions on top of it
+
+/** How the backend formats deliveries for the target */
+export type WebhookType = 'SLACK' | 'GENERIC' | 'EMAIL'
+
+export type WebhookEvent =
+  | 'RUN_COMPLETED'
+  | 'RUN_FAILED'
+  | 'COVERAGE_THRESHOLD_BREACH'
+  | 'PASS_RATE_BELOW_THRESHOLD'
+
+export interface WebhookConfig {
+  id: string
+  /** Package whose runs trigger the webhook */
+  packageId: string
+  name: string
+  url: string
+  webhookType: WebhookType
+  events: WebhookEvent[]
+  /** Percentage for PASS_RATE_BELOW_THRESHOLD; null when that event is not selected */
+  passRateThreshold: number | null
+  isActive: boolean
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateWebhookRequest {
+  packageId: string
+  name: string
+  url: string
+  webhookType: WebhookType
+  events: WebhookEvent[]
+  passRateThreshold: number | null
+  /** Sent with every delivery; never returned */
+  headers?: Record<string, string>
+  /** HMAC-SHA256 signing secret, sent as the X-Webhook-Signature header; never returned */
+  secret?: string
+}
+
+/** Omitted fields keep their current value */
+export interface UpdateWebhookRequest {
+  name?: string
+  url?: string
+  events?: WebhookEvent[]
+  passRateThreshold?: number | null
+  headers?: Record<string, string>
+  secret?: string
+  isActive?: boolean
+}
+
+export type WebhookDeliveryStatus = 'PENDING' | 'SUCCESS' | 'RETRYING' | 'FAILED'
+
+export interface WebhookDelivery {
+  id: string
+  eventType: WebhookEvent
+  status: WebhookDeliveryStatus
+  attemptCount: number
+  lastAttemptAt: string | null
+  /** HTTP status of the last attempt; null when the target could not be reached */
+  responseStatus: number | null
+  errorMessage: string | null
+  createdAt: string
+  /** When the delivery succeeded or failed for good */
+  completedAt: string | null
+}
+
+export interface TestWebhookResponse {
+  message: string
+}
+
+// API Token Types
+export type ApiTokenScope = 'read' | 'run' | 'admin'
+
+/** Personal tokens act as the user who created them; service tokens belong to the workspace */
+export type ApiTokenKind = 'PERSONAL' | 'SERVICE'
+
+export interface ApiToken {
+  id: string
+  name: string
+  kind: ApiTokenKind
+  scopes: ApiTokenScope[]
+  /** Leading characters of the secret, to recognise the token in CI configuration */
+  prefix: string
+  createdBy: string | null
+  createdAt: string
+  /** null for tokens that never expire */
+  expiresAt: string | null
+  /** null until the token authenticates a request */
+  lastUsedAt: string | null
+}
+
+export interface CreateApiTokenRequest {
+  name: string
+  kind: ApiTokenKind
+  scopes: ApiTokenScope[]
+  /** null for no expiry */
+  expiresInDays: number | null
+}
+
+export interface CreateApiTokenResponse {
+  token: ApiToken
+  /** Only returned on creation; the server stores a hash */
+  secret: string
+}
+
+// User Preference Types
+export type ThemePreference = 'system' | 'dark' | 'light'
+
+/** How recent timestamps are shown: "5m ago" or the full date and time */
+export type TimeDisplay = 'relative' | 'absolute'
+
+export interface UserPreferences {
+  /** IANA time zone; null follows the browser */
+  timeZone: string | null
+  hour12: boolean
+  timeDisplay: TimeDisplay
+  /** Default page size of paginated lists */
+  pageSize: number
+  theme: ThemePreference
+  editorFontSize: number
+}
+
+// Run Event Types (Server-Sent Events)
+export type RunEventType = 'scenario-started' | 'step-finished' | 'scenario-finished' | 'run-completed'
+
+export interface ScenarioStartedEvent {
+  type: 'scenario-started'
+  runId: string
+  scenarioId: string
+  scenarioName: string
+}
+
+export interface StepFinishedEvent {
+  type: 'step-finished'
+  runId: string
+  scenarioId: string
+  stepResult: StepResult
+}
+
+export interface ScenarioFinishedEvent {
+  type: 'scenario-finished'
+  runId: string
+  scenarioResult: ScenarioResult
+}
+
+export interface RunCompletedEvent {
+  type: 'run-completed'
+  runId: string
+  run: TestRun
+}
+
+export type RunEvent =
+  | ScenarioStartedEvent
+  | StepFinishedEvent
+  | ScenarioFinishedEvent
+  | RunCompletedEvent
+
+/** Single-use credential for opening a run's event stream */
+export interface RunStreamTicket {
+  ticket: string
+  expiresAt: string
+}
+
 // Error Response
 export interface ApiErrorResponse {
   message: string
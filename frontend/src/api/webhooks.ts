@@ -0,0 +1,68 @@
+import apiClient from './client'
+import type {
+  CreateWebhookRequest,
+  TestWebhookResponse,
+  UpdateWebhookRequest,
+  WebhookConfig,
+  WebhookDelivery,
+} from './types'
+
+const BASE_PATH = '/api/webhooks'
+
+export interface ListWebhooksParams {
+  packageId?: string | undefined
+}
+
+export const webhooksApi = {
+  /**
+   * List webhook targets, optionally for a single package
+   */
+  list(params: ListWebhooksParams = {}, signal?: AbortSignal): Promise<WebhookConfig[]> {
+    const query = params.packageId ? `?packageId=${encodeURIComponent(params.packageId)}` : ''
+    return apiClient.get<WebhookConfig[]>(`${BASE_PATH}${query}`, { signal })
+  },
+
+  /**
+   * Create a webhook target
+   */
+  create(data: CreateWebhookRequest): Promise<WebhookConfig> {
+    return apiClient.post<WebhookConfig>(BASE_PATH, data)
+  },
+
+  /**
+   * Update a webhook target; disabling and enabling toggle `isActive`
+   */
+  update(id: string, data: UpdateWebhookRequest): Promise<WebhookConfig> {
+    return apiClient.patch<WebhookConfig>(`${BASE_PATH}/${id}`, data)
+  },
+
+  /**
+   * Delete a webhook target and its delivery log
+   */
+  delete(id: string): Promise<undefined> {
+    return apiClient.delete<undefined>(`${BASE_PATH}/${id}`)
+  },
+
+  /**
+   * Queue a test RUN_COMPLETED delivery; it shows up in the delivery log
+   */
+  sendTest(id: string): Promise<TestWebhookResponse> {
+    return apiClient.post<TestWebhookResponse>(`${BASE_PATH}/${id}/test`)
+  },
+
+  /**
+   * List recent deliveries of a webhook, newest first
+   */
+  listDeliveries(id: string, signal?: AbortSignal): Promise<WebhookDelivery[]> {
+    return apiClient.get<WebhookDelivery[]>(`${BASE_PATH}/${id}/deliveries`, { signal })
+  },
+
+  /**
+   * Queue a failed delivery for another attempt
+   */
+  retryDelivery(id: string, deliveryId: string): Promise<WebhookDelivery> {
+    return apiClient.post<WebhookDelivery>(`${BASE_PATH}/${id}/deliveries/${deliveryId}/retry`)
+  },
+}
+
+export default webhooksApi
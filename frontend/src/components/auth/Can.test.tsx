@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { Can } from './Can'
+import { usePermission } from '@/lib/auth'
+
+const auth = vi.hoisted(() => ({ roles: [] as string[] }))
+
+vi.mock('@/lib/auth/useAuth', () => ({
+  useAuth: () => ({ user: { roles: auth.roles } }),
+}))
+
+function PackageActions() {
+  const canEdit = usePermission('package:edit')
+  return (
+    <div>
+      <Can permission="package:delete">
+        <button>Delete Package</button>
+      </Can>
+      <Can permission={['scenario:generate', 'run:start']}>
+        <button>Generate and Run</button>
+      </Can>
+      <Can permission="run:cancel" fallback={<span>Read-only</span>}>
+        <button>Cancel Run</button>
+      </Can>
+      <Can permission="run:export">
+        <button>Export</button>
+      </Can>
+      <input aria-label="Package name" readOnly={!canEdit} />
+    </div>
+  )
+}
+
+describe.each([
+  { persona: 'Admin', roles: ['admin', 'tester', 'viewer'], canDelete: true, canWrite: true },
+  { persona: 'QA Engineer', roles: ['tester', 'viewer'], canDelete: false, canWrite: true },
+  { persona: 'Viewer', roles: ['viewer'], canDelete: false, canWrite: false },
+])('$persona', ({ roles, canDelete, canWrite }) => {
+  it('only offers the actions the role allows', () => {
+    auth.roles = roles
+    render(<PackageActions />)
+
+    expect(screen.queryByRole('button', { name: 'Delete Package' }) !== null).toBe(canDelete)
+    expect(screen.queryByRole('button', { name: 'Generate and Run' }) !== null).toBe(canWrite)
+    expect(screen.queryByRole('button', { name: 'Cancel Run' }) !== null).toBe(canWrite)
+    expect(screen.queryByText('Read-only') !== null).toBe(!canWrite)
+    expect(screen.getByRole('button', { name: 'Export' })).toBeInTheDocument()
+    expect(screen.getByLabelText('Package name').hasAttribute('readonly')).toBe(!canWrite)
+  })
+})
+
+describe('without a session', () => {
+  it('renders only fallbacks', () => {
+    auth.roles = []
+    render(<PackageActions />)
+
+    expect(screen.queryByRole('button', { name: 'Export' })).not.toBeInTheDocument()
+    expect(screen.getByText('Read-only')).toBeInTheDocument()
+  })
+})
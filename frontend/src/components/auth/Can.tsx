@@ -0,0 +1,15 @@
+import type { ReactNode } from 'react'
+import { usePermission, type Permission } from '@/lib/auth'
+
+interface CanProps {
+  /** With a list, every permission is required */
+  permission: Permission | readonly Permission[]
+  children: ReactNode
+  /** Rendered instead of the children when the permission is missing */
+  fallback?: ReactNode
+}
+
+export function Can({ permission, children, fallback = null }: CanProps) {
+  const allowed = usePermission(permission)
+  return <>{allowed ? children : fallback}</>
+}
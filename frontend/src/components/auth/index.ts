@@ -1 +1,2 @@
 export { AuthGuard, withAuthGuard } from './AuthGuard'
+export { Can } from './Can'
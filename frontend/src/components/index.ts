@@ -2,3 +2,6 @@ export * from './layouts'
 export * from './auth'
 export * from './ui'
 export * from './packages'
+export * from './schedules'
+export * from './settings'
+export * from './notifications'
@@ -1,6 +1,8 @@
 import { useState, type ReactNode } from 'react'
 import { Link } from '@tanstack/react-router'
 import { useAuth } from '@/lib/auth'
+import { WorkspaceSwitcher } from './WorkspaceSwitcher'
+import { NotificationBell } from './NotificationBell'
 
 interface MainLayoutProps {
   children: ReactNode
@@ -33,6 +35,20 @@ export function MainLayout({ children }: MainLayoutProps) {
               >
                 Scenarios
               </Link>
+              <Link
+                to="/analytics"
+                className="nav-link"
+                activeProps={{ className: 'nav-link active' }}
+              >
+                Analytics
+              </Link>
+              <Link
+                to="/schedules"
+                className="nav-link"
+                activeProps={{ className: 'nav-link active' }}
+              >
+                Schedules
+              </Link>
               <Link
                 to="/settings"
                 className="nav-link"
@@ -42,6 +58,10 @@ export function MainLayout({ children }: MainLayoutProps) {
               </Link>
             </div>
 
+            <WorkspaceSwitcher />
+
+            {isAuthenticated && <NotificationBell />}
+
             {/* User Menu */}
             {isAuthenticated && user && (
               <div className="relative">
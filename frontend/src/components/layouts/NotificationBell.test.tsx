@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { NotificationBell } from './NotificationBell'
+import { NotificationProvider, useNotifications } from '@/lib/notifications'
+import { WorkspaceProvider, setCurrentWorkspaceId } from '@/lib/workspace'
+import { renderWithQuery } from '@/test/test-utils'
+import { mockPackage, mockTestRun } from '@/test/mocks'
+
+const navigate = vi.hoisted(() => vi.fn())
+
+vi.mock('@tanstack/react-router', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@tanstack/react-router')>()),
+  useNavigate: () => navigate,
+}))
+
+vi.mock('@/lib/auth', () => ({
+  useAuth: () => ({
+    user: { id: 'user-1', workspaces: [{ id: 'payments', name: 'Payments' }] },
+  }),
+}))
+
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+class FakeNotification {
+  static permission: NotificationPermission = 'default'
+  static requestPermission = vi.fn(() => {
+    FakeNotification.permission = 'granted'
+    return Promise.resolve(FakeNotification.permission)
+  })
+  static shown: FakeNotification[] = []
+  onclick: (() => void) | null = null
+  close = vi.fn()
+
+  constructor(
+    readonly title: string,
+    readonly options: NotificationOptions
+  ) {
+    FakeNotification.shown.push(this)
+  }
+}
+
+function StartRun() {
+  const { watchRun, watchGeneration } = useNotifications()
+  return (
+    <>
+      <button
+        onClick={() => {
+          watchRun({ ...mockTestRun, status: 'RUNNING' }, mockPackage.name)
+        }}
+      >
+        Start run
+      </button>
+      <button
+        onClick={() => {
+          watchGeneration({ ...mockPackage, status: 'GENERATING' })
+        }}
+      >
+        Generate
+      </button>
+    </>
+  )
+}
+
+const renderCenter = () =>
+  renderWithQuery(
+    <WorkspaceProvider>
+      <NotificationProvider>
+        <StartRun />
+        <NotificationBell />
+      </NotificationProvider>
+    </WorkspaceProvider>
+  )
+
+describe('NotificationBell', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    FakeNotification.permission = 'default'
+    FakeNotification.shown = []
+    vi.stubGlobal('Notification', FakeNotification)
+    vi.spyOn(globalThis, 'fetch').mockImplementation((input) =>
+      Promise.resolve(
+        jsonResponse((input as string).includes('/runs/') ? mockTestRun : mockPackage)
+      )
+    )
+  })
+
+  afterEach(() => {
+    setCurrentWorkspaceId(null)
+    vi.unstubAllGlobals()
+    vi.mocked(globalThis.fetch).mockRestore()
+    navigate.mockReset()
+  })
+
+  it('lists finished runs and generations as unread and deep links into the run', async () => {
+    const user = userEvent.setup()
+    renderCenter()
+
+    await user.click(screen.getByRole('button', { name: 'Start run' }))
+    await user.click(screen.getByRole('button', { name: 'Generate' }))
+
+    await user.click(await screen.findByRole('button', { name: 'Notifications (2 unread)' }))
+    const center = screen.getByRole('dialog', { name: 'Notification center' })
+    expect(within(center).getByText('Scenarios generated')).toBeInTheDocument()
+    expect(within(center).getByText('Test API Package is ready to run')).toBeInTheDocument()
+    expect(within(center).getByText('Test API Package: 1/2 scenarios passed')).toBeInTheDocument()
+
+    await user.click(within(center).getByRole('button', { name: /Run failed/ }))
+
+    expect(navigate).toHaveBeenCalledWith({ to: '/runs/$runId', params: { runId: 'run-1' } })
+    expect(screen.getByRole('button', { name: 'Notifications (1 unread)' })).toBeInTheDocument()
+  })
+
+  it('keeps the read state across sessions', async () => {
+    const user = userEvent.setup()
+    const { unmount } = renderCenter()
+
+    await user.click(screen.getByRole('button', { name: 'Start run' }))
+    await user.click(await screen.findByRole('button', { name: 'Notifications (1 unread)' }))
+    await user.click(screen.getByRole('button', { name: 'Mark all read' }))
+    unmount()
+
+    renderCenter()
+    await user.click(screen.getByRole('button', { name: 'Notifications' }))
+    expect(screen.getByRole('button', { name: /Run failed/ })).not.toHaveTextContent('unread')
+  })
+
+  it('raises a browser notification once the user opts in', async () => {
+    const user = userEvent.setup()
+    renderCenter()
+
+    await user.click(screen.getByRole('button', { name: 'Notifications' }))
+    await user.click(screen.getByRole('checkbox', { name: 'Browser alerts when my runs finish' }))
+    expect(FakeNotification.requestPermission).toHaveBeenCalled()
+    expect(
+      screen.getByRole('checkbox', { name: 'Browser alerts when my runs finish' })
+    ).toBeChecked()
+
+    await user.click(screen.getByRole('button', { name: 'Start run' }))
+    await screen.findByRole('button', { name: 'Notifications (1 unread)' })
+
+    expect(FakeNotification.shown).toHaveLength(1)
+    const [alert] = FakeNotification.shown
+    expect(alert?.title).toBe('Run failed')
+    expect(alert?.options.body).toBe('Test API Package: 1/2 scenarios passed')
+
+    alert?.onclick?.()
+    expect(navigate).toHaveBeenCalledWith({ to: '/runs/$runId', params: { runId: 'run-1' } })
+  })
+})
@@ -0,0 +1,171 @@
+import { useState } from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import { useNotifications, type AppNotification } from '@/lib/notifications'
+import { useDateFormat } from '@/lib/preferences'
+import { useWorkspace } from '@/lib/workspace'
+
+export function NotificationBell() {
+  const {
+    notifications,
+    unreadCount,
+    markRead,
+    markAllRead,
+    clearNotifications,
+    browserAlerts,
+    browserPermission,
+    setBrowserAlerts,
+  } = useNotifications()
+  const { currentWorkspace, workspaces, switchWorkspace } = useWorkspace()
+  const { formatTimestamp } = useDateFormat()
+  const navigate = useNavigate()
+  const [isOpen, setIsOpen] = useState(false)
+
+  const openNotification = (notification: AppNotification) => {
+    markRead(notification.id)
+    setIsOpen(false)
+    // Events of another workspace link to records that only exist there
+    if (
+      notification.workspaceId &&
+      notification.workspaceId !== currentWorkspace?.id &&
+      workspaces.some((workspace) => workspace.id === notification.workspaceId)
+    ) {
+      switchWorkspace(notification.workspaceId)
+    }
+    if (notification.runId) {
+      void navigate({ to: '/runs/$runId', params: { runId: notification.runId } })
+    } else {
+      void navigate({ to: '/packages/$packageId', params: { packageId: notification.packageId } })
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => {
+          setIsOpen((prev) => !prev)
+        }}
+        className="relative p-2 rounded-lg text-secondary-300 hover:bg-secondary-800 hover:text-white transition-colors"
+        aria-label={
+          unreadCount > 0 ? `Notifications (${String(unreadCount)} unread)` : 'Notifications'
+        }
+        aria-expanded={isOpen}
+      >
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+          />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-primary-600 text-white text-xs font-medium flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <div
+            className="fixed inset-0 z-10"
+            onClick={() => {
+              setIsOpen(false)
+            }}
+          />
+
+          <div
+            className="absolute right-0 mt-2 w-80 bg-secondary-800 border border-secondary-700 rounded-lg shadow-lg z-20"
+            role="dialog"
+            aria-label="Notification center"
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-secondary-700">
+              <p className="text-sm text-white font-medium">Notifications</p>
+              {unreadCount > 0 && (
+                <button
+                  onClick={markAllRead}
+                  className="text-xs text-primary-400 hover:text-primary-300"
+                >
+                  Mark all read
+                </button>
+              )}
+            </div>
+
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-secondary-400 text-center">
+                Runs and scenario generation you start will show up here when they finish.
+              </p>
+            ) : (
+              <ul className="max-h-96 overflow-y-auto divide-y divide-secondary-700">
+                {notifications.map((notification) => (
+                  <li key={notification.id}>
+                    <button
+                      onClick={() => {
+                        openNotification(notification)
+                      }}
+                      className={`w-full text-left px-4 py-3 flex gap-3 hover:bg-secondary-700 transition-colors ${
+                        notification.read ? '' : 'bg-secondary-700/40'
+                      }`}
+                    >
+                      <span
+                        className={`mt-1.5 w-2 h-2 shrink-0 rounded-full ${
+                          notification.failed ? 'bg-red-500' : 'bg-green-500'
+                        }`}
+                        aria-hidden="true"
+                      />
+                      <span className="min-w-0 flex-1">
+                        <span
+                          className={`block text-sm ${
+                            notification.read ? 'text-secondary-300' : 'text-white font-medium'
+                          }`}
+                        >
+                          {notification.title}
+                          {!notification.read && <span className="sr-only"> (unread)</span>}
+                        </span>
+                        <span className="block text-xs text-secondary-400 truncate">
+                          {notification.message}
+                        </span>
+                        <span className="block text-xs text-secondary-500 mt-0.5">
+                          {formatTimestamp(notification.createdAt)}
+                        </span>
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="px-4 py-3 border-t border-secondary-700 space-y-2">
+              <label className="flex items-center gap-2 text-sm text-secondary-300">
+                <input
+                  type="checkbox"
+                  checked={browserAlerts}
+                  disabled={browserPermission === 'unsupported' || browserPermission === 'denied'}
+                  onChange={(e) => {
+                    void setBrowserAlerts(e.target.checked)
+                  }}
+                  className="rounded border-secondary-600 bg-secondary-800 text-primary-600 focus:ring-primary-500"
+                />
+                Browser alerts when my runs finish
+              </label>
+              {browserPermission === 'denied' && (
+                <p className="text-xs text-secondary-500">
+                  Notifications are blocked for this site in the browser settings.
+                </p>
+              )}
+              {notifications.length > 0 && (
+                <button
+                  onClick={clearNotifications}
+                  className="text-xs text-secondary-400 hover:text-white"
+                >
+                  Clear all
+                </button>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+import { useNavigate } from '@tanstack/react-router'
+import { useWorkspace } from '@/lib/workspace'
+
+export function WorkspaceSwitcher() {
+  const { workspaces, currentWorkspace, switchWorkspace } = useWorkspace()
+  const navigate = useNavigate()
+
+  if (!currentWorkspace) return null
+
+  if (workspaces.length === 1) {
+    return (
+      <span className="text-sm text-secondary-300" title="Workspace">
+        {currentWorkspace.name}
+      </span>
+    )
+  }
+
+  return (
+    <select
+      value={currentWorkspace.id}
+      onChange={(e) => {
+        switchWorkspace(e.target.value)
+        // Records open in the previous workspace do not exist in the new one
+        void navigate({ to: '/packages' })
+      }}
+      className="px-3 py-1.5 bg-secondary-800 border border-secondary-700 rounded-lg text-white text-sm focus:outline-none focus:border-primary-500 transition-colors"
+      aria-label="Workspace"
+    >
+      {workspaces.map((workspace) => (
+        <option key={workspace.id} value={workspace.id}>
+          {workspace.name}
+        </option>
+      ))}
+    </select>
+  )
+}
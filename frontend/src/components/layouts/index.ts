@@ -1 +1,3 @@
 export { MainLayout } from './MainLayout'
+export { WorkspaceSwitcher } from './WorkspaceSwitcher'
+export { NotificationBell } from './NotificationBell'
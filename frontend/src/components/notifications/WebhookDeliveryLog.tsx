@@ -0,0 +1,105 @@
+import { Can } from '@/components/auth'
+import { Skeleton } from '@/components/ui'
+import { useRetryWebhookDelivery, useWebhookDeliveries } from '@/hooks'
+import { WEBHOOK_EVENT_LABELS, WEBHOOK_MAX_ATTEMPTS } from '@/lib/notifications'
+import { useDateFormat } from '@/lib/preferences'
+import type { WebhookDeliveryStatus } from '@/api/types'
+
+interface WebhookDeliveryLogProps {
+  webhookId: string
+}
+
+const statusStyles: Record<WebhookDeliveryStatus, string> = {
+  PENDING: 'bg-blue-500/10 text-blue-500',
+  SUCCESS: 'bg-green-500/10 text-green-500',
+  RETRYING: 'bg-orange-500/10 text-orange-500',
+  FAILED: 'bg-red-500/10 text-red-500',
+}
+
+export function WebhookDeliveryLog({ webhookId }: WebhookDeliveryLogProps) {
+  const { data: deliveries, isLoading, isError, error } = useWebhookDeliveries(webhookId)
+  const retryDelivery = useRetryWebhookDelivery(webhookId)
+  const { formatDateTime } = useDateFormat()
+
+  if (isLoading) {
+    return <Skeleton className="h-16" />
+  }
+
+  if (isError) {
+    return <p className="text-sm text-red-500">Failed to load deliveries: {error.message}</p>
+  }
+
+  if (!deliveries || deliveries.length === 0) {
+    return <p className="text-sm text-secondary-400">No deliveries yet</p>
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm" aria-label="Delivery log">
+        <thead>
+          <tr className="text-left text-secondary-500">
+            <th className="py-2 font-medium">Time</th>
+            <th className="py-2 font-medium">Event</th>
+            <th className="py-2 font-medium">Status</th>
+            <th className="py-2 font-medium">Attempts</th>
+            <th className="py-2 font-medium">Response</th>
+            <th className="py-2" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-secondary-700">
+          {deliveries.map((delivery) => (
+            <tr key={delivery.id}>
+              <td className="py-2 text-secondary-300 whitespace-nowrap">
+                {formatDateTime(delivery.createdAt, { seconds: true })}
+              </td>
+              <td className="py-2 text-secondary-300">
+                {WEBHOOK_EVENT_LABELS[delivery.eventType]}
+              </td>
+              <td className="py-2">
+                <span
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[delivery.status]}`}
+                >
+                  {delivery.status}
+                </span>
+                {delivery.status === 'RETRYING' && delivery.lastAttemptAt && (
+                  <div className="text-xs text-secondary-500 mt-1">
+                    Last attempt {formatDateTime(delivery.lastAttemptAt, { seconds: true })}
+                  </div>
+                )}
+              </td>
+              <td className="py-2 text-secondary-300">
+                {delivery.attemptCount}/{WEBHOOK_MAX_ATTEMPTS}
+              </td>
+              <td className="py-2 text-secondary-300">
+                {delivery.responseStatus !== null && (
+                  <code className="font-mono">HTTP {delivery.responseStatus}</code>
+                )}
+                {delivery.errorMessage && (
+                  <div className="text-xs text-red-400 break-all">{delivery.errorMessage}</div>
+                )}
+              </td>
+              <td className="py-2 text-right">
+                {delivery.status === 'FAILED' && (
+                  <Can permission="notification:manage">
+                    <button
+                      onClick={() => {
+                        retryDelivery.mutate(delivery.id)
+                      }}
+                      disabled={retryDelivery.isPending}
+                      className="btn btn-ghost text-xs disabled:opacity-50"
+                    >
+                      Retry
+                    </button>
+                  </Can>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {retryDelivery.isError && (
+        <p className="mt-2 text-sm text-red-500">Retry failed: {retryDelivery.error.message}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,451 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Modal } from '@/components/ui/Modal'
+import { JsonViewer } from '@/components/ui'
+import { useCreateWebhook, useUpdateWebhook } from '@/hooks'
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_TYPE_LABELS,
+  buildWebhookPayload,
+  createSampleRun,
+  getTriggeredEvents,
+  isWebhookUrl,
+  parseWebhookHeaders,
+} from '@/lib/notifications'
+import type { QaPackage, TestRun, WebhookConfig, WebhookEvent, WebhookType } from '@/api/types'
+
+interface WebhookFormModalProps {
+  isOpen: boolean
+  onClose: () => void
+  pkg: Pick<QaPackage, 'id' | 'name'>
+  /** Webhook to edit; creates a new one when omitted */
+  webhook?: WebhookConfig | undefined
+  /** Finished run the payload preview is built from; a sample run is used without one */
+  previewRun?: TestRun | undefined
+}
+
+interface FormData {
+  name: string
+  url: string
+  webhookType: WebhookType
+  events: WebhookEvent[]
+  passRateThreshold: string
+  headers: string
+  secret: string
+  isActive: boolean
+}
+
+const DEFAULT_THRESHOLD = 90
+
+// Email targets have no URL to POST to, so the form only creates HTTP ones
+const NEW_WEBHOOK_TYPES: WebhookType[] = ['GENERIC', 'SLACK']
+
+const toFormData = (webhook: WebhookConfig | undefined): FormData => ({
+  name: webhook?.name ?? '',
+  url: webhook?.url ?? '',
+  webhookType: webhook?.webhookType ?? 'GENERIC',
+  events: webhook?.events ?? ['RUN_FAILED'],
+  passRateThreshold: String(webhook?.passRateThreshold ?? DEFAULT_THRESHOLD),
+  headers: '',
+  secret: '',
+  isActive: webhook?.isActive ?? true,
+})
+
+const isPreviewEvent = (event: WebhookEvent) =>
+  WEBHOOK_EVENTS.some((option) => option.event === event)
+
+export function WebhookFormModal({
+  isOpen,
+  onClose,
+  pkg,
+  webhook,
+  previewRun,
+}: WebhookFormModalProps) {
+  const createWebhook = useCreateWebhook()
+  const updateWebhook = useUpdateWebhook()
+  const mutation = webhook ? updateWebhook : createWebhook
+
+  const [formData, setFormData] = useState<FormData>(() => toFormData(webhook))
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [previewEvent, setPreviewEvent] = useState<WebhookEvent>('RUN_FAILED')
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(toFormData(webhook))
+      setErrors({})
+      setPreviewEvent(webhook?.events.find(isPreviewEvent) ?? 'RUN_FAILED')
+      createWebhook.reset()
+      updateWebhook.reset()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- mutation reset is stable, but object reference changes
+  }, [isOpen, webhook])
+
+  const hasThreshold = formData.events.includes('PASS_RATE_BELOW_THRESHOLD')
+  const threshold = Number(formData.passRateThreshold)
+  const headers = parseWebhookHeaders(formData.headers)
+  const run = useMemo(() => previewRun ?? createSampleRun(pkg.id), [previewRun, pkg.id])
+
+  const payload = useMemo(
+    () => buildWebhookPayload(previewEvent, run, pkg),
+    [previewEvent, run, pkg]
+  )
+  const triggered = useMemo(
+    () =>
+      previewRun
+        ? getTriggeredEvents(previewRun, {
+            events: formData.events,
+            passRateThreshold: hasThreshold ? threshold : null,
+          })
+        : null,
+    [previewRun, formData.events, hasThreshold, threshold]
+  )
+
+  const updateField = <K extends keyof FormData>(field: K, value: FormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors((prev) => {
+        const { [field]: _, ...rest } = prev
+        return rest
+      })
+    }
+  }
+
+  const toggleEvent = (event: WebhookEvent) => {
+    updateField(
+      'events',
+      formData.events.includes(event)
+        ? formData.events.filter((e) => e !== event)
+        : [...formData.events, event]
+    )
+  }
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {}
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required'
+    }
+    if (!isWebhookUrl(formData.url.trim())) {
+      newErrors.url = 'Enter an http:// or https:// URL'
+    }
+    if (formData.events.length === 0) {
+      newErrors.events = 'Select at least one event'
+    }
+    if (hasThreshold && !(Number.isFinite(threshold) && threshold > 0 && threshold <= 100)) {
+      newErrors.passRateThreshold = 'Enter a percentage between 1 and 100'
+    }
+    if (!headers) {
+      newErrors.headers = 'Enter one "Name: value" header per line'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validate()) return
+
+    // Headers and the secret are never returned, so empty fields keep the current ones
+    const data = {
+      name: formData.name.trim(),
+      url: formData.url.trim(),
+      events: formData.events,
+      passRateThreshold: hasThreshold ? threshold : null,
+      ...(headers && Object.keys(headers).length > 0 ? { headers } : {}),
+      ...(formData.secret ? { secret: formData.secret } : {}),
+    }
+
+    try {
+      if (webhook) {
+        await updateWebhook.mutateAsync({
+          id: webhook.id,
+          data: { ...data, isActive: formData.isActive },
+        })
+      } else {
+        await createWebhook.mutateAsync({
+          ...data,
+          packageId: pkg.id,
+          webhookType: formData.webhookType,
+        })
+      }
+      onClose()
+    } catch (error) {
+      console.error('Failed to save webhook:', error)
+    }
+  }
+
+  const inputClassName = (fieldName: string) =>
+    `w-full px-4 py-2 bg-secondary-800 border rounded-lg text-white placeholder-secondary-500 focus:outline-none transition-colors ${
+      errors[fieldName]
+        ? 'border-red-500 focus:border-red-500'
+        : 'border-secondary-700 focus:border-primary-500'
+    }`
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={webhook ? 'Edit Webhook' : 'New Webhook'}
+      size="xl"
+    >
+      <form
+        onSubmit={(e) => {
+          void handleSubmit(e)
+        }}
+        className="space-y-5"
+      >
+        {/* Name */}
+        <div>
+          <label htmlFor="webhook-name" className="block text-sm font-medium text-white mb-2">
+            Name <span className="text-red-500">*</span>
+          </label>
+          <input
+            id="webhook-name"
+            type="text"
+            value={formData.name}
+            onChange={(e) => {
+              updateField('name', e.target.value)
+            }}
+            placeholder="Team Slack relay"
+            className={inputClassName('name')}
+            autoFocus
+          />
+          {errors.name && <p className="mt-1 text-sm text-red-500">{errors.name}</p>}
+        </div>
+
+        {/* URL */}
+        <div>
+          <label htmlFor="webhook-url" className="block text-sm font-medium text-white mb-2">
+            Target URL <span className="text-red-500">*</span>
+          </label>
+          <input
+            id="webhook-url"
+            type="url"
+            value={formData.url}
+            onChange={(e) => {
+              updateField('url', e.target.value)
+            }}
+            placeholder="https://hooks.example.com/qawave"
+            className={`${inputClassName('url')} font-mono`}
+          />
+          {errors.url && <p className="mt-1 text-sm text-red-500">{errors.url}</p>}
+          <p className="mt-1 text-xs text-secondary-500">
+            Locally, <code>http://webhook-capture:8080/qawave</code> logs every delivery (docker
+            compose profile <code>debug</code>)
+          </p>
+        </div>
+
+        {/* Type */}
+        <div>
+          <label htmlFor="webhook-type" className="block text-sm font-medium text-white mb-2">
+            Format
+          </label>
+          <select
+            id="webhook-type"
+            value={formData.webhookType}
+            onChange={(e) => {
+              const type = NEW_WEBHOOK_TYPES.find((option) => option === e.target.value)
+              if (type) updateField('webhookType', type)
+            }}
+            disabled={webhook !== undefined}
+            className={`${inputClassName('webhookType')} max-w-48 disabled:opacity-50`}
+          >
+            {(webhook ? [webhook.webhookType] : NEW_WEBHOOK_TYPES).map((type) => (
+              <option key={type} value={type}>
+                {WEBHOOK_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          {webhook && (
+            <p className="mt-1 text-xs text-secondary-500">
+              The format is fixed once the webhook exists
+            </p>
+          )}
+        </div>
+
+        {/* Events */}
+        <fieldset>
+          <legend className="block text-sm font-medium text-white mb-2">
+            Events <span className="text-red-500">*</span>
+          </legend>
+          <div className="space-y-2">
+            {WEBHOOK_EVENTS.map((option) => (
+              <label key={option.event} className="flex items-start gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={formData.events.includes(option.event)}
+                  onChange={() => {
+                    toggleEvent(option.event)
+                  }}
+                  className="mt-0.5 w-4 h-4 rounded border-secondary-600 bg-secondary-700 text-primary-500"
+                />
+                <span>
+                  <span className="text-white">{option.label}</span>
+                  <span className="block text-secondary-400">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          {errors.events && <p className="mt-1 text-sm text-red-500">{errors.events}</p>}
+        </fieldset>
+
+        {/* Threshold */}
+        {hasThreshold && (
+          <div>
+            <label
+              htmlFor="webhook-threshold"
+              className="block text-sm font-medium text-white mb-2"
+            >
+              Pass Rate Threshold (%)
+            </label>
+            <input
+              id="webhook-threshold"
+              type="number"
+              min={1}
+              max={100}
+              value={formData.passRateThreshold}
+              onChange={(e) => {
+                updateField('passRateThreshold', e.target.value)
+              }}
+              className={`${inputClassName('passRateThreshold')} max-w-32`}
+            />
+            {errors.passRateThreshold && (
+              <p className="mt-1 text-sm text-red-500">{errors.passRateThreshold}</p>
+            )}
+          </div>
+        )}
+
+        {/* Headers */}
+        <div>
+          <label htmlFor="webhook-headers" className="block text-sm font-medium text-white mb-2">
+            Headers
+          </label>
+          <textarea
+            id="webhook-headers"
+            rows={2}
+            value={formData.headers}
+            onChange={(e) => {
+              updateField('headers', e.target.value)
+            }}
+            placeholder={
+              webhook ? 'Leave empty to keep the current headers' : 'Authorization: Bearer ...'
+            }
+            className={`${inputClassName('headers')} font-mono text-sm`}
+          />
+          {errors.headers && <p className="mt-1 text-sm text-red-500">{errors.headers}</p>}
+          <p className="mt-1 text-xs text-secondary-500">
+            One header per line, sent with every delivery
+          </p>
+        </div>
+
+        {/* Secret */}
+        <div>
+          <label htmlFor="webhook-secret" className="block text-sm font-medium text-white mb-2">
+            Signing Secret
+          </label>
+          <input
+            id="webhook-secret"
+            type="password"
+            autoComplete="off"
+            value={formData.secret}
+            onChange={(e) => {
+              updateField('secret', e.target.value)
+            }}
+            placeholder={webhook ? 'Leave empty to keep the current secret' : 'Optional'}
+            className={inputClassName('secret')}
+          />
+          <p className="mt-1 text-xs text-secondary-500">
+            Deliveries carry an HMAC-SHA256 of the body in the <code>X-Webhook-Signature</code>{' '}
+            header
+          </p>
+        </div>
+
+        {/* Enabled; new webhooks always start enabled */}
+        {webhook && (
+          <label className="flex items-center gap-2 text-sm text-secondary-300">
+            <input
+              type="checkbox"
+              checked={formData.isActive}
+              onChange={(e) => {
+                updateField('isActive', e.target.checked)
+              }}
+              className="w-4 h-4 rounded border-secondary-600 bg-secondary-700 text-primary-500"
+            />
+            Enabled
+          </label>
+        )}
+
+        {/* Payload preview */}
+        <div className="p-4 bg-secondary-800/50 rounded-lg" data-testid="webhook-preview">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <h3 className="text-sm font-medium text-white">
+              Payload preview{previewRun ? ' (latest run)' : ' (sample run)'}
+            </h3>
+            <select
+              value={previewEvent}
+              onChange={(e) => {
+                const option = WEBHOOK_EVENTS.find((o) => o.event === e.target.value)
+                if (option) setPreviewEvent(option.event)
+              }}
+              className="input text-sm"
+              aria-label="Preview event"
+            >
+              {WEBHOOK_EVENTS.map((option) => (
+                <option key={option.event} value={option.event}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {formData.webhookType === 'SLACK' && (
+            <p className="mb-2 text-xs text-secondary-400">
+              Slack targets receive this payload inside a message block.
+            </p>
+          )}
+          {triggered && (
+            <p className="mb-2 text-xs text-secondary-400">
+              {triggered.length === 0
+                ? 'The latest run would not have triggered this webhook.'
+                : `The latest run would have sent: ${triggered
+                    .map((event) => WEBHOOK_EVENT_LABELS[event])
+                    .join(', ')}`}
+            </p>
+          )}
+          <JsonViewer data={payload} className="max-h-64 overflow-y-auto" />
+        </div>
+
+        {/* Error message */}
+        {mutation.isError && (
+          <div className="p-4 bg-red-500/10 border border-red-500/50 rounded-lg">
+            <p className="text-red-500 text-sm">
+              {mutation.error instanceof Error
+                ? mutation.error.message
+                : 'Failed to save webhook. Please try again.'}
+            </p>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-end gap-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={mutation.isPending}
+            className="btn btn-ghost"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={mutation.isPending}
+            className="btn btn-primary disabled:opacity-50"
+          >
+            {mutation.isPending ? 'Saving...' : webhook ? 'Save Changes' : 'Create Webhook'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
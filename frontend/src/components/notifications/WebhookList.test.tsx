@@ -0,0 +1,185 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { WebhookList } from './WebhookList'
+import { WebhookFormModal } from './WebhookFormModal'
+import { renderWithQuery } from '@/test/test-utils'
+import { mockTestRun, mockWebhook, mockWebhookDelivery } from '@/test/mocks'
+import type { WebhookDelivery } from '@/api/types'
+
+vi.mock('@/lib/auth/useAuth', () => ({
+  useAuth: () => ({ user: { roles: ['tester'] } }),
+}))
+
+const pkg = { id: 'pkg-1', name: 'Users API' }
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+/**
+ * Stands in for the backend and a capture target: test events and retries are recorded as
+ * successful deliveries and show up in the delivery log
+ */
+function mockCaptureBackend(initial: WebhookDelivery[] = []) {
+  const deliveries = [...initial]
+  const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation((input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+    const method = init?.method ?? 'GET'
+    const delivered = (eventType: WebhookDelivery['eventType']): WebhookDelivery => ({
+      ...mockWebhookDelivery,
+      id: `delivery-${String(deliveries.length + 1)}`,
+      eventType,
+      status: 'SUCCESS',
+      attemptCount: 1,
+      responseStatus: 200,
+      errorMessage: null,
+    })
+
+    if (method === 'POST' && url.endsWith('/test')) {
+      deliveries.unshift(delivered('RUN_COMPLETED'))
+      return Promise.resolve(jsonResponse({ message: 'Test event queued' }, 202))
+    }
+    if (method === 'POST' && url.endsWith('/retry')) {
+      const delivery = delivered('RUN_FAILED')
+      deliveries.unshift(delivery)
+      return Promise.resolve(jsonResponse(delivery, 202))
+    }
+    if (url.endsWith('/deliveries')) {
+      return Promise.resolve(jsonResponse(deliveries))
+    }
+    return Promise.resolve(jsonResponse(mockWebhook, method === 'POST' ? 201 : 200))
+  })
+  return fetchSpy
+}
+
+const requestsTo = (fetchSpy: ReturnType<typeof mockCaptureBackend>, method: string) =>
+  fetchSpy.mock.calls
+    .filter(([, init]) => (init?.method ?? 'GET') === method)
+    .map(([url, init]) => ({ url: url as string, body: init?.body as string | undefined }))
+
+describe('WebhookList', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('shows targets with their event filters', () => {
+    mockCaptureBackend()
+    renderWithQuery(<WebhookList webhooks={[mockWebhook]} pkg={pkg} />)
+
+    expect(screen.getByText('Capture')).toBeInTheDocument()
+    expect(screen.getByText('http://webhook-capture:8080/qawave')).toBeInTheDocument()
+    expect(screen.getByText('Run failed')).toBeInTheDocument()
+    expect(screen.getByText('Pass rate < 90%')).toBeInTheDocument()
+  })
+
+  it('sends a test event and lists its delivery', async () => {
+    const user = userEvent.setup()
+    const fetchSpy = mockCaptureBackend()
+    renderWithQuery(<WebhookList webhooks={[mockWebhook]} pkg={pkg} />)
+
+    await user.click(screen.getByRole('button', { name: 'Send test event' }))
+
+    const log = await screen.findByRole('table', { name: 'Delivery log' })
+    expect(within(log).getByText('Run completed')).toBeInTheDocument()
+    expect(within(log).getByText('SUCCESS')).toBeInTheDocument()
+    expect(within(log).getByText('HTTP 200')).toBeInTheDocument()
+    expect(requestsTo(fetchSpy, 'POST')[0]?.url).toContain('/api/webhooks/webhook-1/test')
+  })
+
+  it('retries a failed delivery', async () => {
+    const user = userEvent.setup()
+    const fetchSpy = mockCaptureBackend([mockWebhookDelivery])
+    renderWithQuery(<WebhookList webhooks={[mockWebhook]} pkg={pkg} />)
+
+    await user.click(screen.getByRole('button', { name: 'Deliveries' }))
+    const log = await screen.findByRole('table', { name: 'Delivery log' })
+    expect(within(log).getByText('3/3')).toBeInTheDocument()
+    expect(within(log).getByText('Internal Server Error')).toBeInTheDocument()
+
+    await user.click(within(log).getByRole('button', { name: 'Retry' }))
+
+    expect(await within(log).findByText('SUCCESS')).toBeInTheDocument()
+    expect(requestsTo(fetchSpy, 'POST')[0]?.url).toContain(
+      '/api/webhooks/webhook-1/deliveries/delivery-1/retry'
+    )
+  })
+})
+
+describe('WebhookFormModal', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('validates the target and saves the event filters', async () => {
+    const user = userEvent.setup()
+    const fetchSpy = mockCaptureBackend()
+    const onClose = vi.fn()
+    renderWithQuery(<WebhookFormModal isOpen onClose={onClose} pkg={pkg} />)
+
+    await user.type(screen.getByLabelText(/Name/), 'Capture')
+    await user.type(screen.getByLabelText(/Target URL/), 'ftp://webhook-capture')
+    await user.click(screen.getByRole('button', { name: 'Create Webhook' }))
+    expect(screen.getByText('Enter an http:// or https:// URL')).toBeInTheDocument()
+
+    await user.clear(screen.getByLabelText(/Target URL/))
+    await user.type(screen.getByLabelText(/Target URL/), 'http://webhook-capture:8080/qawave')
+    await user.click(screen.getByRole('checkbox', { name: /Pass rate dropped/ }))
+    await user.clear(screen.getByLabelText(/Threshold/))
+    await user.type(screen.getByLabelText(/Threshold/), '80')
+    await user.click(screen.getByRole('button', { name: 'Create Webhook' }))
+
+    expect(onClose).toHaveBeenCalled()
+    expect(JSON.parse(requestsTo(fetchSpy, 'POST')[0]?.body ?? '')).toEqual({
+      packageId: 'pkg-1',
+      name: 'Capture',
+      url: 'http://webhook-capture:8080/qawave',
+      events: ['RUN_FAILED', 'PASS_RATE_BELOW_THRESHOLD'],
+      passRateThreshold: 80,
+      webhookType: 'GENERIC',
+    })
+  })
+
+  it('sends custom headers and toggles the webhook with isActive', async () => {
+    const user = userEvent.setup()
+    const fetchSpy = mockCaptureBackend()
+    renderWithQuery(<WebhookFormModal isOpen onClose={vi.fn()} pkg={pkg} webhook={mockWebhook} />)
+
+    expect(screen.getByLabelText('Format')).toBeDisabled()
+    await user.type(screen.getByLabelText('Headers'), 'no colon here')
+    await user.click(screen.getByRole('button', { name: 'Save Changes' }))
+    expect(screen.getByText('Enter one "Name: value" header per line')).toBeInTheDocument()
+
+    await user.clear(screen.getByLabelText('Headers'))
+    await user.type(screen.getByLabelText('Headers'), 'Authorization: Bearer abc')
+    await user.click(screen.getByRole('checkbox', { name: 'Enabled' }))
+    await user.click(screen.getByRole('button', { name: 'Save Changes' }))
+
+    const [request] = requestsTo(fetchSpy, 'PATCH')
+    expect(request?.url).toContain('/api/webhooks/webhook-1')
+    expect(JSON.parse(request?.body ?? '')).toMatchObject({
+      headers: { Authorization: 'Bearer abc' },
+      isActive: false,
+    })
+  })
+
+  it('previews the payload of the latest run and the events it would trigger', async () => {
+    const user = userEvent.setup()
+    mockCaptureBackend()
+    renderWithQuery(
+      <WebhookFormModal isOpen onClose={vi.fn()} pkg={pkg} previewRun={mockTestRun} />
+    )
+
+    const preview = screen.getByTestId('webhook-preview')
+    expect(preview).toHaveTextContent('Payload preview (latest run)')
+    expect(preview).toHaveTextContent('"event": "RUN_FAILED"')
+    expect(preview).toHaveTextContent('"passRate": 50')
+    expect(preview).toHaveTextContent('"timestamp"')
+    expect(preview).toHaveTextContent('The latest run would have sent: Run failed')
+
+    await user.selectOptions(screen.getByLabelText('Preview event'), 'Run completed')
+    expect(preview).toHaveTextContent('"event": "RUN_COMPLETED"')
+  })
+})
@@ -0,0 +1,191 @@
+import { useState } from 'react'
+import { Modal } from '@/components/ui/Modal'
+import { Can } from '@/components/auth'
+import { useDeleteWebhook, useSendTestWebhook, useUpdateWebhook } from '@/hooks'
+import { WEBHOOK_EVENT_LABELS, WEBHOOK_TYPE_LABELS } from '@/lib/notifications'
+import { WebhookDeliveryLog } from './WebhookDeliveryLog'
+import { WebhookFormModal } from './WebhookFormModal'
+import type { QaPackage, TestRun, WebhookConfig } from '@/api/types'
+
+interface WebhookListProps {
+  webhooks: WebhookConfig[]
+  pkg: Pick<QaPackage, 'id' | 'name'>
+  previewRun?: TestRun | undefined
+}
+
+export function WebhookList({ webhooks, pkg, previewRun }: WebhookListProps) {
+  const deleteWebhook = useDeleteWebhook()
+  const [editing, setEditing] = useState<WebhookConfig | null>(null)
+  const [deleting, setDeleting] = useState<WebhookConfig | null>(null)
+
+  const handleDelete = () => {
+    if (!deleting) return
+    deleteWebhook.mutate(deleting.id, {
+      onSuccess: () => {
+        setDeleting(null)
+      },
+    })
+  }
+
+  return (
+    <>
+      <div className="card p-0 divide-y divide-secondary-700" data-testid="webhook-list">
+        {webhooks.map((webhook) => (
+          <WebhookRow
+            key={webhook.id}
+            webhook={webhook}
+            onEdit={() => {
+              setEditing(webhook)
+            }}
+            onDelete={() => {
+              setDeleting(webhook)
+            }}
+          />
+        ))}
+      </div>
+
+      <WebhookFormModal
+        isOpen={editing !== null}
+        onClose={() => {
+          setEditing(null)
+        }}
+        pkg={pkg}
+        webhook={editing ?? undefined}
+        previewRun={previewRun}
+      />
+
+      <Modal
+        isOpen={deleting !== null}
+        onClose={() => {
+          setDeleting(null)
+        }}
+        title="Delete Webhook"
+        size="sm"
+      >
+        <p className="text-secondary-300 mb-6">
+          Delete <span className="text-white font-medium">{deleting?.name}</span>? Its delivery log
+          is deleted too.
+        </p>
+        {deleteWebhook.isError && (
+          <p className="text-red-500 text-sm mb-4">{deleteWebhook.error.message}</p>
+        )}
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={() => {
+              setDeleting(null)
+            }}
+            className="btn btn-ghost"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={deleteWebhook.isPending}
+            className="btn bg-red-500 text-white hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {deleteWebhook.isPending ? 'Deleting...' : 'Delete'}
+          </button>
+        </div>
+      </Modal>
+    </>
+  )
+}
+
+interface WebhookRowProps {
+  webhook: WebhookConfig
+  onEdit: () => void
+  onDelete: () => void
+}
+
+function WebhookRow({ webhook, onEdit, onDelete }: WebhookRowProps) {
+  const updateWebhook = useUpdateWebhook()
+  const sendTest = useSendTestWebhook(webhook.id)
+  const [showDeliveries, setShowDeliveries] = useState(false)
+
+  return (
+    <div className="px-4 py-3">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium text-white">{webhook.name}</span>
+            {!webhook.isActive && (
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-secondary-500/10 text-secondary-400">
+                Disabled
+              </span>
+            )}
+            {webhook.webhookType !== 'GENERIC' && (
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-primary-500/10 text-primary-400">
+                {WEBHOOK_TYPE_LABELS[webhook.webhookType]}
+              </span>
+            )}
+          </div>
+          <div className="text-sm text-secondary-400 font-mono truncate">{webhook.url}</div>
+          <div className="flex flex-wrap gap-1 mt-1">
+            {webhook.events.map((event) => (
+              <span
+                key={event}
+                className="px-2 py-0.5 rounded text-xs bg-secondary-700 text-secondary-300"
+              >
+                {event === 'PASS_RATE_BELOW_THRESHOLD'
+                  ? `Pass rate < ${String(webhook.passRateThreshold ?? 0)}%`
+                  : WEBHOOK_EVENT_LABELS[event]}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => {
+              setShowDeliveries((show) => !show)
+            }}
+            className="btn btn-ghost text-sm"
+            aria-expanded={showDeliveries}
+          >
+            Deliveries
+          </button>
+          <Can permission="notification:manage">
+            <button
+              onClick={() => {
+                sendTest.mutate(undefined, {
+                  onSuccess: () => {
+                    setShowDeliveries(true)
+                  },
+                })
+              }}
+              disabled={sendTest.isPending}
+              className="btn btn-secondary text-sm disabled:opacity-50"
+            >
+              {sendTest.isPending ? 'Sending...' : 'Send test event'}
+            </button>
+            <button
+              onClick={() => {
+                updateWebhook.mutate({ id: webhook.id, data: { isActive: !webhook.isActive } })
+              }}
+              disabled={updateWebhook.isPending}
+              className="btn btn-ghost text-sm disabled:opacity-50"
+            >
+              {webhook.isActive ? 'Disable' : 'Enable'}
+            </button>
+            <button onClick={onEdit} className="btn btn-ghost text-sm">
+              Edit
+            </button>
+            <button onClick={onDelete} className="btn btn-ghost text-sm text-red-500">
+              Delete
+            </button>
+          </Can>
+        </div>
+      </div>
+
+      {sendTest.isError && (
+        <p className="mt-2 text-sm text-red-500">Test event failed: {sendTest.error.message}</p>
+      )}
+
+      {showDeliveries && (
+        <div className="mt-3 pt-3 border-t border-secondary-700">
+          <WebhookDeliveryLog webhookId={webhook.id} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,3 @@
+export { WebhookDeliveryLog } from './WebhookDeliveryLog'
+export { WebhookFormModal } from './WebhookFormModal'
+export { WebhookList } from './WebhookList'
@@ -2,6 +2,8 @@ import { useState, useEffect, useCallback } from 'react'
 import { useNavigate } from '@tanstack/react-router'
 import { Modal } from '@/components/ui/Modal'
 import { useCreatePackage } from '@/hooks'
+import { OpenApiParseError, parseOpenApiSpec } from '@/lib/openapi'
+import { SpecSourceInput } from './SpecSourceInput'
 
 interface CreatePackageModalProps {
   isOpen: boolean
@@ -76,11 +78,12 @@ export function CreatePackageModal({ isOpen, onClose }: CreatePackageModalProps)
     if (!formData.openApiSpec.trim()) {
       newErrors.openApiSpec = 'OpenAPI specification is required'
     } else {
-      // Try to parse as JSON to validate format
       try {
-        JSON.parse(formData.openApiSpec)
-      } catch {
-        // Could be YAML, which is also valid - don't enforce JSON-only
+        parseOpenApiSpec(formData.openApiSpec)
+      } catch (error) {
+        if (error instanceof OpenApiParseError) {
+          newErrors.openApiSpec = `Invalid OpenAPI specification: ${error.message}`
+        }
       }
     }
 
@@ -187,19 +190,20 @@ export function CreatePackageModal({ isOpen, onClose }: CreatePackageModalProps)
           <label htmlFor="modal-openApiSpec" className="block text-sm font-medium text-white mb-2">
             OpenAPI Specification <span className="text-red-500">*</span>
           </label>
-          <textarea
+          <SpecSourceInput
             id="modal-openApiSpec"
             value={formData.openApiSpec}
-            onChange={(e) => {
-              updateField('openApiSpec', e.target.value)
+            onChange={(source) => {
+              updateField('openApiSpec', source)
+            }}
+            error={errors.openApiSpec}
+            baseUrl={formData.baseUrl}
+            onBaseUrlChange={(url) => {
+              updateField('baseUrl', url)
             }}
-            placeholder='{"openapi": "3.0.0", ...}'
-            rows={8}
-            className={`${inputClassName('openApiSpec')} font-mono text-sm resize-none`}
           />
-          {errors.openApiSpec && <p className="mt-1 text-sm text-red-500">{errors.openApiSpec}</p>}
           <p className="mt-1 text-xs text-secondary-500">
-            Paste your OpenAPI 3.0+ specification in JSON or YAML format
+            Paste, upload or fetch an OpenAPI 3.x or Swagger 2.0 spec in JSON or YAML format
           </p>
         </div>
 
@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react'
+import { Modal } from '@/components/ui/Modal'
+import { KeyValueGrid } from '@/components/ui/KeyValueGrid'
+import { useCreateEnvironment, useUpdateEnvironment } from '@/hooks'
+import type { PackageEnvironment } from '@/api/types'
+
+interface EnvironmentFormModalProps {
+  isOpen: boolean
+  onClose: () => void
+  packageId: string
+  /** Environment to edit; creates a new one when omitted */
+  environment?: PackageEnvironment | undefined
+  /** Names already used by other environments of the package */
+  existingNames?: string[]
+}
+
+interface FormData {
+  name: string
+  baseUrl: string
+  variables: Record<string, string>
+  secrets: Record<string, string>
+  isDefault: boolean
+}
+
+const toFormData = (environment: PackageEnvironment | undefined): FormData => ({
+  name: environment?.name ?? '',
+  baseUrl: environment?.baseUrl ?? '',
+  variables: environment?.variables ?? {},
+  secrets: environment?.secrets ?? {},
+  isDefault: environment?.isDefault ?? false,
+})
+
+export function EnvironmentFormModal({
+  isOpen,
+  onClose,
+  packageId,
+  environment,
+  existingNames = [],
+}: EnvironmentFormModalProps) {
+  const createEnvironment = useCreateEnvironment(packageId)
+  const updateEnvironment = useUpdateEnvironment(packageId)
+  const mutation = environment ? updateEnvironment : createEnvironment
+
+  const [formData, setFormData] = useState<FormData>(() => toFormData(environment))
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(toFormData(environment))
+      setErrors({})
+      createEnvironment.reset()
+      updateEnvironment.reset()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- mutation reset is stable, but object reference changes
+  }, [isOpen, environment])
+
+  const updateField = <K extends keyof FormData>(field: K, value: FormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors((prev) => {
+        const { [field]: _, ...rest } = prev
+        return rest
+      })
+    }
+  }
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {}
+    const name = formData.name.trim()
+
+    if (!name) {
+      newErrors.name = 'Name is required'
+    } else if (existingNames.some((existing) => existing.toLowerCase() === name.toLowerCase())) {
+      newErrors.name = 'Another environment already uses this name'
+    }
+
+    if (!formData.baseUrl.trim()) {
+      newErrors.baseUrl = 'Base URL is required'
+    } else {
+      try {
+        new URL(formData.baseUrl)
+      } catch {
+        newErrors.baseUrl = 'Invalid URL format'
+      }
+    }
+
+    const overlapping = Object.keys(formData.secrets).filter((key) => key in formData.variables)
+    if (overlapping.length > 0) {
+      newErrors.secrets = `Defined as both variable and secret: ${overlapping.join(', ')}`
+    } else if (Object.values(formData.secrets).some((reference) => !reference.trim())) {
+      newErrors.secrets = 'Every secret needs a reference'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validate()) return
+
+    const data = {
+      name: formData.name.trim(),
+      baseUrl: formData.baseUrl.trim(),
+      variables: formData.variables,
+      secrets: formData.secrets,
+      isDefault: formData.isDefault,
+    }
+
+    try {
+      if (environment) {
+        await updateEnvironment.mutateAsync({ id: environment.id, data })
+      } else {
+        await createEnvironment.mutateAsync(data)
+      }
+      onClose()
+    } catch (error) {
+      console.error('Failed to save environment:', error)
+    }
+  }
+
+  const inputClassName = (fieldName: string) =>
+    `w-full px-4 py-2 bg-secondary-800 border rounded-lg text-white placeholder-secondary-500 focus:outline-none transition-colors ${
+      errors[fieldName]
+        ? 'border-red-500 focus:border-red-500'
+        : 'border-secondary-700 focus:border-primary-500'
+    }`
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={environment ? 'Edit Environment' : 'New Environment'}
+      size="xl"
+    >
+      <form
+        onSubmit={(e) => {
+          void handleSubmit(e)
+        }}
+        className="space-y-5"
+      >
+        {/* Name */}
+        <div>
+          <label htmlFor="environment-name" className="block text-sm font-medium text-white mb-2">
+            Name <span className="text-red-500">*</span>
+          </label>
+          <input
+            id="environment-name"
+            type="text"
+            value={formData.name}
+            onChange={(e) => {
+              updateField('name', e.target.value)
+            }}
+            placeholder="staging"
+            className={inputClassName('name')}
+            autoFocus
+          />
+          {errors.name && <p className="mt-1 text-sm text-red-500">{errors.name}</p>}
+        </div>
+
+        {/* Base URL */}
+        <div>
+          <label
+            htmlFor="environment-baseUrl"
+            className="block text-sm font-medium text-white mb-2"
+          >
+            Base URL <span className="text-red-500">*</span>
+          </label>
+          <input
+            id="environment-baseUrl"
+            type="url"
+            value={formData.baseUrl}
+            onChange={(e) => {
+              updateField('baseUrl', e.target.value)
+            }}
+            placeholder="https://staging.api.example.com"
+            className={inputClassName('baseUrl')}
+          />
+          {errors.baseUrl && <p className="mt-1 text-sm text-red-500">{errors.baseUrl}</p>}
+        </div>
+
+        {/* Variables */}
+        <div>
+          <h3 className="text-sm font-medium text-white mb-2">Variables</h3>
+          <KeyValueGrid
+            value={formData.variables}
+            onChange={(variables) => {
+              updateField('variables', variables)
+            }}
+            keyPlaceholder="Variable"
+            valuePlaceholder="Value"
+            addLabel="Add variable"
+          />
+          <p className="mt-1 text-xs text-secondary-500">
+            Available in steps as <code>{'{{name}}'}</code>
+          </p>
+        </div>
+
+        {/* Secrets */}
+        <div>
+          <h3 className="text-sm font-medium text-white mb-2">Secrets</h3>
+          <KeyValueGrid
+            value={formData.secrets}
+            onChange={(secrets) => {
+              updateField('secrets', secrets)
+            }}
+            keyPlaceholder="Variable"
+            valuePlaceholder="vault:path#key"
+            addLabel="Add secret"
+          />
+          {errors.secrets && <p className="mt-1 text-sm text-red-500">{errors.secrets}</p>}
+          <p className="mt-1 text-xs text-secondary-500">
+            References only; the runner resolves them when the run starts
+          </p>
+        </div>
+
+        {/* Default */}
+        <label className="flex items-center gap-2 text-sm text-secondary-300">
+          <input
+            type="checkbox"
+            checked={formData.isDefault}
+            onChange={(e) => {
+              updateField('isDefault', e.target.checked)
+            }}
+            className="w-4 h-4 rounded border-secondary-600 bg-secondary-700 text-primary-500"
+          />
+          Preselect when starting a run
+        </label>
+
+        {/* Error message */}
+        {mutation.isError && (
+          <div className="p-4 bg-red-500/10 border border-red-500/50 rounded-lg">
+            <p className="text-red-500 text-sm">
+              {mutation.error instanceof Error
+                ? mutation.error.message
+                : 'Failed to save environment. Please try again.'}
+            </p>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-end gap-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={mutation.isPending}
+            className="btn btn-ghost"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={mutation.isPending}
+            className="btn btn-primary disabled:opacity-50"
+          >
+            {mutation.isPending ? 'Saving...' : environment ? 'Save Changes' : 'Create Environment'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
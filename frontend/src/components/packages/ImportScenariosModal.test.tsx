@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ImportScenariosModal } from './ImportScenariosModal'
+import { renderWithQuery } from '@/test/test-utils'
+import { mockPackage, mockScenario } from '@/test/mocks'
+
+const collection = {
+  info: {
+    name: 'Users API',
+    schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json',
+  },
+  item: [
+    { name: 'Health', request: { method: 'GET', url: 'https://api.example.com/health' } },
+    {
+      name: 'Users',
+      item: [
+        {
+          name: 'Create user',
+          request: {
+            method: 'POST',
+            url: '{{baseUrl}}/users',
+            body: { mode: 'raw', raw: '{"email": "{{email}}"}' },
+          },
+          event: [
+            {
+              listen: 'test',
+              script: { exec: ['pm.environment.set("userId", pm.response.json().id)'] },
+            },
+          ],
+        },
+        { name: 'Get user', request: { method: 'GET', url: '{{baseUrl}}/users/{{userId}}' } },
+      ],
+    },
+  ],
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+async function uploadFile(file: File) {
+  await userEvent.setup().upload(screen.getByLabelText('Choose file'), file)
+}
+
+describe('ImportScenariosModal', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('previews a Postman collection and imports the selected scenarios', async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(jsonResponse([mockScenario], 201))
+    const onClose = vi.fn()
+    const onImported = vi.fn()
+    const user = userEvent.setup()
+
+    renderWithQuery(
+      <ImportScenariosModal isOpen onClose={onClose} pkg={mockPackage} onImported={onImported} />
+    )
+    await uploadFile(new File([JSON.stringify(collection)], 'users.postman_collection.json'))
+
+    const list = await screen.findByRole('list', { name: 'Scenarios to import' })
+    expect(list).toHaveTextContent('POST /users → userId')
+    expect(list).toHaveTextContent('GET /users/{{userId}}')
+    expect(screen.getByRole('list', { name: 'Variables to define' })).toHaveTextContent('email')
+    expect(screen.getByText('2 of 2 selected')).toBeInTheDocument()
+
+    await user.click(within(list).getByRole('checkbox', { name: /Users API/ }))
+    await user.click(screen.getByRole('button', { name: 'Import 1 scenario' }))
+
+    await waitFor(() => {
+      expect(onImported).toHaveBeenCalledWith([mockScenario])
+    })
+    expect(onClose).toHaveBeenCalled()
+    expect(fetchSpy).toHaveBeenCalledWith(
+      expect.stringMatching(/\/api\/qa\/scenarios\/import$/),
+      expect.objectContaining({ method: 'POST' })
+    )
+    const body = fetchSpy.mock.calls[0]?.[1]?.body
+    expect(typeof body === 'string' ? JSON.parse(body) : undefined).toEqual({
+      packageId: 'pkg-1',
+      scenarios: [
+        expect.objectContaining({
+          name: 'Users',
+          tags: ['postman'],
+          steps: [
+            expect.objectContaining({ method: 'POST', endpoint: '/users' }),
+            expect.objectContaining({ method: 'GET', endpoint: '/users/{{userId}}' }),
+          ],
+        }),
+      ],
+    })
+  })
+
+  it('explains why a file cannot be imported', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+
+    renderWithQuery(<ImportScenariosModal isOpen onClose={vi.fn()} pkg={mockPackage} />)
+    await uploadFile(new File(['{"openapi": "3.0.0"}'], 'openapi.json'))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Expected a Postman v2 collection or a HAR file'
+    )
+    expect(screen.getByRole('button', { name: 'Import 0 scenarios' })).toBeDisabled()
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,305 @@
+import { useEffect, useState } from 'react'
+import { Modal } from '@/components/ui/Modal'
+import { useImportScenarios } from '@/hooks'
+import { readFile } from '@/lib/files'
+import {
+  parseScenarioImport,
+  ScenarioImportError,
+  type ImportedScenario,
+  type ScenarioImport,
+} from '@/lib/import'
+import type { QaPackage, Scenario } from '@/api/types'
+
+interface ImportScenariosModalProps {
+  isOpen: boolean
+  onClose: () => void
+  pkg: QaPackage
+  onImported?: (scenarios: Scenario[]) => void
+}
+
+const FORMAT_LABELS: Record<ScenarioImport['format'], string> = {
+  postman: 'Postman collection',
+  har: 'HAR capture',
+}
+
+export function ImportScenariosModal({
+  isOpen,
+  onClose,
+  pkg,
+  onImported,
+}: ImportScenariosModalProps) {
+  const importScenarios = useImportScenarios()
+  const [result, setResult] = useState<ScenarioImport | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(() => new Set())
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [isDragging, setIsDragging] = useState(false)
+
+  // Start over each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setResult(null)
+      setSelected(new Set())
+      setFileError(null)
+      importScenarios.reset()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- importScenarios.reset is stable, but object reference changes
+  }, [isOpen])
+
+  const handleFile = async (file: File) => {
+    setFileError(null)
+    try {
+      const parsed = parseScenarioImport(await readFile(file, 'text'), { baseUrl: pkg.baseUrl })
+      if (parsed.scenarios.length === 0) {
+        setFileError(`${file.name} contains no requests that can be imported`)
+        return
+      }
+      setResult(parsed)
+      setSelected(new Set(parsed.scenarios.map((scenario) => scenario.key)))
+    } catch (error) {
+      setFileError(
+        error instanceof ScenarioImportError ? error.message : `Could not read ${file.name}`
+      )
+    }
+  }
+
+  const handleToggle = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const handleImport = () => {
+    if (!result) return
+    importScenarios.mutate(
+      {
+        packageId: pkg.id,
+        scenarios: result.scenarios
+          .filter((scenario) => selected.has(scenario.key))
+          .map(({ name, description, steps, tags }) => ({ name, description, steps, tags })),
+      },
+      {
+        onSuccess: (scenarios) => {
+          onImported?.(scenarios)
+          onClose()
+        },
+      }
+    )
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Import Scenarios" size="xl">
+      <div className="space-y-5">
+        {!result ? (
+          <div
+            onDragOver={(e) => {
+              e.preventDefault()
+              setIsDragging(true)
+            }}
+            onDragLeave={() => {
+              setIsDragging(false)
+            }}
+            onDrop={(e) => {
+              e.preventDefault()
+              setIsDragging(false)
+              const file = e.dataTransfer.files[0]
+              if (file) void handleFile(file)
+            }}
+            className={`p-8 border-2 border-dashed rounded-lg text-center text-sm transition-colors ${
+              isDragging ? 'border-primary-500 bg-primary-500/10' : 'border-secondary-700'
+            }`}
+          >
+            <p className="text-secondary-300">
+              Drop a Postman collection (v2.0 or v2.1) or a HAR file here, or
+            </p>
+            <label className="inline-block mt-3 btn btn-secondary cursor-pointer">
+              Choose file
+              <input
+                type="file"
+                accept=".json,.har"
+                className="sr-only"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) void handleFile(file)
+                  e.target.value = ''
+                }}
+              />
+            </label>
+            <p className="mt-3 text-xs text-secondary-500">
+              Requests become steps of scenarios in {pkg.name}. Requests to {pkg.baseUrl} use the
+              package base URL.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-secondary-300">
+                <span className="text-white font-medium">{result.name}</span> ·{' '}
+                {FORMAT_LABELS[result.format]}
+              </p>
+              <button
+                type="button"
+                onClick={() => {
+                  setResult(null)
+                }}
+                className="text-sm text-primary-400 hover:text-primary-300 transition-colors"
+              >
+                Choose another file
+              </button>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-secondary-400">
+                {selected.size} of {result.scenarios.length} selected
+              </span>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSelected(new Set(result.scenarios.map((scenario) => scenario.key)))
+                  }}
+                  className="text-sm text-primary-400 hover:text-primary-300 transition-colors"
+                >
+                  Select All
+                </button>
+                <span className="text-secondary-600">|</span>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSelected(new Set())
+                  }}
+                  className="text-sm text-primary-400 hover:text-primary-300 transition-colors"
+                >
+                  Deselect All
+                </button>
+              </div>
+            </div>
+
+            <ul
+              className="max-h-96 overflow-y-auto border border-secondary-700 rounded-lg divide-y divide-secondary-700"
+              aria-label="Scenarios to import"
+            >
+              {result.scenarios.map((scenario) => (
+                <ImportedScenarioItem
+                  key={scenario.key}
+                  scenario={scenario}
+                  checked={selected.has(scenario.key)}
+                  onToggle={() => {
+                    handleToggle(scenario.key)
+                  }}
+                />
+              ))}
+            </ul>
+
+            {result.variables.length > 0 && (
+              <section>
+                <h3 className="text-sm font-medium text-white mb-1">Variables to define</h3>
+                <p className="text-xs text-secondary-500 mb-2">
+                  No imported step extracts these; set them in an environment before running.
+                </p>
+                <ul className="flex flex-wrap gap-2" aria-label="Variables to define">
+                  {result.variables.map((variable) => (
+                    <li
+                      key={variable.name}
+                      className="px-2 py-1 rounded bg-secondary-800 text-xs font-mono text-secondary-300"
+                    >
+                      {variable.name}
+                      {variable.value && (
+                        <span className="text-secondary-500"> = {variable.value}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </>
+        )}
+
+        {fileError && (
+          <p className="text-sm text-red-500" role="alert">
+            {fileError}
+          </p>
+        )}
+        {importScenarios.isError && (
+          <p className="text-sm text-red-500" role="alert">
+            {importScenarios.error instanceof Error
+              ? importScenarios.error.message
+              : 'Failed to import scenarios'}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={importScenarios.isPending}
+            className="btn btn-ghost"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={!result || selected.size === 0 || importScenarios.isPending}
+            className="btn btn-primary disabled:opacity-50"
+          >
+            {importScenarios.isPending
+              ? 'Importing...'
+              : `Import ${String(selected.size)} scenario${selected.size === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+function ImportedScenarioItem({
+  scenario,
+  checked,
+  onToggle,
+}: {
+  scenario: ImportedScenario
+  checked: boolean
+  onToggle: () => void
+}) {
+  return (
+    <li className="p-3">
+      <label className="flex items-start gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={checked}
+          onChange={onToggle}
+          className="mt-1 w-4 h-4 rounded border-secondary-600 bg-secondary-800 text-primary-500 focus:ring-primary-500 focus:ring-offset-0"
+        />
+        <span className="flex-1 min-w-0">
+          <span className="block text-white font-medium truncate">{scenario.name}</span>
+          <span className="block text-secondary-500 text-xs">
+            {scenario.steps.length} step{scenario.steps.length === 1 ? '' : 's'}
+          </span>
+        </span>
+      </label>
+      <ol className="mt-2 ml-7 space-y-0.5 text-xs font-mono text-secondary-400">
+        {scenario.steps.map((step) => (
+          <li key={step.id} className="truncate">
+            {step.method} {step.endpoint}
+            {step.extractors.length > 0 && (
+              <span className="text-primary-400">
+                {' '}
+                → {step.extractors.map((extractor) => extractor.name).join(', ')}
+              </span>
+            )}
+          </li>
+        ))}
+      </ol>
+      {scenario.warnings.length > 0 && (
+        <ul className="mt-2 ml-7 space-y-0.5 text-xs text-yellow-400">
+          {scenario.warnings.map((warning) => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      )}
+    </li>
+  )
+}
@@ -1,21 +1,15 @@
 import { Link } from '@tanstack/react-router'
 import type { QaPackage } from '@/api/types'
 import { StatusBadge } from '@/components/ui'
+import { useDateFormat } from '@/lib/preferences'
 
 interface PackageCardProps {
   pkg: QaPackage
 }
 
-function formatDate(dateString: string): string {
-  const date = new Date(dateString)
-  return date.toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric',
-  })
-}
-
 export function PackageCard({ pkg }: PackageCardProps) {
+  const { formatDate } = useDateFormat()
+
   return (
     <div className="card hover:border-primary-500 transition-colors">
       <div className="flex justify-between items-start mb-3">
@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { SpecDiffModal } from './SpecDiffModal'
+import { diffOpenApiSpecs, findImpactedScenarios } from '@/lib/openapi'
+import { mockScenario } from '@/test/mocks'
+import type { Scenario, TestStep } from '@/api/types'
+
+const spec = (paths: Record<string, unknown>) => JSON.stringify({ openapi: '3.0.3', paths })
+
+const previousSpec = spec({
+  '/users': {
+    get: { parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' } }] },
+    post: {},
+  },
+  '/users/{id}': { delete: {} },
+})
+const nextSpec = spec({
+  '/users': {
+    get: { parameters: [{ name: 'limit', in: 'query', schema: { type: 'string' } }] },
+    post: {},
+  },
+  '/teams': { get: {} },
+})
+
+const diff = diffOpenApiSpecs(previousSpec, nextSpec)
+
+const scenarioCalling = (id: string, name: string, method: TestStep['method'], endpoint: string) =>
+  ({
+    ...mockScenario,
+    id,
+    name,
+    steps: [{ ...(mockScenario.steps[0] as TestStep), method, endpoint }],
+  }) satisfies Scenario
+
+const impacted = findImpactedScenarios(diff, previousSpec, [
+  scenarioCalling('scenario-1', 'Delete user', 'DELETE', '/users/1'),
+  scenarioCalling('scenario-2', 'Create user', 'POST', '/users'),
+])
+
+const renderModal = (props: Partial<Parameters<typeof SpecDiffModal>[0]> = {}) => {
+  const onConfirm = vi.fn()
+  render(
+    <SpecDiffModal
+      isOpen
+      onClose={vi.fn()}
+      diff={diff}
+      impacted={impacted}
+      canMarkScenarios
+      onConfirm={onConfirm}
+      isSaving={false}
+      error={null}
+      {...props}
+    />
+  )
+  return { onConfirm }
+}
+
+describe('SpecDiffModal', () => {
+  it('summarizes the changes by operation and severity', () => {
+    renderModal()
+
+    expect(screen.getByTestId('spec-diff-summary')).toHaveTextContent(
+      '2 breaking and 1 non-breaking changes across 3 operations.'
+    )
+    const operations = within(screen.getByRole('list', { name: 'Changed operations' }))
+    expect(operations.getByText('/teams')).toBeInTheDocument()
+    expect(operations.getByText('/users/{id}')).toBeInTheDocument()
+    expect(
+      operations.getByText(/Query parameter `limit` type changed from integer to string/)
+    ).toHaveTextContent('(breaking)')
+  })
+
+  it('lists impacted scenarios and marks them for regeneration by default', async () => {
+    const user = userEvent.setup()
+    const { onConfirm } = renderModal()
+
+    const scenarios = within(screen.getByRole('list', { name: 'Impacted scenarios' }))
+    expect(scenarios.getByText('Delete user')).toBeInTheDocument()
+    expect(scenarios.queryByText('Create user')).not.toBeInTheDocument()
+    expect(
+      screen.getByRole('checkbox', { name: /Mark impacted scenarios for regeneration/ })
+    ).toBeChecked()
+
+    await user.click(screen.getByRole('button', { name: 'Save Changes' }))
+    expect(onConfirm).toHaveBeenCalledWith({ markForRegeneration: true })
+  })
+
+  it('saves without marking when the user cannot edit scenarios', async () => {
+    const user = userEvent.setup()
+    const { onConfirm } = renderModal({ canMarkScenarios: false })
+
+    expect(screen.queryByRole('checkbox')).not.toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: 'Save Changes' }))
+    expect(onConfirm).toHaveBeenCalledWith({ markForRegeneration: false })
+  })
+
+  it('says when not every scenario was checked', () => {
+    renderModal({ uncheckedScenarios: 120 })
+
+    expect(
+      screen.getByText(/120 more scenarios were not checked; the package has more scenarios/)
+    ).toBeInTheDocument()
+  })
+})
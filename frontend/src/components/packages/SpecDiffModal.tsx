@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react'
+import { Modal } from '@/components/ui/Modal'
+import type { HttpMethod } from '@/api/types'
+import type { ImpactedScenario, OperationDiff, OperationDiffStatus, SpecDiff } from '@/lib/openapi'
+import { REGENERATION_TAG } from '@/lib/scenario'
+
+interface SpecDiffModalProps {
+  isOpen: boolean
+  onClose: () => void
+  diff: SpecDiff
+  impacted: ImpactedScenario[]
+  /** Scenarios left out of the impact check; `null` when none could be loaded */
+  uncheckedScenarios?: number | null
+  /** Offer to tag the impacted scenarios; needs permission to edit scenarios */
+  canMarkScenarios: boolean
+  onConfirm: (options: { markForRegeneration: boolean }) => void
+  isSaving: boolean
+  error: string | null
+}
+
+const HTTP_METHOD_COLORS: Record<HttpMethod, string> = {
+  GET: 'bg-green-500/10 text-green-400 border-green-500/30',
+  POST: 'bg-blue-500/10 text-blue-400 border-blue-500/30',
+  PUT: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30',
+  PATCH: 'bg-orange-500/10 text-orange-400 border-orange-500/30',
+  DELETE: 'bg-red-500/10 text-red-400 border-red-500/30',
+}
+
+const STATUS_LABELS: Record<OperationDiffStatus, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+}
+
+export function SpecDiffModal({
+  isOpen,
+  onClose,
+  diff,
+  impacted,
+  uncheckedScenarios = 0,
+  canMarkScenarios,
+  onConfirm,
+  isSaving,
+  error,
+}: SpecDiffModalProps) {
+  const hasBreakingImpact = impacted.some((entry) => entry.breaking)
+  const [markForRegeneration, setMarkForRegeneration] = useState(hasBreakingImpact)
+
+  // Default to marking whenever a new diff with breaking impact is reviewed
+  useEffect(() => {
+    if (isOpen) {
+      setMarkForRegeneration(hasBreakingImpact)
+    }
+  }, [isOpen, diff, hasBreakingImpact])
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Review OpenAPI Changes" size="xl">
+      <div className="space-y-6">
+        <p className="text-sm text-secondary-300" data-testid="spec-diff-summary">
+          <span className={diff.breakingChanges > 0 ? 'text-red-400 font-medium' : ''}>
+            {diff.breakingChanges} breaking
+          </span>{' '}
+          and {diff.nonBreakingChanges} non-breaking changes across {diff.operations.length}{' '}
+          {diff.operations.length === 1 ? 'operation' : 'operations'}.
+        </p>
+
+        <ul className="space-y-3 max-h-80 overflow-y-auto" aria-label="Changed operations">
+          {diff.operations.map((operation) => (
+            <OperationDiffItem
+              key={`${operation.method} ${operation.path}`}
+              operation={operation}
+            />
+          ))}
+        </ul>
+
+        <section>
+          <h3 className="text-sm font-medium text-white mb-2">
+            Impacted scenarios ({impacted.length})
+          </h3>
+          {uncheckedScenarios === null ? (
+            <p className="text-sm text-yellow-400 mb-2">
+              The package&apos;s scenarios could not be loaded, so none were checked.
+            </p>
+          ) : (
+            uncheckedScenarios > 0 && (
+              <p className="text-sm text-yellow-400 mb-2">
+                {uncheckedScenarios} more{' '}
+                {uncheckedScenarios === 1 ? 'scenario was' : 'scenarios were'} not checked; the
+                package has more scenarios than can be loaded at once.
+              </p>
+            )
+          )}
+          {impacted.length === 0 ? (
+            <p className="text-sm text-secondary-400">
+              No scenario steps call a removed or changed operation.
+            </p>
+          ) : (
+            <>
+              <ul className="space-y-1 max-h-48 overflow-y-auto" aria-label="Impacted scenarios">
+                {impacted.map(({ scenario, operations, breaking }) => (
+                  <li key={scenario.id} className="flex items-center gap-2 text-sm">
+                    <span className="text-white">{scenario.name}</span>
+                    {breaking && (
+                      <span className="px-1.5 py-0.5 rounded text-xs bg-red-500/10 text-red-400">
+                        Breaking
+                      </span>
+                    )}
+                    <span className="text-xs text-secondary-500 font-mono truncate">
+                      {operations.map((o) => `${o.method} ${o.previousPath ?? o.path}`).join(', ')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {canMarkScenarios && (
+                <label className="flex items-center gap-2 mt-3 text-sm text-secondary-300">
+                  <input
+                    type="checkbox"
+                    checked={markForRegeneration}
+                    onChange={(e) => {
+                      setMarkForRegeneration(e.target.checked)
+                    }}
+                    className="rounded border-secondary-600 bg-secondary-800 text-primary-600 focus:ring-primary-500"
+                  />
+                  Mark impacted scenarios for regeneration
+                  <span className="text-secondary-500">
+                    (tags them <code className="font-mono">{REGENERATION_TAG}</code>)
+                  </span>
+                </label>
+              )}
+            </>
+          )}
+        </section>
+
+        {error && (
+          <p className="text-sm text-red-500" role="alert">
+            {error}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button type="button" onClick={onClose} className="btn btn-ghost" disabled={isSaving}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              onConfirm({ markForRegeneration: canMarkScenarios && markForRegeneration })
+            }}
+            className="btn btn-primary disabled:opacity-50"
+            disabled={isSaving}
+          >
+            {isSaving ? 'Saving...' : 'Save Changes'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+function OperationDiffItem({ operation }: { operation: OperationDiff }) {
+  return (
+    <li className="p-3 bg-secondary-800/50 border border-secondary-700 rounded-lg">
+      <div className="flex flex-wrap items-center gap-2">
+        <span
+          className={`px-2 py-1 rounded text-xs font-mono border ${HTTP_METHOD_COLORS[operation.method]}`}
+        >
+          {operation.method}
+        </span>
+        <span className="font-mono text-sm text-white">{operation.path}</span>
+        <span className="text-xs text-secondary-400">{STATUS_LABELS[operation.status]}</span>
+        {operation.breaking && (
+          <span className="px-1.5 py-0.5 rounded text-xs bg-red-500/10 text-red-400">Breaking</span>
+        )}
+      </div>
+      {operation.status === 'changed' && (
+        <ul className="mt-2 space-y-1 text-sm">
+          {operation.changes.map((change) => (
+            <li
+              key={change.message}
+              className={change.severity === 'breaking' ? 'text-red-400' : 'text-secondary-300'}
+            >
+              <span aria-hidden="true">{change.severity === 'breaking' ? '✕' : '+'}</span>{' '}
+              {change.message}
+              {change.severity === 'breaking' && <span className="sr-only"> (breaking)</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  )
+}
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { useState } from 'react'
+import { screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { SpecSourceInput } from './SpecSourceInput'
+import { renderWithQuery } from '@/test/test-utils'
+
+const petStoreYaml = `openapi: 3.0.3
+info:
+  title: Pet Store
+  version: 2.1.0
+servers:
+  - url: /v2
+paths:
+  /pets:
+    get: {}
+    post: {}
+`
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+function SpecForm({ initialBaseUrl = '' }: { initialBaseUrl?: string }) {
+  const [source, setSource] = useState('')
+  const [baseUrl, setBaseUrl] = useState(initialBaseUrl)
+
+  return (
+    <>
+      <label htmlFor="spec">Spec</label>
+      <SpecSourceInput
+        id="spec"
+        value={source}
+        onChange={setSource}
+        baseUrl={baseUrl}
+        onBaseUrlChange={setBaseUrl}
+      />
+      <output aria-label="Base URL">{baseUrl}</output>
+    </>
+  )
+}
+
+describe('SpecSourceInput', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('previews a pasted spec and prefills the base URL from its servers', async () => {
+    const user = userEvent.setup()
+    renderWithQuery(<SpecForm />)
+
+    await user.click(screen.getByLabelText('Spec'))
+    await user.paste(
+      JSON.stringify({
+        openapi: '3.1.0',
+        info: { title: 'Users API', version: '1.0.0' },
+        servers: [{ url: 'https://api.example.com/v1' }, { url: 'https://staging.example.com' }],
+        paths: { '/users': { get: {} } },
+      })
+    )
+
+    const preview = screen.getByTestId('spec-preview')
+    expect(preview).toHaveTextContent('Users API')
+    expect(preview).toHaveTextContent('v1.0.0')
+    expect(preview).toHaveTextContent('OpenAPI 3.1.0 · 1 operation')
+    expect(screen.getByLabelText('Base URL')).toHaveTextContent('https://api.example.com/v1')
+
+    await user.click(
+      screen.getByRole('button', { name: 'Use https://staging.example.com as base URL' })
+    )
+    expect(screen.getByLabelText('Base URL')).toHaveTextContent('https://staging.example.com')
+  })
+
+  it('keeps a base URL the user already entered', async () => {
+    const user = userEvent.setup()
+    renderWithQuery(<SpecForm initialBaseUrl="http://localhost:8080" />)
+
+    await user.click(screen.getByLabelText('Spec'))
+    await user.paste('{"openapi": "3.0.0", "servers": [{"url": "https://api.example.com"}]}')
+
+    expect(screen.getByLabelText('Base URL')).toHaveTextContent('http://localhost:8080')
+  })
+
+  it('explains why a source is not a readable spec', async () => {
+    const user = userEvent.setup()
+    renderWithQuery(<SpecForm />)
+
+    await user.click(screen.getByLabelText('Spec'))
+    await user.paste('{"info": {}}')
+
+    expect(screen.getByText(/Missing "openapi" version field/)).toBeInTheDocument()
+    expect(screen.queryByTestId('spec-preview')).not.toBeInTheDocument()
+  })
+
+  it('loads an uploaded YAML file', async () => {
+    const user = userEvent.setup()
+    const { container } = renderWithQuery(<SpecForm />)
+
+    await user.click(screen.getByRole('button', { name: 'Upload' }))
+    const input = container.querySelector('input[type="file"]')
+    if (!(input instanceof HTMLInputElement)) throw new Error('File input missing')
+    await user.upload(input, new File([petStoreYaml], 'petstore.yaml'))
+
+    expect(await screen.findByTestId('spec-preview')).toHaveTextContent('Pet Store')
+    expect(screen.getByLabelText('Spec')).toHaveValue(petStoreYaml)
+  })
+
+  it('fetches a spec through the backend and resolves relative servers against its URL', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      jsonResponse({
+        url: 'https://petstore.example.com/docs/openapi.yaml',
+        content: petStoreYaml,
+        contentType: 'application/yaml',
+      })
+    )
+    const user = userEvent.setup()
+    renderWithQuery(<SpecForm />)
+
+    await user.click(screen.getByRole('button', { name: 'From URL' }))
+    await user.type(
+      screen.getByLabelText('Specification URL'),
+      'https://petstore.example.com/docs/openapi.yaml'
+    )
+    await user.click(screen.getByRole('button', { name: 'Fetch' }))
+
+    const preview = await screen.findByTestId('spec-preview')
+    expect(preview).toHaveTextContent('2 operations')
+    expect(within(preview).getByRole('list', { name: 'Servers' })).toHaveTextContent('/v2')
+    await waitFor(() => {
+      expect(screen.getByLabelText('Base URL')).toHaveTextContent('https://petstore.example.com/v2')
+    })
+
+    const [input, init] = fetchSpy.mock.calls[0] ?? []
+    expect(input).toEqual(expect.stringMatching(/\/api\/qa\/packages\/spec\/fetch$/))
+    expect(init?.method).toBe('POST')
+    expect(init?.body).toBe(
+      JSON.stringify({ url: 'https://petstore.example.com/docs/openapi.yaml' })
+    )
+  })
+
+  it('rejects a URL that is not http(s) without calling the backend', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+    const user = userEvent.setup()
+    renderWithQuery(<SpecForm />)
+
+    await user.click(screen.getByRole('button', { name: 'From URL' }))
+    await user.type(screen.getByLabelText('Specification URL'), 'ftp://specs/openapi.yaml')
+    await user.click(screen.getByRole('button', { name: 'Fetch' }))
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Enter an http(s) URL')
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+})
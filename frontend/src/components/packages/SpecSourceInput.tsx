@@ -0,0 +1,284 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useFetchSpec } from '@/hooks'
+import { OpenApiParseError, parseOpenApiSpec, readSpecFile } from '@/lib/openapi'
+
+interface SpecSourceInputProps {
+  id: string
+  value: string
+  onChange: (source: string) => void
+  /** Validation message from the surrounding form */
+  error?: string | undefined
+  baseUrl: string
+  onBaseUrlChange: (baseUrl: string) => void
+  rows?: number
+}
+
+type SourceMode = 'paste' | 'upload' | 'url'
+
+const MODES: { value: SourceMode; label: string }[] = [
+  { value: 'paste', label: 'Paste' },
+  { value: 'upload', label: 'Upload' },
+  { value: 'url', label: 'From URL' },
+]
+
+/** Absolute http(s) URL of a server entry; relative ones resolve against the spec's own URL */
+function resolveServerUrl(server: string, specUrl: string | null): string | null {
+  try {
+    const url = specUrl ? new URL(server, specUrl) : new URL(server)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+      ? url.href.replace(/\/$/, '')
+      : null
+  } catch {
+    return null
+  }
+}
+
+export function SpecSourceInput({
+  id,
+  value,
+  onChange,
+  error,
+  baseUrl,
+  onBaseUrlChange,
+  rows = 8,
+}: SpecSourceInputProps) {
+  const fetchSpec = useFetchSpec()
+  const [mode, setMode] = useState<SourceMode>('paste')
+  const [specUrl, setSpecUrl] = useState('')
+  const [loadedFrom, setLoadedFrom] = useState<string | null>(null)
+  const [warnings, setWarnings] = useState<string[]>([])
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [isReading, setIsReading] = useState(false)
+  const [isDragging, setIsDragging] = useState(false)
+  const prefilledFrom = useRef<string | null>(null)
+
+  const preview = useMemo(() => {
+    if (!value.trim()) return null
+    try {
+      return { spec: parseOpenApiSpec(value), error: null }
+    } catch (err) {
+      return { spec: null, error: err instanceof Error ? err.message : 'Unreadable specification' }
+    }
+  }, [value])
+
+  const servers = (preview?.spec?.servers ?? []).map((server) => ({
+    server,
+    url: resolveServerUrl(server, loadedFrom),
+  }))
+  const firstServerUrl = servers.find((entry) => entry.url)?.url ?? null
+
+  // Prefill an empty base URL once per spec; clearing it afterwards is left alone
+  useEffect(() => {
+    if (firstServerUrl && firstServerUrl !== prefilledFrom.current) {
+      prefilledFrom.current = firstServerUrl
+      if (!baseUrl.trim()) onBaseUrlChange(firstServerUrl)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- only a newly loaded spec prefills
+  }, [firstServerUrl])
+
+  const loadSource = (source: string, from: string | null, sourceWarnings: string[] = []) => {
+    onChange(source)
+    setLoadedFrom(from)
+    setWarnings(sourceWarnings)
+    setLoadError(null)
+  }
+
+  const handleFile = async (file: File) => {
+    setIsReading(true)
+    setLoadError(null)
+    try {
+      const bundled = await readSpecFile(file)
+      loadSource(bundled.source, null, bundled.warnings)
+    } catch (err) {
+      setLoadError(err instanceof OpenApiParseError ? err.message : `Could not read ${file.name}`)
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const handleFetch = async () => {
+    const url = specUrl.trim()
+    if (resolveServerUrl(url, null) === null) {
+      setLoadError('Enter an http(s) URL')
+      return
+    }
+    setLoadError(null)
+    try {
+      const fetched = await fetchSpec.mutateAsync(url)
+      loadSource(fetched.content, fetched.url)
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Could not download the spec')
+    }
+  }
+
+  const textareaClassName = `w-full px-4 py-2 bg-secondary-800 border rounded-lg text-white placeholder-secondary-500 focus:outline-none transition-colors font-mono text-sm resize-none ${
+    error ? 'border-red-500 focus:border-red-500' : 'border-secondary-700 focus:border-primary-500'
+  }`
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-1" role="group" aria-label="Specification source">
+        {MODES.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => {
+              setMode(option.value)
+              setLoadError(null)
+            }}
+            aria-pressed={mode === option.value}
+            className={`px-3 py-1 rounded text-sm transition-colors ${
+              mode === option.value
+                ? 'bg-primary-600 text-white'
+                : 'text-secondary-400 hover:text-white hover:bg-secondary-800'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'upload' && (
+        <div
+          onDragOver={(e) => {
+            e.preventDefault()
+            setIsDragging(true)
+          }}
+          onDragLeave={() => {
+            setIsDragging(false)
+          }}
+          onDrop={(e) => {
+            e.preventDefault()
+            setIsDragging(false)
+            const file = e.dataTransfer.files[0]
+            if (file) void handleFile(file)
+          }}
+          className={`p-6 border-2 border-dashed rounded-lg text-center text-sm transition-colors ${
+            isDragging ? 'border-primary-500 bg-primary-500/10' : 'border-secondary-700'
+          }`}
+        >
+          <p className="text-secondary-300">
+            {isReading ? 'Reading file...' : 'Drop a JSON, YAML or ZIP file here, or'}
+          </p>
+          <label className="inline-block mt-2 btn btn-secondary cursor-pointer">
+            Choose file
+            <input
+              type="file"
+              accept=".json,.yaml,.yml,.zip"
+              className="sr-only"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) void handleFile(file)
+                e.target.value = ''
+              }}
+            />
+          </label>
+          <p className="mt-2 text-xs text-secondary-500">
+            A ZIP of a multi-file spec is bundled, following its $ref links between files
+          </p>
+        </div>
+      )}
+
+      {mode === 'url' && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={specUrl}
+            onChange={(e) => {
+              setSpecUrl(e.target.value)
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                void handleFetch()
+              }
+            }}
+            placeholder="https://api.example.com/openapi.json"
+            aria-label="Specification URL"
+            className="flex-1 px-4 py-2 bg-secondary-800 border border-secondary-700 rounded-lg text-white placeholder-secondary-500 focus:outline-none focus:border-primary-500 transition-colors"
+          />
+          <button
+            type="button"
+            onClick={() => {
+              void handleFetch()
+            }}
+            disabled={fetchSpec.isPending}
+            className="btn btn-secondary disabled:opacity-50"
+          >
+            {fetchSpec.isPending ? 'Fetching...' : 'Fetch'}
+          </button>
+        </div>
+      )}
+
+      {loadError && (
+        <p className="text-sm text-red-500" role="alert">
+          {loadError}
+        </p>
+      )}
+
+      <textarea
+        id={id}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          setWarnings([])
+        }}
+        placeholder='{"openapi": "3.0.0", ...}'
+        rows={rows}
+        className={textareaClassName}
+      />
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {warnings.length > 0 && (
+        <ul className="text-xs text-yellow-400 space-y-1" aria-label="Import warnings">
+          {warnings.map((warning) => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      )}
+
+      {preview?.spec && (
+        <div
+          className="p-3 bg-secondary-800/50 border border-secondary-700 rounded-lg text-sm"
+          data-testid="spec-preview"
+        >
+          <p className="text-white font-medium">
+            {preview.spec.title ?? 'Untitled API'}
+            {preview.spec.version && (
+              <span className="ml-2 text-secondary-400 font-normal">v{preview.spec.version}</span>
+            )}
+          </p>
+          <p className="text-secondary-400">
+            {preview.spec.openApiVersion?.startsWith('2') ? 'Swagger' : 'OpenAPI'}{' '}
+            {preview.spec.openApiVersion} · {preview.spec.operations.length}{' '}
+            {preview.spec.operations.length === 1 ? 'operation' : 'operations'}
+          </p>
+          {servers.length > 0 && (
+            <ul className="mt-2 space-y-1" aria-label="Servers">
+              {servers.map(({ server, url }) => (
+                <li key={server} className="flex items-center gap-2">
+                  <span className="font-mono text-xs text-secondary-300 truncate">{server}</span>
+                  {url && url !== baseUrl.trim() && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        onBaseUrlChange(url)
+                      }}
+                      className="text-xs text-primary-400 hover:text-primary-300"
+                      aria-label={`Use ${url} as base URL`}
+                    >
+                      Use
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      {preview?.error && !error && (
+        <p className="text-sm text-yellow-400">Not a readable spec yet: {preview.error}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { StartRunDialog } from './StartRunDialog'
+import { renderWithQuery } from '@/test/test-utils'
+import { mockEnvironment, mockPackage, mockScenarios, mockTestRun } from '@/test/mocks'
+import type { PackageEnvironment } from '@/api/types'
+
+const production: PackageEnvironment = {
+  ...mockEnvironment,
+  id: 'env-2',
+  name: 'production',
+  baseUrl: 'https://prod.api.example.com',
+  variables: {},
+  secrets: {},
+  isDefault: false,
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+function mockEndpoints(environments: PackageEnvironment[]) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation((input, init) => {
+    const url = input instanceof Request ? input.url : String(input)
+    if (init?.method === 'POST' && url.endsWith('/api/qa/packages/pkg-1/runs')) {
+      return Promise.resolve(jsonResponse(mockTestRun, 201))
+    }
+    if (url.endsWith('/api/qa/packages/pkg-1/environments')) {
+      return Promise.resolve(jsonResponse(environments))
+    }
+    if (url.includes('/api/qa/scenarios?packageId=pkg-1')) {
+      return Promise.resolve(
+        jsonResponse({
+          content: mockScenarios,
+          page: 0,
+          size: 500,
+          totalElements: mockScenarios.length,
+          totalPages: 1,
+          first: true,
+          last: true,
+        })
+      )
+    }
+    return Promise.resolve(jsonResponse({ message: 'Not found', code: 'NOT_FOUND' }, 404))
+  })
+}
+
+function startRunBody(fetchSpy: ReturnType<typeof mockEndpoints>): unknown {
+  const call = fetchSpy.mock.calls.find(([, init]) => init?.method === 'POST')
+  const body = call?.[1]?.body
+  return typeof body === 'string' ? JSON.parse(body) : undefined
+}
+
+describe('StartRunDialog', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('preselects the default environment and sends it with the run', async () => {
+    const fetchSpy = mockEndpoints([mockEnvironment, production])
+    const onClose = vi.fn()
+    const onStarted = vi.fn()
+    const user = userEvent.setup()
+
+    renderWithQuery(
+      <StartRunDialog isOpen onClose={onClose} pkg={mockPackage} onStarted={onStarted} />
+    )
+
+    const staging = await screen.findByRole('radio', { name: /staging/ })
+    await waitFor(() => {
+      expect(staging).toBeChecked()
+    })
+    expect(screen.getByText('1 variable, 1 secret')).toBeInTheDocument()
+    expect(screen.getByText('0 variables, 0 secrets')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Start Run' }))
+
+    await waitFor(() => {
+      expect(onStarted).toHaveBeenCalledWith(mockTestRun)
+    })
+    expect(onClose).toHaveBeenCalled()
+    expect(startRunBody(fetchSpy)).toEqual({ environmentId: 'env-1' })
+  })
+
+  it('runs against the package base URL when no environment is picked', async () => {
+    const fetchSpy = mockEndpoints([production])
+    const user = userEvent.setup()
+
+    renderWithQuery(<StartRunDialog isOpen onClose={vi.fn()} pkg={mockPackage} />)
+
+    await screen.findByRole('radio', { name: /production/ })
+    expect(screen.getByRole('radio', { name: /Package default/ })).toBeChecked()
+    expect(screen.getByText(mockPackage.baseUrl)).toBeInTheDocument()
+
+    await user.click(screen.getByRole('radio', { name: /production/ }))
+    await user.click(screen.getByRole('radio', { name: /Package default/ }))
+    await user.click(screen.getByRole('button', { name: 'Start Run' }))
+
+    await waitFor(() => {
+      expect(startRunBody(fetchSpy)).toEqual({})
+    })
+  })
+
+  it('shows the error when the run cannot be started', async () => {
+    vi.spyOn(globalThis, 'fetch').mockImplementation((_input, init) =>
+      Promise.resolve(
+        init?.method === 'POST'
+          ? jsonResponse({ message: 'Package has no scenarios', code: 'BAD_REQUEST' }, 400)
+          : jsonResponse([])
+      )
+    )
+    const onClose = vi.fn()
+    const user = userEvent.setup()
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    renderWithQuery(<StartRunDialog isOpen onClose={onClose} pkg={mockPackage} />)
+
+    await screen.findByRole('radio', { name: /Package default/ })
+    await user.click(screen.getByRole('button', { name: 'Start Run' }))
+
+    expect(await screen.findByText('Package has no scenarios')).toBeInTheDocument()
+    expect(onClose).not.toHaveBeenCalled()
+  })
+
+  it('sends the selected scenarios and run options', async () => {
+    const fetchSpy = mockEndpoints([])
+    const user = userEvent.setup()
+
+    renderWithQuery(<StartRunDialog isOpen onClose={vi.fn()} pkg={mockPackage} />)
+
+    await user.click(await screen.findByRole('radio', { name: /Choose scenarios/ }))
+    await user.selectOptions(screen.getByLabelText('Last status'), 'PENDING')
+    await user.click(await screen.findByRole('checkbox', { name: /Get Users List/ }))
+    expect(screen.queryByRole('checkbox', { name: /Create User Flow/ })).not.toBeInTheDocument()
+
+    await user.type(screen.getByLabelText('Max concurrency'), '4')
+    await user.type(screen.getByLabelText('Step timeout (ms)'), '2000')
+    await user.click(screen.getByRole('checkbox', { name: 'Stop on first failure' }))
+    await user.click(screen.getByRole('button', { name: 'Start Run (1)' }))
+
+    await waitFor(() => {
+      expect(startRunBody(fetchSpy)).toEqual({
+        scenarioIds: ['scenario-2'],
+        maxConcurrency: 4,
+        stepTimeoutMs: 2000,
+        failFast: true,
+      })
+    })
+  })
+
+  it('loads scenarios only while open and counts every scenario of the package', async () => {
+    const totalElements = 5200
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation((input) => {
+      const url = new URL(input instanceof Request ? input.url : String(input))
+      if (!url.pathname.endsWith('/api/qa/scenarios')) return Promise.resolve(jsonResponse([]))
+      const page = Number(url.searchParams.get('page'))
+      const size = Number(url.searchParams.get('size'))
+      return Promise.resolve(
+        jsonResponse({
+          content: Array.from({ length: size }, (_, i) => ({
+            ...mockScenarios[0],
+            id: `scenario-${String(page * size + i)}`,
+            name: `Scenario ${String(page * size + i)}`,
+          })),
+          page,
+          size,
+          totalElements,
+          totalPages: Math.ceil(totalElements / size),
+          first: page === 0,
+          last: false,
+        })
+      )
+    })
+    const user = userEvent.setup()
+
+    const { rerender } = renderWithQuery(
+      <StartRunDialog isOpen={false} onClose={vi.fn()} pkg={mockPackage} />
+    )
+    expect(fetchSpy).not.toHaveBeenCalledWith(
+      expect.stringContaining('/api/qa/scenarios'),
+      expect.anything()
+    )
+
+    rerender(<StartRunDialog isOpen onClose={vi.fn()} pkg={mockPackage} />)
+
+    await user.click(await screen.findByRole('radio', { name: 'All scenarios (5200)' }))
+    await user.click(screen.getByRole('radio', { name: /Choose scenarios/ }))
+    expect(
+      screen.getByText('Only the first 5000 of 5200 scenarios can be chosen here.')
+    ).toBeInTheDocument()
+  })
+
+  it('requires at least one scenario when choosing scenarios', async () => {
+    const fetchSpy = mockEndpoints([])
+    const user = userEvent.setup()
+
+    renderWithQuery(<StartRunDialog isOpen onClose={vi.fn()} pkg={mockPackage} />)
+
+    await user.click(await screen.findByRole('radio', { name: /Choose scenarios/ }))
+    await user.click(screen.getByRole('button', { name: 'Start Run (0)' }))
+
+    expect(screen.getByText('Select at least one scenario')).toBeInTheDocument()
+    expect(startRunBody(fetchSpy)).toBeUndefined()
+  })
+})
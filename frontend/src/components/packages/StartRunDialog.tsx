@@ -0,0 +1,514 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Modal } from '@/components/ui/Modal'
+import { useAllPackageScenarios, usePackageEnvironments, useStartRun } from '@/hooks'
+import { parseOpenApiSpec } from '@/lib/openapi'
+import { buildScenarioCatalog, filterScenarios } from '@/lib/scenario'
+import type { QaPackage, ScenarioStatus, StartRunRequest, TestRun } from '@/api/types'
+
+interface StartRunDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  pkg: QaPackage
+  onStarted?: (run: TestRun) => void
+}
+
+// Value of the picker option that runs against the package base URL
+const PACKAGE_DEFAULT = ''
+const MAX_CONCURRENCY = 50
+const MIN_STEP_TIMEOUT_MS = 100
+
+const STATUS_OPTIONS: { value: ScenarioStatus | ''; label: string }[] = [
+  { value: '', label: 'Any last status' },
+  { value: 'FAILED', label: 'Failed' },
+  { value: 'PASSED', label: 'Passed' },
+  { value: 'SKIPPED', label: 'Skipped' },
+  { value: 'PENDING', label: 'Not run' },
+]
+
+const FILTER_CLASS =
+  'px-3 py-1.5 bg-secondary-800 border border-secondary-700 rounded-lg text-white text-sm focus:outline-none focus:border-primary-500'
+
+const INPUT_CLASS =
+  'w-full px-4 py-2 bg-secondary-800 border border-secondary-700 rounded-lg text-white placeholder-secondary-500 focus:outline-none focus:border-primary-500 transition-colors'
+
+export function StartRunDialog({ isOpen, onClose, pkg, onStarted }: StartRunDialogProps) {
+  const startRun = useStartRun()
+  const { data: environments, isLoading } = usePackageEnvironments(pkg.id)
+  const { data: scenarioList, isLoading: scenariosLoading } = useAllPackageScenarios(pkg.id, {
+    enabled: isOpen,
+  })
+  const [environmentId, setEnvironmentId] = useState(PACKAGE_DEFAULT)
+
+  const [selectScenarios, setSelectScenarios] = useState(false)
+  const [selectedScenarios, setSelectedScenarios] = useState<Set<string>>(() => new Set())
+  const [query, setQuery] = useState('')
+  const [tag, setTag] = useState('')
+  const [endpoint, setEndpoint] = useState('')
+  const [status, setStatus] = useState<ScenarioStatus | ''>('')
+
+  const [maxConcurrency, setMaxConcurrency] = useState('')
+  const [stepTimeoutMs, setStepTimeoutMs] = useState('')
+  const [failFast, setFailFast] = useState(false)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  // Preselect the default environment each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setEnvironmentId(environments?.find((env) => env.isDefault)?.id ?? PACKAGE_DEFAULT)
+      startRun.reset()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- startRun.reset is stable, but object reference changes
+  }, [isOpen, environments])
+
+  // Start from all scenarios and default options each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setSelectScenarios(false)
+      setSelectedScenarios(new Set())
+      setQuery('')
+      setTag('')
+      setEndpoint('')
+      setStatus('')
+      setMaxConcurrency('')
+      setStepTimeoutMs('')
+      setFailFast(false)
+      setErrors({})
+    }
+  }, [isOpen])
+
+  const selected = environments?.find((env) => env.id === environmentId)
+  const scenarios = useMemo(() => scenarioList?.content ?? [], [scenarioList])
+
+  const catalog = useMemo(() => {
+    let spec = null
+    try {
+      spec = parseOpenApiSpec(pkg.openApiSpec)
+    } catch {
+      // Tags and spec paths are unavailable; steps still provide the endpoints
+    }
+    return buildScenarioCatalog(scenarios, spec)
+  }, [scenarios, pkg.openApiSpec])
+
+  const visibleScenarios = useMemo(
+    () =>
+      filterScenarios(
+        scenarios,
+        {
+          query,
+          ...(tag && { tag }),
+          ...(endpoint && { endpoint }),
+          ...(status && { status }),
+        },
+        catalog
+      ),
+    [scenarios, query, tag, endpoint, status, catalog]
+  )
+
+  const handleToggleScenario = useCallback((scenarioId: string) => {
+    setSelectedScenarios((prev) => {
+      const next = new Set(prev)
+      if (next.has(scenarioId)) {
+        next.delete(scenarioId)
+      } else {
+        next.add(scenarioId)
+      }
+      return next
+    })
+  }, [])
+
+  // Select and deselect act on the scenarios the filters currently show
+  const handleSelectAll = useCallback(() => {
+    setSelectedScenarios((prev) => new Set([...prev, ...visibleScenarios.map((s) => s.id)]))
+  }, [visibleScenarios])
+
+  const handleDeselectAll = useCallback(() => {
+    const visibleIds = new Set(visibleScenarios.map((s) => s.id))
+    setSelectedScenarios((prev) => new Set([...prev].filter((id) => !visibleIds.has(id))))
+  }, [visibleScenarios])
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {}
+
+    if (selectScenarios && selectedScenarios.size === 0) {
+      newErrors.scenarios = 'Select at least one scenario'
+    }
+
+    const concurrency = Number(maxConcurrency)
+    if (
+      maxConcurrency &&
+      (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY)
+    ) {
+      newErrors.maxConcurrency = `Enter a whole number from 1 to ${String(MAX_CONCURRENCY)}`
+    }
+
+    const timeout = Number(stepTimeoutMs)
+    if (stepTimeoutMs && (!Number.isInteger(timeout) || timeout < MIN_STEP_TIMEOUT_MS)) {
+      newErrors.stepTimeoutMs = `Enter at least ${String(MIN_STEP_TIMEOUT_MS)} ms`
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleStart = async () => {
+    if (!validate()) return
+
+    const data: StartRunRequest = {
+      ...(selected && { environmentId: selected.id }),
+      // Only IDs still in the package; a scenario may have been deleted meanwhile
+      ...(selectScenarios && {
+        scenarioIds: scenarios.filter((s) => selectedScenarios.has(s.id)).map((s) => s.id),
+      }),
+      ...(maxConcurrency && { maxConcurrency: Number(maxConcurrency) }),
+      ...(stepTimeoutMs && { stepTimeoutMs: Number(stepTimeoutMs) }),
+      ...(failFast && { failFast }),
+    }
+
+    try {
+      const run = await startRun.mutateAsync({ id: pkg.id, data })
+      onClose()
+      onStarted?.(run)
+    } catch (error) {
+      console.error('Failed to start run:', error)
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Start Run" size="xl">
+      <div className="space-y-5">
+        <fieldset>
+          <legend className="block text-sm font-medium text-white mb-2">Environment</legend>
+          {isLoading ? (
+            <p className="text-sm text-secondary-400">Loading environments...</p>
+          ) : (
+            <div className="space-y-2">
+              <EnvironmentOption
+                name="Package default"
+                baseUrl={pkg.baseUrl}
+                checked={selected === undefined}
+                onSelect={() => {
+                  setEnvironmentId(PACKAGE_DEFAULT)
+                }}
+              />
+              {environments?.map((env) => (
+                <EnvironmentOption
+                  key={env.id}
+                  name={env.name}
+                  baseUrl={env.baseUrl}
+                  detail={formatCounts(env.variables, env.secrets)}
+                  isDefault={env.isDefault}
+                  checked={env.id === environmentId}
+                  onSelect={() => {
+                    setEnvironmentId(env.id)
+                  }}
+                />
+              ))}
+            </div>
+          )}
+        </fieldset>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-white mb-2">Scenarios</legend>
+          <div className="flex gap-4 text-sm text-secondary-300 mb-3">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="run-scenarios"
+                checked={!selectScenarios}
+                onChange={() => {
+                  setSelectScenarios(false)
+                }}
+              />
+              All scenarios{scenarioList && ` (${String(scenarioList.totalElements)})`}
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="run-scenarios"
+                checked={selectScenarios}
+                onChange={() => {
+                  setSelectScenarios(true)
+                }}
+              />
+              Choose scenarios
+            </label>
+          </div>
+
+          {selectScenarios && (
+            <div className="space-y-3">
+              {/* Filters */}
+              <div className="flex flex-wrap gap-2">
+                <input
+                  type="text"
+                  value={query}
+                  onChange={(e) => {
+                    setQuery(e.target.value)
+                  }}
+                  placeholder="Filter by name..."
+                  aria-label="Filter by name"
+                  className={`${FILTER_CLASS} flex-1 min-w-40 placeholder-secondary-500`}
+                />
+                <select
+                  value={tag}
+                  onChange={(e) => {
+                    setTag(e.target.value)
+                  }}
+                  aria-label="Tag"
+                  className={FILTER_CLASS}
+                  disabled={catalog.tags.length === 0}
+                >
+                  <option value="">Any tag</option>
+                  {catalog.tags.map((value) => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={endpoint}
+                  onChange={(e) => {
+                    setEndpoint(e.target.value)
+                  }}
+                  aria-label="Endpoint"
+                  className={`${FILTER_CLASS} max-w-56`}
+                >
+                  <option value="">Any endpoint</option>
+                  {catalog.endpoints.map((value) => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={status}
+                  onChange={(e) => {
+                    setStatus(e.target.value as ScenarioStatus | '')
+                  }}
+                  aria-label="Last status"
+                  className={FILTER_CLASS}
+                >
+                  {STATUS_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Selection controls */}
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-secondary-400">
+                  {selectedScenarios.size} of {scenarios.length} selected
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={handleSelectAll}
+                    className="text-sm text-primary-400 hover:text-primary-300 transition-colors"
+                  >
+                    Select All
+                  </button>
+                  <span className="text-secondary-600">|</span>
+                  <button
+                    type="button"
+                    onClick={handleDeselectAll}
+                    className="text-sm text-primary-400 hover:text-primary-300 transition-colors"
+                  >
+                    Deselect All
+                  </button>
+                </div>
+              </div>
+
+              {scenarioList?.truncated && (
+                <p className="text-sm text-yellow-400">
+                  Only the first {scenarios.length} of {scenarioList.totalElements} scenarios can be
+                  chosen here.
+                </p>
+              )}
+
+              {/* Scenario list */}
+              <div className="max-h-64 overflow-y-auto border border-secondary-700 rounded-lg divide-y divide-secondary-700">
+                {scenariosLoading ? (
+                  <p className="p-3 text-sm text-secondary-400">Loading scenarios...</p>
+                ) : visibleScenarios.length === 0 ? (
+                  <p className="p-3 text-sm text-secondary-400">No scenarios match the filters</p>
+                ) : (
+                  visibleScenarios.map((scenario) => (
+                    <label
+                      key={scenario.id}
+                      className="flex items-center gap-3 p-3 hover:bg-secondary-800/50 cursor-pointer transition-colors"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedScenarios.has(scenario.id)}
+                        onChange={() => {
+                          handleToggleScenario(scenario.id)
+                        }}
+                        className="w-4 h-4 rounded border-secondary-600 bg-secondary-800 text-primary-500 focus:ring-primary-500 focus:ring-offset-0"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-white font-medium truncate">{scenario.name}</p>
+                        <p className="text-secondary-500 text-xs truncate">
+                          {catalog.facets.get(scenario.id)?.endpoints.join(', ')}
+                        </p>
+                      </div>
+                      <span className="text-secondary-500 text-xs">{scenario.status}</span>
+                    </label>
+                  ))
+                )}
+              </div>
+              {errors.scenarios && <p className="text-sm text-red-500">{errors.scenarios}</p>}
+            </div>
+          )}
+        </fieldset>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-white mb-2">Options</legend>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="run-max-concurrency"
+                className="block text-sm text-secondary-400 mb-1"
+              >
+                Max concurrency
+              </label>
+              <input
+                id="run-max-concurrency"
+                type="number"
+                min={1}
+                max={MAX_CONCURRENCY}
+                value={maxConcurrency}
+                onChange={(e) => {
+                  setMaxConcurrency(e.target.value)
+                }}
+                placeholder="Server default"
+                className={INPUT_CLASS}
+              />
+              {errors.maxConcurrency && (
+                <p className="mt-1 text-sm text-red-500">{errors.maxConcurrency}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="run-step-timeout" className="block text-sm text-secondary-400 mb-1">
+                Step timeout (ms)
+              </label>
+              <input
+                id="run-step-timeout"
+                type="number"
+                min={MIN_STEP_TIMEOUT_MS}
+                step={100}
+                value={stepTimeoutMs}
+                onChange={(e) => {
+                  setStepTimeoutMs(e.target.value)
+                }}
+                placeholder="Per-step setting"
+                className={INPUT_CLASS}
+              />
+              {errors.stepTimeoutMs && (
+                <p className="mt-1 text-sm text-red-500">{errors.stepTimeoutMs}</p>
+              )}
+            </div>
+          </div>
+          <label className="flex items-center gap-2 mt-3 text-sm text-secondary-300">
+            <input
+              type="checkbox"
+              checked={failFast}
+              onChange={(e) => {
+                setFailFast(e.target.checked)
+              }}
+              className="w-4 h-4 rounded border-secondary-600 bg-secondary-700 text-primary-500"
+            />
+            Stop on first failure
+          </label>
+        </fieldset>
+
+        {startRun.isError && (
+          <div className="p-4 bg-red-500/10 border border-red-500/50 rounded-lg">
+            <p className="text-red-500 text-sm">
+              {startRun.error instanceof Error
+                ? startRun.error.message
+                : 'Failed to start run. Please try again.'}
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={startRun.isPending}
+            className="btn btn-ghost"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              void handleStart()
+            }}
+            disabled={startRun.isPending || isLoading}
+            className="btn btn-primary disabled:opacity-50"
+          >
+            {startRun.isPending
+              ? 'Starting...'
+              : selectScenarios
+                ? `Start Run (${String(selectedScenarios.size)})`
+                : 'Start Run'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+function EnvironmentOption({
+  name,
+  baseUrl,
+  detail,
+  isDefault = false,
+  checked,
+  onSelect,
+}: {
+  name: string
+  baseUrl: string
+  detail?: string
+  isDefault?: boolean
+  checked: boolean
+  onSelect: () => void
+}) {
+  return (
+    <label
+      className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+        checked
+          ? 'border-primary-500 bg-primary-500/10'
+          : 'border-secondary-700 hover:border-secondary-500'
+      }`}
+    >
+      <input
+        type="radio"
+        name="run-environment"
+        checked={checked}
+        onChange={onSelect}
+        className="mt-1"
+      />
+      <span className="flex-1 min-w-0">
+        <span className="flex items-center gap-2 text-white font-medium">
+          {name}
+          {isDefault && (
+            <span className="px-2 py-0.5 rounded-full text-xs bg-primary-500/10 text-primary-400">
+              Default
+            </span>
+          )}
+        </span>
+        <span className="block text-sm text-secondary-400 font-mono truncate">{baseUrl}</span>
+        {detail && <span className="block text-xs text-secondary-500">{detail}</span>}
+      </span>
+    </label>
+  )
+}
+
+function formatCounts(variables: Record<string, string>, secrets: Record<string, string>): string {
+  const variableCount = Object.keys(variables).length
+  const secretCount = Object.keys(secrets).length
+  return `${String(variableCount)} variable${variableCount === 1 ? '' : 's'}, ${String(secretCount)} secret${secretCount === 1 ? '' : 's'}`
+}
@@ -1,2 +1,7 @@
 export { PackageCard } from './PackageCard'
 export { CreatePackageModal } from './CreatePackageModal'
+export { EnvironmentFormModal } from './EnvironmentFormModal'
+export { StartRunDialog } from './StartRunDialog'
+export { ImportScenariosModal } from './ImportScenariosModal'
+export { SpecDiffModal } from './SpecDiffModal'
+export { SpecSourceInput } from './SpecSourceInput'
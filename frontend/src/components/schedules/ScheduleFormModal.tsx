@@ -0,0 +1,349 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Modal } from '@/components/ui/Modal'
+import { useCreateSchedule, usePackages, useUpdateSchedule } from '@/hooks'
+import { CronParseError, getNextRuns, isValidTimeZone } from '@/lib/schedule'
+import { usePreferences } from '@/lib/preferences'
+import type { PackageSchedule } from '@/api/types'
+
+interface ScheduleFormModalProps {
+  isOpen: boolean
+  onClose: () => void
+  /** Schedule to edit; creates a new one when omitted */
+  schedule?: PackageSchedule | undefined
+  /** Fixes the package; otherwise a package picker is shown */
+  packageId?: string | undefined
+}
+
+interface FormData {
+  packageId: string
+  name: string
+  cronExpression: string
+  timezone: string
+  enabled: boolean
+}
+
+const PREVIEW_COUNT = 5
+
+const CRON_PRESETS = [
+  { label: 'Hourly', value: '0 * * * *' },
+  { label: 'Daily 02:00', value: '0 2 * * *' },
+  { label: 'Weekdays 09:00', value: '0 9 * * 1-5' },
+  { label: 'Weekly (Mon)', value: '0 6 * * 1' },
+]
+
+const localTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+function getTimeZones(): string[] {
+  // Not available in every runtime; the field still accepts any valid IANA name
+  const zones =
+    typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : []
+  return zones.includes('UTC') ? zones : ['UTC', ...zones]
+}
+
+const toFormData = (schedule: PackageSchedule | undefined, packageId: string): FormData => ({
+  packageId: schedule?.packageId ?? packageId,
+  name: schedule?.name ?? '',
+  cronExpression: schedule?.cronExpression ?? '0 2 * * *',
+  timezone: schedule?.timezone ?? localTimeZone,
+  enabled: schedule?.enabled ?? true,
+})
+
+export function ScheduleFormModal({
+  isOpen,
+  onClose,
+  schedule,
+  packageId = '',
+}: ScheduleFormModalProps) {
+  const createSchedule = useCreateSchedule()
+  const updateSchedule = useUpdateSchedule()
+  const mutation = schedule ? updateSchedule : createSchedule
+  const { data: packages } = usePackages(0, 100)
+  const { preferences } = usePreferences()
+  const timeZones = useMemo(getTimeZones, [])
+
+  const [formData, setFormData] = useState<FormData>(() => toFormData(schedule, packageId))
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  // Start from the edited schedule each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(toFormData(schedule, packageId))
+      setErrors({})
+      createSchedule.reset()
+      updateSchedule.reset()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- mutation reset is stable, but object reference changes
+  }, [isOpen, schedule, packageId])
+
+  const preview = useMemo((): { runs: Date[]; error: string | null } => {
+    if (!isValidTimeZone(formData.timezone)) {
+      return { runs: [], error: 'Unknown time zone' }
+    }
+    try {
+      return {
+        runs: getNextRuns(formData.cronExpression, {
+          count: PREVIEW_COUNT,
+          timeZone: formData.timezone,
+        }),
+        error: null,
+      }
+    } catch (error) {
+      return { runs: [], error: error instanceof CronParseError ? error.message : 'Invalid cron' }
+    }
+  }, [formData.cronExpression, formData.timezone])
+
+  const updateField = <K extends keyof FormData>(field: K, value: FormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors((prev) => {
+        const { [field]: _, ...rest } = prev
+        return rest
+      })
+    }
+  }
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {}
+
+    if (!formData.packageId) {
+      newErrors.packageId = 'Package is required'
+    }
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required'
+    }
+    if (!formData.cronExpression.trim()) {
+      newErrors.cronExpression = 'Cron expression is required'
+    } else if (preview.error && isValidTimeZone(formData.timezone)) {
+      newErrors.cronExpression = preview.error
+    }
+    if (!isValidTimeZone(formData.timezone)) {
+      newErrors.timezone = 'Unknown time zone'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validate()) return
+
+    const data = {
+      name: formData.name.trim(),
+      cronExpression: formData.cronExpression.trim(),
+      timezone: formData.timezone,
+      enabled: formData.enabled,
+    }
+
+    try {
+      if (schedule) {
+        await updateSchedule.mutateAsync({ id: schedule.id, data })
+      } else {
+        await createSchedule.mutateAsync({ ...data, packageId: formData.packageId })
+      }
+      onClose()
+    } catch (error) {
+      console.error('Failed to save schedule:', error)
+    }
+  }
+
+  const inputClassName = (fieldName: string) =>
+    `w-full px-4 py-2 bg-secondary-800 border rounded-lg text-white placeholder-secondary-500 focus:outline-none transition-colors ${
+      errors[fieldName]
+        ? 'border-red-500 focus:border-red-500'
+        : 'border-secondary-700 focus:border-primary-500'
+    }`
+
+  const formatPreview = (date: Date) =>
+    date.toLocaleString(undefined, {
+      timeZone: formData.timezone,
+      weekday: 'short',
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZoneName: 'short',
+      hour12: preferences.hour12,
+    })
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={schedule ? 'Edit Schedule' : 'New Schedule'}
+      size="xl"
+    >
+      <form
+        onSubmit={(e) => {
+          void handleSubmit(e)
+        }}
+        className="space-y-5"
+      >
+        {/* Package */}
+        {!packageId && !schedule && (
+          <div>
+            <label htmlFor="schedule-package" className="block text-sm font-medium text-white mb-2">
+              Package <span className="text-red-500">*</span>
+            </label>
+            <select
+              id="schedule-package"
+              value={formData.packageId}
+              onChange={(e) => {
+                updateField('packageId', e.target.value)
+              }}
+              className={inputClassName('packageId')}
+            >
+              <option value="">Select a package</option>
+              {packages?.content.map((pkg) => (
+                <option key={pkg.id} value={pkg.id}>
+                  {pkg.name}
+                </option>
+              ))}
+            </select>
+            {errors.packageId && <p className="mt-1 text-sm text-red-500">{errors.packageId}</p>}
+          </div>
+        )}
+
+        {/* Name */}
+        <div>
+          <label htmlFor="schedule-name" className="block text-sm font-medium text-white mb-2">
+            Name <span className="text-red-500">*</span>
+          </label>
+          <input
+            id="schedule-name"
+            type="text"
+            value={formData.name}
+            onChange={(e) => {
+              updateField('name', e.target.value)
+            }}
+            placeholder="Nightly regression"
+            className={inputClassName('name')}
+            autoFocus
+          />
+          {errors.name && <p className="mt-1 text-sm text-red-500">{errors.name}</p>}
+        </div>
+
+        {/* Cron expression */}
+        <div>
+          <label htmlFor="schedule-cron" className="block text-sm font-medium text-white mb-2">
+            Cron Expression <span className="text-red-500">*</span>
+          </label>
+          <input
+            id="schedule-cron"
+            type="text"
+            value={formData.cronExpression}
+            onChange={(e) => {
+              updateField('cronExpression', e.target.value)
+            }}
+            placeholder="0 2 * * *"
+            className={`${inputClassName('cronExpression')} font-mono`}
+          />
+          {errors.cronExpression && (
+            <p className="mt-1 text-sm text-red-500">{errors.cronExpression}</p>
+          )}
+          <div className="mt-2 flex flex-wrap gap-2">
+            {CRON_PRESETS.map((preset) => (
+              <button
+                key={preset.value}
+                type="button"
+                onClick={() => {
+                  updateField('cronExpression', preset.value)
+                }}
+                className="px-2 py-1 text-xs rounded bg-secondary-700 text-secondary-300 hover:text-white"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-secondary-500">
+            minute hour day-of-month month day-of-week, e.g. <code>0 9 * * 1-5</code>
+          </p>
+        </div>
+
+        {/* Time zone */}
+        <div>
+          <label htmlFor="schedule-timezone" className="block text-sm font-medium text-white mb-2">
+            Time Zone <span className="text-red-500">*</span>
+          </label>
+          <input
+            id="schedule-timezone"
+            type="text"
+            list="schedule-timezones"
+            value={formData.timezone}
+            onChange={(e) => {
+              updateField('timezone', e.target.value)
+            }}
+            className={inputClassName('timezone')}
+          />
+          <datalist id="schedule-timezones">
+            {timeZones.map((zone) => (
+              <option key={zone} value={zone} />
+            ))}
+          </datalist>
+          {errors.timezone && <p className="mt-1 text-sm text-red-500">{errors.timezone}</p>}
+        </div>
+
+        {/* Enabled */}
+        <label className="flex items-center gap-2 text-sm text-secondary-300">
+          <input
+            type="checkbox"
+            checked={formData.enabled}
+            onChange={(e) => {
+              updateField('enabled', e.target.checked)
+            }}
+            className="w-4 h-4 rounded border-secondary-600 bg-secondary-700 text-primary-500"
+          />
+          Enabled
+        </label>
+
+        {/* Preview */}
+        <div className="p-4 bg-secondary-800/50 rounded-lg" data-testid="schedule-preview">
+          <h3 className="text-sm font-medium text-white mb-2">Next {PREVIEW_COUNT} runs</h3>
+          {preview.error ? (
+            <p className="text-sm text-secondary-400">{preview.error}</p>
+          ) : preview.runs.length === 0 ? (
+            <p className="text-sm text-secondary-400">This expression never fires</p>
+          ) : (
+            <ol className="space-y-1 text-sm text-secondary-300 font-mono">
+              {preview.runs.map((run) => (
+                <li key={run.getTime()}>{formatPreview(run)}</li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        {/* Error message */}
+        {mutation.isError && (
+          <div className="p-4 bg-red-500/10 border border-red-500/50 rounded-lg">
+            <p className="text-red-500 text-sm">
+              {mutation.error instanceof Error
+                ? mutation.error.message
+                : 'Failed to save schedule. Please try again.'}
+            </p>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-end gap-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={mutation.isPending}
+            className="btn btn-ghost"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={mutation.isPending}
+            className="btn btn-primary disabled:opacity-50"
+          >
+            {mutation.isPending ? 'Saving...' : schedule ? 'Save Changes' : 'Create Schedule'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
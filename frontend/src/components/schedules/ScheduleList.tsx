@@ -0,0 +1,203 @@
+import { useState } from 'react'
+import { Link } from '@tanstack/react-router'
+import { Modal } from '@/components/ui/Modal'
+import { Can } from '@/components/auth'
+import { useDeleteSchedule, useUpdateSchedule } from '@/hooks'
+import { getNextRuns, isValidTimeZone } from '@/lib/schedule'
+import { useDateFormat } from '@/lib/preferences'
+import { ScheduleFormModal } from './ScheduleFormModal'
+import type { PackageSchedule, ScheduleOutcome } from '@/api/types'
+
+interface ScheduleListProps {
+  schedules: PackageSchedule[]
+  /** Package names by ID; adds a package column when given */
+  packageNames?: Map<string, string> | undefined
+}
+
+const outcomeStyles: Record<ScheduleOutcome, string> = {
+  RUNNING: 'bg-blue-500/10 text-blue-500',
+  PASSED: 'bg-green-500/10 text-green-500',
+  FAILED: 'bg-red-500/10 text-red-500',
+  ERROR: 'bg-orange-500/10 text-orange-500',
+}
+
+export function ScheduleList({ schedules, packageNames }: ScheduleListProps) {
+  const updateSchedule = useUpdateSchedule()
+  const deleteSchedule = useDeleteSchedule()
+  const { formatDateTime } = useDateFormat()
+  const [editing, setEditing] = useState<PackageSchedule | null>(null)
+  const [deleting, setDeleting] = useState<PackageSchedule | null>(null)
+
+  const handleToggle = (schedule: PackageSchedule) => {
+    updateSchedule.mutate({ id: schedule.id, data: { enabled: !schedule.enabled } })
+  }
+
+  const handleDelete = () => {
+    if (!deleting) return
+    deleteSchedule.mutate(deleting.id, {
+      onSuccess: () => {
+        setDeleting(null)
+      },
+    })
+  }
+
+  return (
+    <>
+      <div className="card p-0 divide-y divide-secondary-700" data-testid="schedule-list">
+        {schedules.map((schedule) => (
+          <div key={schedule.id} className="flex flex-wrap items-center gap-4 px-4 py-3">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-white">{schedule.name}</span>
+                {!schedule.enabled && (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-secondary-500/10 text-secondary-400">
+                    Paused
+                  </span>
+                )}
+              </div>
+              <div className="text-sm text-secondary-400">
+                <code className="font-mono">{schedule.cronExpression}</code> · {schedule.timezone}
+                {packageNames && (
+                  <>
+                    {' · '}
+                    <Link
+                      to="/packages/$packageId"
+                      params={{ packageId: schedule.packageId }}
+                      className="hover:text-white"
+                    >
+                      {packageNames.get(schedule.packageId) ?? 'Unknown package'}
+                    </Link>
+                  </>
+                )}
+              </div>
+              <div className="text-xs text-secondary-500 mt-1">
+                Next run: {schedule.enabled ? formatNextRun(schedule, formatDateTime) : '—'}
+              </div>
+            </div>
+
+            <LastOutcome schedule={schedule} />
+
+            <Can permission="schedule:manage">
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => {
+                    handleToggle(schedule)
+                  }}
+                  disabled={updateSchedule.isPending}
+                  className="btn btn-ghost text-sm disabled:opacity-50"
+                >
+                  {schedule.enabled ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  onClick={() => {
+                    setEditing(schedule)
+                  }}
+                  className="btn btn-ghost text-sm"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => {
+                    setDeleting(schedule)
+                  }}
+                  className="btn btn-ghost text-sm text-red-500"
+                >
+                  Delete
+                </button>
+              </div>
+            </Can>
+          </div>
+        ))}
+      </div>
+
+      <ScheduleFormModal
+        isOpen={editing !== null}
+        onClose={() => {
+          setEditing(null)
+        }}
+        schedule={editing ?? undefined}
+      />
+
+      <Modal
+        isOpen={deleting !== null}
+        onClose={() => {
+          setDeleting(null)
+        }}
+        title="Delete Schedule"
+        size="sm"
+      >
+        <p className="text-secondary-300 mb-6">
+          Delete <span className="text-white font-medium">{deleting?.name}</span>? Runs it already
+          started are kept.
+        </p>
+        {deleteSchedule.isError && (
+          <p className="text-red-500 text-sm mb-4">{deleteSchedule.error.message}</p>
+        )}
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={() => {
+              setDeleting(null)
+            }}
+            className="btn btn-ghost"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={deleteSchedule.isPending}
+            className="btn bg-red-500 text-white hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {deleteSchedule.isPending ? 'Deleting...' : 'Delete'}
+          </button>
+        </div>
+      </Modal>
+    </>
+  )
+}
+
+function LastOutcome({ schedule }: { schedule: PackageSchedule }) {
+  const { lastRun } = schedule
+  const { formatDateTime } = useDateFormat()
+  if (!lastRun) {
+    return <span className="text-sm text-secondary-500">Never run</span>
+  }
+
+  const badge = (
+    <span
+      className={`px-2 py-0.5 rounded-full text-xs font-medium ${outcomeStyles[lastRun.outcome]}`}
+    >
+      {lastRun.outcome}
+    </span>
+  )
+
+  return (
+    <div className="text-right text-sm" title={lastRun.error ?? undefined}>
+      {lastRun.runId ? (
+        <Link
+          to="/runs/$runId"
+          params={{ runId: lastRun.runId }}
+          className="inline-flex items-center gap-2 hover:opacity-80"
+        >
+          {badge}
+          <span className="text-primary-400">Run #{lastRun.runId.slice(0, 8)}</span>
+        </Link>
+      ) : (
+        badge
+      )}
+      <div className="text-xs text-secondary-500">{formatDateTime(lastRun.firedAt)}</div>
+    </div>
+  )
+}
+
+function formatNextRun(
+  schedule: PackageSchedule,
+  formatDateTime: (value: Date) => string
+): string {
+  if (!isValidTimeZone(schedule.timezone)) return '—'
+  try {
+    const [next] = getNextRuns(schedule.cronExpression, { count: 1, timeZone: schedule.timezone })
+    return next ? formatDateTime(next) : '—'
+  } catch {
+    return '—'
+  }
+}
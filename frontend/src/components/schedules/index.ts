@@ -0,0 +1,2 @@
+export { ScheduleFormModal } from './ScheduleFormModal'
+export { ScheduleList } from './ScheduleList'
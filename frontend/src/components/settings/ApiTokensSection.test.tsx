@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ApiTokensSection } from './ApiTokensSection'
+import { renderWithQuery } from '@/test/test-utils'
+import type { ApiToken } from '@/api/types'
+
+const auth = vi.hoisted(() => ({ roles: ['tester'] }))
+
+vi.mock('@/lib/auth/useAuth', () => ({
+  useAuth: () => ({ user: { roles: auth.roles } }),
+}))
+
+const token: ApiToken = {
+  id: 'token-1',
+  name: 'Nightly CI',
+  kind: 'PERSONAL',
+  scopes: ['run'],
+  prefix: 'qaw_91cd',
+  createdBy: 'alice',
+  createdAt: '2024-01-01T00:00:00Z',
+  expiresAt: null,
+  lastUsedAt: '2024-02-01T10:00:00Z',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+/** Routes mocked fetch calls by method; later list calls return `listAfter` */
+function mockApi({ listAfter = [token] }: { listAfter?: ApiToken[] } = {}) {
+  let listed = false
+  return vi.spyOn(globalThis, 'fetch').mockImplementation((_url, init) => {
+    switch (init?.method ?? 'GET') {
+      case 'POST':
+        return Promise.resolve(
+          jsonResponse({ token: { ...token, id: 'token-2' }, secret: 'qaw_91cd_s3cr3t' }, 201)
+        )
+      case 'DELETE':
+        return Promise.resolve(new Response(null, { status: 204 }))
+      default: {
+        const body = listed ? listAfter : [token]
+        listed = true
+        return Promise.resolve(jsonResponse(body))
+      }
+    }
+  })
+}
+
+describe('ApiTokensSection', () => {
+  afterEach(() => {
+    auth.roles = ['tester']
+    vi.restoreAllMocks()
+  })
+
+  it('lists tokens with scopes, expiry and last use', async () => {
+    mockApi()
+    renderWithQuery(<ApiTokensSection />)
+
+    expect(await screen.findByText('Nightly CI')).toBeInTheDocument()
+    expect(screen.getByText('run')).toBeInTheDocument()
+    expect(screen.getByText(/qaw_91cd…/)).toBeInTheDocument()
+    expect(screen.getByText(/Never expires/)).toBeInTheDocument()
+    expect(screen.getByText(/Last used:/)).not.toHaveTextContent('Never')
+  })
+
+  it('shows the secret once after creating a token', async () => {
+    const user = userEvent.setup()
+    const fetchSpy = mockApi()
+    renderWithQuery(<ApiTokensSection />)
+    await screen.findByText('Nightly CI')
+
+    await user.click(screen.getByRole('button', { name: 'New Token' }))
+    expect(screen.queryByRole('radio')).not.toBeInTheDocument()
+    expect(screen.queryByRole('checkbox', { name: /Admin/ })).not.toBeInTheDocument()
+
+    await user.type(screen.getByLabelText(/Name/), 'Deploy pipeline')
+    await user.selectOptions(screen.getByLabelText('Expiration'), '30 days')
+    await user.click(screen.getByRole('button', { name: 'Create Token' }))
+
+    expect(await screen.findByTestId('token-secret')).toHaveTextContent('qaw_91cd_s3cr3t')
+    const post = fetchSpy.mock.calls.find(([, init]) => init?.method === 'POST')
+    expect(JSON.parse(post?.[1]?.body as string)).toEqual({
+      name: 'Deploy pipeline',
+      kind: 'PERSONAL',
+      scopes: ['read', 'run'],
+      expiresInDays: 30,
+    })
+
+    await user.click(screen.getByRole('button', { name: 'Done' }))
+    await user.click(screen.getByRole('button', { name: 'New Token' }))
+    expect(screen.queryByTestId('token-secret')).not.toBeInTheDocument()
+  })
+
+  it('requires a name and a scope', async () => {
+    const user = userEvent.setup()
+    const fetchSpy = mockApi()
+    renderWithQuery(<ApiTokensSection />)
+    await screen.findByText('Nightly CI')
+
+    await user.click(screen.getByRole('button', { name: 'New Token' }))
+    await user.click(screen.getByRole('checkbox', { name: /Read/ }))
+    await user.click(screen.getByRole('checkbox', { name: /Run/ }))
+    await user.click(screen.getByRole('button', { name: 'Create Token' }))
+
+    expect(screen.getByText('Name is required')).toBeInTheDocument()
+    expect(screen.getByText('Select at least one scope')).toBeInTheDocument()
+    expect(fetchSpy.mock.calls.some(([, init]) => init?.method === 'POST')).toBe(false)
+  })
+
+  it('lets admins create service tokens with the admin scope', async () => {
+    auth.roles = ['admin']
+    const user = userEvent.setup()
+    mockApi()
+    renderWithQuery(<ApiTokensSection />)
+    await screen.findByText('Nightly CI')
+
+    await user.click(screen.getByRole('button', { name: 'New Token' }))
+
+    expect(screen.getByRole('radio', { name: /Service/ })).toBeInTheDocument()
+    expect(screen.getByRole('checkbox', { name: /Admin/ })).toBeInTheDocument()
+  })
+
+  it('leaves revoking service tokens to admins', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      jsonResponse([token, { ...token, id: 'token-2', name: 'Shared CI', kind: 'SERVICE' }])
+    )
+    renderWithQuery(<ApiTokensSection />)
+    await screen.findByText('Shared CI')
+
+    expect(screen.getByRole('button', { name: 'Revoke Nightly CI' })).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Revoke Shared CI' })).not.toBeInTheDocument()
+  })
+
+  it('revokes a token after confirmation', async () => {
+    const user = userEvent.setup()
+    const fetchSpy = mockApi({ listAfter: [] })
+    renderWithQuery(<ApiTokensSection />)
+    await screen.findByText('Nightly CI')
+
+    await user.click(screen.getByRole('button', { name: 'Revoke Nightly CI' }))
+    await user.click(screen.getByRole('button', { name: 'Revoke' }))
+
+    expect(await screen.findByText('No API tokens')).toBeInTheDocument()
+    const revoke = fetchSpy.mock.calls.find(([, init]) => init?.method === 'DELETE')
+    expect(revoke?.[0]).toContain('/api/qa/api-tokens/token-1')
+  })
+})
@@ -0,0 +1,160 @@
+import { useState } from 'react'
+import { Modal } from '@/components/ui/Modal'
+import { EmptyState, Skeleton } from '@/components/ui'
+import { useApiTokens, useRevokeApiToken } from '@/hooks'
+import { usePermission } from '@/lib/auth'
+import { useDateFormat } from '@/lib/preferences'
+import { CreateApiTokenModal } from './CreateApiTokenModal'
+import type { ApiToken } from '@/api/types'
+
+export function ApiTokensSection() {
+  const { data: tokens, isLoading, isError, error } = useApiTokens()
+  const revokeToken = useRevokeApiToken()
+  const canManageServiceTokens = usePermission('service-token:manage')
+  const { formatDate, formatDateTime } = useDateFormat()
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const [revoking, setRevoking] = useState<ApiToken | null>(null)
+
+  const handleRevoke = () => {
+    if (!revoking) return
+    revokeToken.mutate(revoking.id, {
+      onSuccess: () => {
+        setRevoking(null)
+      },
+    })
+  }
+
+  return (
+    <section className="card" aria-labelledby="api-tokens-heading">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-4">
+        <div>
+          <h2 id="api-tokens-heading" className="text-lg font-semibold text-white">
+            API Tokens
+          </h2>
+          <p className="text-sm text-secondary-400">
+            Credentials for CI jobs and scripts; send them as{' '}
+            <code className="font-mono">Authorization: Bearer &lt;token&gt;</code>
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setIsCreateOpen(true)
+          }}
+          className="btn btn-primary"
+        >
+          New Token
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2].map((i) => (
+            <Skeleton key={i} className="h-14" />
+          ))}
+        </div>
+      ) : isError ? (
+        <p className="text-sm text-red-500">Failed to load API tokens: {error.message}</p>
+      ) : !tokens || tokens.length === 0 ? (
+        <EmptyState
+          title="No API tokens"
+          description="Create a token to trigger runs from CI without signing in."
+        />
+      ) : (
+        <ul className="divide-y divide-secondary-700" data-testid="api-token-list">
+          {tokens.map((token) => (
+            <li key={token.id} className="flex flex-wrap items-center gap-4 py-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-white">{token.name}</span>
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-secondary-500/10 text-secondary-300">
+                    {token.kind === 'SERVICE' ? 'Service' : 'Personal'}
+                  </span>
+                  {token.scopes.map((scope) => (
+                    <span
+                      key={scope}
+                      className="px-2 py-0.5 rounded text-xs font-mono bg-primary-500/10 text-primary-400"
+                    >
+                      {scope}
+                    </span>
+                  ))}
+                  {isExpired(token) && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-500/10 text-red-500">
+                      Expired
+                    </span>
+                  )}
+                </div>
+                <div className="text-sm text-secondary-400">
+                  <code className="font-mono">{token.prefix}…</code> · Created{' '}
+                  {formatDate(token.createdAt)}
+                  {token.createdBy && ` by ${token.createdBy}`} ·{' '}
+                  {token.expiresAt
+                    ? `${isExpired(token) ? 'Expired' : 'Expires'} ${formatDate(token.expiresAt)}`
+                    : 'Never expires'}
+                </div>
+                <div className="text-xs text-secondary-500 mt-1">
+                  Last used: {token.lastUsedAt ? formatDateTime(token.lastUsedAt) : 'Never'}
+                </div>
+              </div>
+              {(token.kind === 'PERSONAL' || canManageServiceTokens) && (
+                <button
+                  onClick={() => {
+                    setRevoking(token)
+                  }}
+                  className="btn btn-ghost text-sm text-red-500"
+                  aria-label={`Revoke ${token.name}`}
+                >
+                  Revoke
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <CreateApiTokenModal
+        isOpen={isCreateOpen}
+        onClose={() => {
+          setIsCreateOpen(false)
+        }}
+      />
+
+      <Modal
+        isOpen={revoking !== null}
+        onClose={() => {
+          setRevoking(null)
+        }}
+        title="Revoke Token"
+        size="sm"
+      >
+        <p className="text-secondary-300 mb-6">
+          Revoke <span className="text-white font-medium">{revoking?.name}</span>? Jobs using it
+          stop authenticating immediately.
+        </p>
+        {revokeToken.isError && (
+          <p className="text-red-500 text-sm mb-4">{revokeToken.error.message}</p>
+        )}
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={() => {
+              setRevoking(null)
+            }}
+            className="btn btn-ghost"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleRevoke}
+            disabled={revokeToken.isPending}
+            className="btn bg-red-500 text-white hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {revokeToken.isPending ? 'Revoking...' : 'Revoke'}
+          </button>
+        </div>
+      </Modal>
+    </section>
+  )
+}
+
+function isExpired(token: ApiToken): boolean {
+  return token.expiresAt !== null && new Date(token.expiresAt).getTime() <= Date.now()
+}
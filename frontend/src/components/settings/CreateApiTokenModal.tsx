@@ -0,0 +1,257 @@
+import { useEffect, useState } from 'react'
+import { Modal } from '@/components/ui/Modal'
+import { CopyButton } from '@/components/ui'
+import { useCreateApiToken } from '@/hooks'
+import { usePermission } from '@/lib/auth'
+import type { ApiTokenKind, ApiTokenScope } from '@/api/types'
+
+interface CreateApiTokenModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+interface FormData {
+  name: string
+  kind: ApiTokenKind
+  scopes: ApiTokenScope[]
+  expiresInDays: number | null
+}
+
+const SCOPE_OPTIONS: { scope: ApiTokenScope; label: string; description: string }[] = [
+  { scope: 'read', label: 'Read', description: 'View packages, scenarios and run results' },
+  { scope: 'run', label: 'Run', description: 'Start and cancel runs, e.g. from CI jobs' },
+  { scope: 'admin', label: 'Admin', description: 'Manage packages, environments and schedules' },
+]
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'No expiry', days: null },
+]
+
+const INITIAL_FORM: FormData = {
+  name: '',
+  kind: 'PERSONAL',
+  scopes: ['read', 'run'],
+  expiresInDays: 90,
+}
+
+export function CreateApiTokenModal({ isOpen, onClose }: CreateApiTokenModalProps) {
+  const createToken = useCreateApiToken()
+  const canManageServiceTokens = usePermission('service-token:manage')
+  const [formData, setFormData] = useState<FormData>(INITIAL_FORM)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  // Kept only in component state so the secret is gone once the modal closes
+  const [secret, setSecret] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(INITIAL_FORM)
+      setErrors({})
+      setSecret(null)
+      createToken.reset()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- mutation reset is stable, but object reference changes
+  }, [isOpen])
+
+  const scopeOptions = canManageServiceTokens
+    ? SCOPE_OPTIONS
+    : SCOPE_OPTIONS.filter((option) => option.scope !== 'admin')
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setFormData((prev) => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope)
+        ? prev.scopes.filter((s) => s !== scope)
+        : [...prev.scopes, scope],
+    }))
+    setErrors(({ scopes: _, ...rest }) => rest)
+  }
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {}
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required'
+    }
+    if (formData.scopes.length === 0) {
+      newErrors.scopes = 'Select at least one scope'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validate()) return
+
+    try {
+      const created = await createToken.mutateAsync({ ...formData, name: formData.name.trim() })
+      setSecret(created.secret)
+    } catch (error) {
+      console.error('Failed to create API token:', error)
+    }
+  }
+
+  if (secret !== null) {
+    return (
+      <Modal isOpen={isOpen} onClose={onClose} title="Token Created" size="lg">
+        <p className="text-secondary-300 mb-4">
+          Copy the token now. It is not shown again; if it gets lost, revoke it and create a new
+          one.
+        </p>
+        <div className="flex items-center gap-2 p-3 bg-secondary-800 border border-secondary-700 rounded-lg">
+          <code
+            className="flex-1 font-mono text-sm text-white break-all"
+            data-testid="token-secret"
+          >
+            {secret}
+          </code>
+          <CopyButton text={secret} />
+        </div>
+        <div className="flex justify-end pt-6">
+          <button type="button" onClick={onClose} className="btn btn-primary">
+            Done
+          </button>
+        </div>
+      </Modal>
+    )
+  }
+
+  const inputClassName = (fieldName: string) =>
+    `w-full px-4 py-2 bg-secondary-800 border rounded-lg text-white placeholder-secondary-500 focus:outline-none transition-colors ${
+      errors[fieldName]
+        ? 'border-red-500 focus:border-red-500'
+        : 'border-secondary-700 focus:border-primary-500'
+    }`
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="New API Token" size="lg">
+      <form
+        onSubmit={(e) => {
+          void handleSubmit(e)
+        }}
+        className="space-y-5"
+      >
+        {/* Name */}
+        <div>
+          <label htmlFor="token-name" className="block text-sm font-medium text-white mb-2">
+            Name <span className="text-red-500">*</span>
+          </label>
+          <input
+            id="token-name"
+            type="text"
+            value={formData.name}
+            onChange={(e) => {
+              setFormData((prev) => ({ ...prev, name: e.target.value }))
+              setErrors(({ name: _, ...rest }) => rest)
+            }}
+            placeholder="GitHub Actions"
+            className={inputClassName('name')}
+            autoFocus
+          />
+          {errors.name && <p className="mt-1 text-sm text-red-500">{errors.name}</p>}
+        </div>
+
+        {/* Kind */}
+        {canManageServiceTokens && (
+          <fieldset>
+            <legend className="block text-sm font-medium text-white mb-2">Type</legend>
+            <div className="flex gap-4 text-sm text-secondary-300">
+              {(['PERSONAL', 'SERVICE'] as const).map((kind) => (
+                <label key={kind} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="token-kind"
+                    checked={formData.kind === kind}
+                    onChange={() => {
+                      setFormData((prev) => ({ ...prev, kind }))
+                    }}
+                  />
+                  {kind === 'PERSONAL' ? 'Personal' : 'Service (workspace)'}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
+
+        {/* Scopes */}
+        <fieldset>
+          <legend className="block text-sm font-medium text-white mb-2">
+            Scopes <span className="text-red-500">*</span>
+          </legend>
+          <div className="space-y-2">
+            {scopeOptions.map((option) => (
+              <label key={option.scope} className="flex items-start gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={formData.scopes.includes(option.scope)}
+                  onChange={() => {
+                    toggleScope(option.scope)
+                  }}
+                  className="mt-0.5 w-4 h-4 rounded border-secondary-600 bg-secondary-700 text-primary-500"
+                />
+                <span>
+                  <span className="text-white">{option.label}</span>
+                  <span className="block text-secondary-400">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          {errors.scopes && <p className="mt-1 text-sm text-red-500">{errors.scopes}</p>}
+        </fieldset>
+
+        {/* Expiry */}
+        <div>
+          <label htmlFor="token-expiry" className="block text-sm font-medium text-white mb-2">
+            Expiration
+          </label>
+          <select
+            id="token-expiry"
+            value={formData.expiresInDays ?? ''}
+            onChange={(e) => {
+              const value = e.target.value
+              setFormData((prev) => ({ ...prev, expiresInDays: value ? Number(value) : null }))
+            }}
+            className={inputClassName('expiresInDays')}
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.label} value={option.days ?? ''}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Error message */}
+        {createToken.isError && (
+          <div className="p-4 bg-red-500/10 border border-red-500/50 rounded-lg">
+            <p className="text-red-500 text-sm">{createToken.error.message}</p>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-end gap-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={createToken.isPending}
+            className="btn btn-ghost"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={createToken.isPending}
+            className="btn btn-primary disabled:opacity-50"
+          >
+            {createToken.isPending ? 'Creating...' : 'Create Token'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
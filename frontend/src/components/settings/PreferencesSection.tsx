@@ -0,0 +1,180 @@
+import { useMemo } from 'react'
+import {
+  EDITOR_FONT_SIZE_RANGE,
+  PAGE_SIZE_OPTIONS,
+  useDateFormat,
+  usePreferences,
+} from '@/lib/preferences'
+import type { ThemePreference, TimeDisplay } from '@/api/types'
+
+const THEME_OPTIONS: { value: ThemePreference; label: string }[] = [
+  { value: 'system', label: 'System' },
+  { value: 'dark', label: 'Dark' },
+  { value: 'light', label: 'Light' },
+]
+
+const TIME_DISPLAY_OPTIONS: { value: TimeDisplay; label: string }[] = [
+  { value: 'relative', label: 'Relative (5m ago)' },
+  { value: 'absolute', label: 'Absolute (date and time)' },
+]
+
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+function getTimeZones(): string[] {
+  return typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : []
+}
+
+export function PreferencesSection() {
+  const { preferences, updatePreferences, isSaving, saveError } = usePreferences()
+  const { formatDateTime, formatTimestamp } = useDateFormat()
+  const timeZones = useMemo(getTimeZones, [])
+  const { min, max } = EDITOR_FONT_SIZE_RANGE
+
+  const example = useMemo(() => new Date(Date.now() - 5 * 60 * 1000), [])
+
+  return (
+    <section className="card" aria-labelledby="preferences-heading">
+      <div className="mb-4">
+        <h2 id="preferences-heading" className="text-lg font-semibold text-white">
+          Preferences
+        </h2>
+        <p className="text-sm text-secondary-400">
+          Saved to your account and applied on every device you sign in from
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="pref-timezone" className="block text-sm font-medium text-white mb-2">
+            Time Zone
+          </label>
+          <select
+            id="pref-timezone"
+            value={preferences.timeZone ?? ''}
+            onChange={(e) => {
+              updatePreferences({ timeZone: e.target.value || null })
+            }}
+            className="input w-full"
+          >
+            <option value="">Browser ({browserTimeZone})</option>
+            {timeZones.map((zone) => (
+              <option key={zone} value={zone}>
+                {zone}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="pref-clock" className="block text-sm font-medium text-white mb-2">
+            Clock
+          </label>
+          <select
+            id="pref-clock"
+            value={preferences.hour12 ? '12' : '24'}
+            onChange={(e) => {
+              updatePreferences({ hour12: e.target.value === '12' })
+            }}
+            className="input w-full"
+          >
+            <option value="24">24-hour</option>
+            <option value="12">12-hour</option>
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="pref-time-display" className="block text-sm font-medium text-white mb-2">
+            Timestamps
+          </label>
+          <select
+            id="pref-time-display"
+            value={preferences.timeDisplay}
+            onChange={(e) => {
+              const value = TIME_DISPLAY_OPTIONS.find((option) => option.value === e.target.value)
+              if (value) updatePreferences({ timeDisplay: value.value })
+            }}
+            className="input w-full"
+          >
+            {TIME_DISPLAY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-secondary-500" data-testid="time-preview">
+            {formatTimestamp(example)} · {formatDateTime(example)}
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="pref-page-size" className="block text-sm font-medium text-white mb-2">
+            Default Page Size
+          </label>
+          <select
+            id="pref-page-size"
+            value={preferences.pageSize}
+            onChange={(e) => {
+              updatePreferences({ pageSize: Number(e.target.value) })
+            }}
+            className="input w-full"
+          >
+            {PAGE_SIZE_OPTIONS.map((size) => (
+              <option key={size} value={size}>
+                {size} per page
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="pref-theme" className="block text-sm font-medium text-white mb-2">
+            Theme
+          </label>
+          <select
+            id="pref-theme"
+            value={preferences.theme}
+            onChange={(e) => {
+              const value = THEME_OPTIONS.find((option) => option.value === e.target.value)
+              if (value) updatePreferences({ theme: value.value })
+            }}
+            className="input w-full"
+          >
+            {THEME_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="pref-font-size" className="block text-sm font-medium text-white mb-2">
+            Editor Font Size
+          </label>
+          <input
+            id="pref-font-size"
+            type="number"
+            min={min}
+            max={max}
+            value={preferences.editorFontSize}
+            onChange={(e) => {
+              const size = Number(e.target.value)
+              if (Number.isInteger(size) && size >= min && size <= max) {
+                updatePreferences({ editorFontSize: size })
+              }
+            }}
+            className="input w-full"
+          />
+        </div>
+      </div>
+
+      <p className="mt-4 text-xs text-secondary-500" role="status">
+        {isSaving
+          ? 'Saving...'
+          : saveError
+            ? `Saved in this browser only; the server did not accept the change: ${saveError.message}`
+            : ''}
+      </p>
+    </section>
+  )
+}
@@ -0,0 +1,3 @@
+export { ApiTokensSection } from './ApiTokensSection'
+export { CreateApiTokenModal } from './CreateApiTokenModal'
+export { PreferencesSection } from './PreferencesSection'
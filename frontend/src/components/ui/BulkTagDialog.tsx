@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react'
+import { Modal } from './Modal'
+import { TagEditor } from './TagEditor'
+
+export interface BulkTagDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onConfirm: (changes: { add: string[]; remove: string[] }) => Promise<void>
+  scenarioCount: number
+  /** Tags already in use, offered in both editors */
+  suggestions?: string[]
+  error?: string | null
+}
+
+export function BulkTagDialog({
+  isOpen,
+  onClose,
+  onConfirm,
+  scenarioCount,
+  suggestions = [],
+  error = null,
+}: BulkTagDialogProps) {
+  const [add, setAdd] = useState<string[]>([])
+  const [remove, setRemove] = useState<string[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setAdd([])
+      setRemove([])
+    }
+  }, [isOpen])
+
+  const handleConfirm = () => {
+    setIsSubmitting(true)
+    onConfirm({ add, remove: remove.filter((tag) => !add.includes(tag)) })
+      .catch(() => {
+        // Error handled by parent
+      })
+      .finally(() => {
+        setIsSubmitting(false)
+      })
+  }
+
+  const scenarioLabel = `${String(scenarioCount)} scenario${scenarioCount === 1 ? '' : 's'}`
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Tag Scenarios" size="lg">
+      <div className="space-y-5">
+        <p className="text-secondary-400 text-sm">
+          Changes apply to {scenarioLabel}. Tags not listed here are left as they are.
+        </p>
+
+        <div>
+          <h3 className="text-sm font-medium text-white mb-2">Add tags</h3>
+          <TagEditor
+            value={add}
+            onChange={setAdd}
+            suggestions={suggestions}
+            label="Tag to add"
+            disabled={isSubmitting}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-white mb-2">Remove tags</h3>
+          <TagEditor
+            value={remove}
+            onChange={setRemove}
+            suggestions={suggestions}
+            label="Tag to remove"
+            disabled={isSubmitting}
+          />
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/50 rounded-lg">
+            <p className="text-red-500 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="btn btn-secondary disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={isSubmitting || (add.length === 0 && remove.length === 0)}
+            className="btn btn-primary disabled:opacity-50"
+          >
+            {isSubmitting ? 'Saving...' : `Update ${scenarioLabel}`}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
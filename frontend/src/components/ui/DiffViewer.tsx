@@ -0,0 +1,39 @@
+import type { DiffLine } from '@/lib/diff'
+
+export interface DiffViewerProps {
+  lines: DiffLine[]
+  emptyMessage?: string
+  className?: string
+}
+
+const LINE_STYLES: Record<DiffLine['type'], { prefix: string; className: string }> = {
+  added: { prefix: '+', className: 'bg-green-500/10 text-green-400' },
+  removed: { prefix: '-', className: 'bg-red-500/10 text-red-400' },
+  unchanged: { prefix: ' ', className: 'text-secondary-400' },
+}
+
+export function DiffViewer({
+  lines,
+  emptyMessage = 'No content',
+  className = '',
+}: DiffViewerProps) {
+  if (lines.length === 0) {
+    return <p className={`text-sm text-secondary-500 ${className}`}>{emptyMessage}</p>
+  }
+
+  return (
+    <pre
+      className={`bg-secondary-900 py-2 rounded-lg overflow-x-auto text-sm font-mono ${className}`}
+    >
+      {lines.map((line, index) => {
+        const style = LINE_STYLES[line.type]
+        return (
+          <div key={index} className={`px-3 ${style.className}`} data-diff={line.type}>
+            <span className="select-none opacity-60 mr-2">{style.prefix}</span>
+            {line.value}
+          </div>
+        )
+      })}
+    </pre>
+  )
+}
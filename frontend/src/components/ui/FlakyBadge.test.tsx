@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { FlakyBadge } from './FlakyBadge'
+import type { ScenarioFlakiness } from '@/lib/analytics'
+
+const flakiness: ScenarioFlakiness = {
+  scenarioId: 'scenario-1',
+  scenarioName: 'Login',
+  outcomes: ['PASSED', 'FAILED', 'PASSED', 'FAILED'],
+  passes: 2,
+  failures: 2,
+  comparisons: 3,
+  flips: 3,
+  score: 1,
+  isFlaky: true,
+}
+
+describe('FlakyBadge', () => {
+  it('shows the score and explains it', () => {
+    render(<FlakyBadge flakiness={flakiness} />)
+
+    expect(screen.getByText(/Flaky 100%/)).toHaveAttribute(
+      'title',
+      'Flaky: flipped 3 of 3 times across the last 4 executions'
+    )
+  })
+
+  it('renders nothing for stable or unknown scenarios', () => {
+    const { container } = render(
+      <>
+        <FlakyBadge flakiness={{ ...flakiness, isFlaky: false }} />
+        <FlakyBadge flakiness={undefined} />
+      </>
+    )
+
+    expect(container).toBeEmptyDOMElement()
+  })
+})
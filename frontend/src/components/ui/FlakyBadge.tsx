@@ -0,0 +1,22 @@
+import type { ScenarioFlakiness } from '@/lib/analytics'
+
+export interface FlakyBadgeProps {
+  /** Renders nothing unless the scenario is flaky */
+  flakiness: ScenarioFlakiness | null | undefined
+}
+
+export function FlakyBadge({ flakiness }: FlakyBadgeProps) {
+  if (!flakiness?.isFlaky) return null
+
+  const description = `Flaky: flipped ${String(flakiness.flips)} of ${String(flakiness.comparisons)} times across the last ${String(flakiness.outcomes.length)} executions`
+
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-500/10 text-orange-400 border border-orange-500/30"
+      title={description}
+      aria-label={description}
+    >
+      ⚡ Flaky {Math.round(flakiness.score * 100)}%
+    </span>
+  )
+}
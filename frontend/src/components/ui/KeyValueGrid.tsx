@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react'
+
+export interface KeyValueGridProps {
+  value: Record<string, string>
+  onChange: (value: Record<string, string>) => void
+  keyPlaceholder?: string
+  valuePlaceholder?: string
+  addLabel?: string
+  disabled?: boolean
+  className?: string
+}
+
+type Row = [key: string, value: string]
+
+const INPUT_CLASS =
+  'flex-1 min-w-0 px-3 py-1.5 bg-secondary-800 border border-secondary-700 rounded-lg text-white text-sm font-mono placeholder-secondary-500 focus:outline-none focus:border-primary-500 disabled:opacity-50'
+
+function toRecord(rows: Row[]): Record<string, string> {
+  return Object.fromEntries(rows.filter(([key]) => key !== ''))
+}
+
+function sameRecord(a: Record<string, string>, b: Record<string, string>): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+export function KeyValueGrid({
+  value,
+  onChange,
+  keyPlaceholder = 'Name',
+  valuePlaceholder = 'Value',
+  addLabel = 'Add',
+  disabled = false,
+  className = '',
+}: KeyValueGridProps) {
+  // Rows are kept locally so half-typed entries (empty or duplicate keys) survive edits
+  const [rows, setRows] = useState<Row[]>(() => Object.entries(value))
+
+  useEffect(() => {
+    setRows((current) => (sameRecord(toRecord(current), value) ? current : Object.entries(value)))
+  }, [value])
+
+  const updateRows = (next: Row[]) => {
+    setRows(next)
+    const record = toRecord(next)
+    if (!sameRecord(record, value)) onChange(record)
+  }
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {rows.map(([key, rowValue], index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={key}
+            placeholder={keyPlaceholder}
+            aria-label={`${keyPlaceholder} ${String(index + 1)}`}
+            disabled={disabled}
+            onChange={(e) => {
+              updateRows(rows.map((row, i) => (i === index ? [e.target.value, row[1]] : row)))
+            }}
+            className={INPUT_CLASS}
+          />
+          <input
+            type="text"
+            value={rowValue}
+            placeholder={valuePlaceholder}
+            aria-label={`${valuePlaceholder} ${String(index + 1)}`}
+            disabled={disabled}
+            onChange={(e) => {
+              updateRows(rows.map((row, i) => (i === index ? [row[0], e.target.value] : row)))
+            }}
+            className={INPUT_CLASS}
+          />
+          <button
+            type="button"
+            onClick={() => {
+              updateRows(rows.filter((_, i) => i !== index))
+            }}
+            disabled={disabled}
+            className="p-1.5 text-secondary-400 hover:text-red-400 transition-colors disabled:opacity-30"
+            aria-label={`Remove ${key || 'row'}`}
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => {
+          setRows([...rows, ['', '']])
+        }}
+        disabled={disabled}
+        className="text-sm text-primary-400 hover:text-primary-300 transition-colors"
+      >
+        + {addLabel}
+      </button>
+    </div>
+  )
+}
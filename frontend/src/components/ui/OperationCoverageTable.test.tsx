@@ -24,6 +24,7 @@ const createScenario = (overrides: Partial<Scenario> = {}): Scenario => ({
     },
   ],
   status: 'PASSED',
+  tags: [],
   createdAt: '2026-01-01T00:00:00Z',
   updatedAt: '2026-01-01T00:00:00Z',
   ...overrides,
@@ -423,3 +424,173 @@ describe('OperationCoverageTable', () => {
     expect(operationButton).toHaveAttribute('aria-expanded', 'true')
   })
 })
+
+describe('OperationCoverageTable with OpenAPI spec', () => {
+  const openApiSpec = JSON.stringify({
+    openapi: '3.0.0',
+    info: { title: 'Users API', version: '1.0.0' },
+    paths: {
+      '/api/users': {
+        get: { summary: 'List users' },
+        post: { summary: 'Create user' },
+      },
+      '/api/users/{id}': {
+        get: { summary: 'Get user' },
+        delete: { summary: 'Delete user' },
+      },
+    },
+  })
+
+  const specScenarios: Scenario[] = [
+    createScenario({
+      id: 'scenario-1',
+      name: 'List Users',
+      status: 'PASSED',
+      steps: [
+        {
+          id: 'step-1',
+          order: 1,
+          method: 'GET',
+          endpoint: '{baseUrl}/api/users',
+          headers: {},
+          body: null,
+          expectedStatus: 200,
+          assertions: [],
+          extractors: [],
+          timeoutMs: 5000,
+        },
+        {
+          id: 'step-2',
+          order: 2,
+          method: 'GET',
+          endpoint: '/api/users/{userId}',
+          headers: {},
+          body: null,
+          expectedStatus: 200,
+          assertions: [],
+          extractors: [],
+          timeoutMs: 5000,
+        },
+      ],
+    }),
+    createScenario({
+      id: 'scenario-2',
+      name: 'Health Check',
+      status: 'PASSED',
+      steps: [
+        {
+          id: 'step-3',
+          order: 1,
+          method: 'GET',
+          endpoint: '/health',
+          headers: {},
+          body: null,
+          expectedStatus: 200,
+          assertions: [],
+          extractors: [],
+          timeoutMs: 5000,
+        },
+      ],
+    }),
+  ]
+
+  it('lists every spec operation including untested ones', () => {
+    render(<OperationCoverageTable scenarios={specScenarios} openApiSpec={openApiSpec} />)
+
+    expect(screen.getByTestId('coverage-source')).toHaveTextContent('4 operations from the OpenAPI spec')
+    expect(screen.getByTestId('covered-count')).toHaveTextContent('2')
+    expect(screen.getByTestId('untested-count')).toHaveTextContent('2')
+    expect(screen.getByTestId('coverage-percentage')).toHaveTextContent('50%')
+    expect(screen.getByText('Create user')).toBeInTheDocument()
+    expect(screen.getByText('Delete user')).toBeInTheDocument()
+  })
+
+  it('matches step endpoints with placeholders to templated spec paths', () => {
+    render(<OperationCoverageTable scenarios={specScenarios} openApiSpec={openApiSpec} />)
+
+    expect(screen.getByRole('button', { name: /GET \/api\/users\/\{id\}, 1 scenarios, covered/i })).toBeInTheDocument()
+  })
+
+  it('shows step endpoints that are not in the spec separately', () => {
+    render(<OperationCoverageTable scenarios={specScenarios} openApiSpec={openApiSpec} />)
+
+    const unmatched = screen.getByTestId('unmatched-operations')
+    expect(unmatched).toHaveTextContent('/health')
+    expect(unmatched).toHaveTextContent('Not in Spec')
+  })
+
+  it('lists spec operations when no scenarios exist yet', () => {
+    render(<OperationCoverageTable scenarios={[]} openApiSpec={openApiSpec} />)
+
+    expect(screen.getByTestId('coverage-percentage')).toHaveTextContent('0%')
+    expect(screen.getByTestId('untested-count')).toHaveTextContent('4')
+  })
+
+  it('explains untested operations when expanded', async () => {
+    const user = userEvent.setup()
+    render(<OperationCoverageTable scenarios={specScenarios} openApiSpec={openApiSpec} />)
+
+    await user.click(screen.getByRole('button', { name: /POST \/api\/users,/i }))
+
+    expect(screen.getByText('No scenario exercises this operation yet.')).toBeInTheDocument()
+  })
+
+  it('parses YAML specs', () => {
+    const yamlSpec = [
+      'openapi: 3.1.0',
+      'paths:',
+      '  /api/users:',
+      '    get:',
+      '      summary: List users',
+      '  /api/orders:',
+      '    get:',
+      '      summary: List orders',
+    ].join('\n')
+
+    render(<OperationCoverageTable scenarios={specScenarios} openApiSpec={yamlSpec} />)
+
+    expect(screen.getByTestId('coverage-source')).toHaveTextContent('2 operations')
+    expect(screen.getByText('List orders')).toBeInTheDocument()
+  })
+
+  it('falls back to scenario steps with a warning when the spec cannot be parsed', () => {
+    render(<OperationCoverageTable scenarios={mockScenarios} openApiSpec="{ invalid" />)
+
+    expect(screen.getByTestId('spec-parse-warning')).toBeInTheDocument()
+    expect(screen.getByTestId('coverage-source')).toHaveTextContent('Based on scenario steps only')
+    expect(screen.getByTestId('coverage-percentage')).toHaveTextContent('50%')
+  })
+})
+
+describe('OperationCoverageTable tag scoping', () => {
+  const taggedScenarios = mockScenarios.map((scenario) => {
+    if (scenario.id === 'scenario-1') return { ...scenario, tags: ['smoke'] }
+    if (scenario.id === 'scenario-3') return { ...scenario, tags: ['users'] }
+    return scenario
+  })
+
+  it('shows the coverage percentage of each tag on its chip', () => {
+    render(<OperationCoverageTable scenarios={taggedScenarios} />)
+
+    expect(screen.getByRole('button', { name: '#smoke 100%' })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: '#users 0%' })).toBeInTheDocument()
+    expect(screen.getByTestId('coverage-percentage')).toHaveTextContent('50%')
+  })
+
+  it('scopes the coverage to scenarios carrying the selected tag', async () => {
+    const user = userEvent.setup()
+    render(<OperationCoverageTable scenarios={taggedScenarios} />)
+
+    await user.click(screen.getByRole('button', { name: '#users 0%' }))
+
+    expect(screen.getByTestId('coverage-source')).toHaveTextContent('scenarios tagged #users')
+    expect(screen.getByTestId('coverage-percentage')).toHaveTextContent('0%')
+    expect(screen.getByTestId('failing-count')).toHaveTextContent('1')
+  })
+
+  it('hides the tag chips when no scenario is tagged', () => {
+    render(<OperationCoverageTable scenarios={mockScenarios} />)
+
+    expect(screen.queryByRole('group', { name: 'Tags' })).not.toBeInTheDocument()
+  })
+})
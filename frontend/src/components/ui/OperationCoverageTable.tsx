@@ -1,26 +1,22 @@
 import { useState, useMemo, useCallback } from 'react'
+import { TagFilter } from './TagFilter'
 import type { Scenario, HttpMethod } from '@/api/types'
-
-export type CoverageStatus = 'covered' | 'failing' | 'untested'
-
-export interface OperationCoverage {
-  endpoint: string
-  method: HttpMethod
-  status: CoverageStatus
-  scenarioCount: number
-  scenarios: Array<{ id: string; name: string; status: string }>
-}
-
-export interface CoverageStats {
-  total: number
-  covered: number
-  failing: number
-  untested: number
-  percentage: number
-}
+import { filterByTags } from '@/lib/scenario'
+import {
+  calculateOperationCoverage,
+  calculateTagCoverage,
+  parseOpenApiSpec,
+  OpenApiParseError,
+  type CoverageStatus,
+  type ParsedOpenApiSpec,
+} from '@/lib/openapi'
+
+export type { CoverageStatus, OperationCoverage, CoverageStats } from '@/lib/openapi'
 
 export interface OperationCoverageTableProps {
   scenarios: Scenario[]
+  /** Package OpenAPI spec (JSON or YAML); when it parses, every spec operation is listed */
+  openApiSpec?: string | null | undefined
   isLoading?: boolean
   onExport?: () => void
   isExporting?: boolean
@@ -37,79 +33,49 @@ const HTTP_METHOD_COLORS: Record<HttpMethod, string> = {
 
 export function OperationCoverageTable({
   scenarios,
+  openApiSpec,
   isLoading = false,
   onExport,
   isExporting = false,
 }: OperationCoverageTableProps) {
   const [statusFilter, setStatusFilter] = useState<CoverageStatus | 'all'>('all')
   const [expandedEndpoint, setExpandedEndpoint] = useState<string | null>(null)
-
-  // Calculate coverage from scenarios
-  const { operations, stats } = useMemo(() => {
-    if (scenarios.length === 0) {
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+
+  // Parse the spec once per change; fall back to step-derived operations on failure
+  const { spec, specError } = useMemo((): {
+    spec: ParsedOpenApiSpec | null
+    specError: string | null
+  } => {
+    if (!openApiSpec?.trim()) return { spec: null, specError: null }
+    try {
+      return { spec: parseOpenApiSpec(openApiSpec), specError: null }
+    } catch (error) {
       return {
-        operations: [] as OperationCoverage[],
-        stats: { total: 0, covered: 0, failing: 0, untested: 0, percentage: 0 } as CoverageStats,
+        spec: null,
+        specError: error instanceof OpenApiParseError ? error.message : 'Unable to parse spec',
       }
     }
+  }, [openApiSpec])
+
+  // Per-tag percentages for the chips; selected tags scope the coverage below to their scenarios
+  const tagCoverage = useMemo(() => calculateTagCoverage(scenarios, spec), [scenarios, spec])
+  const tagHints = useMemo(
+    () =>
+      new Map([...tagCoverage].map(([tag, tagStats]) => [tag, `${String(tagStats.percentage)}%`])),
+    [tagCoverage]
+  )
+  const scopedScenarios = useMemo(
+    () => filterByTags(scenarios, selectedTags),
+    [scenarios, selectedTags]
+  )
 
-    const operationMap = new Map<string, OperationCoverage>()
-
-    scenarios.forEach((scenario) => {
-      scenario.steps.forEach((step) => {
-        const key = `${step.method}:${step.endpoint}`
-        const existing = operationMap.get(key)
-
-        const isPassing = scenario.status === 'PASSED'
-        const isFailing = scenario.status === 'FAILED'
-
-        if (existing) {
-          existing.scenarioCount++
-          existing.scenarios.push({
-            id: scenario.id,
-            name: scenario.name,
-            status: scenario.status,
-          })
-          // Priority: covered > failing > untested
-          if (isPassing) {
-            existing.status = 'covered'
-          } else if (isFailing && existing.status === 'untested') {
-            existing.status = 'failing'
-          }
-        } else {
-          operationMap.set(key, {
-            endpoint: step.endpoint,
-            method: step.method,
-            status: isPassing ? 'covered' : isFailing ? 'failing' : 'untested',
-            scenarioCount: 1,
-            scenarios: [{
-              id: scenario.id,
-              name: scenario.name,
-              status: scenario.status,
-            }],
-          })
-        }
-      })
-    })
-
-    const operationsList = Array.from(operationMap.values())
-    const covered = operationsList.filter((e) => e.status === 'covered').length
-    const failing = operationsList.filter((e) => e.status === 'failing').length
-    const untested = operationsList.filter((e) => e.status === 'untested').length
-    const total = operationsList.length
-    const percentage = total > 0 ? Math.round((covered / total) * 100) : 0
-
-    // Sort: failing first, then covered, then untested
-    operationsList.sort((a, b) => {
-      const order: Record<CoverageStatus, number> = { failing: 0, covered: 1, untested: 2 }
-      return order[a.status] - order[b.status]
-    })
-
-    return {
-      operations: operationsList,
-      stats: { total, covered, failing, untested, percentage },
-    }
-  }, [scenarios])
+  // Calculate coverage from the spec operations and scenario steps
+  const { operations, stats, unmatched } = useMemo(
+    () => calculateOperationCoverage(scopedScenarios, spec),
+    [scopedScenarios, spec]
+  )
+  const isSpecDriven = spec !== null && spec.operations.length > 0
 
   // Filter operations
   const filteredOperations = useMemo(() => {
@@ -134,7 +100,7 @@ export function OperationCoverageTable({
     )
   }
 
-  if (stats.total === 0) {
+  if (stats.total === 0 && selectedTags.length === 0) {
     return (
       <div className="text-center py-12" data-testid="coverage-empty">
         <div className="w-12 h-12 mx-auto mb-4 text-secondary-600">
@@ -157,10 +123,31 @@ export function OperationCoverageTable({
 
   return (
     <div className="space-y-6" data-testid="coverage-table">
+      {specError && (
+        <div
+          className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg"
+          data-testid="spec-parse-warning"
+        >
+          <p className="text-yellow-400 text-sm">
+            Could not read the OpenAPI spec ({specError}). Untested operations cannot be
+            detected until the spec is fixed.
+          </p>
+        </div>
+      )}
+
       {/* Coverage Summary */}
       <div className="card">
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
-          <h3 className="text-lg font-semibold text-white">API Coverage</h3>
+          <div>
+            <h3 className="text-lg font-semibold text-white">API Coverage</h3>
+            <p className="text-sm text-secondary-400" data-testid="coverage-source">
+              {isSpecDriven
+                ? `${String(stats.total)} operations from the OpenAPI spec`
+                : 'Based on scenario steps only'}
+              {selectedTags.length > 0 &&
+                ` · scenarios tagged ${selectedTags.map((tag) => `#${tag}`).join(' + ')}`}
+            </p>
+          </div>
           <div className="flex items-center gap-3">
             <span className="text-2xl font-bold text-primary-400" data-testid="coverage-percentage">
               {stats.percentage}%
@@ -209,6 +196,14 @@ export function OperationCoverageTable({
           </div>
         </div>
 
+        <TagFilter
+          tags={[...tagCoverage.keys()]}
+          selected={selectedTags}
+          onChange={setSelectedTags}
+          hints={tagHints}
+          className="mb-4"
+        />
+
         {/* Progress Bar */}
         <div
           className="h-4 bg-secondary-700 rounded-full overflow-hidden mb-4"
@@ -324,9 +319,12 @@ export function OperationCoverageTable({
                     >
                       {operation.method}
                     </span>
-                    <span className="font-mono text-white flex-1 truncate">
+                    <span className="font-mono text-white truncate">
                       {operation.endpoint}
                     </span>
+                    <span className="text-secondary-500 text-sm flex-1 truncate">
+                      {operation.summary}
+                    </span>
                     <CoverageStatusBadge status={operation.status} />
                     <span className="text-secondary-400 text-sm">
                       {operation.scenarioCount} scenario{operation.scenarioCount !== 1 ? 's' : ''}
@@ -346,7 +344,13 @@ export function OperationCoverageTable({
                     </svg>
                   </button>
 
-                  {isExpanded && (
+                  {isExpanded && operation.scenarios.length === 0 && (
+                    <div className="px-3 pb-3 pt-1 bg-secondary-800/30 text-sm text-secondary-400">
+                      No scenario exercises this operation yet.
+                    </div>
+                  )}
+
+                  {isExpanded && operation.scenarios.length > 0 && (
                     <div className="px-3 pb-3 pt-1 bg-secondary-800/30" data-testid="scenario-list">
                       <div className="text-sm text-secondary-400 mb-2">Linked Scenarios:</div>
                       <ul className="space-y-1">
@@ -387,6 +391,40 @@ export function OperationCoverageTable({
           </div>
         </div>
       </div>
+
+      {/* Step endpoints the spec does not describe */}
+      {unmatched.length > 0 && (
+        <div className="card" data-testid="unmatched-operations">
+          <h3 className="text-lg font-semibold text-white mb-1">
+            Not in Spec
+            <span className="text-sm font-normal text-secondary-400 ml-2">
+              ({unmatched.length})
+            </span>
+          </h3>
+          <p className="text-sm text-secondary-400 mb-4">
+            These step endpoints match no operation in the OpenAPI spec and are excluded from
+            the coverage percentage.
+          </p>
+          <ul className="space-y-2">
+            {unmatched.map((operation) => (
+              <li
+                key={`${operation.method}:${operation.endpoint}`}
+                className="flex items-center gap-3 p-2 rounded bg-secondary-800/50"
+              >
+                <span
+                  className={`px-2 py-1 rounded text-xs font-mono border ${HTTP_METHOD_COLORS[operation.method]}`}
+                >
+                  {operation.method}
+                </span>
+                <span className="font-mono text-white flex-1 truncate">{operation.endpoint}</span>
+                <span className="text-secondary-400 text-sm">
+                  {operation.scenarioCount} scenario{operation.scenarioCount !== 1 ? 's' : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   )
 }
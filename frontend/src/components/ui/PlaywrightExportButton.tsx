@@ -0,0 +1,62 @@
+import { useState } from 'react'
+import { generatePlaywrightProject, slugify, zipProject } from '@/lib/playwright'
+import type { Scenario } from '@/api/types'
+
+export interface PlaywrightExportButtonProps {
+  scenarios: Scenario[]
+  projectName: string
+  baseUrl?: string | undefined
+  label?: string
+  disabled?: boolean
+  className?: string
+}
+
+export function PlaywrightExportButton({
+  scenarios,
+  projectName,
+  baseUrl,
+  label = 'Export Playwright',
+  disabled = false,
+  className = '',
+}: PlaywrightExportButtonProps) {
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = () => {
+    setError(null)
+    try {
+      const folder = `${slugify(projectName) || 'qawave'}-playwright`
+      const files = generatePlaywrightProject(scenarios, { projectName, baseUrl })
+      const blob = zipProject(folder, files)
+
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${folder}.zip`
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed')
+    }
+  }
+
+  return (
+    <div className={`inline-flex flex-col items-end ${className}`}>
+      <button
+        type="button"
+        onClick={handleExport}
+        disabled={disabled || scenarios.length === 0}
+        className="btn btn-secondary disabled:opacity-50"
+        title="Download a Playwright API test project as a ZIP"
+      >
+        {label}
+      </button>
+      {error && (
+        <p className="mt-1 text-xs text-red-500" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
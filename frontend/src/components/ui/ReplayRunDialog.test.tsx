@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ReplayRunDialog } from './ReplayRunDialog'
+
+describe('ReplayRunDialog', () => {
+  it('replays with the original settings when nothing is overridden', async () => {
+    const onConfirm = vi.fn().mockResolvedValue(undefined)
+    const user = userEvent.setup()
+
+    render(
+      <ReplayRunDialog
+        isOpen
+        onClose={vi.fn()}
+        onConfirm={onConfirm}
+        originalBaseUrl="https://staging.api.example.com"
+      />
+    )
+
+    expect(screen.getByPlaceholderText('https://staging.api.example.com')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: 'Replay' }))
+
+    expect(onConfirm).toHaveBeenCalledWith({})
+  })
+
+  it('sends base URL and variable overrides', async () => {
+    const onConfirm = vi.fn().mockResolvedValue(undefined)
+    const user = userEvent.setup()
+
+    render(<ReplayRunDialog isOpen onClose={vi.fn()} onConfirm={onConfirm} />)
+
+    await user.type(screen.getByLabelText('Base URL'), 'http://localhost:8080')
+    await user.click(screen.getByRole('button', { name: '+ Add override' }))
+    await user.type(screen.getByLabelText('Variable 1'), 'userId')
+    await user.type(screen.getByLabelText('Value 1'), '42')
+    await user.click(screen.getByRole('button', { name: 'Replay' }))
+
+    expect(onConfirm).toHaveBeenCalledWith({
+      baseUrl: 'http://localhost:8080',
+      variables: { userId: '42' },
+    })
+  })
+
+  it('rejects an invalid base URL', async () => {
+    const onConfirm = vi.fn()
+    const user = userEvent.setup()
+
+    render(<ReplayRunDialog isOpen onClose={vi.fn()} onConfirm={onConfirm} />)
+
+    await user.type(screen.getByLabelText('Base URL'), 'not a url')
+    await user.click(screen.getByRole('button', { name: 'Replay' }))
+
+    expect(screen.getByText('Invalid URL format')).toBeInTheDocument()
+    expect(onConfirm).not.toHaveBeenCalled()
+  })
+
+  it('shows the error reported by the parent and re-enables the button', async () => {
+    const onConfirm = vi.fn().mockRejectedValue(new Error('Run has no stored scenarios'))
+    const user = userEvent.setup()
+
+    const { rerender } = render(<ReplayRunDialog isOpen onClose={vi.fn()} onConfirm={onConfirm} />)
+    await user.click(screen.getByRole('button', { name: 'Replay' }))
+    rerender(
+      <ReplayRunDialog
+        isOpen
+        onClose={vi.fn()}
+        onConfirm={onConfirm}
+        error="Run has no stored scenarios"
+      />
+    )
+
+    expect(screen.getByText('Run has no stored scenarios')).toBeInTheDocument()
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Replay' })).toBeEnabled()
+    })
+  })
+})
@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react'
+import { Modal } from './Modal'
+import { KeyValueGrid } from './KeyValueGrid'
+import type { ReplayRunRequest } from '@/api/types'
+
+export interface ReplayRunDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onConfirm: (request: ReplayRunRequest) => Promise<void>
+  /** Base URL the original run targeted, shown as the default */
+  originalBaseUrl?: string | undefined
+  error?: string | null
+}
+
+export function ReplayRunDialog({
+  isOpen,
+  onClose,
+  onConfirm,
+  originalBaseUrl,
+  error = null,
+}: ReplayRunDialogProps) {
+  const [baseUrl, setBaseUrl] = useState('')
+  const [variables, setVariables] = useState<Record<string, string>>({})
+  const [baseUrlError, setBaseUrlError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setBaseUrl('')
+      setVariables({})
+      setBaseUrlError(null)
+    }
+  }, [isOpen])
+
+  const handleConfirm = () => {
+    const trimmed = baseUrl.trim()
+    if (trimmed) {
+      try {
+        new URL(trimmed)
+      } catch {
+        setBaseUrlError('Invalid URL format')
+        return
+      }
+    }
+
+    setIsSubmitting(true)
+    onConfirm({
+      ...(trimmed && { baseUrl: trimmed }),
+      ...(Object.keys(variables).length > 0 && { variables }),
+    })
+      .catch(() => {
+        // Error handled by parent
+      })
+      .finally(() => {
+        setIsSubmitting(false)
+      })
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Replay Run" size="lg">
+      <div className="space-y-5">
+        <p className="text-secondary-400 text-sm">
+          Re-executes the scenarios exactly as stored with this run, without regenerating them. When
+          the replay completes, its results are compared with this run.
+        </p>
+
+        <div>
+          <label htmlFor="replay-baseUrl" className="block text-sm font-medium text-white mb-2">
+            Base URL
+          </label>
+          <input
+            id="replay-baseUrl"
+            type="url"
+            value={baseUrl}
+            onChange={(e) => {
+              setBaseUrl(e.target.value)
+              setBaseUrlError(null)
+            }}
+            placeholder={originalBaseUrl ?? 'Same as the original run'}
+            className={`w-full px-4 py-2 bg-secondary-800 border rounded-lg text-white placeholder-secondary-500 focus:outline-none transition-colors ${
+              baseUrlError
+                ? 'border-red-500 focus:border-red-500'
+                : 'border-secondary-700 focus:border-primary-500'
+            }`}
+          />
+          {baseUrlError && <p className="mt-1 text-sm text-red-500">{baseUrlError}</p>}
+          <p className="mt-1 text-xs text-secondary-500">
+            Leave empty to use the original base URL
+          </p>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-white mb-2">Variable overrides</h3>
+          <KeyValueGrid
+            value={variables}
+            onChange={setVariables}
+            keyPlaceholder="Variable"
+            valuePlaceholder="Value"
+            addLabel="Add override"
+          />
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/50 rounded-lg">
+            <p className="text-red-500 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="btn btn-secondary disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={isSubmitting}
+            className="btn btn-primary disabled:opacity-50"
+          >
+            {isSubmitting ? 'Starting...' : 'Replay'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { RequestSnippets } from './RequestSnippets'
+
+const request = {
+  method: 'GET' as const,
+  url: 'https://api.example.com/users',
+  headers: { Accept: 'application/json' },
+  body: null,
+}
+
+describe('RequestSnippets', () => {
+  it('shows the cURL command by default', () => {
+    render(<RequestSnippets request={request} />)
+
+    expect(screen.getByRole('tab', { name: 'cURL' })).toHaveAttribute('aria-selected', 'true')
+    expect(screen.getByTestId('request-snippet')).toHaveTextContent(
+      "curl 'https://api.example.com/users'"
+    )
+  })
+
+  it('switches between snippet formats', async () => {
+    const user = userEvent.setup()
+    render(<RequestSnippets request={request} />)
+
+    await user.click(screen.getByRole('tab', { name: 'HTTPie' }))
+    expect(screen.getByTestId('request-snippet')).toHaveTextContent(
+      "http GET 'https://api.example.com/users'"
+    )
+
+    await user.click(screen.getByRole('tab', { name: 'fetch' }))
+    expect(screen.getByTestId('request-snippet')).toHaveTextContent(
+      'await fetch("https://api.example.com/users"'
+    )
+  })
+})
@@ -0,0 +1,53 @@
+import { useState } from 'react'
+import { CopyButton } from './CopyButton'
+import { generateSnippet, SNIPPET_FORMATS, type SnippetFormat } from '@/lib/request'
+import type { ResolvedRequest } from '@/api/types'
+
+export interface RequestSnippetsProps {
+  request: ResolvedRequest
+  defaultFormat?: SnippetFormat
+  className?: string
+}
+
+export function RequestSnippets({
+  request,
+  defaultFormat = 'curl',
+  className = '',
+}: RequestSnippetsProps) {
+  const [format, setFormat] = useState<SnippetFormat>(defaultFormat)
+  const snippet = generateSnippet(request, format)
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex gap-1" role="tablist" aria-label="Snippet format">
+          {SNIPPET_FORMATS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              role="tab"
+              aria-selected={format === option.value}
+              onClick={() => {
+                setFormat(option.value)
+              }}
+              className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                format === option.value
+                  ? 'bg-primary-600 text-white'
+                  : 'text-secondary-400 hover:text-white hover:bg-secondary-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <CopyButton text={snippet} />
+      </div>
+      <pre
+        className="bg-secondary-900 p-3 rounded-lg overflow-x-auto text-sm font-mono text-secondary-300"
+        data-testid="request-snippet"
+      >
+        {snippet}
+      </pre>
+    </div>
+  )
+}
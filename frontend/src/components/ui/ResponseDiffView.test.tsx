@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { ResponseDiffView } from './ResponseDiffView'
+
+const recorded = {
+  status: 200,
+  headers: { 'Content-Type': 'application/json', ETag: '"v1"' },
+  body: '{"id": 1, "name": "Alice"}',
+}
+
+describe('ResponseDiffView', () => {
+  it('reports a matching replay', () => {
+    render(
+      <ResponseDiffView
+        recorded={recorded}
+        replayed={{
+          status: 200,
+          headers: { 'content-type': 'application/json', etag: '"v1"' },
+          body: '{"id":1,"name":"Alice"}',
+          duration: 42,
+        }}
+      />
+    )
+
+    expect(screen.getByText(/matches the recorded response/i)).toBeInTheDocument()
+    expect(screen.getByText('Replayed in 42ms')).toBeInTheDocument()
+  })
+
+  it('shows status, header and body changes', () => {
+    const { container } = render(
+      <ResponseDiffView
+        recorded={recorded}
+        replayed={{
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+          body: '{"id": 1, "name": "Bob"}',
+          duration: 10,
+        }}
+      />
+    )
+
+    expect(screen.getByText('404')).toBeInTheDocument()
+    expect(screen.getByText('etag:')).toBeInTheDocument()
+    expect(container.querySelector('[data-diff="removed"]')).toHaveTextContent('"name": "Alice"')
+    expect(container.querySelector('[data-diff="added"]')).toHaveTextContent('"name": "Bob"')
+    expect(screen.queryByText(/matches the recorded response/i)).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,54 @@
+import { useMemo } from 'react'
+import { DiffViewer } from './DiffViewer'
+import { diffResponses, type RecordedResponse } from '@/lib/request'
+import type { ReplayResponse } from '@/api/types'
+
+export interface ResponseDiffViewProps {
+  recorded: RecordedResponse
+  replayed: ReplayResponse
+}
+
+export function ResponseDiffView({ recorded, replayed }: ResponseDiffViewProps) {
+  const diff = useMemo(() => diffResponses(recorded, replayed), [recorded, replayed])
+
+  return (
+    <div className="space-y-3" data-testid="response-diff">
+      <div className="flex items-center gap-3 text-sm">
+        <span className="text-secondary-400">Status</span>
+        <span className={diff.statusChanged ? 'text-red-400 line-through' : 'text-white'}>
+          {recorded.status}
+        </span>
+        {diff.statusChanged && <span className="text-green-400">{replayed.status}</span>}
+        <span className="text-secondary-500 ml-auto">Replayed in {replayed.duration}ms</span>
+      </div>
+
+      {diff.identical && (
+        <p className="text-sm text-green-400">Replayed response matches the recorded response.</p>
+      )}
+
+      {diff.headerChanges.length > 0 && (
+        <div>
+          <h5 className="text-xs font-medium text-secondary-400 mb-1">Changed Headers</h5>
+          <div className="space-y-1 text-sm font-mono">
+            {diff.headerChanges.map((change) => (
+              <div key={change.name} className="flex flex-wrap gap-2">
+                <span className="text-secondary-500">{change.name}:</span>
+                {change.before !== null && (
+                  <span className="text-red-400 line-through">{change.before}</span>
+                )}
+                {change.after !== null && <span className="text-green-400">{change.after}</span>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {diff.bodyChanged && (
+        <div>
+          <h5 className="text-xs font-medium text-secondary-400 mb-1">Body</h5>
+          <DiffViewer lines={diff.bodyDiff} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -9,6 +9,7 @@ const mockFailedScenarios: ScenarioResult[] = [
     scenarioId: 'scenario-1',
     scenarioName: 'User Login',
     status: 'FAILED',
+    scenarioVersion: 1,
     stepResults: [],
     duration: 1500,
     error: 'Authentication failed',
@@ -17,6 +18,7 @@ const mockFailedScenarios: ScenarioResult[] = [
     scenarioId: 'scenario-2',
     scenarioName: 'Create Order',
     status: 'FAILED',
+    scenarioVersion: 1,
     stepResults: [],
     duration: 2500,
     error: 'Validation error',
@@ -25,6 +27,7 @@ const mockFailedScenarios: ScenarioResult[] = [
     scenarioId: 'scenario-3',
     scenarioName: 'Get Profile',
     status: 'FAILED',
+    scenarioVersion: 1,
     stepResults: [],
     duration: 500,
     error: null,
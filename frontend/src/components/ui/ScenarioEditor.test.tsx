@@ -393,4 +393,104 @@ describe('ScenarioEditor', () => {
       expect(screen.getByText('Line 1: Validation request failed')).toBeInTheDocument()
     })
   })
+
+  it('lists variable flow issues', () => {
+    const [firstStep, secondStep] = mockSteps as [TestStep, TestStep]
+    const steps: TestStep[] = [
+      { ...firstStep, endpoint: '/api/users/{userId}' },
+      {
+        ...secondStep,
+        extractors: [{ name: 'userId', type: 'JSON_PATH', path: '$.id' }],
+      },
+    ]
+
+    render(<ScenarioEditor initialValue={steps} onSave={mockOnSave} />)
+
+    const issues = screen.getByTestId('variable-issues')
+    expect(issues).toHaveTextContent('Variable "userId" is used before it is extracted in step 2')
+    expect(issues).toHaveTextContent('Extracted variable "userId" is never used by a later step')
+  })
+
+  it('does not flag known variables', () => {
+    const [firstStep] = mockSteps as [TestStep]
+    const steps: TestStep[] = [{ ...firstStep, endpoint: '{baseUrl}/api/users/{tenant}' }]
+
+    render(<ScenarioEditor initialValue={steps} onSave={mockOnSave} knownVariables={['tenant']} />)
+
+    expect(screen.queryByTestId('variable-issues')).not.toBeInTheDocument()
+  })
+
+  it('edits steps in form mode and keeps the JSON in sync', () => {
+    render(<ScenarioEditor initialValue={mockSteps} onSave={mockOnSave} defaultMode="form" />)
+
+    expect(screen.getAllByTestId('step-form')).toHaveLength(2)
+    expect(screen.getByRole('button', { name: 'Format JSON' })).toBeDisabled()
+
+    fireEvent.change(screen.getByLabelText('Endpoint for step 1'), {
+      target: { value: '/api/accounts' },
+    })
+
+    const json = JSON.parse(
+      screen.getByTestId<HTMLTextAreaElement>('editor-textarea').value
+    ) as TestStep[]
+    expect(json[0]?.endpoint).toBe('/api/accounts')
+    expect(screen.getByText('Unsaved changes')).toBeInTheDocument()
+  })
+
+  it('reflects JSON edits in the form', async () => {
+    const user = userEvent.setup()
+    render(<ScenarioEditor initialValue={mockSteps} onSave={mockOnSave} />)
+
+    const [firstStep] = mockSteps as [TestStep]
+    fireEvent.change(screen.getByTestId('editor-textarea'), {
+      target: { value: JSON.stringify([{ ...firstStep, endpoint: '/api/orders' }]) },
+    })
+    await user.click(screen.getByRole('button', { name: 'Form' }))
+
+    expect(screen.getAllByTestId('step-form')).toHaveLength(1)
+    expect(screen.getByLabelText('Endpoint for step 1')).toHaveValue('/api/orders')
+  })
+
+  it('disables form mode while the JSON does not parse', () => {
+    render(<ScenarioEditor initialValue={mockSteps} onSave={mockOnSave} />)
+
+    fireEvent.change(screen.getByTestId('editor-textarea'), { target: { value: '[{' } })
+
+    expect(screen.getByRole('button', { name: 'Form' })).toBeDisabled()
+  })
+
+  it('keeps incomplete steps in the JSON view instead of opening the form', async () => {
+    const user = userEvent.setup()
+    render(<ScenarioEditor initialValue={mockSteps} onSave={mockOnSave} />)
+
+    fireEvent.change(screen.getByTestId('editor-textarea'), { target: { value: '[{}]' } })
+    const formButton = screen.getByRole('button', { name: 'Form' })
+    expect(formButton).toBeDisabled()
+    expect(formButton).toHaveAttribute(
+      'title',
+      'Complete the steps before switching to the form: [0] is missing "id"'
+    )
+
+    await user.click(formButton)
+
+    expect(screen.queryByTestId('step-form')).not.toBeInTheDocument()
+    expect(screen.getByTestId('editor-textarea')).toHaveValue('[{}]')
+    expect(screen.getByText('Unsaved changes')).toBeInTheDocument()
+  })
+
+  it('opens incomplete initial steps as JSON even when the form is the default', () => {
+    const [firstStep] = mockSteps as [TestStep]
+    const { assertions: _assertions, ...withoutAssertions } = firstStep
+
+    render(
+      <ScenarioEditor
+        initialValue={[withoutAssertions as TestStep]}
+        onSave={mockOnSave}
+        defaultMode="form"
+      />
+    )
+
+    expect(screen.queryByTestId('step-form')).not.toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'JSON' })).toHaveAttribute('aria-pressed', 'true')
+  })
 })
@@ -1,7 +1,19 @@
-import { useState, useCallback, useRef, useEffect } from 'react'
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react'
 import Editor, { type OnMount } from '@monaco-editor/react'
-import type { editor } from 'monaco-editor'
+import type * as Monaco from 'monaco-editor'
+import type { editor, IDisposable } from 'monaco-editor'
+import {
+  analyzeScenarioSource,
+  findShapeError,
+  getCompletionContext,
+  TEST_STEPS_SCHEMA,
+  TEST_STEPS_SCHEMA_URI,
+  type CompletionKind,
+} from '@/lib/scenario'
+import type { ApiOperation } from '@/lib/openapi'
+import { usePreferences } from '@/lib/preferences'
 import type { TestStep } from '@/api/types'
+import { StepBuilder } from './StepBuilder'
 
 export interface ValidationError {
   line: number
@@ -10,24 +22,48 @@ export interface ValidationError {
   severity: 'error' | 'warning'
 }
 
+export type ScenarioEditorMode = 'form' | 'json'
+
 export interface ScenarioEditorProps {
   initialValue: TestStep[]
   onSave: (steps: TestStep[]) => Promise<void>
   onValidate?: (json: string) => Promise<ValidationError[]>
+  /** Variables provided outside the scenario (e.g. environment values), so they are not flagged */
+  knownVariables?: string[]
+  /** Spec operations offered as presets in the form builder */
+  operations?: ApiOperation[]
+  defaultMode?: ScenarioEditorMode
   isLoading?: boolean
   className?: string
 }
 
+const COMPLETION_DETAILS: Record<CompletionKind, string> = {
+  variable: 'Scenario variable',
+  method: 'HTTP method',
+  assertionType: 'Assertion type',
+  extractorType: 'Extractor type',
+  operator: 'Comparison operator',
+}
+
+const NO_KNOWN_VARIABLES: string[] = []
+
 export function ScenarioEditor({
   initialValue,
   onSave,
   onValidate,
+  knownVariables = NO_KNOWN_VARIABLES,
+  operations,
+  defaultMode = 'json',
   isLoading = false,
   className = '',
 }: ScenarioEditorProps) {
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null)
-  // Monaco instance stored as unknown to avoid type issues with the library
-  const monacoRef = useRef<unknown>(null)
+  const monacoRef = useRef<typeof Monaco | null>(null)
+  const completionProviderRef = useRef<IDisposable | null>(null)
+  const knownVariablesRef = useRef(knownVariables)
+  const { preferences, resolvedTheme } = usePreferences()
+  const [isEditorReady, setIsEditorReady] = useState(false)
+  const [mode, setMode] = useState<ScenarioEditorMode>(defaultMode)
   const [value, setValue] = useState(() => JSON.stringify(initialValue, null, 2))
   const [parseError, setParseError] = useState<string | null>(null)
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([])
@@ -37,6 +73,32 @@ export function ScenarioEditor({
   const [showPreview, setShowPreview] = useState(true)
   const [parsedValue, setParsedValue] = useState<TestStep[] | null>(initialValue)
 
+  // Variable flow issues (unknown, used before extraction, unused extractors)
+  const variableDiagnostics = useMemo(
+    () => analyzeScenarioSource(value, { knownVariables }),
+    [value, knownVariables]
+  )
+
+  // The form reads every step field, so it only takes steps with the full schema shape
+  const shapeError = useMemo(
+    () => (parsedValue ? findShapeError(parsedValue, TEST_STEPS_SCHEMA) : null),
+    [parsedValue]
+  )
+  const formSteps = shapeError === null ? parsedValue : null
+  const showForm = mode === 'form' && formSteps !== null
+  const activeMode: ScenarioEditorMode = showForm ? 'form' : 'json'
+
+  useEffect(() => {
+    knownVariablesRef.current = knownVariables
+  }, [knownVariables])
+
+  // Completion providers are registered per language, so dispose ours on unmount
+  useEffect(() => {
+    return () => {
+      completionProviderRef.current?.dispose()
+    }
+  }, [])
+
   // Parse JSON and update preview
   const parseJson = useCallback((jsonString: string): TestStep[] | null => {
     try {
@@ -71,27 +133,67 @@ export function ScenarioEditor({
 
   // Handle editor mount
   const handleEditorDidMount: OnMount = useCallback((editorInstance, monaco) => {
+    const monacoApi = monaco as typeof Monaco
     editorRef.current = editorInstance
-    monacoRef.current = monaco
+    monacoRef.current = monacoApi
 
-    // Configure JSON diagnostics (monaco types are unresolved at compile time)
+    // Configure JSON diagnostics with the step schema bound to this editor's model
+    // (monaco types are unresolved at compile time)
+    const modelUri = editorInstance.getModel()?.uri.toString()
     /* eslint-disable @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
     monaco.languages.json.jsonDefaults.setDiagnosticsOptions({
       validate: true,
       allowComments: false,
       schemaValidation: 'error',
+      enableSchemaRequest: false,
+      schemas: modelUri
+        ? [{ uri: TEST_STEPS_SCHEMA_URI, fileMatch: [modelUri], schema: TEST_STEPS_SCHEMA }]
+        : [],
     })
     /* eslint-enable @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
+
+    completionProviderRef.current?.dispose()
+    completionProviderRef.current = monacoApi.languages.registerCompletionItemProvider('json', {
+      triggerCharacters: ['{', '"'],
+      provideCompletionItems: (model, position) => {
+        if (model !== editorInstance.getModel()) return { suggestions: [] }
+
+        const context = getCompletionContext(model.getValue(), model.getOffsetAt(position), {
+          knownVariables: knownVariablesRef.current,
+        })
+        if (!context) return { suggestions: [] }
+
+        const range = {
+          startLineNumber: position.lineNumber,
+          endLineNumber: position.lineNumber,
+          startColumn: position.column - context.prefix.length,
+          endColumn: position.column,
+        }
+        const kind =
+          context.kind === 'variable'
+            ? monacoApi.languages.CompletionItemKind.Variable
+            : monacoApi.languages.CompletionItemKind.EnumMember
+
+        return {
+          suggestions: context.values.map((label) => ({
+            label,
+            kind,
+            insertText: label,
+            detail: COMPLETION_DETAILS[context.kind],
+            range,
+          })),
+        }
+      },
+    })
+
+    setIsEditorReady(true)
   }, [])
 
   // Update markers for validation errors
   useEffect(() => {
     const currentEditor = editorRef.current
-    const currentMonaco = monacoRef.current as {
-      MarkerSeverity: { Error: number; Warning: number }
-      editor: { setModelMarkers: (model: editor.ITextModel, owner: string, markers: editor.IMarkerData[]) => void }
-    } | null
-    if (!currentEditor || !currentMonaco) return
+    const currentMonaco = monacoRef.current
+    if (!isEditorReady || !currentEditor || !currentMonaco) return
 
     const model = currentEditor.getModel()
     if (!model) return
@@ -109,7 +211,27 @@ export function ScenarioEditor({
     }))
 
     currentMonaco.editor.setModelMarkers(model, 'scenario-editor', markers)
-  }, [validationErrors])
+  }, [validationErrors, isEditorReady])
+
+  // Update markers for variable flow issues
+  useEffect(() => {
+    const currentEditor = editorRef.current
+    const currentMonaco = monacoRef.current
+    if (!isEditorReady || !currentEditor || !currentMonaco) return
+
+    const model = currentEditor.getModel()
+    if (!model) return
+
+    const markers: editor.IMarkerData[] = variableDiagnostics.map((diagnostic) => ({
+      ...diagnostic,
+      severity:
+        diagnostic.severity === 'error'
+          ? currentMonaco.MarkerSeverity.Error
+          : currentMonaco.MarkerSeverity.Warning,
+    }))
+
+    currentMonaco.editor.setModelMarkers(model, 'scenario-variables', markers)
+  }, [variableDiagnostics, isEditorReady])
 
   // Handle format
   const handleFormat = useCallback(() => {
@@ -133,6 +255,14 @@ export function ScenarioEditor({
     }
   }, [])
 
+  // Form edits are serialized back into the JSON source so both modes share one document
+  const handleFormChange = useCallback(
+    (steps: TestStep[]) => {
+      handleChange(JSON.stringify(steps, null, 2))
+    },
+    [handleChange]
+  )
+
   // Handle validate
   const handleValidate = useCallback(() => {
     if (!onValidate) return
@@ -215,10 +345,45 @@ export function ScenarioEditor({
       {/* Toolbar */}
       <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-secondary-700 bg-secondary-800/50">
         <div className="flex items-center gap-2">
+          <div
+            className="flex rounded-lg border border-secondary-600 overflow-hidden"
+            role="group"
+            aria-label="Editor mode"
+          >
+            {(['form', 'json'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => {
+                  setMode(option)
+                }}
+                disabled={option === 'form' && (parseError !== null || !formSteps)}
+                className={`px-3 py-1 text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                  activeMode === option
+                    ? 'bg-primary-500/20 text-primary-400'
+                    : 'text-secondary-400 hover:text-white hover:bg-secondary-700'
+                }`}
+                aria-pressed={activeMode === option}
+                title={
+                  option !== 'form'
+                    ? undefined
+                    : parseError
+                      ? 'Fix JSON errors before switching to the form'
+                      : shapeError
+                        ? `Complete the steps before switching to the form: ${shapeError}`
+                        : undefined
+                }
+              >
+                {option === 'form' ? 'Form' : 'JSON'}
+              </button>
+            ))}
+          </div>
+          <div className="w-px h-5 bg-secondary-600" />
           <button
             type="button"
             onClick={handleUndo}
-            className="p-2 text-secondary-400 hover:text-white hover:bg-secondary-700 rounded-lg transition-colors"
+            disabled={activeMode === 'form'}
+            className="p-2 text-secondary-400 hover:text-white hover:bg-secondary-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             title="Undo (Ctrl+Z)"
             aria-label="Undo"
           >
@@ -234,7 +399,8 @@ export function ScenarioEditor({
           <button
             type="button"
             onClick={handleRedo}
-            className="p-2 text-secondary-400 hover:text-white hover:bg-secondary-700 rounded-lg transition-colors"
+            disabled={activeMode === 'form'}
+            className="p-2 text-secondary-400 hover:text-white hover:bg-secondary-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             title="Redo (Ctrl+Y)"
             aria-label="Redo"
           >
@@ -251,7 +417,8 @@ export function ScenarioEditor({
           <button
             type="button"
             onClick={handleFormat}
-            className="p-2 text-secondary-400 hover:text-white hover:bg-secondary-700 rounded-lg transition-colors"
+            disabled={activeMode === 'form'}
+            className="p-2 text-secondary-400 hover:text-white hover:bg-secondary-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             title="Format JSON"
             aria-label="Format JSON"
           >
@@ -404,20 +571,55 @@ export function ScenarioEditor({
         </div>
       )}
 
+      {/* Variable flow issues */}
+      {!parseError && variableDiagnostics.length > 0 && (
+        <div
+          className="px-4 py-2 bg-yellow-500/10 border-b border-yellow-500/20 space-y-0.5"
+          data-testid="variable-issues"
+        >
+          {variableDiagnostics.map((diagnostic, index) => (
+            <p
+              key={index}
+              className={`text-sm ${
+                diagnostic.severity === 'error' ? 'text-red-400' : 'text-yellow-400'
+              }`}
+            >
+              Line {diagnostic.startLineNumber}: {diagnostic.message}
+            </p>
+          ))}
+        </div>
+      )}
+
       {/* Editor and Preview */}
       <div className="flex-1 flex min-h-0">
-        {/* Monaco Editor */}
-        <div className={`flex-1 min-w-0 ${showPreview ? 'w-1/2' : 'w-full'}`}>
+        {/* Form Builder */}
+        {showForm && (
+          <div className={`flex-1 min-w-0 overflow-auto p-4 ${showPreview ? 'w-1/2' : 'w-full'}`}>
+            <StepBuilder
+              steps={formSteps}
+              onChange={handleFormChange}
+              {...(operations ? { operations } : {})}
+              disabled={isSaving || isLoading}
+            />
+          </div>
+        )}
+
+        {/* Monaco Editor (kept mounted in form mode so undo history and markers survive) */}
+        <div
+          className={`flex-1 min-w-0 ${showPreview ? 'w-1/2' : 'w-full'} ${
+            showForm ? 'hidden' : ''
+          }`}
+        >
           <Editor
             height="100%"
             language="json"
-            theme="vs-dark"
+            theme={resolvedTheme === 'light' ? 'vs' : 'vs-dark'}
             value={value}
             onChange={handleChange}
             onMount={handleEditorDidMount}
             options={{
               minimap: { enabled: false },
-              fontSize: 14,
+              fontSize: preferences.editorFontSize,
               lineNumbers: 'on',
               scrollBeyondLastLine: false,
               automaticLayout: true,
@@ -458,12 +660,12 @@ export function ScenarioEditor({
             <div className="w-px bg-secondary-700" />
             <div className="w-1/2 overflow-auto bg-secondary-900 p-4">
               <h3 className="text-sm font-medium text-secondary-400 mb-3">Preview</h3>
-              {parsedValue ? (
+              {formSteps ? (
                 <div className="space-y-3">
                   <p className="text-sm text-secondary-300">
-                    {parsedValue.length} step{parsedValue.length !== 1 ? 's' : ''}
+                    {formSteps.length} step{formSteps.length !== 1 ? 's' : ''}
                   </p>
-                  {parsedValue.map((step, index) => (
+                  {formSteps.map((step, index) => (
                     <div
                       key={step.id || index}
                       className="p-3 bg-secondary-800 rounded-lg border border-secondary-700"
@@ -489,7 +691,11 @@ export function ScenarioEditor({
                 </div>
               ) : (
                 <div className="flex items-center justify-center h-32 text-secondary-500">
-                  <p>Fix JSON errors to see preview</p>
+                  <p>
+                    {shapeError
+                      ? `Complete the steps to see preview: ${shapeError}`
+                      : 'Fix JSON errors to see preview'}
+                  </p>
                 </div>
               )}
             </div>
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { ScenarioVersionDiff } from './ScenarioVersionDiff'
+import { mockScenario } from '@/test/mocks'
+import type { ScenarioVersion } from '@/api/types'
+
+vi.mock('@monaco-editor/react', () => ({
+  DiffEditor: ({ original, modified }: { original: string; modified: string }) => (
+    <div>
+      <pre data-testid="diff-original">{original}</pre>
+      <pre data-testid="diff-modified">{modified}</pre>
+    </div>
+  ),
+}))
+
+const baseVersion: ScenarioVersion = {
+  id: 'version-1',
+  scenarioId: mockScenario.id,
+  version: 1,
+  source: 'AI',
+  author: null,
+  createdAt: '2024-01-15T10:00:00Z',
+  restoredFrom: null,
+  name: mockScenario.name,
+  description: mockScenario.description,
+  steps: mockScenario.steps,
+}
+
+describe('ScenarioVersionDiff', () => {
+  it('passes both versions to the diff editor as JSON', () => {
+    const modified: ScenarioVersion = {
+      ...baseVersion,
+      id: 'version-2',
+      version: 2,
+      source: 'MANUAL',
+      name: 'Renamed scenario',
+    }
+
+    render(<ScenarioVersionDiff original={baseVersion} modified={modified} />)
+
+    expect(screen.getByText('Version 1 → Version 2')).toBeInTheDocument()
+    expect(screen.getByTestId('diff-original')).toHaveTextContent(`"name": "${mockScenario.name}"`)
+    expect(screen.getByTestId('diff-modified')).toHaveTextContent('"name": "Renamed scenario"')
+    expect(screen.getByText('+1')).toBeInTheDocument()
+    expect(screen.getByText('-1')).toBeInTheDocument()
+  })
+
+  it('reports identical versions', () => {
+    render(
+      <ScenarioVersionDiff
+        original={baseVersion}
+        modified={{ ...baseVersion, id: 'version-3', version: 3, author: 'ada' }}
+      />
+    )
+
+    expect(screen.getByText('No differences')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,73 @@
+import { useMemo } from 'react'
+import { DiffEditor } from '@monaco-editor/react'
+import { diffLines } from '@/lib/diff'
+import { usePreferences } from '@/lib/preferences'
+import type { ScenarioVersion } from '@/api/types'
+
+export interface ScenarioVersionDiffProps {
+  original: ScenarioVersion
+  modified: ScenarioVersion
+  height?: string
+}
+
+/** The parts of a version that users edit; metadata such as author is shown in the header */
+function toDocument(version: ScenarioVersion): string {
+  return JSON.stringify(
+    { name: version.name, description: version.description, steps: version.steps },
+    null,
+    2
+  )
+}
+
+export function ScenarioVersionDiff({
+  original,
+  modified,
+  height = '480px',
+}: ScenarioVersionDiffProps) {
+  const { preferences, resolvedTheme } = usePreferences()
+  const originalDocument = useMemo(() => toDocument(original), [original])
+  const modifiedDocument = useMemo(() => toDocument(modified), [modified])
+
+  const stats = useMemo(() => {
+    const lines = diffLines(originalDocument, modifiedDocument)
+    return {
+      added: lines.filter((line) => line.type === 'added').length,
+      removed: lines.filter((line) => line.type === 'removed').length,
+    }
+  }, [originalDocument, modifiedDocument])
+
+  return (
+    <div className="space-y-2" data-testid="scenario-version-diff">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-secondary-400">
+          Version {original.version} → Version {modified.version}
+        </span>
+        {stats.added === 0 && stats.removed === 0 ? (
+          <span className="text-secondary-500">No differences</span>
+        ) : (
+          <span className="font-mono">
+            <span className="text-green-400">+{stats.added}</span>{' '}
+            <span className="text-red-400">-{stats.removed}</span>
+          </span>
+        )}
+      </div>
+      <div className="border border-secondary-700 rounded-lg overflow-hidden">
+        <DiffEditor
+          height={height}
+          language="json"
+          theme={resolvedTheme === 'light' ? 'vs' : 'vs-dark'}
+          original={originalDocument}
+          modified={modifiedDocument}
+          options={{
+            readOnly: true,
+            renderSideBySide: true,
+            minimap: { enabled: false },
+            scrollBeyondLastLine: false,
+            fontSize: preferences.editorFontSize,
+            automaticLayout: true,
+          }}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,194 @@
+import { describe, expect, it, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { StepBuilder } from './StepBuilder'
+import type { TestStep } from '@/api/types'
+import type { ApiOperation } from '@/lib/openapi'
+
+const steps: TestStep[] = [
+  {
+    id: 'step-1',
+    order: 1,
+    method: 'GET',
+    endpoint: '/users',
+    headers: { Accept: 'application/json' },
+    body: null,
+    expectedStatus: 200,
+    assertions: [{ type: 'STATUS', path: '', expected: 200, operator: 'EQUALS' }],
+    extractors: [],
+    timeoutMs: 5000,
+  },
+  {
+    id: 'step-2',
+    order: 2,
+    method: 'POST',
+    endpoint: '/users',
+    headers: {},
+    body: '{"name":"Ada"}',
+    expectedStatus: 201,
+    assertions: [],
+    extractors: [{ name: 'userId', type: 'JSON_PATH', path: '$.id' }],
+    timeoutMs: 5000,
+  },
+]
+
+const operations: ApiOperation[] = [
+  { method: 'DELETE', path: '/users/{id}', operationId: null, summary: 'Delete user', tags: [] },
+]
+
+function renderBuilder(props: Partial<Parameters<typeof StepBuilder>[0]> = {}) {
+  const onChange = vi.fn<(steps: TestStep[]) => void>()
+  render(<StepBuilder steps={steps} onChange={onChange} {...props} />)
+  const lastSteps = () => onChange.mock.lastCall?.[0] ?? []
+  return { onChange, lastSteps }
+}
+
+describe('StepBuilder', () => {
+  it('renders a form per step', () => {
+    renderBuilder()
+
+    expect(screen.getAllByTestId('step-form')).toHaveLength(2)
+    expect(screen.getByLabelText('Endpoint for step 2')).toHaveValue('/users')
+    expect(screen.getAllByTestId('assertion-row')).toHaveLength(1)
+    expect(screen.getAllByTestId('extractor-row')).toHaveLength(1)
+  })
+
+  it('adds an empty step at the end', () => {
+    const { lastSteps } = renderBuilder()
+
+    fireEvent.click(screen.getByRole('button', { name: '+ Add Step' }))
+
+    expect(lastSteps()).toHaveLength(3)
+    expect(lastSteps()[2]).toMatchObject({ order: 3, method: 'GET', endpoint: '' })
+  })
+
+  it('moves, duplicates and removes steps', () => {
+    const { lastSteps } = renderBuilder()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Move step 2 up' }))
+    expect(lastSteps().map((s) => s.id)).toEqual(['step-2', 'step-1'])
+    expect(lastSteps().map((s) => s.order)).toEqual([1, 2])
+
+    fireEvent.click(screen.getByRole('button', { name: 'Duplicate step 1' }))
+    expect(lastSteps()).toHaveLength(3)
+    expect(lastSteps()[1]?.endpoint).toBe('/users')
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove step 1' }))
+    expect(lastSteps().map((s) => s.id)).toEqual(['step-2'])
+  })
+
+  it('disables moving past either end', () => {
+    renderBuilder()
+
+    expect(screen.getByRole('button', { name: 'Move step 1 up' })).toBeDisabled()
+    expect(screen.getByRole('button', { name: 'Move step 2 down' })).toBeDisabled()
+  })
+
+  it('edits request fields', () => {
+    const { lastSteps } = renderBuilder()
+
+    fireEvent.change(screen.getByLabelText('Method for step 1'), { target: { value: 'PUT' } })
+    expect(lastSteps()[0]?.method).toBe('PUT')
+
+    fireEvent.change(screen.getByLabelText('Body for step 2'), { target: { value: '' } })
+    expect(lastSteps()[1]?.body).toBeNull()
+
+    fireEvent.change(screen.getByLabelText('Expected status for step 2'), {
+      target: { value: '204' },
+    })
+    expect(lastSteps()[1]?.expectedStatus).toBe(204)
+  })
+
+  it('keeps numeric fields until the text is a number again', () => {
+    const { onChange, lastSteps } = renderBuilder()
+    const status = screen.getByLabelText('Expected status for step 1')
+
+    fireEvent.change(status, { target: { value: '' } })
+    expect(status).toHaveValue(null)
+    expect(status).toHaveAttribute('aria-invalid', 'true')
+    expect(onChange).not.toHaveBeenCalled()
+
+    fireEvent.change(status, { target: { value: '404' } })
+    expect(lastSteps()[0]?.expectedStatus).toBe(404)
+
+    fireEvent.change(screen.getByLabelText('Timeout for step 1'), { target: { value: '' } })
+    fireEvent.blur(screen.getByLabelText('Timeout for step 1'))
+    expect(onChange).toHaveBeenCalledTimes(1)
+    expect(screen.getByLabelText('Timeout for step 1')).toHaveValue(5000)
+  })
+
+  it('shows values changed outside the form', () => {
+    const { rerender } = render(<StepBuilder steps={steps} onChange={vi.fn()} />)
+    const [first, second] = steps as [TestStep, TestStep]
+
+    rerender(<StepBuilder steps={[{ ...first, expectedStatus: 418 }, second]} onChange={vi.fn()} />)
+
+    expect(screen.getByLabelText('Expected status for step 1')).toHaveValue(418)
+  })
+
+  it('keeps numeric expected values numeric', () => {
+    const { lastSteps } = renderBuilder()
+
+    fireEvent.change(screen.getByLabelText('Assertion expected value'), {
+      target: { value: '201' },
+    })
+
+    expect(lastSteps()[0]?.assertions[0]?.expected).toBe(201)
+  })
+
+  it('types a new assertion value from the text', () => {
+    const onChange = vi.fn<(steps: TestStep[]) => void>()
+    const { rerender } = render(<StepBuilder steps={steps} onChange={onChange} />)
+    const lastSteps = () => onChange.mock.lastCall?.[0] ?? []
+    const update = (next: TestStep[]) => {
+      rerender(<StepBuilder steps={next} onChange={onChange} />)
+    }
+
+    fireEvent.click(screen.getAllByRole('button', { name: '+ Add assertion' })[1] as HTMLElement)
+    update(lastSteps())
+    const input = screen.getAllByLabelText('Assertion expected value')[1] as HTMLElement
+
+    fireEvent.change(input, { target: { value: '200' } })
+    expect(lastSteps()[1]?.assertions[0]?.expected).toBe(200)
+    update(lastSteps())
+
+    fireEvent.change(input, { target: { value: '' } })
+    expect(lastSteps()[1]?.assertions[0]?.expected).toBe('')
+    update(lastSteps())
+
+    fireEvent.change(input, { target: { value: '2.0' } })
+    update(lastSteps())
+    expect(input).toHaveValue('2.0')
+    fireEvent.change(input, { target: { value: '2.05' } })
+    expect(lastSteps()[1]?.assertions[0]?.expected).toBe(2.05)
+    update(lastSteps())
+
+    fireEvent.change(input, { target: { value: '"200"' } })
+    expect(lastSteps()[1]?.assertions[0]?.expected).toBe('200')
+  })
+
+  it('adds assertions and extractors', () => {
+    const { lastSteps } = renderBuilder()
+
+    fireEvent.click(screen.getAllByRole('button', { name: '+ Add assertion' })[1] as HTMLElement)
+    expect(lastSteps()[1]?.assertions).toHaveLength(1)
+
+    fireEvent.click(screen.getAllByRole('button', { name: '+ Add extractor' })[0] as HTMLElement)
+    expect(lastSteps()[0]?.extractors).toEqual([{ name: '', type: 'JSON_PATH', path: '$.' }])
+  })
+
+  it('fills method and endpoint from an OpenAPI operation', () => {
+    const { lastSteps } = renderBuilder({ operations })
+
+    fireEvent.change(screen.getByLabelText('OpenAPI operation for step 1'), {
+      target: { value: 'DELETE /users/{id}' },
+    })
+
+    expect(lastSteps()[0]).toMatchObject({ method: 'DELETE', endpoint: '/users/{id}' })
+  })
+
+  it('hides the operation picker without a spec', () => {
+    renderBuilder()
+
+    expect(screen.queryByLabelText('OpenAPI operation for step 1')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,550 @@
+import { useState, type InputHTMLAttributes, type ReactNode } from 'react'
+import { KeyValueGrid } from './KeyValueGrid'
+import {
+  ASSERTION_TYPES,
+  COMPARISON_OPERATORS,
+  EXTRACTOR_TYPES,
+  HTTP_METHODS,
+  createEmptyAssertion,
+  createEmptyExtractor,
+  createEmptyStep,
+  duplicateStep,
+  formatExpectedValue,
+  moveStep,
+  parseExpectedValue,
+  removeStep,
+} from '@/lib/scenario'
+import type { ApiOperation } from '@/lib/openapi'
+import type {
+  AssertionType,
+  ComparisonOperator,
+  ExtractorType,
+  HttpMethod,
+  StepAssertion,
+  StepExtractor,
+  TestStep,
+} from '@/api/types'
+
+export interface StepBuilderProps {
+  steps: TestStep[]
+  onChange: (steps: TestStep[]) => void
+  /** Operations from the package OpenAPI spec offered in the endpoint picker */
+  operations?: ApiOperation[]
+  disabled?: boolean
+  className?: string
+}
+
+const INPUT_CLASS =
+  'px-3 py-1.5 bg-secondary-800 border border-secondary-700 rounded-lg text-white text-sm placeholder-secondary-500 focus:outline-none focus:border-primary-500 disabled:opacity-50'
+
+const ICON_BUTTON_CLASS =
+  'p-1.5 rounded text-secondary-400 hover:text-white hover:bg-secondary-700 transition-colors disabled:opacity-30 disabled:hover:bg-transparent'
+
+const operationKey = (method: string, path: string) => `${method} ${path}`
+
+export function StepBuilder({
+  steps,
+  onChange,
+  operations = [],
+  disabled = false,
+  className = '',
+}: StepBuilderProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+
+  const updateStep = (index: number, patch: Partial<TestStep>) => {
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...patch } : step)))
+  }
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {steps.length === 0 && (
+        <p className="text-sm text-secondary-500">No steps yet. Add one to get started.</p>
+      )}
+
+      {steps.map((step, index) => (
+        <div
+          key={step.id || index}
+          draggable={!disabled}
+          onDragStart={(e) => {
+            setDragIndex(index)
+            e.dataTransfer.effectAllowed = 'move'
+          }}
+          onDragOver={(e) => {
+            if (dragIndex !== null) e.preventDefault()
+          }}
+          onDrop={(e) => {
+            e.preventDefault()
+            if (dragIndex !== null) onChange(moveStep(steps, dragIndex, index))
+            setDragIndex(null)
+          }}
+          onDragEnd={() => {
+            setDragIndex(null)
+          }}
+          className={`p-4 bg-secondary-800/50 border rounded-lg transition-colors ${
+            dragIndex === index ? 'border-primary-500 opacity-60' : 'border-secondary-700'
+          }`}
+          data-testid="step-form"
+        >
+          <StepForm
+            step={step}
+            index={index}
+            isLast={index === steps.length - 1}
+            operations={operations}
+            disabled={disabled}
+            onUpdate={(patch) => {
+              updateStep(index, patch)
+            }}
+            onMove={(to) => {
+              onChange(moveStep(steps, index, to))
+            }}
+            onDuplicate={() => {
+              onChange(duplicateStep(steps, index))
+            }}
+            onRemove={() => {
+              onChange(removeStep(steps, index))
+            }}
+          />
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => {
+          onChange([...steps, createEmptyStep(steps.length + 1)])
+        }}
+        disabled={disabled}
+        className="btn btn-secondary text-sm disabled:opacity-50"
+      >
+        + Add Step
+      </button>
+    </div>
+  )
+}
+
+interface StepFormProps {
+  step: TestStep
+  index: number
+  isLast: boolean
+  operations: ApiOperation[]
+  disabled: boolean
+  onUpdate: (patch: Partial<TestStep>) => void
+  onMove: (to: number) => void
+  onDuplicate: () => void
+  onRemove: () => void
+}
+
+function StepForm({
+  step,
+  index,
+  isLast,
+  operations,
+  disabled,
+  onUpdate,
+  onMove,
+  onDuplicate,
+  onRemove,
+}: StepFormProps) {
+  const stepLabel = `step ${String(index + 1)}`
+  const selectedOperation = operations.find(
+    (op) => op.method === step.method && op.path === step.endpoint
+  )
+
+  const updateAssertion = (i: number, patch: Partial<StepAssertion>) => {
+    onUpdate({ assertions: step.assertions.map((a, j) => (j === i ? { ...a, ...patch } : a)) })
+  }
+
+  const updateExtractor = (i: number, patch: Partial<StepExtractor>) => {
+    onUpdate({ extractors: step.extractors.map((x, j) => (j === i ? { ...x, ...patch } : x)) })
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Step toolbar */}
+      <div className="flex items-center gap-2">
+        <span className="cursor-grab text-secondary-500 select-none" title="Drag to reorder">
+          ⠿
+        </span>
+        <span className="text-sm font-medium text-white">Step {index + 1}</span>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => {
+              onMove(index - 1)
+            }}
+            disabled={disabled || index === 0}
+            className={ICON_BUTTON_CLASS}
+            aria-label={`Move ${stepLabel} up`}
+          >
+            ↑
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              onMove(index + 1)
+            }}
+            disabled={disabled || isLast}
+            className={ICON_BUTTON_CLASS}
+            aria-label={`Move ${stepLabel} down`}
+          >
+            ↓
+          </button>
+          <button
+            type="button"
+            onClick={onDuplicate}
+            disabled={disabled}
+            className={ICON_BUTTON_CLASS}
+            aria-label={`Duplicate ${stepLabel}`}
+          >
+            ⧉
+          </button>
+          <button
+            type="button"
+            onClick={onRemove}
+            disabled={disabled}
+            className={`${ICON_BUTTON_CLASS} hover:text-red-400`}
+            aria-label={`Remove ${stepLabel}`}
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      {/* Request line */}
+      {operations.length > 0 && (
+        <select
+          value={
+            selectedOperation ? operationKey(selectedOperation.method, selectedOperation.path) : ''
+          }
+          onChange={(e) => {
+            const operation = operations.find(
+              (op) => operationKey(op.method, op.path) === e.target.value
+            )
+            if (operation) onUpdate({ method: operation.method, endpoint: operation.path })
+          }}
+          disabled={disabled}
+          className={`${INPUT_CLASS} w-full`}
+          aria-label={`OpenAPI operation for ${stepLabel}`}
+        >
+          <option value="">Pick an operation from the OpenAPI spec…</option>
+          {operations.map((op) => (
+            <option key={operationKey(op.method, op.path)} value={operationKey(op.method, op.path)}>
+              {op.method} {op.path}
+              {op.summary ? ` — ${op.summary}` : ''}
+            </option>
+          ))}
+        </select>
+      )}
+      <div className="flex gap-2">
+        <select
+          value={step.method}
+          onChange={(e) => {
+            onUpdate({ method: e.target.value as HttpMethod })
+          }}
+          disabled={disabled}
+          className={INPUT_CLASS}
+          aria-label={`Method for ${stepLabel}`}
+        >
+          {HTTP_METHODS.map((method) => (
+            <option key={method} value={method}>
+              {method}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={step.endpoint}
+          onChange={(e) => {
+            onUpdate({ endpoint: e.target.value })
+          }}
+          disabled={disabled}
+          placeholder="/users/{userId}"
+          className={`${INPUT_CLASS} flex-1 font-mono`}
+          aria-label={`Endpoint for ${stepLabel}`}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        <Field label="Expected status">
+          <ParsedInput
+            type="number"
+            value={step.expectedStatus}
+            format={String}
+            parse={parseInteger}
+            onValueChange={(expectedStatus) => {
+              onUpdate({ expectedStatus })
+            }}
+            disabled={disabled}
+            className={`${INPUT_CLASS} w-28`}
+            aria-label={`Expected status for ${stepLabel}`}
+          />
+        </Field>
+        <Field label="Timeout (ms)">
+          <ParsedInput
+            type="number"
+            value={step.timeoutMs}
+            format={String}
+            parse={parseInteger}
+            onValueChange={(timeoutMs) => {
+              onUpdate({ timeoutMs })
+            }}
+            disabled={disabled}
+            className={`${INPUT_CLASS} w-32`}
+            aria-label={`Timeout for ${stepLabel}`}
+          />
+        </Field>
+      </div>
+
+      <Field label="Headers">
+        <KeyValueGrid
+          value={step.headers}
+          onChange={(headers) => {
+            onUpdate({ headers })
+          }}
+          keyPlaceholder="Header"
+          addLabel="Add header"
+          disabled={disabled}
+        />
+      </Field>
+
+      <Field label="Body">
+        <textarea
+          value={step.body ?? ''}
+          onChange={(e) => {
+            onUpdate({ body: e.target.value === '' ? null : e.target.value })
+          }}
+          disabled={disabled}
+          rows={4}
+          placeholder="No body"
+          className={`${INPUT_CLASS} w-full font-mono`}
+          aria-label={`Body for ${stepLabel}`}
+        />
+      </Field>
+
+      <Field label={`Assertions (${String(step.assertions.length)})`}>
+        <div className="space-y-2">
+          {step.assertions.map((assertion, i) => (
+            <div key={i} className="flex flex-wrap items-center gap-2" data-testid="assertion-row">
+              <select
+                value={assertion.type}
+                onChange={(e) => {
+                  updateAssertion(i, { type: e.target.value as AssertionType })
+                }}
+                disabled={disabled}
+                className={INPUT_CLASS}
+                aria-label="Assertion type"
+              >
+                {ASSERTION_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={assertion.path}
+                onChange={(e) => {
+                  updateAssertion(i, { path: e.target.value })
+                }}
+                disabled={disabled}
+                placeholder="$.id"
+                className={`${INPUT_CLASS} flex-1 min-w-32 font-mono`}
+                aria-label="Assertion path"
+              />
+              <select
+                value={assertion.operator}
+                onChange={(e) => {
+                  updateAssertion(i, { operator: e.target.value as ComparisonOperator })
+                }}
+                disabled={disabled}
+                className={INPUT_CLASS}
+                aria-label="Assertion operator"
+              >
+                {COMPARISON_OPERATORS.map((operator) => (
+                  <option key={operator} value={operator}>
+                    {operator}
+                  </option>
+                ))}
+              </select>
+              <ParsedInput
+                type="text"
+                value={assertion.expected}
+                format={formatExpectedValue}
+                parse={parseExpectedValue}
+                onValueChange={(expected) => {
+                  updateAssertion(i, { expected })
+                }}
+                disabled={disabled}
+                placeholder="Expected"
+                title='Text, or a JSON value such as 200, true, null or "200" for quoted text'
+                className={`${INPUT_CLASS} flex-1 min-w-32 font-mono`}
+                aria-label="Assertion expected value"
+              />
+              <RemoveRowButton
+                label="Remove assertion"
+                disabled={disabled}
+                onClick={() => {
+                  onUpdate({ assertions: step.assertions.filter((_, j) => j !== i) })
+                }}
+              />
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => {
+              onUpdate({ assertions: [...step.assertions, createEmptyAssertion()] })
+            }}
+            disabled={disabled}
+            className="text-sm text-primary-400 hover:text-primary-300 transition-colors"
+          >
+            + Add assertion
+          </button>
+        </div>
+      </Field>
+
+      <Field label={`Extractors (${String(step.extractors.length)})`}>
+        <div className="space-y-2">
+          {step.extractors.map((extractor, i) => (
+            <div key={i} className="flex flex-wrap items-center gap-2" data-testid="extractor-row">
+              <input
+                type="text"
+                value={extractor.name}
+                onChange={(e) => {
+                  updateExtractor(i, { name: e.target.value })
+                }}
+                disabled={disabled}
+                placeholder="variableName"
+                className={`${INPUT_CLASS} w-40 font-mono`}
+                aria-label="Extractor name"
+              />
+              <select
+                value={extractor.type}
+                onChange={(e) => {
+                  updateExtractor(i, { type: e.target.value as ExtractorType })
+                }}
+                disabled={disabled}
+                className={INPUT_CLASS}
+                aria-label="Extractor type"
+              >
+                {EXTRACTOR_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={extractor.path}
+                onChange={(e) => {
+                  updateExtractor(i, { path: e.target.value })
+                }}
+                disabled={disabled}
+                placeholder="$.id"
+                className={`${INPUT_CLASS} flex-1 min-w-32 font-mono`}
+                aria-label="Extractor path"
+              />
+              <RemoveRowButton
+                label="Remove extractor"
+                disabled={disabled}
+                onClick={() => {
+                  onUpdate({ extractors: step.extractors.filter((_, j) => j !== i) })
+                }}
+              />
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => {
+              onUpdate({ extractors: [...step.extractors, createEmptyExtractor()] })
+            }}
+            disabled={disabled}
+            className="text-sm text-primary-400 hover:text-primary-300 transition-colors"
+          >
+            + Add extractor
+          </button>
+        </div>
+      </Field>
+    </div>
+  )
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div>
+      <h4 className="text-xs font-medium text-secondary-400 mb-1">{label}</h4>
+      {children}
+    </div>
+  )
+}
+
+function RemoveRowButton({
+  label,
+  disabled,
+  onClick,
+}: {
+  label: string
+  disabled: boolean
+  onClick: () => void
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className={`${ICON_BUTTON_CLASS} hover:text-red-400`}
+      aria-label={label}
+    >
+      ✕
+    </button>
+  )
+}
+
+interface ParsedInputProps<T> extends Omit<
+  InputHTMLAttributes<HTMLInputElement>,
+  'value' | 'onChange'
+> {
+  value: T
+  format: (value: T) => string
+  /** `undefined` while the text does not describe a value yet */
+  parse: (text: string) => T | undefined
+  onValueChange: (value: T) => void
+}
+
+/**
+ * Input that keeps what is typed as a draft, so text like "" or "2.0" is not reformatted
+ * mid-edit. The value only changes once the text parses; blurring restores its text.
+ */
+function ParsedInput<T>({ value, format, parse, onValueChange, ...props }: ParsedInputProps<T>) {
+  const [draft, setDraft] = useState({ text: format(value), value })
+  const [previousValue, setPreviousValue] = useState(value)
+
+  // Follow changes made elsewhere, e.g. in the JSON editor
+  if (!Object.is(previousValue, value)) {
+    setPreviousValue(value)
+    if (!Object.is(draft.value, value)) setDraft({ text: format(value), value })
+  }
+
+  return (
+    <input
+      {...props}
+      value={draft.text}
+      aria-invalid={parse(draft.text) === undefined}
+      onChange={(e) => {
+        const text = e.target.value
+        const parsed = parse(text)
+        if (parsed === undefined) {
+          setDraft({ text, value })
+          return
+        }
+        setDraft({ text, value: parsed })
+        onValueChange(parsed)
+      }}
+      onBlur={() => {
+        setDraft({ text: format(value), value })
+      }}
+    />
+  )
+}
+
+function parseInteger(text: string): number | undefined {
+  return /^\s*-?\d+\s*$/.test(text) ? Number.parseInt(text, 10) : undefined
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { TagEditor } from './TagEditor'
+
+describe('TagEditor', () => {
+  it('adds normalized tags on Enter and comma', async () => {
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    render(<TagEditor value={['smoke']} onChange={onChange} />)
+
+    await user.type(screen.getByRole('textbox', { name: 'Add tag' }), 'Auth Flow{Enter}')
+    expect(onChange).toHaveBeenLastCalledWith(['smoke', 'auth-flow'])
+
+    await user.type(screen.getByRole('textbox', { name: 'Add tag' }), 'regression,')
+    expect(onChange).toHaveBeenLastCalledWith(['smoke', 'regression'])
+  })
+
+  it('ignores tags that are already present', async () => {
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    render(<TagEditor value={['smoke']} onChange={onChange} />)
+
+    await user.type(screen.getByRole('textbox', { name: 'Add tag' }), 'SMOKE{Enter}')
+
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
+  it('removes a tag from its chip', async () => {
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    render(<TagEditor value={['smoke', 'auth']} onChange={onChange} />)
+
+    await user.click(screen.getByRole('button', { name: 'Remove tag smoke' }))
+
+    expect(onChange).toHaveBeenCalledWith(['auth'])
+  })
+})
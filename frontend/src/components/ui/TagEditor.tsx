@@ -0,0 +1,89 @@
+import { useId, useState } from 'react'
+import { addTags, parseTagInput } from '@/lib/scenario'
+
+export interface TagEditorProps {
+  value: string[]
+  onChange: (tags: string[]) => void
+  /** Existing tags offered while typing */
+  suggestions?: string[]
+  placeholder?: string
+  /** Accessible name of the text input */
+  label?: string
+  disabled?: boolean
+}
+
+export function TagEditor({
+  value,
+  onChange,
+  suggestions = [],
+  placeholder = 'Add tag...',
+  label = 'Add tag',
+  disabled = false,
+}: TagEditorProps) {
+  const [draft, setDraft] = useState('')
+  const listId = useId()
+
+  const commit = (text: string) => {
+    const next = addTags(value, parseTagInput(text))
+    setDraft('')
+    if (next.length !== value.length) onChange(next)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      commit(draft)
+    } else if (e.key === 'Backspace' && draft === '' && value.length > 0) {
+      onChange(value.slice(0, -1))
+    }
+  }
+
+  const available = suggestions.filter((tag) => !value.includes(tag))
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-2 py-1.5 bg-secondary-800 border border-secondary-700 rounded-lg focus-within:border-primary-500">
+      {value.map((tag) => (
+        <span
+          key={tag}
+          className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-primary-500/10 text-primary-300 border border-primary-500/30"
+        >
+          {tag}
+          <button
+            type="button"
+            onClick={() => {
+              onChange(value.filter((t) => t !== tag))
+            }}
+            disabled={disabled}
+            className="text-primary-400 hover:text-white disabled:opacity-50"
+            aria-label={`Remove tag ${tag}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value)
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => {
+          if (draft.trim()) commit(draft)
+        }}
+        placeholder={placeholder}
+        aria-label={label}
+        list={available.length > 0 ? listId : undefined}
+        disabled={disabled}
+        className="flex-1 min-w-[8rem] bg-transparent text-sm text-white placeholder-secondary-500 focus:outline-none disabled:opacity-50"
+      />
+      {available.length > 0 && (
+        <datalist id={listId}>
+          {available.map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+        </datalist>
+      )}
+    </div>
+  )
+}
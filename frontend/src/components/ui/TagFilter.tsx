@@ -0,0 +1,65 @@
+export interface TagFilterProps {
+  tags: string[]
+  selected: string[]
+  onChange: (selected: string[]) => void
+  /** Extra text shown on a chip, such as a count or a tag-scoped percentage */
+  hints?: ReadonlyMap<string, string>
+  className?: string
+}
+
+/** Toggleable tag chips; selecting several tags narrows to items carrying all of them */
+export function TagFilter({ tags, selected, onChange, hints, className = '' }: TagFilterProps) {
+  if (tags.length === 0) return null
+
+  const toggle = (tag: string) => {
+    onChange(selected.includes(tag) ? selected.filter((t) => t !== tag) : [...selected, tag])
+  }
+
+  return (
+    <div
+      className={`flex flex-wrap items-center gap-2 ${className}`}
+      role="group"
+      aria-label="Tags"
+    >
+      <span className="text-sm text-secondary-400">Tags:</span>
+      {tags.map((tag) => {
+        const isActive = selected.includes(tag)
+        const hint = hints?.get(tag)
+        return (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => {
+              toggle(tag)
+            }}
+            aria-pressed={isActive}
+            className={`px-2.5 py-0.5 rounded-full text-xs font-medium border transition-colors ${
+              isActive
+                ? 'bg-primary-600 text-white border-primary-500'
+                : 'bg-secondary-800 text-secondary-300 border-secondary-600 hover:text-white'
+            }`}
+          >
+            #{tag}
+            {hint !== undefined && (
+              <>
+                {' '}
+                <span className="opacity-75">{hint}</span>
+              </>
+            )}
+          </button>
+        )
+      })}
+      {selected.length > 0 && (
+        <button
+          type="button"
+          onClick={() => {
+            onChange([])
+          }}
+          className="text-xs text-secondary-400 hover:text-white transition-colors"
+        >
+          Clear tags
+        </button>
+      )}
+    </div>
+  )
+}
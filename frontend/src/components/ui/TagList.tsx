@@ -0,0 +1,21 @@
+export interface TagListProps {
+  tags: string[]
+  className?: string
+}
+
+export function TagList({ tags, className = '' }: TagListProps) {
+  if (tags.length === 0) return null
+
+  return (
+    <ul className={`flex flex-wrap gap-1 ${className}`} aria-label="Tags">
+      {tags.map((tag) => (
+        <li
+          key={tag}
+          className="px-2 py-0.5 rounded-full text-xs bg-secondary-700/60 text-secondary-300"
+        >
+          #{tag}
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { TrendChart } from './TrendChart'
+
+describe('TrendChart', () => {
+  it('renders one line segment per run of consecutive values', () => {
+    const { container } = render(
+      <TrendChart
+        title="Pass rate"
+        labels={['2026-01-01', '2026-01-02', '2026-01-03', '2026-01-04']}
+        maxValue={100}
+        series={[{ label: 'Pass rate', colorClass: 'text-green-400', values: [50, 75, null, 100] }]}
+      />
+    )
+
+    expect(screen.getByRole('img', { name: 'Pass rate' })).toBeInTheDocument()
+    expect(container.querySelectorAll('[data-series="Pass rate"] polyline')).toHaveLength(2)
+    expect(container.querySelectorAll('[data-series="Pass rate"] circle')).toHaveLength(3)
+  })
+
+  it('labels points with formatted values', () => {
+    const { container } = render(
+      <TrendChart
+        title="Duration"
+        labels={['2026-01-01']}
+        formatValue={(value) => `${String(value)}ms`}
+        series={[{ label: 'Median', colorClass: 'text-blue-400', values: [120] }]}
+      />
+    )
+
+    expect(container.querySelector('circle title')).toHaveTextContent('2026-01-01 · Median: 120ms')
+  })
+
+  it('shows an empty state without values', () => {
+    render(
+      <TrendChart
+        title="Runs"
+        labels={['2026-01-01']}
+        series={[{ label: 'Runs', colorClass: 'text-secondary-300', values: [null] }]}
+      />
+    )
+
+    expect(screen.getByText('No data for this period')).toBeInTheDocument()
+    expect(screen.queryByRole('img')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,166 @@
+import { useMemo } from 'react'
+
+export interface TrendSeries {
+  label: string
+  /** Tailwind stroke/fill colour class, e.g. `text-green-400` */
+  colorClass: string
+  /** One value per label; null leaves a gap in the line */
+  values: (number | null)[]
+}
+
+export interface TrendChartProps {
+  title: string
+  labels: string[]
+  series: TrendSeries[]
+  formatValue?: (value: number) => string
+  /** Fixed upper bound, e.g. 100 for percentages; defaults to the largest value */
+  maxValue?: number
+  height?: number
+  className?: string
+}
+
+const WIDTH = 600
+const PADDING = { top: 12, right: 12, bottom: 24, left: 48 }
+const GRID_LINES = 4
+
+const defaultFormat = (value: number) => String(Math.round(value))
+
+/**
+ * Dependency-free SVG line chart. The viewBox scales to the container width while
+ * stroke widths stay constant.
+ */
+export function TrendChart({
+  title,
+  labels,
+  series,
+  formatValue = defaultFormat,
+  maxValue,
+  height = 180,
+  className = '',
+}: TrendChartProps) {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = height - PADDING.top - PADDING.bottom
+
+  const yMax = useMemo(() => {
+    if (maxValue !== undefined) return maxValue
+    const values = series.flatMap((s) => s.values.filter((v): v is number => v !== null))
+    return Math.max(1, ...values)
+  }, [series, maxValue])
+
+  const x = (index: number) =>
+    PADDING.left + (labels.length <= 1 ? plotWidth / 2 : (index / (labels.length - 1)) * plotWidth)
+  const y = (value: number) => PADDING.top + plotHeight - (value / yMax) * plotHeight
+
+  const hasData = series.some((s) => s.values.some((v) => v !== null))
+
+  return (
+    <figure className={`card ${className}`}>
+      <figcaption className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <span className="text-sm font-medium text-white">{title}</span>
+        <span className="flex gap-3">
+          {series.map((s) => (
+            <span key={s.label} className="flex items-center gap-1 text-xs text-secondary-400">
+              <span className={`w-3 h-0.5 bg-current ${s.colorClass}`} />
+              {s.label}
+            </span>
+          ))}
+        </span>
+      </figcaption>
+
+      {hasData ? (
+        <svg
+          viewBox={`0 0 ${String(WIDTH)} ${String(height)}`}
+          className="w-full h-auto"
+          role="img"
+          aria-label={title}
+        >
+          {Array.from({ length: GRID_LINES + 1 }, (_, i) => {
+            const value = (yMax / GRID_LINES) * i
+            return (
+              <g key={i} className="text-secondary-700">
+                <line
+                  x1={PADDING.left}
+                  x2={WIDTH - PADDING.right}
+                  y1={y(value)}
+                  y2={y(value)}
+                  stroke="currentColor"
+                  strokeDasharray={i === 0 ? undefined : '2 4'}
+                  vectorEffect="non-scaling-stroke"
+                />
+                <text
+                  x={PADDING.left - 6}
+                  y={y(value)}
+                  textAnchor="end"
+                  dominantBaseline="middle"
+                  className="fill-secondary-500 text-[10px]"
+                >
+                  {formatValue(value)}
+                </text>
+              </g>
+            )
+          })}
+
+          {labels.length > 0 && (
+            <>
+              <text x={x(0)} y={height - 6} className="fill-secondary-500 text-[10px]">
+                {labels[0]}
+              </text>
+              {labels.length > 1 && (
+                <text
+                  x={x(labels.length - 1)}
+                  y={height - 6}
+                  textAnchor="end"
+                  className="fill-secondary-500 text-[10px]"
+                >
+                  {labels[labels.length - 1]}
+                </text>
+              )}
+            </>
+          )}
+
+          {series.map((s) => (
+            <g key={s.label} className={s.colorClass} data-series={s.label}>
+              {toSegments(s.values).map((segment) => (
+                <polyline
+                  key={segment[0]}
+                  points={segment
+                    .map((index) => `${String(x(index))},${String(y(s.values[index] ?? 0))}`)
+                    .join(' ')}
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+              {s.values.map((value, index) =>
+                value === null ? null : (
+                  <circle key={index} cx={x(index)} cy={y(value)} r={3} fill="currentColor">
+                    <title>{`${labels[index] ?? ''} · ${s.label}: ${formatValue(value)}`}</title>
+                  </circle>
+                )
+              )}
+            </g>
+          ))}
+        </svg>
+      ) : (
+        <p className="py-8 text-center text-sm text-secondary-500">No data for this period</p>
+      )}
+    </figure>
+  )
+}
+
+/** Split value indices into runs of consecutive non-null points */
+function toSegments(values: (number | null)[]): number[][] {
+  const segments: number[][] = []
+  let current: number[] = []
+  values.forEach((value, index) => {
+    if (value === null) {
+      if (current.length > 0) segments.push(current)
+      current = []
+    } else {
+      current.push(index)
+    }
+  })
+  if (current.length > 0) segments.push(current)
+  return segments
+}
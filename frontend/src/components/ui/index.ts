@@ -6,11 +6,13 @@ export { JsonViewer } from './JsonViewer'
 export { CopyButton } from './CopyButton'
 export { Modal } from './Modal'
 export { ScenarioEditor } from './ScenarioEditor'
-export type { ScenarioEditorProps, ValidationError } from './ScenarioEditor'
+export type { ScenarioEditorMode, ScenarioEditorProps, ValidationError } from './ScenarioEditor'
 export { ExportDropdown } from './ExportDropdown'
 export type { ExportDropdownProps, ExportFormat } from './ExportDropdown'
 export { RetryFailedDialog } from './RetryFailedDialog'
 export type { RetryFailedDialogProps } from './RetryFailedDialog'
+export { ReplayRunDialog } from './ReplayRunDialog'
+export type { ReplayRunDialogProps } from './ReplayRunDialog'
 export { OperationCoverageTable } from './OperationCoverageTable'
 export type {
   OperationCoverageTableProps,
@@ -18,3 +20,29 @@ export type {
   CoverageStats,
   CoverageStatus,
 } from './OperationCoverageTable'
+export { RequestSnippets } from './RequestSnippets'
+export type { RequestSnippetsProps } from './RequestSnippets'
+export { DiffViewer } from './DiffViewer'
+export type { DiffViewerProps } from './DiffViewer'
+export { ResponseDiffView } from './ResponseDiffView'
+export type { ResponseDiffViewProps } from './ResponseDiffView'
+export { PlaywrightExportButton } from './PlaywrightExportButton'
+export type { PlaywrightExportButtonProps } from './PlaywrightExportButton'
+export { KeyValueGrid } from './KeyValueGrid'
+export type { KeyValueGridProps } from './KeyValueGrid'
+export { StepBuilder } from './StepBuilder'
+export type { StepBuilderProps } from './StepBuilder'
+export { ScenarioVersionDiff } from './ScenarioVersionDiff'
+export type { ScenarioVersionDiffProps } from './ScenarioVersionDiff'
+export { TrendChart } from './TrendChart'
+export type { TrendChartProps, TrendSeries } from './TrendChart'
+export { FlakyBadge } from './FlakyBadge'
+export type { FlakyBadgeProps } from './FlakyBadge'
+export { TagEditor } from './TagEditor'
+export type { TagEditorProps } from './TagEditor'
+export { TagFilter } from './TagFilter'
+export type { TagFilterProps } from './TagFilter'
+export { TagList } from './TagList'
+export type { TagListProps } from './TagList'
+export { BulkTagDialog } from './BulkTagDialog'
+export type { BulkTagDialogProps } from './BulkTagDialog'
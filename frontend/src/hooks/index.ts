@@ -2,3 +2,7 @@ export { useAuth } from './useAuth'
 export * from './usePackages'
 export * from './useScenarios'
 export * from './useRuns'
+export * from './useSchedules'
+export * from './useWebhooks'
+export * from './useApiTokens'
+export { useRunEvents, useLiveRunStreams } from './useRunEvents'
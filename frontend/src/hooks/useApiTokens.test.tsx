@@ -0,0 +1,115 @@
+import { describe, expect, it, vi, afterEach } from 'vitest'
+import { renderHook, waitFor } from '@testing-library/react'
+import type { ReactNode } from 'react'
+import { apiTokenKeys, useApiTokens, useCreateApiToken, useRevokeApiToken } from './useApiTokens'
+import { QueryWrapper, createTestQueryClient } from '@/test/test-utils'
+import type { ApiToken } from '@/api/types'
+
+const token: ApiToken = {
+  id: 'token-1',
+  name: 'GitHub Actions',
+  kind: 'SERVICE',
+  scopes: ['read', 'run'],
+  prefix: 'qaw_3f9a',
+  createdBy: 'alice',
+  createdAt: '2024-01-01T00:00:00Z',
+  expiresAt: '2024-04-01T00:00:00Z',
+  lastUsedAt: null,
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+function setup() {
+  const queryClient = createTestQueryClient()
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryWrapper queryClient={queryClient}>{children}</QueryWrapper>
+  )
+  return { queryClient, wrapper }
+}
+
+const requestOf = (fetchSpy: { mock: { calls: unknown[][] } }, index = 0) => {
+  const [url, init] = fetchSpy.mock.calls[index] as [string, RequestInit | undefined]
+  const body = typeof init?.body === 'string' ? init.body : ''
+  return { url, method: init?.method ?? 'GET', body }
+}
+
+describe('useApiTokens', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('lists tokens', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse([token]))
+    const { wrapper } = setup()
+
+    const { result } = renderHook(() => useApiTokens(), { wrapper })
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true)
+    })
+    expect(result.current.data).toEqual([token])
+    expect(requestOf(fetchSpy).url).toMatch(/\/api\/qa\/api-tokens$/)
+  })
+
+  it('creates a token, returns its secret and refreshes the list', async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(jsonResponse({ token, secret: 'qaw_3f9a_secret' }, 201))
+    const { queryClient, wrapper } = setup()
+    const invalidate = vi.spyOn(queryClient, 'invalidateQueries')
+
+    const { result } = renderHook(() => useCreateApiToken(), { wrapper })
+    const created = await result.current.mutateAsync({
+      name: 'GitHub Actions',
+      kind: 'SERVICE',
+      scopes: ['read', 'run'],
+      expiresInDays: 90,
+    })
+
+    const request = requestOf(fetchSpy)
+    expect(request.method).toBe('POST')
+    expect(JSON.parse(request.body)).toEqual({
+      name: 'GitHub Actions',
+      kind: 'SERVICE',
+      scopes: ['read', 'run'],
+      expiresInDays: 90,
+    })
+    expect(created.secret).toBe('qaw_3f9a_secret')
+    expect(invalidate).toHaveBeenCalledWith({ queryKey: apiTokenKeys.list() })
+  })
+
+  it('revokes a token', async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(new Response(null, { status: 204 }))
+    const { wrapper } = setup()
+
+    const { result } = renderHook(() => useRevokeApiToken(), { wrapper })
+    await result.current.mutateAsync('token-1')
+
+    const request = requestOf(fetchSpy)
+    expect(request.method).toBe('DELETE')
+    expect(request.url).toContain('/api/qa/api-tokens/token-1')
+  })
+
+  it('surfaces API errors', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      jsonResponse({ message: 'Scope admin requires the admin role', code: 'FORBIDDEN' }, 403)
+    )
+    const { wrapper } = setup()
+
+    const { result } = renderHook(() => useCreateApiToken(), { wrapper })
+    await expect(
+      result.current.mutateAsync({
+        name: 'Too much',
+        kind: 'PERSONAL',
+        scopes: ['admin'],
+        expiresInDays: null,
+      })
+    ).rejects.toThrow('Scope admin requires the admin role')
+  })
+})
@@ -0,0 +1,42 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { apiTokensApi } from '@/api'
+import type { CreateApiTokenRequest } from '@/api/types'
+import { getCurrentWorkspaceId } from '@/lib/workspace'
+
+// Query key factory
+export const apiTokenKeys = {
+  get all() {
+    return ['apiTokens', getCurrentWorkspaceId()] as const
+  },
+  list: () => [...apiTokenKeys.all, 'list'] as const,
+}
+
+// Hooks
+export function useApiTokens() {
+  return useQuery({
+    queryKey: apiTokenKeys.list(),
+    queryFn: ({ signal }) => apiTokensApi.list(signal),
+  })
+}
+
+export function useCreateApiToken() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateApiTokenRequest) => apiTokensApi.create(data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: apiTokenKeys.list() })
+    },
+  })
+}
+
+export function useRevokeApiToken() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => apiTokensApi.revoke(id),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: apiTokenKeys.list() })
+    },
+  })
+}
@@ -1,15 +1,26 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { packagesApi } from '@/api'
-import type { CreateQaPackageRequest, UpdateQaPackageRequest } from '@/api/types'
+import type {
+  CreateQaPackageRequest,
+  UpdateQaPackageRequest,
+  CreateEnvironmentRequest,
+  UpdateEnvironmentRequest,
+  StartRunRequest,
+} from '@/api/types'
+import { getCurrentWorkspaceId } from '@/lib/workspace'
 
 // Query key factory
 export const packageKeys = {
-  all: ['packages'] as const,
+  // Namespaced by workspace so cached data never leaks between teams
+  get all() {
+    return ['packages', getCurrentWorkspaceId()] as const
+  },
   lists: () => [...packageKeys.all, 'list'] as const,
   list: (page: number, size: number) => [...packageKeys.lists(), { page, size }] as const,
   details: () => [...packageKeys.all, 'detail'] as const,
   detail: (id: string) => [...packageKeys.details(), id] as const,
   runs: (id: string) => [...packageKeys.detail(id), 'runs'] as const,
+  environments: (id: string) => [...packageKeys.detail(id), 'environments'] as const,
 }
 
 // Hooks
@@ -63,6 +74,12 @@ export function useUpdatePackage() {
   })
 }
 
+export function useFetchSpec() {
+  return useMutation({
+    mutationFn: (url: string) => packagesApi.fetchSpec(url),
+  })
+}
+
 export function useGenerateScenarios() {
   const queryClient = useQueryClient()
 
@@ -78,8 +95,9 @@ export function useStartRun() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: (id: string) => packagesApi.startRun(id),
-    onSuccess: (_data, id) => {
+    mutationFn: ({ id, data }: { id: string; data?: StartRunRequest }) =>
+      packagesApi.startRun(id, data),
+    onSuccess: (_data, { id }) => {
       void queryClient.invalidateQueries({ queryKey: packageKeys.detail(id) })
       void queryClient.invalidateQueries({ queryKey: packageKeys.runs(id) })
     },
@@ -93,3 +111,46 @@ export function usePackageRuns(id: string, page = 0, size = 20) {
     enabled: Boolean(id),
   })
 }
+
+export function usePackageEnvironments(id: string) {
+  return useQuery({
+    queryKey: packageKeys.environments(id),
+    queryFn: ({ signal }) => packagesApi.listEnvironments(id, signal),
+    enabled: Boolean(id),
+  })
+}
+
+export function useCreateEnvironment(packageId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateEnvironmentRequest) => packagesApi.createEnvironment(packageId, data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: packageKeys.environments(packageId) })
+    },
+  })
+}
+
+export function useUpdateEnvironment(packageId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateEnvironmentRequest }) =>
+      packagesApi.updateEnvironment(packageId, id, data),
+    onSuccess: () => {
+      // Marking one environment as default clears the flag on the others
+      void queryClient.invalidateQueries({ queryKey: packageKeys.environments(packageId) })
+    },
+  })
+}
+
+export function useDeleteEnvironment(packageId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => packagesApi.deleteEnvironment(packageId, id),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: packageKeys.environments(packageId) })
+    },
+  })
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it, beforeEach } from 'vitest'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import type { ReactNode } from 'react'
+import { useLiveRunStreams, useRunEvents } from './useRunEvents'
+import { runKeys } from './useRuns'
+import { QueryWrapper, createTestQueryClient } from '@/test/test-utils'
+import { mockScenarioResult, mockTestRun } from '@/test/mocks'
+import { MockEventSource } from '@/test/mockEventSource'
+import type { PaginatedResponse, TestRun } from '@/api/types'
+
+const runningRun: TestRun = {
+  ...mockTestRun,
+  status: 'RUNNING',
+  completedAt: null,
+  scenarioResults: [],
+  summary: { ...mockTestRun.summary, passedScenarios: 0, failedScenarios: 0 },
+}
+
+const requestTicket = () => Promise.resolve('ticket-1')
+
+describe('useRunEvents', () => {
+  beforeEach(() => {
+    MockEventSource.reset()
+  })
+
+  it('patches the cached run detail and run lists as events arrive', async () => {
+    const queryClient = createTestQueryClient()
+    // Nothing observes these queries; keep them cached while the ticket is fetched
+    queryClient.setDefaultOptions({ queries: { gcTime: Infinity } })
+    const listKey = runKeys.list({ page: 0 })
+    queryClient.setQueryData(runKeys.detail('run-1'), runningRun)
+    queryClient.setQueryData<PaginatedResponse<TestRun>>(listKey, {
+      content: [runningRun],
+      page: 0,
+      size: 20,
+      totalElements: 1,
+      totalPages: 1,
+      first: true,
+      last: true,
+    })
+
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <QueryWrapper queryClient={queryClient}>{children}</QueryWrapper>
+    )
+    const { result } = renderHook(
+      () => useRunEvents('run-1', { createEventSource: MockEventSource.create, requestTicket }),
+      { wrapper }
+    )
+    await waitFor(() => {
+      expect(MockEventSource.instances).toHaveLength(1)
+    })
+
+    act(() => {
+      MockEventSource.latest().open()
+    })
+    expect(result.current.status).toBe('open')
+
+    act(() => {
+      MockEventSource.latest().emit('scenario-finished', {
+        runId: 'run-1',
+        scenarioResult: mockScenarioResult,
+      })
+    })
+
+    expect(
+      queryClient.getQueryData<TestRun>(runKeys.detail('run-1'))?.summary.passedScenarios
+    ).toBe(1)
+    expect(
+      queryClient.getQueryData<PaginatedResponse<TestRun>>(listKey)?.content[0]?.scenarioResults
+    ).toEqual([mockScenarioResult])
+  })
+
+  it('reports the run as live only while its stream is open', async () => {
+    const { result: live } = renderHook(() => useLiveRunStreams())
+    const stream = renderHook(
+      () => useRunEvents('run-1', { createEventSource: MockEventSource.create, requestTicket }),
+      { wrapper: QueryWrapper }
+    )
+    await waitFor(() => {
+      expect(MockEventSource.instances).toHaveLength(1)
+    })
+    expect(live.current.has('run-1')).toBe(false)
+
+    act(() => {
+      MockEventSource.latest().open()
+    })
+    expect(live.current.has('run-1')).toBe(true)
+
+    stream.unmount()
+    expect(live.current.has('run-1')).toBe(false)
+  })
+
+  it('stops reporting the run as live when its stream drops', async () => {
+    const { result: live } = renderHook(() => useLiveRunStreams())
+    const stream = renderHook(
+      () => useRunEvents('run-1', { createEventSource: MockEventSource.create, requestTicket }),
+      { wrapper: QueryWrapper }
+    )
+    await waitFor(() => {
+      expect(MockEventSource.instances).toHaveLength(1)
+    })
+
+    act(() => {
+      MockEventSource.latest().open()
+    })
+    act(() => {
+      MockEventSource.latest().fail()
+    })
+
+    expect(stream.result.current.status).toBe('connecting')
+    expect(live.current.has('run-1')).toBe(false)
+    stream.unmount()
+  })
+
+  it('does not connect when disabled', () => {
+    const { result } = renderHook(
+      () => useRunEvents('run-1', { enabled: false, createEventSource: MockEventSource.create }),
+      { wrapper: QueryWrapper }
+    )
+
+    expect(result.current.status).toBe('closed')
+    expect(MockEventSource.instances).toHaveLength(0)
+  })
+})
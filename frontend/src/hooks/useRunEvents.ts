@@ -0,0 +1,104 @@
+import { useEffect, useState, useSyncExternalStore } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import {
+  subscribeToRunEvents,
+  applyRunEvent,
+  type RunEventStreamOptions,
+  type RunStreamStatus,
+} from '@/api'
+import type { PaginatedResponse, TestRun } from '@/api/types'
+import { runKeys } from './useRuns'
+import { packageKeys } from './usePackages'
+
+interface UseRunEventsOptions {
+  enabled?: boolean
+  createEventSource?: RunEventStreamOptions['createEventSource']
+  requestTicket?: RunEventStreamOptions['requestTicket']
+}
+
+// Runs whose events are streaming into the cache right now, counted per subscriber
+const liveRunStreams = new Map<string, number>()
+const liveRunListeners = new Set<() => void>()
+let liveRunIds: ReadonlySet<string> = new Set()
+
+function setRunStreamLive(runId: string, live: boolean) {
+  const count = (liveRunStreams.get(runId) ?? 0) + (live ? 1 : -1)
+  if (count > 0) {
+    liveRunStreams.set(runId, count)
+  } else {
+    liveRunStreams.delete(runId)
+  }
+  liveRunIds = new Set(liveRunStreams.keys())
+  liveRunListeners.forEach((listener) => {
+    listener()
+  })
+}
+
+function subscribeToLiveRuns(listener: () => void) {
+  liveRunListeners.add(listener)
+  return () => {
+    liveRunListeners.delete(listener)
+  }
+}
+
+/**
+ * IDs of the runs that currently have an open event stream, so other pollers of the same
+ * run can stand down while the stream keeps its cached detail fresh.
+ */
+export function useLiveRunStreams(): ReadonlySet<string> {
+  return useSyncExternalStore(subscribeToLiveRuns, () => liveRunIds)
+}
+
+/**
+ * Stream live events for a run and patch its cached detail and any cached run lists.
+ * Returns the stream status; 'unavailable' means callers should fall back to polling.
+ */
+export function useRunEvents(runId: string, options: UseRunEventsOptions = {}) {
+  const { enabled = true, createEventSource, requestTicket } = options
+  const queryClient = useQueryClient()
+  const [status, setStatus] = useState<RunStreamStatus>(enabled ? 'connecting' : 'closed')
+
+  useEffect(() => {
+    if (!enabled || !runId) {
+      setStatus('closed')
+      return
+    }
+
+    const unsubscribe = subscribeToRunEvents(runId, {
+      onStatusChange: setStatus,
+      onEvent: (event) => {
+        const patch = (run: TestRun) => applyRunEvent(run, event)
+
+        queryClient.setQueryData<TestRun>(runKeys.detail(runId), (run) => run && patch(run))
+        queryClient.setQueriesData<PaginatedResponse<TestRun>>(
+          { queryKey: runKeys.lists() },
+          (page) =>
+            page && {
+              ...page,
+              content: page.content.map((run) => (run.id === runId ? patch(run) : run)),
+            }
+        )
+
+        if (event.type === 'run-completed') {
+          void queryClient.invalidateQueries({ queryKey: runKeys.lists() })
+          void queryClient.invalidateQueries({ queryKey: packageKeys.detail(event.run.packageId) })
+        }
+      },
+      ...(createEventSource && { createEventSource }),
+      ...(requestTicket && { requestTicket }),
+    })
+
+    return unsubscribe
+  }, [runId, enabled, queryClient, createEventSource, requestTicket])
+
+  const isLive = status === 'open'
+  useEffect(() => {
+    if (!isLive) return
+    setRunStreamLive(runId, true)
+    return () => {
+      setRunStreamLive(runId, false)
+    }
+  }, [runId, isLive])
+
+  return { status }
+}
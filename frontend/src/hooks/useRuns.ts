@@ -1,21 +1,68 @@
+import { useCallback } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { runsApi } from '@/api'
-import type { ListRunsParams } from '@/api/runs'
+import type { ListRunsParams, RunHistoryParams } from '@/api/runs'
+import type { PaginatedResponse, ReplayRunRequest, TestRun } from '@/api/types'
+import { analyzeFlakiness, DEFAULT_FLAKINESS_WINDOW } from '@/lib/analytics'
+import { getCurrentWorkspaceId } from '@/lib/workspace'
 
 // Query key factory
 export const runKeys = {
-  all: ['runs'] as const,
+  get all() {
+    return ['runs', getCurrentWorkspaceId()] as const
+  },
   lists: () => [...runKeys.all, 'list'] as const,
   list: (params: ListRunsParams) => [...runKeys.lists(), params] as const,
+  history: (params: RunHistoryParams) => [...runKeys.all, 'history', params] as const,
   details: () => [...runKeys.all, 'detail'] as const,
   detail: (id: string) => [...runKeys.details(), id] as const,
 }
 
+const ACTIVE_RUNS_POLL_INTERVAL_MS = 5000
+
+const isActiveRun = (run: TestRun) => run.status === 'PENDING' || run.status === 'RUNNING'
+
 // Hooks
+
+/**
+ * A page of runs, polled while it shows active runs. Lists do not stream: one event
+ * stream per run would use up the browser's connections to the API.
+ */
 export function useRuns(params: ListRunsParams = {}) {
   return useQuery({
     queryKey: runKeys.list(params),
     queryFn: ({ signal }) => runsApi.list(params, signal),
+    refetchInterval: (query) =>
+      query.state.data?.content.some(isActiveRun) ? ACTIVE_RUNS_POLL_INTERVAL_MS : false,
+  })
+}
+
+export function useRunHistory(params: RunHistoryParams = {}) {
+  return useQuery({
+    queryKey: runKeys.history(params),
+    queryFn: ({ signal }) => runsApi.listHistory(params, signal),
+  })
+}
+
+/**
+ * Flakiness per scenario ID over the most recent completed runs
+ */
+export function useScenarioFlakiness(
+  options: { packageId?: string | undefined; windowSize?: number; enabled?: boolean } = {}
+) {
+  const { packageId, windowSize = DEFAULT_FLAKINESS_WINDOW, enabled = true } = options
+  const params: ListRunsParams = { packageId, status: 'COMPLETED', size: windowSize }
+
+  const select = useCallback(
+    (page: PaginatedResponse<TestRun>) => analyzeFlakiness(page.content, { windowSize }),
+    [windowSize]
+  )
+
+  return useQuery({
+    queryKey: runKeys.list(params),
+    queryFn: ({ signal }) => runsApi.list(params, signal),
+    select,
+    enabled,
   })
 }
 
@@ -50,3 +97,16 @@ export function useRetryRun() {
     },
   })
 }
+
+export function useReplayRun() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data?: ReplayRunRequest }) =>
+      runsApi.replay(id, data),
+    onSuccess: (newRun) => {
+      void queryClient.invalidateQueries({ queryKey: runKeys.lists() })
+      queryClient.setQueryData(runKeys.detail(newRun.id), newRun)
+    },
+  })
+}
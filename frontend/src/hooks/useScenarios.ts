@@ -1,17 +1,29 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { scenariosApi, type ScenariosListParams } from '@/api/scenarios'
 import { packageKeys } from './usePackages'
-import type { TestStep } from '@/api/types'
+import type {
+  BulkTagScenariosRequest,
+  ImportScenariosRequest,
+  Scenario,
+  TestStep,
+} from '@/api/types'
+import { getCurrentWorkspaceId } from '@/lib/workspace'
 
 // Query key factory
 export const scenarioKeys = {
-  all: ['scenarios'] as const,
+  get all() {
+    return ['scenarios', getCurrentWorkspaceId()] as const
+  },
   lists: () => [...scenarioKeys.all, 'list'] as const,
   list: (params: ScenariosListParams) => [...scenarioKeys.lists(), params] as const,
   listByPackage: (packageId: string, page: number, size: number) =>
     [...scenarioKeys.lists(), { packageId, page, size }] as const,
+  allByPackage: (packageId: string) => [...scenarioKeys.lists(), { packageId, all: true }] as const,
   details: () => [...scenarioKeys.all, 'detail'] as const,
   detail: (id: string) => [...scenarioKeys.details(), id] as const,
+  versions: (id: string) => [...scenarioKeys.detail(id), 'versions'] as const,
+  version: (id: string, versionId: string) => [...scenarioKeys.versions(id), versionId] as const,
+  tags: (packageId?: string) => [...scenarioKeys.all, 'tags', packageId ?? 'all'] as const,
 }
 
 // Hooks
@@ -30,6 +42,18 @@ export function usePackageScenarios(packageId: string, page = 0, size = 20) {
   })
 }
 
+/**
+ * Every scenario of a package, for views that count, pick from or check all of them
+ */
+export function useAllPackageScenarios(packageId: string, options: { enabled?: boolean } = {}) {
+  const { enabled = true } = options
+  return useQuery({
+    queryKey: scenarioKeys.allByPackage(packageId),
+    queryFn: ({ signal }) => scenariosApi.listAllByPackage(packageId, signal),
+    enabled: enabled && Boolean(packageId),
+  })
+}
+
 export function useScenario(id: string) {
   return useQuery({
     queryKey: scenarioKeys.detail(id),
@@ -74,6 +98,80 @@ export function useUpdateScenarioSteps(scenarioId: string) {
   })
 }
 
+export function useScenarioTags(packageId?: string) {
+  return useQuery({
+    queryKey: scenarioKeys.tags(packageId),
+    queryFn: ({ signal }) => scenariosApi.listTags(packageId, signal),
+  })
+}
+
+export function useUpdateScenarioTags(scenarioId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (tags: string[]) => scenariosApi.updateTags(scenarioId, tags),
+    onSuccess: (scenario: Scenario) => {
+      queryClient.setQueryData(scenarioKeys.detail(scenarioId), scenario)
+      void queryClient.invalidateQueries({ queryKey: scenarioKeys.lists() })
+      void queryClient.invalidateQueries({ queryKey: [...scenarioKeys.all, 'tags'] })
+    },
+  })
+}
+
+export function useBulkTagScenarios() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: BulkTagScenariosRequest) => scenariosApi.bulkUpdateTags(data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: scenarioKeys.all })
+    },
+  })
+}
+
+export function useImportScenarios() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: ImportScenariosRequest) => scenariosApi.importScenarios(data),
+    onSuccess: (_, { packageId }) => {
+      void queryClient.invalidateQueries({ queryKey: scenarioKeys.all })
+      void queryClient.invalidateQueries({ queryKey: packageKeys.detail(packageId) })
+    },
+  })
+}
+
+export function useScenarioVersions(scenarioId: string) {
+  return useQuery({
+    queryKey: scenarioKeys.versions(scenarioId),
+    queryFn: ({ signal }) => scenariosApi.listVersions(scenarioId, signal),
+    enabled: Boolean(scenarioId),
+  })
+}
+
+export function useScenarioVersion(scenarioId: string, versionId: string | null) {
+  return useQuery({
+    queryKey: scenarioKeys.version(scenarioId, versionId ?? ''),
+    queryFn: ({ signal }) => scenariosApi.getVersion(scenarioId, versionId ?? '', signal),
+    enabled: Boolean(scenarioId && versionId),
+    // Versions are immutable once recorded
+    staleTime: Infinity,
+  })
+}
+
+export function useRestoreScenarioVersion(scenarioId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (versionId: string) => scenariosApi.restoreVersion(scenarioId, versionId),
+    onSuccess: () => {
+      // Also refreshes the version list, whose key is nested under the detail key
+      void queryClient.invalidateQueries({ queryKey: scenarioKeys.detail(scenarioId) })
+      void queryClient.invalidateQueries({ queryKey: scenarioKeys.lists() })
+    },
+  })
+}
+
 export function useValidateScenario() {
   return useMutation({
     mutationFn: (json: string) => scenariosApi.validate(json),
@@ -0,0 +1,134 @@
+import { describe, expect, it, vi, afterEach } from 'vitest'
+import { renderHook, waitFor } from '@testing-library/react'
+import type { ReactNode } from 'react'
+import {
+  scheduleKeys,
+  useCreateSchedule,
+  useDeleteSchedule,
+  useSchedules,
+  useUpdateSchedule,
+} from './useSchedules'
+import { QueryWrapper, createTestQueryClient } from '@/test/test-utils'
+import type { PackageSchedule } from '@/api/types'
+
+const schedule: PackageSchedule = {
+  id: 'schedule-1',
+  packageId: 'pkg-1',
+  name: 'Nightly',
+  cronExpression: '0 2 * * *',
+  timezone: 'Europe/Berlin',
+  enabled: true,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  lastRun: {
+    runId: 'run-1',
+    firedAt: '2024-01-02T01:00:00Z',
+    outcome: 'PASSED',
+    error: null,
+  },
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+function setup() {
+  const queryClient = createTestQueryClient()
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryWrapper queryClient={queryClient}>{children}</QueryWrapper>
+  )
+  return { queryClient, wrapper }
+}
+
+const requestOf = (fetchSpy: { mock: { calls: unknown[][] } }, index = 0) => {
+  const [url, init] = fetchSpy.mock.calls[index] as [string, RequestInit | undefined]
+  const body = typeof init?.body === 'string' ? init.body : ''
+  return { url, method: init?.method ?? 'GET', body }
+}
+
+describe('useSchedules', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('lists the schedules of a package', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse([schedule]))
+    const { wrapper } = setup()
+
+    const { result } = renderHook(() => useSchedules({ packageId: 'pkg-1' }), { wrapper })
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true)
+    })
+    expect(result.current.data).toEqual([schedule])
+    expect(requestOf(fetchSpy).url).toContain('/api/qa/schedules?packageId=pkg-1')
+  })
+
+  it('creates a schedule and refreshes the lists', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse(schedule, 201))
+    const { queryClient, wrapper } = setup()
+    const invalidate = vi.spyOn(queryClient, 'invalidateQueries')
+
+    const { result } = renderHook(() => useCreateSchedule(), { wrapper })
+    await result.current.mutateAsync({
+      packageId: 'pkg-1',
+      name: 'Nightly',
+      cronExpression: '0 2 * * *',
+      timezone: 'Europe/Berlin',
+    })
+
+    const request = requestOf(fetchSpy)
+    expect(request.method).toBe('POST')
+    expect(request.url).toMatch(/\/api\/qa\/schedules$/)
+    expect(JSON.parse(request.body)).toMatchObject({ cronExpression: '0 2 * * *' })
+    expect(invalidate).toHaveBeenCalledWith({ queryKey: scheduleKeys.lists() })
+  })
+
+  it('pauses a schedule through a partial update', async () => {
+    const paused = { ...schedule, enabled: false }
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse(paused))
+    const { queryClient, wrapper } = setup()
+
+    const { result } = renderHook(() => useUpdateSchedule(), { wrapper })
+    await result.current.mutateAsync({ id: 'schedule-1', data: { enabled: false } })
+
+    const request = requestOf(fetchSpy)
+    expect(request.method).toBe('PATCH')
+    expect(request.url).toContain('/api/qa/schedules/schedule-1')
+    expect(JSON.parse(request.body)).toEqual({ enabled: false })
+    expect(queryClient.getQueryData(scheduleKeys.detail('schedule-1'))).toEqual(paused)
+  })
+
+  it('deletes a schedule and drops its cached detail', async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(new Response(null, { status: 204 }))
+    const { queryClient, wrapper } = setup()
+    queryClient.setQueryData(scheduleKeys.detail('schedule-1'), schedule)
+
+    const { result } = renderHook(() => useDeleteSchedule(), { wrapper })
+    await result.current.mutateAsync('schedule-1')
+
+    expect(requestOf(fetchSpy).method).toBe('DELETE')
+    expect(queryClient.getQueryData(scheduleKeys.detail('schedule-1'))).toBeUndefined()
+  })
+
+  it('surfaces API errors', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      jsonResponse({ message: 'Invalid cron expression', code: 'BAD_REQUEST' }, 400)
+    )
+    const { wrapper } = setup()
+
+    const { result } = renderHook(() => useCreateSchedule(), { wrapper })
+    await expect(
+      result.current.mutateAsync({
+        packageId: 'pkg-1',
+        name: 'Broken',
+        cronExpression: 'nope',
+        timezone: 'UTC',
+      })
+    ).rejects.toThrow('Invalid cron expression')
+  })
+})
@@ -0,0 +1,67 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { schedulesApi, type ListSchedulesParams } from '@/api'
+import type { CreateScheduleRequest, UpdateScheduleRequest } from '@/api/types'
+import { getCurrentWorkspaceId } from '@/lib/workspace'
+
+// Query key factory
+export const scheduleKeys = {
+  get all() {
+    return ['schedules', getCurrentWorkspaceId()] as const
+  },
+  lists: () => [...scheduleKeys.all, 'list'] as const,
+  list: (params: ListSchedulesParams = {}) => [...scheduleKeys.lists(), params] as const,
+  details: () => [...scheduleKeys.all, 'detail'] as const,
+  detail: (id: string) => [...scheduleKeys.details(), id] as const,
+}
+
+// Hooks
+export function useSchedules(params: ListSchedulesParams = {}) {
+  return useQuery({
+    queryKey: scheduleKeys.list(params),
+    queryFn: ({ signal }) => schedulesApi.list(params, signal),
+  })
+}
+
+export function useSchedule(id: string) {
+  return useQuery({
+    queryKey: scheduleKeys.detail(id),
+    queryFn: ({ signal }) => schedulesApi.get(id, signal),
+    enabled: Boolean(id),
+  })
+}
+
+export function useCreateSchedule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateScheduleRequest) => schedulesApi.create(data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: scheduleKeys.lists() })
+    },
+  })
+}
+
+export function useUpdateSchedule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateScheduleRequest }) =>
+      schedulesApi.update(id, data),
+    onSuccess: (schedule) => {
+      queryClient.setQueryData(scheduleKeys.detail(schedule.id), schedule)
+      void queryClient.invalidateQueries({ queryKey: scheduleKeys.lists() })
+    },
+  })
+}
+
+export function useDeleteSchedule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => schedulesApi.delete(id),
+    onSuccess: (_data, id) => {
+      queryClient.removeQueries({ queryKey: scheduleKeys.detail(id) })
+      void queryClient.invalidateQueries({ queryKey: scheduleKeys.lists() })
+    },
+  })
+}
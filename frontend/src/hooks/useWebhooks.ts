@@ -0,0 +1,95 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { webhooksApi, type ListWebhooksParams } from '@/api'
+import type { CreateWebhookRequest, UpdateWebhookRequest, WebhookDelivery } from '@/api/types'
+import { getCurrentWorkspaceId } from '@/lib/workspace'
+
+// Pending and retrying deliveries settle on the server; poll until they do
+const DELIVERY_POLL_INTERVAL_MS = 5000
+
+// Query key factory
+export const webhookKeys = {
+  get all() {
+    return ['webhooks', getCurrentWorkspaceId()] as const
+  },
+  lists: () => [...webhookKeys.all, 'list'] as const,
+  list: (params: ListWebhooksParams = {}) => [...webhookKeys.lists(), params] as const,
+  deliveries: (id: string) => [...webhookKeys.all, 'deliveries', id] as const,
+}
+
+const isSettled = (delivery: WebhookDelivery) =>
+  delivery.status === 'SUCCESS' || delivery.status === 'FAILED'
+
+// Hooks
+export function useWebhooks(params: ListWebhooksParams = {}) {
+  return useQuery({
+    queryKey: webhookKeys.list(params),
+    queryFn: ({ signal }) => webhooksApi.list(params, signal),
+  })
+}
+
+export function useWebhookDeliveries(id: string) {
+  return useQuery({
+    queryKey: webhookKeys.deliveries(id),
+    queryFn: ({ signal }) => webhooksApi.listDeliveries(id, signal),
+    enabled: Boolean(id),
+    refetchInterval: (query) =>
+      query.state.data?.every(isSettled) === false ? DELIVERY_POLL_INTERVAL_MS : false,
+  })
+}
+
+export function useCreateWebhook() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateWebhookRequest) => webhooksApi.create(data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: webhookKeys.lists() })
+    },
+  })
+}
+
+export function useUpdateWebhook() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateWebhookRequest }) =>
+      webhooksApi.update(id, data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: webhookKeys.lists() })
+    },
+  })
+}
+
+export function useDeleteWebhook() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => webhooksApi.delete(id),
+    onSuccess: (_data, id) => {
+      queryClient.removeQueries({ queryKey: webhookKeys.deliveries(id) })
+      void queryClient.invalidateQueries({ queryKey: webhookKeys.lists() })
+    },
+  })
+}
+
+export function useSendTestWebhook(id: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: () => webhooksApi.sendTest(id),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: webhookKeys.deliveries(id) })
+    },
+  })
+}
+
+export function useRetryWebhookDelivery(id: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (deliveryId: string) => webhooksApi.retryDelivery(id, deliveryId),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: webhookKeys.deliveries(id) })
+    },
+  })
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeFlakiness } from './flakiness'
+import { mockTestRun } from '@/test/mocks'
+import type { ScenarioStatus, TestRun } from '@/api/types'
+
+type Outcome = [ScenarioStatus, number | null]
+
+/** One run per entry, a day apart, each executing scenario-1 */
+function history(outcomes: Outcome[]): TestRun[] {
+  return outcomes.map(([status, version], index) => {
+    const timestamp = new Date(2026, 0, index + 1, 12).toISOString()
+    return {
+      ...mockTestRun,
+      id: `run-${String(index)}`,
+      startedAt: timestamp,
+      completedAt: timestamp,
+      scenarioResults: [
+        {
+          scenarioId: 'scenario-1',
+          scenarioName: 'Login',
+          status,
+          scenarioVersion: version,
+          stepResults: [],
+          duration: 100,
+          error: null,
+        },
+      ],
+    }
+  })
+}
+
+describe('analyzeFlakiness', () => {
+  it('flags scenarios that flip between passed and failed', () => {
+    const result = analyzeFlakiness(
+      history([
+        ['PASSED', 1],
+        ['FAILED', 1],
+        ['PASSED', 1],
+        ['PASSED', 1],
+        ['FAILED', 1],
+      ])
+    ).get('scenario-1')
+
+    expect(result).toMatchObject({
+      scenarioName: 'Login',
+      outcomes: ['PASSED', 'FAILED', 'PASSED', 'PASSED', 'FAILED'],
+      passes: 3,
+      failures: 2,
+      comparisons: 4,
+      flips: 3,
+      score: 0.75,
+      isFlaky: true,
+    })
+  })
+
+  it('does not count flips across scenario versions', () => {
+    const result = analyzeFlakiness(
+      history([
+        ['PASSED', 1],
+        ['PASSED', 1],
+        ['FAILED', 2],
+        ['FAILED', 2],
+        ['PASSED', 3],
+        ['PASSED', 3],
+      ])
+    ).get('scenario-1')
+
+    expect(result).toMatchObject({ comparisons: 3, flips: 0, isFlaky: false })
+  })
+
+  it('treats results without a version as the same content', () => {
+    const result = analyzeFlakiness(
+      history([
+        ['PASSED', null],
+        ['FAILED', null],
+        ['PASSED', null],
+        ['FAILED', null],
+      ])
+    ).get('scenario-1')
+
+    expect(result?.isFlaky).toBe(true)
+  })
+
+  it('ignores skipped results', () => {
+    const result = analyzeFlakiness(
+      history([
+        ['PASSED', 1],
+        ['SKIPPED', 1],
+        ['PASSED', 1],
+      ])
+    ).get('scenario-1')
+
+    expect(result?.outcomes).toEqual(['PASSED', 'PASSED'])
+  })
+
+  it('requires enough comparisons before flagging', () => {
+    const runs = history([
+      ['PASSED', 1],
+      ['FAILED', 1],
+    ])
+
+    expect(analyzeFlakiness(runs).get('scenario-1')?.isFlaky).toBe(false)
+    expect(analyzeFlakiness(runs, { minComparisons: 1 }).get('scenario-1')?.isFlaky).toBe(true)
+  })
+
+  it('only looks at the most recent runs', () => {
+    const runs = history([
+      ['PASSED', 1],
+      ['FAILED', 1],
+      ['PASSED', 1],
+      ['FAILED', 1],
+      ['FAILED', 1],
+      ['FAILED', 1],
+      ['FAILED', 1],
+    ])
+
+    const result = analyzeFlakiness(runs, { windowSize: 4 }).get('scenario-1')
+
+    expect(result?.outcomes).toEqual(['FAILED', 'FAILED', 'FAILED', 'FAILED'])
+    expect(result?.isFlaky).toBe(false)
+  })
+})
@@ -0,0 +1,99 @@
+import { filterRuns } from './runTrends'
+import type { TestRun } from '@/api/types'
+
+export interface FlakinessOptions {
+  /** Number of most recent completed runs to consider */
+  windowSize?: number
+  /** Comparable consecutive results needed before a scenario can be called flaky */
+  minComparisons?: number
+  /** Share of comparisons that must flip status, 0-1 */
+  threshold?: number
+}
+
+export type FlakyOutcome = 'PASSED' | 'FAILED'
+
+export interface ScenarioFlakiness {
+  scenarioId: string
+  scenarioName: string
+  /** Outcomes inside the window, oldest first */
+  outcomes: FlakyOutcome[]
+  passes: number
+  failures: number
+  /** Consecutive results that ran the same scenario version */
+  comparisons: number
+  /** Comparisons whose status changed between PASSED and FAILED */
+  flips: number
+  /** flips / comparisons, 0-1 */
+  score: number
+  isFlaky: boolean
+}
+
+export const DEFAULT_FLAKINESS_WINDOW = 20
+const DEFAULT_MIN_COMPARISONS = 3
+const DEFAULT_THRESHOLD = 0.3
+
+interface Execution {
+  outcome: FlakyOutcome
+  version: number | null
+}
+
+/**
+ * Score each scenario by how often its outcome flips between consecutive runs of the
+ * same content. A flip after the scenario was edited is treated as a real change, not
+ * flakiness, so those pairs are not compared. Results without a recorded version are
+ * compared with each other, as nothing indicates the content changed.
+ */
+export function analyzeFlakiness(
+  runs: TestRun[],
+  options: FlakinessOptions = {}
+): Map<string, ScenarioFlakiness> {
+  const {
+    windowSize = DEFAULT_FLAKINESS_WINDOW,
+    minComparisons = DEFAULT_MIN_COMPARISONS,
+    threshold = DEFAULT_THRESHOLD,
+  } = options
+
+  const recentRuns = filterRuns(runs).slice(-windowSize)
+  const executions = new Map<string, { name: string; history: Execution[] }>()
+
+  for (const run of recentRuns) {
+    for (const result of run.scenarioResults) {
+      // Skipped or unfinished results say nothing about determinism
+      if (result.status !== 'PASSED' && result.status !== 'FAILED') continue
+
+      const entry = executions.get(result.scenarioId) ?? { name: result.scenarioName, history: [] }
+      entry.name = result.scenarioName
+      entry.history.push({ outcome: result.status, version: result.scenarioVersion })
+      executions.set(result.scenarioId, entry)
+    }
+  }
+
+  const results = new Map<string, ScenarioFlakiness>()
+  for (const [scenarioId, { name, history }] of executions) {
+    let comparisons = 0
+    let flips = 0
+    for (let i = 1; i < history.length; i++) {
+      const previous = history[i - 1]
+      const current = history[i]
+      if (!previous || !current || previous.version !== current.version) continue
+      comparisons++
+      if (previous.outcome !== current.outcome) flips++
+    }
+
+    const score = comparisons === 0 ? 0 : flips / comparisons
+    const outcomes = history.map((execution) => execution.outcome)
+    results.set(scenarioId, {
+      scenarioId,
+      scenarioName: name,
+      outcomes,
+      passes: outcomes.filter((outcome) => outcome === 'PASSED').length,
+      failures: outcomes.filter((outcome) => outcome === 'FAILED').length,
+      comparisons,
+      flips,
+      score,
+      isFlaky: comparisons >= minComparisons && score >= threshold,
+    })
+  }
+
+  return results
+}
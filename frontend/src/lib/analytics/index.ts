@@ -0,0 +1,11 @@
+export {
+  buildRunTrends,
+  filterRuns,
+  getRunTimestamp,
+  getTopFailingScenarios,
+  percentile,
+  summarizeRuns,
+} from './runTrends'
+export type { FailingScenario, RunFilter, RunTotals, TrendBucket, TrendPoint } from './runTrends'
+export { analyzeFlakiness, DEFAULT_FLAKINESS_WINDOW } from './flakiness'
+export type { FlakinessOptions, FlakyOutcome, ScenarioFlakiness } from './flakiness'
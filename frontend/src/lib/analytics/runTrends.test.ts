@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildRunTrends,
+  filterRuns,
+  getTopFailingScenarios,
+  percentile,
+  summarizeRuns,
+} from './runTrends'
+import { mockTestRun } from '@/test/mocks'
+import type { ScenarioStatus, TestRun } from '@/api/types'
+
+// Local noon avoids runs shifting across day boundaries in any timezone
+const at = (month: number, day: number) => new Date(2026, month - 1, day, 12).toISOString()
+
+function run(
+  id: string,
+  completedAt: string | null,
+  options: {
+    passed?: number
+    failed?: number
+    duration?: number
+    packageId?: string
+    status?: TestRun['status']
+    startedAt?: string
+    results?: [string, ScenarioStatus][]
+  } = {}
+): TestRun {
+  const { passed = 1, failed = 0, duration = 1000 } = options
+  return {
+    ...mockTestRun,
+    id,
+    packageId: options.packageId ?? 'pkg-1',
+    status: options.status ?? 'COMPLETED',
+    startedAt: options.startedAt ?? completedAt,
+    completedAt,
+    scenarioResults: (options.results ?? []).map(([scenarioId, status]) => ({
+      scenarioId,
+      scenarioName: `Scenario ${scenarioId}`,
+      status,
+      scenarioVersion: 1,
+      stepResults: [],
+      duration: 100,
+      error: null,
+    })),
+    summary: {
+      totalScenarios: passed + failed,
+      passedScenarios: passed,
+      failedScenarios: failed,
+      skippedScenarios: 0,
+      duration,
+    },
+  }
+}
+
+describe('percentile', () => {
+  it('uses the nearest rank', () => {
+    const values = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100]
+    expect(percentile(values, 50)).toBe(50)
+    expect(percentile(values, 95)).toBe(100)
+    expect(percentile([5], 95)).toBe(5)
+  })
+
+  it('returns null without values', () => {
+    expect(percentile([], 50)).toBeNull()
+  })
+})
+
+describe('filterRuns', () => {
+  const runs = [
+    run('late', at(1, 20)),
+    run('early', at(1, 10)),
+    run('other-package', at(1, 12), { packageId: 'pkg-2' }),
+    run('running', at(1, 12), { status: 'RUNNING' }),
+    run('never-started', null),
+  ]
+
+  it('keeps completed runs in the window, oldest first', () => {
+    const result = filterRuns(runs, {
+      from: new Date(2026, 0, 1),
+      to: new Date(2026, 1, 1),
+      packageId: 'pkg-1',
+    })
+    expect(result.map((r) => r.id)).toEqual(['early', 'late'])
+  })
+
+  it('treats the upper bound as exclusive', () => {
+    const result = filterRuns(runs, { to: new Date(at(1, 20)) })
+    expect(result.map((r) => r.id)).toEqual(['early', 'other-package'])
+  })
+
+  it('places runs by their start, as the run list filters them', () => {
+    const result = filterRuns(
+      [
+        run('started-before', at(1, 10), { startedAt: at(1, 9) }),
+        run('finished-after', at(1, 12), { startedAt: at(1, 10) }),
+      ],
+      { from: new Date(2026, 0, 10), to: new Date(2026, 0, 11) }
+    )
+    expect(result.map((r) => r.id)).toEqual(['finished-after'])
+  })
+})
+
+describe('summarizeRuns', () => {
+  it('computes pass rate from scenario counts and duration percentiles', () => {
+    const totals = summarizeRuns([
+      run('a', at(1, 1), { passed: 3, failed: 1, duration: 1000 }),
+      run('b', at(1, 2), { passed: 4, failed: 0, duration: 3000 }),
+    ])
+
+    expect(totals).toEqual({
+      runCount: 2,
+      passRate: 87.5,
+      medianDuration: 1000,
+      p95Duration: 3000,
+      scenarioCount: 4,
+    })
+  })
+
+  it('returns nulls for no runs', () => {
+    expect(summarizeRuns([]).passRate).toBeNull()
+  })
+})
+
+describe('buildRunTrends', () => {
+  it('groups runs per day and fills empty days in the window', () => {
+    const trends = buildRunTrends(
+      [
+        run('a', at(1, 10), { passed: 1, failed: 1 }),
+        run('b', at(1, 10), { passed: 2, failed: 0 }),
+        run('c', at(1, 12)),
+      ],
+      { from: new Date(2026, 0, 10), to: new Date(2026, 0, 13) }
+    )
+
+    expect(trends.map((p) => [p.date, p.runCount, p.passRate])).toEqual([
+      ['2026-01-10', 2, 75],
+      ['2026-01-11', 0, null],
+      ['2026-01-12', 1, 100],
+    ])
+  })
+
+  it('groups runs into weeks starting on Monday', () => {
+    // 2026-01-12 is a Monday
+    const trends = buildRunTrends([run('a', at(1, 12)), run('b', at(1, 18)), run('c', at(1, 19))], {
+      bucket: 'week',
+    })
+
+    expect(trends.map((p) => [p.date, p.runCount])).toEqual([
+      ['2026-01-12', 2],
+      ['2026-01-19', 1],
+    ])
+  })
+})
+
+describe('getTopFailingScenarios', () => {
+  it('ranks scenarios by failures and ignores skipped results', () => {
+    const result = getTopFailingScenarios([
+      run('a', at(1, 1), {
+        results: [
+          ['s1', 'FAILED'],
+          ['s2', 'FAILED'],
+          ['s3', 'PASSED'],
+        ],
+      }),
+      run('b', at(1, 2), {
+        results: [
+          ['s1', 'FAILED'],
+          ['s2', 'PASSED'],
+          ['s3', 'SKIPPED'],
+        ],
+      }),
+    ])
+
+    expect(result.map((s) => [s.scenarioId, s.failures, s.executions, s.failureRate])).toEqual([
+      ['s1', 2, 2, 100],
+      ['s2', 1, 2, 50],
+    ])
+    expect(result[0]?.lastFailedAt).toBe(at(1, 2))
+  })
+
+  it('limits the number of results', () => {
+    const runs = [
+      run('a', at(1, 1), {
+        results: [
+          ['s1', 'FAILED'],
+          ['s2', 'FAILED'],
+        ],
+      }),
+    ]
+    expect(getTopFailingScenarios(runs, 1)).toHaveLength(1)
+  })
+})
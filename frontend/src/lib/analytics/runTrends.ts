@@ -0,0 +1,176 @@
+import type { TestRun } from '@/api/types'
+
+export type TrendBucket = 'day' | 'week'
+
+export interface RunFilter {
+  /** Inclusive lower bound */
+  from?: Date | undefined
+  /** Exclusive upper bound */
+  to?: Date | undefined
+  packageId?: string | undefined
+}
+
+export interface RunTotals {
+  runCount: number
+  /** Passed share of passed + failed scenarios, 0-100; null when nothing ran */
+  passRate: number | null
+  medianDuration: number | null
+  p95Duration: number | null
+  /** Average scenarios per run */
+  scenarioCount: number | null
+}
+
+export interface TrendPoint extends RunTotals {
+  /** Bucket start as a local YYYY-MM-DD date */
+  date: string
+}
+
+export interface FailingScenario {
+  scenarioId: string
+  scenarioName: string
+  failures: number
+  executions: number
+  failureRate: number
+  lastFailedAt: string | null
+}
+
+/** When a run counts on the timeline: its start, which the run list's date filter also uses */
+export function getRunTimestamp(run: TestRun): Date | null {
+  const value = run.startedAt
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/** Completed runs inside the filter window, oldest first */
+export function filterRuns(runs: TestRun[], filter: RunFilter = {}): TestRun[] {
+  return runs
+    .filter((run) => {
+      if (run.status !== 'COMPLETED') return false
+      if (filter.packageId && run.packageId !== filter.packageId) return false
+      const timestamp = getRunTimestamp(run)
+      if (!timestamp) return false
+      if (filter.from && timestamp < filter.from) return false
+      if (filter.to && timestamp >= filter.to) return false
+      return true
+    })
+    .sort((a, b) => (getRunTimestamp(a)?.getTime() ?? 0) - (getRunTimestamp(b)?.getTime() ?? 0))
+}
+
+/** Nearest-rank percentile; `p` is 0-100 */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1] ?? null
+}
+
+export function summarizeRuns(runs: TestRun[]): RunTotals {
+  if (runs.length === 0) {
+    return {
+      runCount: 0,
+      passRate: null,
+      medianDuration: null,
+      p95Duration: null,
+      scenarioCount: null,
+    }
+  }
+
+  const passed = runs.reduce((sum, run) => sum + run.summary.passedScenarios, 0)
+  const failed = runs.reduce((sum, run) => sum + run.summary.failedScenarios, 0)
+  const scenarios = runs.reduce((sum, run) => sum + run.summary.totalScenarios, 0)
+  const durations = runs.map((run) => run.summary.duration)
+
+  return {
+    runCount: runs.length,
+    passRate: passed + failed === 0 ? null : (passed / (passed + failed)) * 100,
+    medianDuration: percentile(durations, 50),
+    p95Duration: percentile(durations, 95),
+    scenarioCount: scenarios / runs.length,
+  }
+}
+
+/**
+ * Group completed runs into day or week buckets. Buckets with no runs are included
+ * between `from` and `to` so charts show gaps rather than joining distant points.
+ */
+export function buildRunTrends(
+  runs: TestRun[],
+  options: { bucket?: TrendBucket; from?: Date; to?: Date } = {}
+): TrendPoint[] {
+  const bucket = options.bucket ?? 'day'
+  const groups = new Map<string, TestRun[]>()
+
+  for (const run of runs) {
+    const timestamp = getRunTimestamp(run)
+    if (!timestamp) continue
+    const key = toDateKey(startOfBucket(timestamp, bucket))
+    const group = groups.get(key)
+    if (group) group.push(run)
+    else groups.set(key, [run])
+  }
+
+  const keys = new Set(groups.keys())
+  if (options.from && options.to) {
+    const stepDays = bucket === 'week' ? 7 : 1
+    const cursor = startOfBucket(options.from, bucket)
+    while (cursor < options.to) {
+      keys.add(toDateKey(cursor))
+      // setDate keeps local midnight across daylight saving changes
+      cursor.setDate(cursor.getDate() + stepDays)
+    }
+  }
+
+  return [...keys].sort().map((date) => ({ date, ...summarizeRuns(groups.get(date) ?? []) }))
+}
+
+/** Scenarios with the most failed executions, worst first */
+export function getTopFailingScenarios(runs: TestRun[], limit = 10): FailingScenario[] {
+  const byScenario = new Map<string, FailingScenario>()
+
+  for (const run of runs) {
+    for (const result of run.scenarioResults) {
+      if (result.status !== 'PASSED' && result.status !== 'FAILED') continue
+
+      const entry = byScenario.get(result.scenarioId) ?? {
+        scenarioId: result.scenarioId,
+        scenarioName: result.scenarioName,
+        failures: 0,
+        executions: 0,
+        failureRate: 0,
+        lastFailedAt: null,
+      }
+      entry.executions++
+      if (result.status === 'FAILED') {
+        entry.failures++
+        const timestamp = run.completedAt ?? run.startedAt
+        if (timestamp && (!entry.lastFailedAt || timestamp > entry.lastFailedAt)) {
+          entry.lastFailedAt = timestamp
+        }
+      }
+      entry.failureRate = (entry.failures / entry.executions) * 100
+      byScenario.set(result.scenarioId, entry)
+    }
+  }
+
+  return [...byScenario.values()]
+    .filter((entry) => entry.failures > 0)
+    .sort((a, b) => b.failures - a.failures || b.failureRate - a.failureRate)
+    .slice(0, limit)
+}
+
+function startOfBucket(date: Date, bucket: TrendBucket): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  if (bucket === 'week') {
+    // Weeks start on Monday
+    const offset = (start.getDay() + 6) % 7
+    start.setDate(start.getDate() - offset)
+  }
+  return start
+}
+
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${String(date.getFullYear())}-${month}-${day}`
+}
@@ -1,7 +1,9 @@
-import { createContext, useContext, useState, useEffect, useCallback, useMemo, type ReactNode } from 'react'
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, type ReactNode } from 'react'
 import Keycloak from 'keycloak-js'
 import type { AuthContextType, User } from './types'
-import { setAuthToken } from '@/api/client'
+import { setAuthToken, setTokenRefresher } from '@/api/client'
+import { extractWorkspaces, getDevWorkspaces } from './workspaces'
+import { createAuthSync, type AuthSync } from './tokenSync'
 
 const AuthContext = createContext<AuthContextType | null>(null)
 
@@ -23,6 +25,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const [isLoading, setIsLoading] = useState(true)
   const [user, setUser] = useState<User | null>(null)
   const [token, setToken] = useState<string | null>(null)
+  const authSyncRef = useRef<AuthSync | null>(null)
 
   // Extract user info from Keycloak token
   const extractUser = useCallback((kc: Keycloak): User | null => {
@@ -34,6 +37,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
       name?: string
       preferred_username?: string
       realm_access?: { roles?: string[] }
+      workspaces?: unknown
+      groups?: unknown
     }
 
     return {
@@ -42,6 +47,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       name: tokenParsed.name ?? '',
       username: tokenParsed.preferred_username ?? '',
       roles: tokenParsed.realm_access?.roles ?? [],
+      workspaces: extractWorkspaces(tokenParsed),
     }
   }, [])
 
@@ -57,7 +63,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
         email: 'dev@qawave.io',
         name: 'Development User',
         username: 'dev',
-        roles: ['user'],
+        roles: ['admin'],
+        workspaces: getDevWorkspaces(),
       })
       return
     }
@@ -70,6 +77,36 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
     setKeycloak(kc)
 
+    const applyToken = (newToken: string) => {
+      setToken(newToken)
+      setAuthToken(newToken)
+    }
+
+    // A token refreshed in another tab serves this one too; signing out there signs out here
+    const authSync = createAuthSync((message) => {
+      if (message.type === 'token') {
+        applyToken(message.token)
+      } else {
+        kc.clearToken()
+      }
+    })
+    authSyncRef.current = authSync
+
+    // The API rejected the token (expired or revoked), so refresh regardless of its expiry
+    setTokenRefresher(async () => {
+      try {
+        await kc.updateToken(-1)
+      } catch {
+        console.error('Token refresh failed, signing in again')
+        void kc.login()
+        return false
+      }
+      if (!kc.token) return false
+      applyToken(kc.token)
+      authSync.publish({ type: 'token', token: kc.token })
+      return true
+    })
+
     // Initialize Keycloak with PKCE
     kc.init({
       onLoad: 'login-required',
@@ -98,8 +135,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
       kc.updateToken(TOKEN_MIN_VALIDITY_SECONDS)
         .then((refreshed) => {
           if (refreshed && kc.token) {
-            setToken(kc.token)
-            setAuthToken(kc.token)
+            applyToken(kc.token)
+            authSync.publish({ type: 'token', token: kc.token })
           }
         })
         .catch(() => {
@@ -127,7 +164,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
     // Cleanup
     return () => {
-      // Keycloak doesn't need explicit cleanup
+      setTokenRefresher(null)
+      authSync.close()
+      authSyncRef.current = null
     }
   }, [extractUser])
 
@@ -141,6 +180,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   // Logout handler
   const logout = useCallback(() => {
     if (keycloak) {
+      authSyncRef.current?.publish({ type: 'logout' })
       void keycloak.logout({
         redirectUri: window.location.origin,
       })
@@ -156,6 +196,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       if (refreshed && keycloak.token) {
         setToken(keycloak.token)
         setAuthToken(keycloak.token)
+        authSyncRef.current?.publish({ type: 'token', token: keycloak.token })
       }
       return true
     } catch {
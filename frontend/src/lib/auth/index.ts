@@ -1,3 +1,7 @@
 export { AuthProvider, useAuthContext } from './AuthProvider'
 export { useAuth } from './useAuth'
-export type { AuthContextType, User } from './types'
+export { usePermission } from './usePermission'
+export { getPermissions, hasPermission, ROLE_PERMISSIONS } from './permissions'
+export type { Permission, Role } from './permissions'
+export { extractWorkspaces, getDevWorkspaces } from './workspaces'
+export type { AuthContextType, User, Workspace } from './types'
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { getPermissions, hasPermission, type Permission } from './permissions'
+
+const ALL_PERMISSIONS: Permission[] = [
+  'package:create',
+  'package:edit',
+  'package:delete',
+  'scenario:generate',
+  'scenario:edit',
+  'scenario:run',
+  'run:start',
+  'run:cancel',
+  'run:export',
+  'environment:manage',
+  'schedule:manage',
+  'notification:manage',
+  'service-token:manage',
+]
+
+describe('getPermissions', () => {
+  it('grants admins every permission', () => {
+    expect([...getPermissions(['admin'])].sort()).toEqual([...ALL_PERMISSIONS].sort())
+  })
+
+  it('lets QA engineers author and run tests but not delete packages or manage environments', () => {
+    const permissions = getPermissions(['tester'])
+
+    expect(permissions.has('scenario:edit')).toBe(true)
+    expect(permissions.has('run:start')).toBe(true)
+    expect(permissions.has('schedule:manage')).toBe(true)
+    expect(permissions.has('package:delete')).toBe(false)
+    expect(permissions.has('environment:manage')).toBe(false)
+  })
+
+  it('limits viewers to exporting results', () => {
+    expect([...getPermissions(['viewer'])]).toEqual(['run:export'])
+  })
+
+  it('combines roles and ignores unknown ones', () => {
+    expect(getPermissions(['offline_access', 'uma_authorization']).size).toBe(0)
+    expect(getPermissions(['viewer', 'tester'])).toEqual(getPermissions(['tester']))
+  })
+
+  it('does not treat inherited object keys as roles', () => {
+    expect(getPermissions(['toString', 'constructor', '__proto__']).size).toBe(0)
+  })
+})
+
+describe('hasPermission', () => {
+  it('checks a single permission', () => {
+    expect(hasPermission(['admin'], 'package:delete')).toBe(true)
+    expect(hasPermission(['tester'], 'package:delete')).toBe(false)
+    expect(hasPermission([], 'run:export')).toBe(false)
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * UI permission model for the Admin, QA Engineer (tester) and Viewer personas. Roles are
+ * the Keycloak realm roles; the backend enforces the same rules, so this only decides
+ * which actions the UI offers.
+ */
+
+export type Role = 'admin' | 'tester' | 'viewer'
+
+export type Permission =
+  | 'package:create'
+  | 'package:edit'
+  | 'package:delete'
+  | 'scenario:generate'
+  | 'scenario:edit'
+  | 'scenario:run'
+  | 'run:start'
+  | 'run:cancel'
+  | 'run:export'
+  | 'environment:manage'
+  | 'schedule:manage'
+  | 'notification:manage'
+  | 'service-token:manage'
+
+const VIEWER_PERMISSIONS: readonly Permission[] = ['run:export']
+
+const TESTER_PERMISSIONS: readonly Permission[] = [
+  ...VIEWER_PERMISSIONS,
+  'package:create',
+  'package:edit',
+  'scenario:generate',
+  'scenario:edit',
+  'scenario:run',
+  'run:start',
+  'run:cancel',
+  'schedule:manage',
+  'notification:manage',
+]
+
+// Deleting packages, configuring connections to systems under test and issuing
+// workspace-wide credentials stay with admins
+const ADMIN_PERMISSIONS: readonly Permission[] = [
+  ...TESTER_PERMISSIONS,
+  'package:delete',
+  'environment:manage',
+  'service-token:manage',
+]
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: ADMIN_PERMISSIONS,
+  tester: TESTER_PERMISSIONS,
+  viewer: VIEWER_PERMISSIONS,
+}
+
+function isRole(role: string): role is Role {
+  return Object.hasOwn(ROLE_PERMISSIONS, role)
+}
+
+/** Union of the permissions granted by the known roles; other roles grant nothing */
+export function getPermissions(roles: readonly string[]): Set<Permission> {
+  return new Set(roles.filter(isRole).flatMap((role) => ROLE_PERMISSIONS[role]))
+}
+
+export function hasPermission(roles: readonly string[], permission: Permission): boolean {
+  return getPermissions(roles).has(permission)
+}
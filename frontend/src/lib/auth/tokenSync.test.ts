@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createAuthSync, type AuthSync } from './tokenSync'
+
+describe('createAuthSync', () => {
+  const syncs: AuthSync[] = []
+
+  afterEach(() => {
+    syncs.forEach((sync) => {
+      sync.close()
+    })
+    syncs.length = 0
+  })
+
+  it('delivers refreshed tokens and sign-outs to the other tabs', async () => {
+    const otherTab = vi.fn()
+    const thisTab = vi.fn()
+    syncs.push(createAuthSync(otherTab), createAuthSync(thisTab))
+    const [, sender] = syncs
+
+    sender?.publish({ type: 'token', token: 'fresh' })
+    sender?.publish({ type: 'logout' })
+
+    await vi.waitFor(() => {
+      expect(otherTab).toHaveBeenCalledTimes(2)
+    })
+    expect(otherTab).toHaveBeenNthCalledWith(1, { type: 'token', token: 'fresh' })
+    expect(otherTab).toHaveBeenNthCalledWith(2, { type: 'logout' })
+    expect(thisTab).not.toHaveBeenCalled()
+  })
+})
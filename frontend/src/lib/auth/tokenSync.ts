@@ -0,0 +1,41 @@
+const CHANNEL_NAME = 'qawave.auth'
+
+/** Messages exchanged between the app's tabs so one refresh or sign-out applies to all */
+export type AuthSyncMessage = { type: 'token'; token: string } | { type: 'logout' }
+
+export interface AuthSync {
+  publish: (message: AuthSyncMessage) => void
+  close: () => void
+}
+
+function isAuthSyncMessage(value: unknown): value is AuthSyncMessage {
+  if (typeof value !== 'object' || value === null) return false
+  const message = value as Record<string, unknown>
+  return (
+    (message.type === 'token' && typeof message.token === 'string') || message.type === 'logout'
+  )
+}
+
+/**
+ * Connects to the other open tabs; a no-op where BroadcastChannel is unavailable. A tab does
+ * not receive its own messages.
+ */
+export function createAuthSync(onMessage: (message: AuthSyncMessage) => void): AuthSync {
+  if (typeof BroadcastChannel === 'undefined') {
+    return { publish: () => undefined, close: () => undefined }
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME)
+  channel.onmessage = (event: MessageEvent) => {
+    if (isAuthSyncMessage(event.data)) onMessage(event.data)
+  }
+
+  return {
+    publish: (message) => {
+      channel.postMessage(message)
+    },
+    close: () => {
+      channel.close()
+    },
+  }
+}
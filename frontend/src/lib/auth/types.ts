@@ -6,6 +6,13 @@ export interface User {
   name: string
   username: string
   roles: string[]
+  /** Workspaces the user belongs to, from the token */
+  workspaces: Workspace[]
+}
+
+export interface Workspace {
+  id: string
+  name: string
 }
 
 export interface AuthContextType {
@@ -0,0 +1,14 @@
+import { useMemo } from 'react'
+import { useAuth } from './useAuth'
+import { getPermissions, type Permission } from './permissions'
+
+/**
+ * Whether the signed-in user holds the permission; with a list, every one of them
+ */
+export function usePermission(permission: Permission | readonly Permission[]): boolean {
+  const { user } = useAuth()
+  const granted = useMemo(() => getPermissions(user?.roles ?? []), [user])
+
+  const required = typeof permission === 'string' ? [permission] : permission
+  return required.every((p) => granted.has(p))
+}
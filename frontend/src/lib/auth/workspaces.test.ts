@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { extractWorkspaces, getDevWorkspaces } from './workspaces'
+
+describe('extractWorkspaces', () => {
+  it('reads IDs and objects from the workspaces claim', () => {
+    expect(
+      extractWorkspaces({
+        workspaces: ['payments', { id: 'search', name: 'Search Team' }, { name: 'no id' }, 42],
+      })
+    ).toEqual([
+      { id: 'payments', name: 'payments' },
+      { id: 'search', name: 'Search Team' },
+    ])
+  })
+
+  it('falls back to Keycloak groups below /workspaces/', () => {
+    expect(
+      extractWorkspaces({
+        groups: ['/admins', '/workspaces/payments', '/workspaces/payments/leads', '/workspaces/ml'],
+      })
+    ).toEqual([
+      { id: 'payments', name: 'payments' },
+      { id: 'ml', name: 'ml' },
+    ])
+  })
+
+  it('returns no workspaces without membership claims', () => {
+    expect(extractWorkspaces({})).toEqual([])
+  })
+})
+
+describe('getDevWorkspaces', () => {
+  it('parses id:name pairs', () => {
+    expect(getDevWorkspaces('team-a:Team A, team-b')).toEqual([
+      { id: 'team-a', name: 'Team A' },
+      { id: 'team-b', name: 'team-b' },
+    ])
+  })
+
+  it('defaults to a single local workspace', () => {
+    expect(getDevWorkspaces('')).toEqual([{ id: 'local', name: 'Local Workspace' }])
+  })
+})
@@ -0,0 +1,63 @@
+import type { Workspace } from './types'
+
+// Keycloak group paths that grant workspace membership, e.g. "/workspaces/payments"
+const WORKSPACE_GROUP_PREFIX = '/workspaces/'
+
+const DEV_WORKSPACES = import.meta.env.VITE_DEV_WORKSPACES as string | undefined
+
+interface WorkspaceClaims {
+  /** Custom claim: workspace IDs, or `{ id, name }` objects */
+  workspaces?: unknown
+  /** Keycloak group membership mapper output */
+  groups?: unknown
+}
+
+/**
+ * Workspaces the token grants. A `workspaces` claim wins; otherwise membership is read
+ * from Keycloak groups below `/workspaces/`.
+ */
+export function extractWorkspaces(claims: WorkspaceClaims): Workspace[] {
+  const byId = new Map<string, Workspace>()
+
+  if (Array.isArray(claims.workspaces)) {
+    for (const entry of claims.workspaces as unknown[]) {
+      const workspace = toWorkspace(entry)
+      if (workspace && !byId.has(workspace.id)) byId.set(workspace.id, workspace)
+    }
+  } else if (Array.isArray(claims.groups)) {
+    for (const group of claims.groups as unknown[]) {
+      if (typeof group !== 'string' || !group.startsWith(WORKSPACE_GROUP_PREFIX)) continue
+      const id = group.slice(WORKSPACE_GROUP_PREFIX.length).split('/')[0] ?? ''
+      if (id && !byId.has(id)) byId.set(id, { id, name: id })
+    }
+  }
+
+  return [...byId.values()]
+}
+
+function toWorkspace(entry: unknown): Workspace | null {
+  if (typeof entry === 'string') return entry ? { id: entry, name: entry } : null
+  if (typeof entry !== 'object' || entry === null) return null
+
+  const { id, name } = entry as { id?: unknown; name?: unknown }
+  if (typeof id !== 'string' || !id) return null
+  return { id, name: typeof name === 'string' && name ? name : id }
+}
+
+/**
+ * Workspaces for development without Keycloak, from `VITE_DEV_WORKSPACES`
+ * ("id:Name,other-id"); defaults to a single local workspace.
+ */
+export function getDevWorkspaces(value: string | undefined = DEV_WORKSPACES): Workspace[] {
+  const workspaces = extractWorkspaces({
+    workspaces: (value ?? '')
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean)
+      .map((item) => {
+        const [id = '', ...name] = item.split(':')
+        return { id: id.trim(), name: name.join(':').trim() }
+      }),
+  })
+  return workspaces.length > 0 ? workspaces : [{ id: 'local', name: 'Local Workspace' }]
+}
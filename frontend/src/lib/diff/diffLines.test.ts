@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { diffLines, hasChanges } from './diffLines'
+
+describe('diffLines', () => {
+  it('marks identical text as unchanged', () => {
+    const lines = diffLines('a\nb', 'a\nb')
+
+    expect(lines).toEqual([
+      { type: 'unchanged', value: 'a' },
+      { type: 'unchanged', value: 'b' },
+    ])
+    expect(hasChanges(lines)).toBe(false)
+  })
+
+  it('reports replaced, added and removed lines in order', () => {
+    expect(diffLines('a\nb\nc\nd', 'a\nx\nc\nd\ne')).toEqual([
+      { type: 'unchanged', value: 'a' },
+      { type: 'removed', value: 'b' },
+      { type: 'added', value: 'x' },
+      { type: 'unchanged', value: 'c' },
+      { type: 'unchanged', value: 'd' },
+      { type: 'added', value: 'e' },
+    ])
+  })
+
+  it('treats empty input as no lines', () => {
+    expect(diffLines('', 'a')).toEqual([{ type: 'added', value: 'a' }])
+    expect(diffLines('a', '')).toEqual([{ type: 'removed', value: 'a' }])
+    expect(diffLines('', '')).toEqual([])
+  })
+})
@@ -0,0 +1,82 @@
+export type DiffLineType = 'added' | 'removed' | 'unchanged'
+
+export interface DiffLine {
+  type: DiffLineType
+  value: string
+}
+
+/**
+ * Line-based diff using the longest common subsequence. Common leading and trailing
+ * lines are trimmed first so typical small edits stay cheap.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before)
+  const b = splitLines(after)
+
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const middleA = a.slice(start, endA)
+  const middleB = b.slice(start, endB)
+
+  return [
+    ...a.slice(0, start).map(unchanged),
+    ...diffMiddle(middleA, middleB),
+    ...a.slice(endA).map(unchanged),
+  ]
+}
+
+/** True when the diff contains at least one added or removed line */
+export function hasChanges(lines: DiffLine[]): boolean {
+  return lines.some((line) => line.type !== 'unchanged')
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  // Flattened table where lcs(i, j) is the LCS length of a[i..] and b[j..]
+  const width = b.length + 1
+  const lengths = new Uint32Array((a.length + 1) * width)
+  const lcs = (i: number, j: number) => lengths[i * width + j] ?? 0
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j] ? lcs(i + 1, j + 1) + 1 : Math.max(lcs(i + 1, j), lcs(i, j + 1))
+    }
+  }
+
+  const result: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    const lineA = a[i]
+    const lineB = b[j]
+    if (lineA !== undefined && lineA === lineB) {
+      result.push(unchanged(lineA))
+      i++
+      j++
+    } else if (lineA !== undefined && (lineB === undefined || lcs(i + 1, j) >= lcs(i, j + 1))) {
+      result.push({ type: 'removed', value: lineA })
+      i++
+    } else if (lineB !== undefined) {
+      result.push({ type: 'added', value: lineB })
+      j++
+    }
+  }
+
+  return result
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split(/\r?\n/)
+}
+
+function unchanged(value: string): DiffLine {
+  return { type: 'unchanged', value }
+}
@@ -0,0 +1,2 @@
+export { diffLines, hasChanges } from './diffLines'
+export type { DiffLine, DiffLineType } from './diffLines'
@@ -0,0 +1 @@
+export { readFile } from './readFile'
@@ -0,0 +1,16 @@
+/** Reads an uploaded file; FileReader rather than Blob.text() keeps it working in jsdom */
+export function readFile(file: File, as: 'text'): Promise<string>
+export function readFile(file: File, as: 'arrayBuffer'): Promise<ArrayBuffer>
+export function readFile(file: File, as: 'text' | 'arrayBuffer'): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      resolve(reader.result)
+    }
+    reader.onerror = () => {
+      reject(reader.error ?? new Error(`Could not read ${file.name}`))
+    }
+    if (as === 'text') reader.readAsText(file)
+    else reader.readAsArrayBuffer(file)
+  })
+}
@@ -0,0 +1,281 @@
+import type { TestStep } from '@/api/types'
+import { createEmptyStep } from '@/lib/scenario'
+import {
+  asArray,
+  asString,
+  collectRequiredVariables,
+  isObject,
+  isReplayableHeader,
+  toEndpoint,
+  toHttpMethod,
+  uniqueName,
+  type JsonObject,
+} from './shared'
+import type { ImportedScenario, ScenarioImport, ScenarioImportOptions } from './types'
+
+const HAR_TAG = 'har'
+const API_RESOURCE_TYPES = new Set(['xhr', 'fetch'])
+const STATIC_ASSET =
+  /\.(?:js|mjs|css|map|png|jpe?g|gif|svg|webp|ico|woff2?|ttf|eot|html?)(?:[?#]|$)/i
+const SENSITIVE_HEADER = /^(?:authorization|x-api-key|api-key|x-auth-token)$/i
+// Shorter response values (flags, counts, short names) would match unrelated request text
+const MIN_CORRELATED_LENGTH = 6
+
+export function isHarFile(document: unknown): document is JsonObject {
+  return isObject(document) && isObject(document.log) && Array.isArray(document.log.entries)
+}
+
+interface ResponseValue {
+  value: string
+  path: string
+  /** Readable name derived from the JSON keys, e.g. `userId` for `$.user.id` */
+  name: string
+}
+
+interface CapturedStep {
+  step: TestStep
+  values: ResponseValue[]
+}
+
+function headerEntries(value: unknown): { name: string; value: string }[] {
+  return asArray(value)
+    .filter(isObject)
+    .flatMap((header) =>
+      typeof header.name === 'string' && typeof header.value === 'string'
+        ? [{ name: header.name, value: header.value }]
+        : []
+    )
+}
+
+function isApiEntry(entry: JsonObject): boolean {
+  const request = isObject(entry.request) ? entry.request : {}
+  const resourceType = asString(entry._resourceType)
+  if (resourceType) return API_RESOURCE_TYPES.has(resourceType)
+  return !STATIC_ASSET.test(asString(request.url) ?? '')
+}
+
+function camelCase(text: string): string {
+  const words = text.split(/[^A-Za-z0-9]+/).filter(Boolean)
+  const name = words
+    .map((word, index) =>
+      index === 0
+        ? word.charAt(0).toLowerCase() + word.slice(1)
+        : word.charAt(0).toUpperCase() + word.slice(1)
+    )
+    .join('')
+  return /^[A-Za-z_]/.test(name) ? name : `value${name}`
+}
+
+/** String leaves of a JSON response that are long enough to recognise in later requests */
+function responseValues(document: unknown): ResponseValue[] {
+  const values: ResponseValue[] = []
+  const visit = (value: unknown, path: string, keys: string[]) => {
+    if (typeof value === 'string') {
+      if (value.length >= MIN_CORRELATED_LENGTH && !/\s/.test(value)) {
+        const key = keys[keys.length - 1] ?? 'value'
+        const parent = keys[keys.length - 2]
+        const name = key.toLowerCase() === 'id' && parent ? `${parent}Id` : key
+        values.push({ value, path, name: camelCase(name) })
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item: unknown, index) => {
+        visit(item, `${path}[${String(index)}]`, keys)
+      })
+    } else if (isObject(value)) {
+      for (const [key, child] of Object.entries(value)) {
+        const segment = /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `['${key}']`
+        visit(child, `${path}${segment}`, [...keys, key])
+      }
+    }
+  }
+  visit(document, '$', [])
+  return values
+}
+
+function parseJsonResponse(response: JsonObject): unknown {
+  const content = isObject(response.content) ? response.content : {}
+  const text = asString(content.text)
+  if (!text || content.encoding === 'base64' || !/json/i.test(asString(content.mimeType) ?? '')) {
+    return undefined
+  }
+  try {
+    return JSON.parse(text) as unknown
+  } catch {
+    return undefined
+  }
+}
+
+function captureStep(
+  entry: JsonObject,
+  order: number,
+  baseUrl: string | undefined
+): CapturedStep | null {
+  const request = isObject(entry.request) ? entry.request : {}
+  const response = isObject(entry.response) ? entry.response : {}
+  const method = toHttpMethod(request.method)
+  if (!method) return null
+
+  const headers: Record<string, string> = {}
+  for (const header of headerEntries(request.headers)) {
+    if (isReplayableHeader(header.name)) headers[header.name] = header.value
+  }
+  const postData = isObject(request.postData) ? request.postData : {}
+  const status = typeof response.status === 'number' && response.status > 0 ? response.status : 200
+
+  return {
+    step: {
+      ...createEmptyStep(order),
+      method,
+      endpoint: toEndpoint(asString(request.url) ?? '', baseUrl),
+      headers,
+      body: asString(postData.text) || null,
+      expectedStatus: status,
+    },
+    values: responseValues(parseJsonResponse(response)),
+  }
+}
+
+/**
+ * Replace values an earlier response returned with placeholders, and give the step that
+ * returned them an extractor; the most recent response wins when several returned a value
+ */
+function correlate(captured: CapturedStep[]): TestStep[] {
+  const steps = captured.map(({ step }) => ({ ...step, headers: { ...step.headers } }))
+  const variableNames = new Set<string>()
+  const extracted = new Map<string, string>()
+  const nameFor = (base: string) => {
+    let name = base
+    for (let suffix = 2; variableNames.has(name); suffix++) name = `${base}${String(suffix)}`
+    variableNames.add(name)
+    return name
+  }
+
+  captured.forEach((_, index) => {
+    const step = steps[index]
+    if (!step) return
+    // Longest values first, so a token is not split by an ID it happens to contain
+    const earlier = captured
+      .slice(0, index)
+      .flatMap(({ values }, producer) => values.map((value) => ({ ...value, producer })))
+      .reverse()
+      .sort((a, b) => b.value.length - a.value.length)
+
+    for (const candidate of earlier) {
+      const uses = (text: string | null) => text?.includes(candidate.value) ?? false
+      if (!uses(step.endpoint) && !uses(step.body) && !Object.values(step.headers).some(uses)) {
+        continue
+      }
+
+      const key = `${String(candidate.producer)}:${candidate.path}`
+      let name = extracted.get(key)
+      const producer = steps[candidate.producer]
+      if (!name && producer) {
+        name = nameFor(candidate.name)
+        extracted.set(key, name)
+        producer.extractors = [
+          ...producer.extractors,
+          { name, type: 'JSON_PATH', path: candidate.path },
+        ]
+      }
+      if (!name) continue
+
+      const placeholder = `{{${name}}}`
+      step.endpoint = step.endpoint.split(candidate.value).join(placeholder)
+      step.body = step.body?.split(candidate.value).join(placeholder) ?? null
+      for (const [header, value] of Object.entries(step.headers)) {
+        step.headers[header] = value.split(candidate.value).join(placeholder)
+      }
+    }
+  })
+  return steps
+}
+
+/** Credentials captured in the browser must not be stored in a scenario */
+function maskCredentials(steps: TestStep[]): boolean {
+  let masked = false
+  for (const step of steps) {
+    for (const [header, value] of Object.entries(step.headers)) {
+      if (!SENSITIVE_HEADER.test(header) || value.includes('{{')) continue
+      const scheme = /^(\w+)\s+\S/.exec(value)?.[1]
+      step.headers[header] = scheme ? `${scheme} {{authToken}}` : `{{${camelCase(header)}}}`
+      masked = true
+    }
+  }
+  return masked
+}
+
+/**
+ * Convert a HAR capture: the API calls of each page (or of the whole capture, without page
+ * information) become one scenario. Values returned by one call and sent by a later one are
+ * chained through extractors, and captured credentials become placeholders.
+ */
+export function convertHar(har: JsonObject, options: ScenarioImportOptions = {}): ScenarioImport {
+  const log = isObject(har.log) ? har.log : {}
+  const entries = asArray(log.entries).filter(isObject)
+  const pages = new Map(
+    asArray(log.pages)
+      .filter(isObject)
+      .map((page) => [asString(page.id) ?? '', asString(page.title) ?? 'Page'] as const)
+  )
+
+  const groups = new Map<string, JsonObject[]>()
+  let skippedMethods = 0
+  for (const entry of entries) {
+    if (!isApiEntry(entry)) continue
+    const request = isObject(entry.request) ? entry.request : {}
+    if (!toHttpMethod(request.method)) {
+      skippedMethods++
+      continue
+    }
+    const page = asString(entry.pageref) ?? ''
+    groups.set(page, [...(groups.get(page) ?? []), entry])
+  }
+
+  const firstUrl = asString((entries[0]?.request as JsonObject | undefined)?.url)
+  let captureName = 'HAR capture'
+  try {
+    if (firstUrl) captureName = `Capture of ${new URL(firstUrl).host}`
+  } catch {
+    // Keep the generic name for relative or malformed URLs
+  }
+
+  const usedNames = new Set<string>()
+  const scenarios: ImportedScenario[] = [...groups.entries()].map(
+    ([pageId, pageEntries], index) => {
+      const captured = pageEntries.flatMap((entry, order) => {
+        const step = captureStep(entry, order + 1, options.baseUrl)
+        return step ? [step] : []
+      })
+      const steps = correlate(captured)
+      const warnings: string[] = []
+      if (maskCredentials(steps)) {
+        warnings.push('Captured credentials were replaced with placeholders')
+      }
+      if (index === 0 && skippedMethods > 0) {
+        warnings.push(
+          skippedMethods === 1
+            ? '1 request with an unsupported method was skipped'
+            : `${String(skippedMethods)} requests with unsupported methods were skipped`
+        )
+      }
+      const pageTitle = pages.get(pageId)
+
+      return {
+        key: `har-${String(index)}`,
+        name: uniqueName(pageTitle ?? captureName, usedNames),
+        description: null,
+        folder: pageTitle ? [pageTitle] : [],
+        steps,
+        tags: [HAR_TAG],
+        warnings,
+      }
+    }
+  )
+
+  return {
+    format: 'har',
+    name: captureName,
+    scenarios,
+    variables: collectRequiredVariables(scenarios),
+  }
+}
@@ -0,0 +1,13 @@
+export { parseScenarioImport } from './parseImport'
+export { convertPostmanCollection, isPostmanCollection } from './postman'
+export { mapPostmanTestScript } from './postmanScripts'
+export type { MappedTestScript } from './postmanScripts'
+export { convertHar, isHarFile } from './har'
+export { ScenarioImportError } from './shared'
+export type {
+  ImportFormat,
+  ImportedScenario,
+  ImportVariable,
+  ScenarioImport,
+  ScenarioImportOptions,
+} from './types'
@@ -0,0 +1,24 @@
+import { convertHar, isHarFile } from './har'
+import { convertPostmanCollection, isPostmanCollection } from './postman'
+import { ScenarioImportError } from './shared'
+import type { ScenarioImport, ScenarioImportOptions } from './types'
+
+/**
+ * Convert a Postman collection (v2.0/v2.1) or a HAR capture into scenarios, detecting the
+ * format from the content. Throws ScenarioImportError for anything else.
+ */
+export function parseScenarioImport(
+  source: string,
+  options: ScenarioImportOptions = {}
+): ScenarioImport {
+  let document: unknown
+  try {
+    document = JSON.parse(source)
+  } catch {
+    throw new ScenarioImportError('The file is not valid JSON')
+  }
+
+  if (isPostmanCollection(document)) return convertPostmanCollection(document, options)
+  if (isHarFile(document)) return convertHar(document, options)
+  throw new ScenarioImportError('Expected a Postman v2 collection or a HAR file')
+}
@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'vitest'
+import { convertPostmanCollection } from './postman'
+import { mapPostmanTestScript } from './postmanScripts'
+import { parseScenarioImport } from './parseImport'
+import { ScenarioImportError } from './shared'
+
+const collection = {
+  info: {
+    name: 'Users API',
+    schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json',
+  },
+  auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}', type: 'string' }] },
+  variable: [
+    { key: 'baseUrl', value: 'https://api.example.com' },
+    { key: 'token', value: '' },
+  ],
+  item: [
+    {
+      name: 'Health',
+      request: { method: 'GET', url: { raw: '{{baseUrl}}/health' } },
+    },
+    {
+      name: 'Users',
+      description: 'User lifecycle',
+      item: [
+        {
+          name: 'Create user',
+          request: {
+            method: 'POST',
+            header: [
+              { key: 'X-Trace', value: 'import' },
+              { key: 'X-Debug', value: '1', disabled: true },
+            ],
+            body: {
+              mode: 'raw',
+              raw: '{"email": "{{email}}"}',
+              options: { raw: { language: 'json' } },
+            },
+            url: { raw: '{{baseUrl}}/users' },
+          },
+          event: [
+            {
+              listen: 'test',
+              script: {
+                exec: [
+                  'pm.test("created", function () {',
+                  '    pm.response.to.have.status(201);',
+                  '    var jsonData = pm.response.json();',
+                  '    pm.expect(jsonData.email).to.eql("jane@example.com");',
+                  '    pm.collectionVariables.set("userId", jsonData.data.id);',
+                  '});',
+                ],
+              },
+            },
+          ],
+        },
+        {
+          name: 'Get user',
+          request: {
+            method: 'GET',
+            url: {
+              raw: 'https://api.example.com/users/:id?expand=roles',
+              variable: [{ key: 'id', value: '{{userId}}' }],
+            },
+          },
+          response: [{ name: 'OK', code: 200 }],
+        },
+        {
+          name: 'Login',
+          request: {
+            method: 'POST',
+            auth: { type: 'noauth' },
+            body: {
+              mode: 'urlencoded',
+              urlencoded: [
+                { key: 'username', value: 'jane doe' },
+                { key: 'password', value: '{{password}}' },
+              ],
+            },
+            url: 'https://auth.example.com/login',
+          },
+        },
+        {
+          name: 'Preflight',
+          request: { method: 'OPTIONS', url: '{{baseUrl}}/users' },
+        },
+      ],
+    },
+  ],
+}
+
+describe('convertPostmanCollection', () => {
+  const result = convertPostmanCollection(collection, { baseUrl: 'https://api.example.com' })
+
+  it('turns the top level and each folder into a scenario', () => {
+    expect(result.format).toBe('postman')
+    expect(result.name).toBe('Users API')
+    expect(result.scenarios.map((scenario) => scenario.name)).toEqual(['Users API', 'Users'])
+    expect(result.scenarios[1]?.description).toBe('User lifecycle')
+    expect(result.scenarios[1]?.folder).toEqual(['Users'])
+    expect(result.scenarios[1]?.tags).toEqual(['postman'])
+  })
+
+  it('maps requests to steps with endpoints relative to the base URL', () => {
+    const [create, get, login] = result.scenarios[1]?.steps ?? []
+
+    expect(result.scenarios[0]?.steps[0]?.endpoint).toBe('/health')
+    expect(create).toMatchObject({
+      order: 1,
+      method: 'POST',
+      endpoint: '/users',
+      body: '{"email": "{{email}}"}',
+      headers: {
+        'X-Trace': 'import',
+        Authorization: 'Bearer {{token}}',
+        'Content-Type': 'application/json',
+      },
+    })
+    expect(get).toMatchObject({
+      order: 2,
+      endpoint: '/users/{{userId}}?expand=roles',
+      expectedStatus: 200,
+    })
+    expect(login).toMatchObject({
+      endpoint: 'https://auth.example.com/login',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: 'username=jane%20doe&password={{password}}',
+    })
+    expect(login?.headers.Authorization).toBeUndefined()
+  })
+
+  it('maps test scripts to the expected status, assertions and extractors', () => {
+    const create = result.scenarios[1]?.steps[0]
+
+    expect(create?.expectedStatus).toBe(201)
+    expect(create?.assertions).toEqual([
+      { type: 'JSON_PATH', path: '$.email', expected: 'jane@example.com', operator: 'EQUALS' },
+    ])
+    expect(create?.extractors).toEqual([{ name: 'userId', type: 'JSON_PATH', path: '$.data.id' }])
+  })
+
+  it('skips unsupported methods with a warning', () => {
+    expect(result.scenarios[1]?.steps).toHaveLength(3)
+    expect(result.scenarios[1]?.warnings).toContain('Preflight: OPTIONS requests are not supported')
+  })
+
+  it('encodes basic auth credentials as UTF-8', () => {
+    const converted = convertPostmanCollection({
+      info: collection.info,
+      item: [
+        {
+          name: 'Profile',
+          request: {
+            method: 'GET',
+            url: 'https://api.example.com/me',
+            auth: {
+              type: 'basic',
+              basic: [
+                { key: 'username', value: 'zoë' },
+                { key: 'password', value: 'pässwörd€' },
+              ],
+            },
+          },
+        },
+      ],
+    })
+
+    expect(converted.scenarios[0]?.steps[0]?.headers.Authorization).toBe(
+      'Basic em/Dqzpww6Rzc3fDtnJk4oKs'
+    )
+  })
+
+  it('lists the variables an environment has to provide', () => {
+    expect(result.variables).toEqual([
+      { name: 'email', value: null },
+      { name: 'password', value: null },
+      { name: 'token', value: '' },
+    ])
+  })
+})
+
+describe('mapPostmanTestScript', () => {
+  it('maps the common assertion styles', () => {
+    const mapped = mapPostmanTestScript([
+      'const body = pm.response.json()',
+      'pm.expect(pm.response.code).to.equal(204)',
+      "pm.expect(body.items[0]['display name']).to.not.eql('x')",
+      'pm.expect(pm.response.json().total).to.be.above(2)',
+      "pm.expect(pm.response.text()).to.include('created')",
+      "pm.response.to.have.header('Content-Type', 'application/json')",
+      'pm.environment.set("location", pm.response.headers.get("Location"));',
+      'pm.response.to.be.ok;',
+    ])
+
+    expect(mapped.expectedStatus).toBe(204)
+    expect(mapped.assertions).toEqual([
+      {
+        type: 'JSON_PATH',
+        path: "$.items[0]['display name']",
+        expected: 'x',
+        operator: 'NOT_EQUALS',
+      },
+      { type: 'JSON_PATH', path: '$.total', expected: 2, operator: 'GREATER_THAN' },
+      { type: 'BODY_CONTAINS', path: '', expected: 'created', operator: 'CONTAINS' },
+      { type: 'HEADER', path: 'Content-Type', expected: 'application/json', operator: 'EQUALS' },
+    ])
+    expect(mapped.extractors).toEqual([{ name: 'location', type: 'HEADER', path: 'Location' }])
+    expect(mapped.unmappedLines).toEqual([])
+  })
+
+  it('reports checks without a step equivalent', () => {
+    const mapped = mapPostmanTestScript([
+      'pm.test("has id", () => {',
+      '  pm.expect(pm.response.json()).to.have.property("id")',
+      '})',
+    ])
+
+    expect(mapped.assertions).toEqual([])
+    expect(mapped.unmappedLines).toEqual(['pm.expect(pm.response.json()).to.have.property("id")'])
+  })
+})
+
+describe('parseScenarioImport', () => {
+  it('detects a Postman collection', () => {
+    expect(parseScenarioImport(JSON.stringify(collection)).format).toBe('postman')
+  })
+
+  it('rejects other JSON documents', () => {
+    expect(() => parseScenarioImport('{"openapi": "3.0.0"}')).toThrow(ScenarioImportError)
+    expect(() => parseScenarioImport('not json')).toThrow('The file is not valid JSON')
+  })
+})
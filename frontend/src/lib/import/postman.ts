@@ -0,0 +1,296 @@
+import type { TestStep } from '@/api/types'
+import { createEmptyStep } from '@/lib/scenario'
+import { mapPostmanTestScript } from './postmanScripts'
+import {
+  asArray,
+  asString,
+  collectRequiredVariables,
+  isObject,
+  toEndpoint,
+  toHttpMethod,
+  uniqueName,
+  type JsonObject,
+} from './shared'
+import type { ImportedScenario, ScenarioImport, ScenarioImportOptions } from './types'
+
+const POSTMAN_TAG = 'postman'
+const LEADING_VARIABLE = /^\{\{\s*[\w.-]+\s*\}\}(?=\/|\?|$)/
+
+/** Postman v2.0/v2.1 collections have `info` and an `item` tree */
+export function isPostmanCollection(document: unknown): document is JsonObject {
+  return isObject(document) && isObject(document.info) && Array.isArray(document.item)
+}
+
+function textOf(value: unknown): string | null {
+  if (typeof value === 'string') return value || null
+  return isObject(value) ? asString(value.content) : null
+}
+
+function scriptLines(item: JsonObject, listen: 'test' | 'prerequest'): string[] {
+  return asArray(item.event)
+    .filter(isObject)
+    .filter((event) => event.listen === listen && isObject(event.script))
+    .flatMap((event) => {
+      const exec = (event.script as JsonObject).exec
+      return typeof exec === 'string' ? exec.split('\n') : asArray(exec).filter(isString)
+    })
+    .filter((line) => line.trim() !== '')
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string'
+}
+
+function keyValues(value: unknown): { key: string; value: string }[] {
+  return asArray(value)
+    .filter(isObject)
+    .filter((entry) => entry.disabled !== true && typeof entry.key === 'string')
+    .map((entry) => ({ key: entry.key as string, value: stringValue(entry.value) }))
+}
+
+function stringValue(value: unknown): string {
+  if (typeof value === 'string') return value
+  return value === undefined || value === null ? '' : JSON.stringify(value)
+}
+
+/** Form encoding that leaves `{{placeholders}}` readable */
+function encodeFormValue(value: string): string {
+  return value
+    .split(/(\{\{[^}]+\}\})/)
+    .map((part, index) => (index % 2 === 1 ? part : encodeURIComponent(part)))
+    .join('')
+}
+
+/** Base64 of the UTF-8 bytes, as servers decode basic auth credentials */
+function encodeBase64(text: string): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+}
+
+function requestUrl(url: unknown): string {
+  if (typeof url === 'string') return url
+  if (!isObject(url)) return ''
+
+  let raw = asString(url.raw)
+  if (raw === null) {
+    const host = asArray(url.host).filter(isString).join('.')
+    const path = asArray(url.path).filter(isString).join('/')
+    const query = keyValues(url.query)
+      .map(({ key, value }) => `${key}=${value}`)
+      .join('&')
+    raw = `${host}${path ? `/${path}` : ''}${query ? `?${query}` : ''}`
+  }
+
+  // Path variables (`/users/:id`) take their example value, or become placeholders
+  for (const { key, value } of keyValues(url.variable)) {
+    raw = raw.replace(
+      new RegExp(`/:${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?=/|\\?|#|$)`, 'g'),
+      `/${value || `{{${key}}}`}`
+    )
+  }
+  return raw
+}
+
+function toStepEndpoint(raw: string, baseUrl: string | undefined): string {
+  // A leading `{{baseUrl}}`-style variable stands for the host the run targets
+  const withoutHost = raw.replace(LEADING_VARIABLE, '')
+  if (withoutHost !== raw) return withoutHost.startsWith('/') ? withoutHost : `/${withoutHost}`
+  return toEndpoint(raw, baseUrl)
+}
+
+interface RequestContext {
+  baseUrl: string | undefined
+  auth: unknown
+  warnings: string[]
+}
+
+function applyAuth(
+  auth: unknown,
+  headers: Record<string, string>,
+  query: string[],
+  context: RequestContext,
+  itemName: string
+) {
+  if (!isObject(auth) || typeof auth.type !== 'string' || auth.type === 'noauth') return
+  const hasAuthorization = Object.keys(headers).some(
+    (name) => name.toLowerCase() === 'authorization'
+  )
+  const settings = new Map(
+    asArray(auth[auth.type])
+      .filter(isObject)
+      .map((entry) => [stringValue(entry.key), stringValue(entry.value)])
+  )
+
+  switch (auth.type) {
+    case 'bearer':
+      if (!hasAuthorization) headers.Authorization = `Bearer ${settings.get('token') ?? ''}`
+      return
+    case 'basic': {
+      if (hasAuthorization) return
+      const credentials = `${settings.get('username') ?? ''}:${settings.get('password') ?? ''}`
+      if (credentials.includes('{{')) {
+        headers.Authorization = 'Basic {{basicAuth}}'
+        context.warnings.push(
+          `${itemName}: basic auth uses variables; set basicAuth to the encoded credentials`
+        )
+      } else {
+        headers.Authorization = `Basic ${encodeBase64(credentials)}`
+      }
+      return
+    }
+    case 'apikey': {
+      const key = settings.get('key') ?? 'X-API-Key'
+      const value = settings.get('value') ?? ''
+      if (settings.get('in') === 'query') query.push(`${key}=${encodeFormValue(value)}`)
+      else headers[key] = value
+      return
+    }
+    default:
+      context.warnings.push(`${itemName}: ${auth.type} auth is not supported`)
+  }
+}
+
+function convertRequest(item: JsonObject, order: number, context: RequestContext): TestStep | null {
+  const itemName = asString(item.name) ?? `Request ${String(order)}`
+  const request: JsonObject = isObject(item.request) ? item.request : { url: item.request }
+  const rawMethod = asString(request.method) ?? 'GET'
+  const method = toHttpMethod(rawMethod)
+  if (!method) {
+    context.warnings.push(`${itemName}: ${rawMethod} requests are not supported`)
+    return null
+  }
+
+  const headers: Record<string, string> = {}
+  for (const { key, value } of keyValues(request.header)) headers[key] = value
+  const query: string[] = []
+  applyAuth(request.auth ?? context.auth, headers, query, context, itemName)
+  const hasHeader = (name: string) =>
+    Object.keys(headers).some((header) => header.toLowerCase() === name.toLowerCase())
+
+  let body: string | null = null
+  const requestBody = isObject(request.body) ? request.body : {}
+  switch (requestBody.mode) {
+    case 'raw': {
+      body = asString(requestBody.raw) || null
+      const options = isObject(requestBody.options) ? requestBody.options : {}
+      const language = isObject(options.raw) ? options.raw.language : undefined
+      if (body && language === 'json' && !hasHeader('Content-Type')) {
+        headers['Content-Type'] = 'application/json'
+      }
+      break
+    }
+    case 'urlencoded':
+      body = keyValues(requestBody.urlencoded)
+        .map(({ key, value }) => `${encodeFormValue(key)}=${encodeFormValue(value)}`)
+        .join('&')
+      if (!hasHeader('Content-Type')) {
+        headers['Content-Type'] = 'application/x-www-form-urlencoded'
+      }
+      break
+    case 'graphql': {
+      const graphql = isObject(requestBody.graphql) ? requestBody.graphql : {}
+      const document = asString(graphql.query) ?? ''
+      let variables: unknown = null
+      try {
+        variables = JSON.parse(asString(graphql.variables) || 'null') as unknown
+      } catch {
+        context.warnings.push(`${itemName}: GraphQL variables are not valid JSON and were dropped`)
+      }
+      body = JSON.stringify(
+        variables === null ? { query: document } : { query: document, variables }
+      )
+      if (!hasHeader('Content-Type')) headers['Content-Type'] = 'application/json'
+      break
+    }
+    case 'formdata':
+    case 'file':
+      context.warnings.push(`${itemName}: ${requestBody.mode} bodies are not supported`)
+      break
+  }
+
+  if (scriptLines(item, 'prerequest').length > 0) {
+    context.warnings.push(`${itemName}: the pre-request script was not imported`)
+  }
+  const script = mapPostmanTestScript(scriptLines(item, 'test'))
+  if (script.unmappedLines.length > 0) {
+    const count = script.unmappedLines.length
+    context.warnings.push(
+      `${itemName}: ${String(count)} test script ${count === 1 ? 'line has' : 'lines have'} no step equivalent`
+    )
+  }
+
+  // Without a status check, the first saved example response shows what the request returns
+  const example = asArray(item.response).find(isObject)
+  const exampleStatus = typeof example?.code === 'number' ? example.code : null
+
+  let endpoint = toStepEndpoint(requestUrl(request.url), context.baseUrl)
+  if (query.length > 0) endpoint += `${endpoint.includes('?') ? '&' : '?'}${query.join('&')}`
+
+  return {
+    ...createEmptyStep(order),
+    method,
+    endpoint,
+    headers,
+    body,
+    expectedStatus: script.expectedStatus ?? exampleStatus ?? 200,
+    assertions: script.assertions,
+    extractors: script.extractors,
+  }
+}
+
+/**
+ * Convert a Postman collection: the requests directly inside each folder (and at the top
+ * level) become the steps of one scenario, named after the folder path. `{{variables}}`
+ * stay placeholders, and variables a test script sets from the response become extractors.
+ */
+export function convertPostmanCollection(
+  collection: JsonObject,
+  options: ScenarioImportOptions = {}
+): ScenarioImport {
+  const info = isObject(collection.info) ? collection.info : {}
+  const collectionName = asString(info.name) ?? 'Postman collection'
+  const scenarios: ImportedScenario[] = []
+  const usedNames = new Set<string>()
+
+  const visit = (items: unknown[], folder: string[], description: string | null, auth: unknown) => {
+    const entries = items.filter(isObject)
+    const requests = entries.filter((entry) => !Array.isArray(entry.item))
+    const context: RequestContext = { baseUrl: options.baseUrl, auth, warnings: [] }
+
+    if (requests.length > 0) {
+      const steps: TestStep[] = []
+      for (const request of requests) {
+        const step = convertRequest(request, steps.length + 1, context)
+        if (step) steps.push(step)
+      }
+      scenarios.push({
+        key: `postman-${String(scenarios.length)}`,
+        name: uniqueName(folder.length > 0 ? folder.join(' / ') : collectionName, usedNames),
+        description,
+        folder,
+        steps,
+        tags: [POSTMAN_TAG],
+        warnings: context.warnings,
+      })
+    }
+
+    for (const child of entries.filter((entry) => Array.isArray(entry.item))) {
+      visit(
+        asArray(child.item),
+        [...folder, asString(child.name) ?? 'Folder'],
+        textOf(child.description),
+        child.auth ?? auth
+      )
+    }
+  }
+  visit(asArray(collection.item), [], textOf(info.description), collection.auth)
+
+  const defaults = new Map(
+    keyValues(collection.variable).map(({ key, value }) => [key, value] as const)
+  )
+  return {
+    format: 'postman',
+    name: collectionName,
+    scenarios,
+    variables: collectRequiredVariables(scenarios, defaults),
+  }
+}
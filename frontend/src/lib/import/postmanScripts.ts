@@ -0,0 +1,195 @@
+import type { ComparisonOperator, StepAssertion, StepExtractor } from '@/api/types'
+
+export interface MappedTestScript {
+  expectedStatus: number | null
+  assertions: StepAssertion[]
+  extractors: StepExtractor[]
+  /** Checks and variable assignments with no step equivalent */
+  unmappedLines: string[]
+}
+
+const STRING = String.raw`(?:"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')`
+const LITERAL = String.raw`(${STRING}|-?\d+(?:\.\d+)?|true|false|null)`
+const ACCESSORS = String.raw`((?:\.[A-Za-z_$][\w$]*|\[\d+\]|\[${STRING}\])*)`
+
+const STATUS_PATTERNS = [
+  /pm\.response\.to\.have\.status\(\s*(\d{3})\s*\)/,
+  /pm\.expect\(\s*pm\.response\.(?:code|status)\s*\)\.to\.(?:be\.)?(?:eql|equal|equals|eq)\(\s*(\d{3})\s*\)/,
+  /responseCode\.code\s*===?\s*(\d{3})/,
+]
+const EXPECT_PATTERN = new RegExp(
+  String.raw`pm\.expect\((.+?)\)\.to\.(not\.)?(?:(?:be|have|deep)\.)*(eql|equals?|eq|include|contains?|above|below|greaterThan|lessThan|gt|lt)\(\s*${LITERAL}\s*\)`
+)
+const HEADER_PATTERN = new RegExp(
+  String.raw`pm\.response\.to\.have\.header\(\s*(${STRING})\s*,\s*${LITERAL}\s*\)`
+)
+const JSON_BODY_PATTERN = new RegExp(
+  String.raw`pm\.response\.to\.have\.jsonBody\(\s*(${STRING})\s*,\s*${LITERAL}\s*\)`
+)
+const SET_PATTERN = new RegExp(
+  String.raw`(?:pm\.(?:environment|collectionVariables|globals|variables)\.set|postman\.set(?:Environment|Global)Variable)\(\s*(${STRING})\s*,\s*([^;]+?)\s*\)\s*(?:;|$|\})`
+)
+const RESPONSE_ALIAS_PATTERN =
+  /(?:var|let|const)\s+([A-Za-z_$][\w$]*)\s*=\s*(?:pm\.response\.json\(\)|JSON\.parse\(\s*responseBody\s*\))/
+const HEADER_GETTER = new RegExp(
+  String.raw`^(?:pm\.response\.headers\.get|postman\.getResponseHeader)\(\s*(${STRING})\s*\)$`
+)
+const BODY_TEXT = /^(?:pm\.response\.text\(\)|responseBody)$/
+// Checks and assignments; `pm.test(...)` wrappers and plain JavaScript are structure
+const SIGNIFICANT_LINE =
+  /pm\.expect|pm\.response\.to|tests\[|\.set\(|set(?:Environment|Global)Variable/
+const BENIGN_LINE =
+  /pm\.response\.to\.be\.(?:ok|success|json)\b|pm\.response\.to\.have\.jsonBody\(\)/
+
+const OPERATORS: Record<string, ComparisonOperator> = {
+  eql: 'EQUALS',
+  equal: 'EQUALS',
+  equals: 'EQUALS',
+  eq: 'EQUALS',
+  include: 'CONTAINS',
+  contain: 'CONTAINS',
+  contains: 'CONTAINS',
+  above: 'GREATER_THAN',
+  greaterThan: 'GREATER_THAN',
+  gt: 'GREATER_THAN',
+  below: 'LESS_THAN',
+  lessThan: 'LESS_THAN',
+  lt: 'LESS_THAN',
+}
+
+function parseString(token: string): string {
+  if (token.startsWith('"')) return JSON.parse(token) as string
+  return token.slice(1, -1).replace(/\\(.)/g, '$1')
+}
+
+function parseLiteral(token: string): unknown {
+  return token.startsWith("'") ? parseString(token) : (JSON.parse(token) as unknown)
+}
+
+/** `.data.items[0]['full name']` → `$.data.items[0]['full name']` */
+function toJsonPath(accessors: string): string {
+  const segments = accessors.matchAll(
+    new RegExp(String.raw`\.([A-Za-z_$][\w$]*)|\[(\d+)\]|\[(${STRING})\]`, 'g')
+  )
+  let path = '$'
+  for (const [, name, index, quoted] of segments) {
+    if (name !== undefined) path += `.${name}`
+    else if (index !== undefined) path += `[${index}]`
+    else if (quoted !== undefined) path += `['${parseString(quoted)}']`
+  }
+  return path
+}
+
+/**
+ * Map the parts of a Postman test script that have a step equivalent: status checks,
+ * comparisons on the JSON body, body text and headers, and variables set from the response,
+ * which become extractors.
+ */
+export function mapPostmanTestScript(lines: string[]): MappedTestScript {
+  const aliases = lines.flatMap((line) => {
+    const alias = RESPONSE_ALIAS_PATTERN.exec(line)?.[1]
+    return alias ? [alias] : []
+  })
+  const jsonSubject = new RegExp(
+    String.raw`^(?:pm\.response\.json\(\)${aliases.map((alias) => `|${alias.replace(/\$/g, '\\$')}`).join('')})${ACCESSORS}$`
+  )
+
+  const result: MappedTestScript = {
+    expectedStatus: null,
+    assertions: [],
+    extractors: [],
+    unmappedLines: [],
+  }
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim()
+    if (mapLine(line, jsonSubject, result)) continue
+    if (SIGNIFICANT_LINE.test(line) && !BENIGN_LINE.test(line)) result.unmappedLines.push(line)
+  }
+  return result
+}
+
+function mapLine(line: string, jsonSubject: RegExp, result: MappedTestScript): boolean {
+  for (const pattern of STATUS_PATTERNS) {
+    const status = pattern.exec(line)?.[1]
+    if (status) {
+      result.expectedStatus = Number(status)
+      return true
+    }
+  }
+
+  const header = HEADER_PATTERN.exec(line)
+  if (header?.[1] && header[2]) {
+    result.assertions.push({
+      type: 'HEADER',
+      path: parseString(header[1]),
+      expected: parseLiteral(header[2]),
+      operator: 'EQUALS',
+    })
+    return true
+  }
+
+  const jsonBody = JSON_BODY_PATTERN.exec(line)
+  if (jsonBody?.[1] && jsonBody[2]) {
+    result.assertions.push({
+      type: 'JSON_PATH',
+      path: `$.${parseString(jsonBody[1])}`,
+      expected: parseLiteral(jsonBody[2]),
+      operator: 'EQUALS',
+    })
+    return true
+  }
+
+  const expectation = EXPECT_PATTERN.exec(line)
+  if (expectation) {
+    const [, rawSubject = '', negated, method = '', literal = ''] = expectation
+    const subject = rawSubject.trim()
+    const operator = OPERATORS[method]
+    if (!operator || (negated && operator !== 'EQUALS')) return false
+    const expected = parseLiteral(literal)
+
+    const json = jsonSubject.exec(subject)
+    if (json) {
+      result.assertions.push({
+        type: 'JSON_PATH',
+        path: toJsonPath(json[1] ?? ''),
+        expected,
+        operator: negated ? 'NOT_EQUALS' : operator,
+      })
+      return true
+    }
+    const headerName = HEADER_GETTER.exec(subject)?.[1]
+    if (headerName) {
+      result.assertions.push({
+        type: 'HEADER',
+        path: parseString(headerName),
+        expected,
+        operator: negated ? 'NOT_EQUALS' : operator,
+      })
+      return true
+    }
+    if (BODY_TEXT.test(subject) && operator === 'CONTAINS' && !negated) {
+      result.assertions.push({ type: 'BODY_CONTAINS', path: '', expected, operator })
+      return true
+    }
+    return false
+  }
+
+  const assignment = SET_PATTERN.exec(line)
+  if (assignment?.[1] && assignment[2]) {
+    const name = parseString(assignment[1])
+    const value = assignment[2].trim()
+    const json = jsonSubject.exec(value)
+    if (json) {
+      result.extractors.push({ name, type: 'JSON_PATH', path: toJsonPath(json[1] ?? '') })
+      return true
+    }
+    const headerName = HEADER_GETTER.exec(value)?.[1]
+    if (headerName) {
+      result.extractors.push({ name, type: 'HEADER', path: parseString(headerName) })
+      return true
+    }
+  }
+
+  return false
+}
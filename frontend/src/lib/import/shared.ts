@@ -0,0 +1,96 @@
+import type { HttpMethod } from '@/api/types'
+import { HTTP_METHODS, analyzeVariableFlow } from '@/lib/scenario'
+import type { ImportedScenario, ImportVariable } from './types'
+
+export class ScenarioImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScenarioImportError'
+  }
+}
+
+export type JsonObject = Record<string, unknown>
+
+export function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? (value as unknown[]) : []
+}
+
+export function asString(value: unknown): string | null {
+  return typeof value === 'string' ? value : null
+}
+
+export function toHttpMethod(method: unknown): HttpMethod | null {
+  const upper = typeof method === 'string' ? method.toUpperCase() : ''
+  return HTTP_METHODS.find((candidate) => candidate === upper) ?? null
+}
+
+// Set by the browser; replaying them would pin a stale connection or session
+const IGNORED_HEADERS = new Set([
+  'host',
+  'connection',
+  'content-length',
+  'accept-encoding',
+  'user-agent',
+  'referer',
+  'origin',
+  'cookie',
+  'cache-control',
+  'pragma',
+])
+
+export function isReplayableHeader(name: string): boolean {
+  const lower = name.toLowerCase()
+  return !IGNORED_HEADERS.has(lower) && !lower.startsWith(':') && !lower.startsWith('sec-')
+}
+
+/**
+ * Endpoint of a step: URLs on the package's origin (and path prefix) become relative, so the
+ * run's base URL or environment applies; others are kept absolute.
+ */
+export function toEndpoint(url: string, baseUrl: string | undefined): string {
+  if (!baseUrl) return url
+  try {
+    const base = new URL(baseUrl)
+    const target = new URL(url)
+    const prefix = base.pathname.replace(/\/$/, '')
+    // Sliced from the original text, since URL would percent-encode `{{placeholders}}`
+    const rest = url.slice(url.indexOf('://') + 3)
+    const pathStart = rest.search(/[/?#]/)
+    const path = pathStart === -1 ? '' : rest.slice(pathStart)
+    const relative = path.slice(prefix.length)
+    if (target.origin !== base.origin || !path.startsWith(prefix) || /^[^/?#]/.test(relative)) {
+      return url
+    }
+    return relative.startsWith('/') ? relative : `/${relative}`
+  } catch {
+    return url
+  }
+}
+
+/** Placeholders the steps use without an earlier step extracting them */
+export function collectRequiredVariables(
+  scenarios: ImportedScenario[],
+  defaults: Map<string, string> = new Map()
+): ImportVariable[] {
+  const names = new Set<string>()
+  for (const scenario of scenarios) {
+    for (const issue of analyzeVariableFlow(scenario.steps).issues) {
+      if (issue.kind === 'unknown' || issue.kind === 'used-before-defined') names.add(issue.name)
+    }
+  }
+  return [...names]
+    .sort((a, b) => a.localeCompare(b))
+    .map((name) => ({ name, value: defaults.get(name) ?? null }))
+}
+
+/** Scenario names within one import are made unique with a numeric suffix */
+export function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name
+  for (let suffix = 2; used.has(candidate); suffix++) candidate = `${name} (${String(suffix)})`
+  used.add(candidate)
+  return candidate
+}
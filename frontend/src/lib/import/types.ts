@@ -0,0 +1,37 @@
+import type { TestStep } from '@/api/types'
+
+export type ImportFormat = 'postman' | 'har'
+
+/** Scenario converted from an import file, not yet saved */
+export interface ImportedScenario {
+  /** Stable within one import, for selection */
+  key: string
+  name: string
+  description: string | null
+  /** Folder path in the collection, or the page title of a HAR capture */
+  folder: string[]
+  steps: TestStep[]
+  tags: string[]
+  /** Parts of the source that could not be converted */
+  warnings: string[]
+}
+
+export interface ImportVariable {
+  name: string
+  /** Default from the collection, when it has one */
+  value: string | null
+}
+
+export interface ScenarioImport {
+  format: ImportFormat
+  /** Collection name or HAR file title */
+  name: string
+  scenarios: ImportedScenario[]
+  /** Placeholders no imported step extracts; they must come from an environment */
+  variables: ImportVariable[]
+}
+
+export interface ScenarioImportOptions {
+  /** Package base URL; requests to its origin become relative endpoints */
+  baseUrl?: string | undefined
+}
@@ -0,0 +1,271 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react'
+import { useQueries } from '@tanstack/react-query'
+import { useNavigate } from '@tanstack/react-router'
+import { packagesApi, runsApi } from '@/api'
+import type { QaPackage, TestRun } from '@/api/types'
+import { packageKeys } from '@/hooks/usePackages'
+import { runKeys } from '@/hooks/useRuns'
+import { useLiveRunStreams } from '@/hooks/useRunEvents'
+import { useAuth } from '@/lib/auth'
+import { getCurrentWorkspaceId } from '@/lib/workspace'
+import {
+  EMPTY_NOTIFICATION_STATE,
+  addNotification,
+  generationFinishedNotification,
+  isGenerationFinished,
+  isRunFinished,
+  isWatchExpired,
+  loadNotificationState,
+  runFinishedNotification,
+  storeNotificationState,
+  type AppNotification,
+  type NotificationState,
+  type WatchedJob,
+} from './inbox'
+import {
+  getBrowserNotificationPermission,
+  requestBrowserNotificationPermission,
+  showBrowserNotification,
+  type BrowserNotificationPermission,
+} from './browser'
+
+const POLL_INTERVAL_MS = 5000
+
+export interface NotificationContextType {
+  /** Newest first */
+  notifications: AppNotification[]
+  unreadCount: number
+  markRead: (id: string) => void
+  markAllRead: () => void
+  clearNotifications: () => void
+  /** Notifies the user when a run they started finishes */
+  watchRun: (run: TestRun, packageName: string) => void
+  /** Notifies the user when scenario generation they started finishes */
+  watchGeneration: (pkg: QaPackage) => void
+  /** Whether finished runs also raise a browser notification */
+  browserAlerts: boolean
+  browserPermission: BrowserNotificationPermission
+  /** Asks for the browser permission when enabling; resolves once the choice is stored */
+  setBrowserAlerts: (enabled: boolean) => Promise<void>
+}
+
+// Outside the provider (e.g. in component tests) nothing is watched or recorded
+const NotificationContext = createContext<NotificationContextType>({
+  notifications: [],
+  unreadCount: 0,
+  markRead: () => undefined,
+  markAllRead: () => undefined,
+  clearNotifications: () => undefined,
+  watchRun: () => undefined,
+  watchGeneration: () => undefined,
+  browserAlerts: false,
+  browserPermission: 'unsupported',
+  setBrowserAlerts: () => Promise.resolve(),
+})
+
+interface NotificationProviderProps {
+  children: ReactNode
+}
+
+export function NotificationProvider({ children }: NotificationProviderProps) {
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+
+  // Keyed so each user gets their own notifications and read state
+  return (
+    <UserNotificationProvider key={userId ?? 'anonymous'} userId={userId}>
+      {children}
+    </UserNotificationProvider>
+  )
+}
+
+function UserNotificationProvider({
+  userId,
+  children,
+}: NotificationProviderProps & { userId: string | null }) {
+  const navigate = useNavigate()
+  const [state, setState] = useState<NotificationState>(() => {
+    const stored = userId ? loadNotificationState(userId) : EMPTY_NOTIFICATION_STATE
+    return { ...stored, watching: stored.watching.filter((job) => !isWatchExpired(job)) }
+  })
+  const [browserPermission, setBrowserPermission] = useState(getBrowserNotificationPermission)
+
+  useEffect(() => {
+    if (userId) storeNotificationState(userId, state)
+  }, [userId, state])
+
+  // Jobs of other workspaces are picked up again when the user switches back to them
+  const workspaceId = getCurrentWorkspaceId()
+  const activeJobs = state.watching.filter((job) => job.workspaceId === workspaceId)
+
+  const runJobs = activeJobs.filter((job) => job.type === 'run')
+  const generationJobs = activeJobs.filter((job) => job.type === 'generation')
+
+  // A run open on its detail page streams into the same cache entry, so polling it is redundant
+  const liveRunIds = useLiveRunStreams()
+  const runPollInterval = (runId: string): number | false =>
+    liveRunIds.has(runId) ? false : POLL_INTERVAL_MS
+  const runs = useQueries({
+    queries: runJobs.map((job) => ({
+      queryKey: runKeys.detail(job.runId),
+      queryFn: ({ signal }: { signal: AbortSignal }) => runsApi.get(job.runId, signal),
+      refetchInterval: runPollInterval(job.runId),
+    })),
+  })
+  const packages = useQueries({
+    queries: generationJobs.map((job) => ({
+      queryKey: packageKeys.detail(job.packageId),
+      queryFn: ({ signal }: { signal: AbortSignal }) => packagesApi.get(job.packageId, signal),
+      refetchInterval: POLL_INTERVAL_MS,
+    })),
+  })
+
+  const markRead = useCallback((id: string) => {
+    setState((prev) => ({
+      ...prev,
+      notifications: prev.notifications.map((n) => (n.id === id ? { ...n, read: true } : n)),
+    }))
+  }, [])
+
+  const finished: { job: WatchedJob; notification: AppNotification }[] = [
+    ...runJobs.flatMap((job, index) => {
+      const run = runs[index]?.data
+      return run && isRunFinished(run)
+        ? [{ job, notification: runFinishedNotification(run, job) }]
+        : []
+    }),
+    ...generationJobs.flatMap((job, index) => {
+      const pkg = packages[index]?.data
+      return pkg && isGenerationFinished(pkg)
+        ? [{ job, notification: generationFinishedNotification(pkg, job) }]
+        : []
+    }),
+  ]
+  const finishedKey = finished.map(({ notification }) => notification.id).join(',')
+
+  useEffect(() => {
+    if (finished.length === 0) return
+
+    setState((prev) => ({
+      ...prev,
+      notifications: finished.reduce(
+        (notifications, { notification }) => addNotification(notifications, notification),
+        prev.notifications
+      ),
+      watching: prev.watching.filter(
+        (job) =>
+          !finished.some(
+            (f) => f.job.startedAt === job.startedAt && f.job.packageId === job.packageId
+          )
+      ),
+    }))
+
+    if (!state.browserAlerts) return
+    finished.forEach(({ notification }) => {
+      const { runId } = notification
+      if (runId === null) return
+      showBrowserNotification(notification.title, {
+        body: notification.message,
+        tag: notification.id,
+        onClick: () => {
+          markRead(notification.id)
+          void navigate({ to: '/runs/$runId', params: { runId } })
+        },
+      })
+    })
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- finishedKey identifies `finished`, which is rebuilt on every render
+  }, [finishedKey])
+
+  const watchRun = useCallback((run: TestRun, packageName: string) => {
+    setState((prev) => ({
+      ...prev,
+      watching: [
+        ...prev.watching.filter((job) => job.type !== 'run' || job.runId !== run.id),
+        {
+          type: 'run',
+          runId: run.id,
+          packageId: run.packageId,
+          packageName,
+          workspaceId: getCurrentWorkspaceId(),
+          startedAt: new Date().toISOString(),
+        },
+      ],
+    }))
+  }, [])
+
+  const watchGeneration = useCallback((pkg: QaPackage) => {
+    setState((prev) => ({
+      ...prev,
+      watching: [
+        ...prev.watching.filter((job) => job.type !== 'generation' || job.packageId !== pkg.id),
+        {
+          type: 'generation',
+          packageId: pkg.id,
+          packageName: pkg.name,
+          workspaceId: getCurrentWorkspaceId(),
+          startedAt: new Date().toISOString(),
+        },
+      ],
+    }))
+  }, [])
+
+  const markAllRead = useCallback(() => {
+    setState((prev) => ({
+      ...prev,
+      notifications: prev.notifications.map((n) => ({ ...n, read: true })),
+    }))
+  }, [])
+
+  const clearNotifications = useCallback(() => {
+    setState((prev) => ({ ...prev, notifications: [] }))
+  }, [])
+
+  const setBrowserAlerts = useCallback(async (enabled: boolean) => {
+    const permission = enabled
+      ? await requestBrowserNotificationPermission()
+      : getBrowserNotificationPermission()
+    setBrowserPermission(permission)
+    setState((prev) => ({ ...prev, browserAlerts: enabled && permission === 'granted' }))
+  }, [])
+
+  const value = useMemo<NotificationContextType>(
+    () => ({
+      notifications: state.notifications,
+      unreadCount: state.notifications.filter((n) => !n.read).length,
+      markRead,
+      markAllRead,
+      clearNotifications,
+      watchRun,
+      watchGeneration,
+      browserAlerts: state.browserAlerts && browserPermission === 'granted',
+      browserPermission,
+      setBrowserAlerts,
+    }),
+    [
+      state.notifications,
+      state.browserAlerts,
+      browserPermission,
+      markRead,
+      markAllRead,
+      clearNotifications,
+      watchRun,
+      watchGeneration,
+      setBrowserAlerts,
+    ]
+  )
+
+  return <NotificationContext.Provider value={value}>{children}</NotificationContext.Provider>
+}
+
+// eslint-disable-next-line react-refresh/only-export-components
+export function useNotifications(): NotificationContextType {
+  return useContext(NotificationContext)
+}
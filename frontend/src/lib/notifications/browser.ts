@@ -0,0 +1,28 @@
+export type BrowserNotificationPermission = NotificationPermission | 'unsupported'
+
+export function getBrowserNotificationPermission(): BrowserNotificationPermission {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+}
+
+export async function requestBrowserNotificationPermission(): Promise<BrowserNotificationPermission> {
+  if (typeof Notification === 'undefined') return 'unsupported'
+  return Notification.requestPermission()
+}
+
+/**
+ * Shows a system notification when the user granted the permission; clicking it focuses the
+ * app before calling `onClick`
+ */
+export function showBrowserNotification(
+  title: string,
+  { body, tag, onClick }: { body: string; tag: string; onClick: () => void }
+): void {
+  if (getBrowserNotificationPermission() !== 'granted') return
+
+  const notification = new Notification(title, { body, tag })
+  notification.onclick = () => {
+    window.focus()
+    onClick()
+    notification.close()
+  }
+}
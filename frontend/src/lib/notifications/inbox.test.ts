@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import {
+  MAX_NOTIFICATIONS,
+  addNotification,
+  isWatchExpired,
+  loadNotificationState,
+  runFinishedNotification,
+  type WatchedJob,
+} from './inbox'
+import { mockTestRun, mockTestRunSummary } from '@/test/mocks'
+
+const job = { packageName: 'Users API', workspaceId: 'payments' }
+
+describe('runFinishedNotification', () => {
+  it('reports passed, failed and cancelled runs', () => {
+    const passed = { ...mockTestRun, summary: { ...mockTestRunSummary, failedScenarios: 0 } }
+    expect(runFinishedNotification(passed, job)).toMatchObject({
+      id: 'run-run-1',
+      title: 'Run passed',
+      failed: false,
+      read: false,
+    })
+    expect(runFinishedNotification(mockTestRun, job).title).toBe('Run failed')
+    expect(runFinishedNotification({ ...mockTestRun, status: 'CANCELLED' }, job)).toMatchObject({
+      title: 'Run cancelled',
+      failed: true,
+    })
+  })
+})
+
+describe('addNotification', () => {
+  it('keeps the newest entries without duplicates', () => {
+    const first = runFinishedNotification(mockTestRun, job)
+    const many = Array.from({ length: MAX_NOTIFICATIONS }, (_, i) => ({
+      ...first,
+      id: `run-${String(i)}`,
+    }))
+
+    const result = addNotification(many, { ...first, id: 'run-3', read: false })
+
+    expect(result).toHaveLength(MAX_NOTIFICATIONS)
+    expect(result[0]?.id).toBe('run-3')
+    expect(result.filter((n) => n.id === 'run-3')).toHaveLength(1)
+  })
+})
+
+describe('isWatchExpired', () => {
+  it('gives up on jobs after a day', () => {
+    const watched: WatchedJob = {
+      type: 'generation',
+      packageId: 'pkg-1',
+      packageName: 'Users API',
+      workspaceId: null,
+      startedAt: '2026-01-15T10:00:00Z',
+    }
+    expect(isWatchExpired(watched, new Date('2026-01-16T09:00:00Z'))).toBe(false)
+    expect(isWatchExpired(watched, new Date('2026-01-16T11:00:00Z'))).toBe(true)
+  })
+})
+
+describe('loadNotificationState', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('falls back to an empty center for missing or malformed data', () => {
+    expect(loadNotificationState('user-1').notifications).toEqual([])
+
+    localStorage.setItem('qawave.notifications.user-1', '{"notifications":"x","browserAlerts":1}')
+    expect(loadNotificationState('user-1')).toEqual({
+      notifications: [],
+      watching: [],
+      browserAlerts: false,
+    })
+  })
+})
@@ -0,0 +1,153 @@
+import type { QaPackage, TestRun } from '@/api/types'
+
+export type AppNotificationKind = 'RUN_FINISHED' | 'GENERATION_FINISHED'
+
+/** Entry of the in-app notification center */
+export interface AppNotification {
+  id: string
+  kind: AppNotificationKind
+  title: string
+  message: string
+  /** Set for run events, which link to the run; generation events link to the package */
+  runId: string | null
+  packageId: string
+  /** Workspace the run or package belongs to */
+  workspaceId: string | null
+  createdAt: string
+  /** Whether the event was a failure, for the icon */
+  failed: boolean
+  read: boolean
+}
+
+/** Run or scenario generation the user started and is waiting for */
+export type WatchedJob =
+  | {
+      type: 'run'
+      runId: string
+      packageId: string
+      packageName: string
+      workspaceId: string | null
+      startedAt: string
+    }
+  | {
+      type: 'generation'
+      packageId: string
+      packageName: string
+      workspaceId: string | null
+      startedAt: string
+    }
+
+export interface NotificationState {
+  notifications: AppNotification[]
+  watching: WatchedJob[]
+  /** Whether the user opted in to browser notifications when their runs finish */
+  browserAlerts: boolean
+}
+
+export const EMPTY_NOTIFICATION_STATE: NotificationState = {
+  notifications: [],
+  watching: [],
+  browserAlerts: false,
+}
+
+/** Oldest notifications are dropped beyond this */
+export const MAX_NOTIFICATIONS = 50
+
+// Jobs that never report back (e.g. the backend restarted) stop being polled after a day
+const WATCH_TTL_MS = 24 * 60 * 60 * 1000
+
+const STORAGE_KEY_PREFIX = 'qawave.notifications'
+
+export function isRunFinished(run: TestRun): boolean {
+  return run.status === 'COMPLETED' || run.status === 'CANCELLED'
+}
+
+/** Generation is over once the package leaves the draft and generating states */
+export function isGenerationFinished(pkg: QaPackage): boolean {
+  return pkg.status !== 'DRAFT' && pkg.status !== 'GENERATING'
+}
+
+export function isWatchExpired(job: WatchedJob, now: Date = new Date()): boolean {
+  return now.getTime() - new Date(job.startedAt).getTime() > WATCH_TTL_MS
+}
+
+export function runFinishedNotification(
+  run: TestRun,
+  job: Pick<WatchedJob, 'packageName' | 'workspaceId'>,
+  now: Date = new Date()
+): AppNotification {
+  const { passedScenarios, failedScenarios, totalScenarios } = run.summary
+  const cancelled = run.status === 'CANCELLED'
+  const failed = !cancelled && failedScenarios > 0
+  const passed = `${String(passedScenarios)}/${String(totalScenarios)}`
+
+  return {
+    id: `run-${run.id}`,
+    kind: 'RUN_FINISHED',
+    title: cancelled ? 'Run cancelled' : failed ? 'Run failed' : 'Run passed',
+    message: `${job.packageName}: ${passed} scenarios passed`,
+    runId: run.id,
+    packageId: run.packageId,
+    workspaceId: job.workspaceId,
+    createdAt: run.completedAt ?? now.toISOString(),
+    failed: failed || cancelled,
+    read: false,
+  }
+}
+
+export function generationFinishedNotification(
+  pkg: QaPackage,
+  job: Pick<WatchedJob, 'workspaceId' | 'startedAt'>,
+  now: Date = new Date()
+): AppNotification {
+  const failed = pkg.status === 'FAILED'
+
+  return {
+    id: `generation-${pkg.id}-${job.startedAt}`,
+    kind: 'GENERATION_FINISHED',
+    title: failed ? 'Scenario generation failed' : 'Scenarios generated',
+    message: failed ? pkg.name : `${pkg.name} is ready to run`,
+    runId: null,
+    packageId: pkg.id,
+    workspaceId: job.workspaceId,
+    createdAt: now.toISOString(),
+    failed,
+    read: false,
+  }
+}
+
+/** Newest first, without duplicates, capped at MAX_NOTIFICATIONS */
+export function addNotification(
+  notifications: AppNotification[],
+  notification: AppNotification
+): AppNotification[] {
+  return [notification, ...notifications.filter((n) => n.id !== notification.id)].slice(
+    0,
+    MAX_NOTIFICATIONS
+  )
+}
+
+const storageKey = (userId: string) => `${STORAGE_KEY_PREFIX}.${userId}`
+
+export function loadNotificationState(userId: string): NotificationState {
+  try {
+    const stored = localStorage.getItem(storageKey(userId))
+    if (!stored) return EMPTY_NOTIFICATION_STATE
+    const parsed = JSON.parse(stored) as Partial<NotificationState>
+    return {
+      notifications: Array.isArray(parsed.notifications) ? parsed.notifications : [],
+      watching: Array.isArray(parsed.watching) ? parsed.watching : [],
+      browserAlerts: parsed.browserAlerts === true,
+    }
+  } catch {
+    return EMPTY_NOTIFICATION_STATE
+  }
+}
+
+export function storeNotificationState(userId: string, state: NotificationState): void {
+  try {
+    localStorage.setItem(storageKey(userId), JSON.stringify(state))
+  } catch {
+    // Storage can be unavailable (private mode); the center then lasts for this session
+  }
+}
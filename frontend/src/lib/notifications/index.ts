@@ -0,0 +1,28 @@
+export {
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_TYPE_LABELS,
+  buildWebhookPayload,
+  calculatePassRate,
+  createSampleRun,
+  getTriggeredEvents,
+  isWebhookUrl,
+  parseWebhookHeaders,
+  type WebhookPayload,
+} from './webhooks'
+export { NotificationProvider, useNotifications } from './NotificationProvider'
+export type { NotificationContextType } from './NotificationProvider'
+export {
+  MAX_NOTIFICATIONS,
+  addNotification,
+  generationFinishedNotification,
+  loadNotificationState,
+  runFinishedNotification,
+  storeNotificationState,
+  type AppNotification,
+  type AppNotificationKind,
+  type NotificationState,
+  type WatchedJob,
+} from './inbox'
+export { getBrowserNotificationPermission, type BrowserNotificationPermission } from './browser'
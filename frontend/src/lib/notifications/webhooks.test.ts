@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildWebhookPayload,
+  calculatePassRate,
+  getTriggeredEvents,
+  isWebhookUrl,
+  parseWebhookHeaders,
+} from './webhooks'
+import { mockTestRun } from '@/test/mocks'
+import type { TestRun } from '@/api/types'
+
+const allEvents = {
+  events: ['RUN_COMPLETED', 'RUN_FAILED', 'PASS_RATE_BELOW_THRESHOLD'] as const,
+  passRateThreshold: 75,
+}
+
+const passingRun: TestRun = {
+  ...mockTestRun,
+  summary: { ...mockTestRun.summary, passedScenarios: 2, failedScenarios: 0 },
+}
+
+describe('calculatePassRate', () => {
+  it('ignores skipped scenarios and rounds to one decimal', () => {
+    expect(
+      calculatePassRate({
+        totalScenarios: 4,
+        passedScenarios: 2,
+        failedScenarios: 1,
+        skippedScenarios: 1,
+        duration: 0,
+      })
+    ).toBe(66.7)
+  })
+
+  it('is null when nothing ran', () => {
+    expect(
+      calculatePassRate({
+        totalScenarios: 1,
+        passedScenarios: 0,
+        failedScenarios: 0,
+        skippedScenarios: 1,
+        duration: 0,
+      })
+    ).toBeNull()
+  })
+})
+
+describe('getTriggeredEvents', () => {
+  const webhook = { ...allEvents, events: [...allEvents.events] }
+
+  it('fires every matching event for a failing run', () => {
+    expect(getTriggeredEvents(mockTestRun, webhook)).toEqual([
+      'RUN_COMPLETED',
+      'RUN_FAILED',
+      'PASS_RATE_BELOW_THRESHOLD',
+    ])
+  })
+
+  it('only reports completion for a passing run', () => {
+    expect(getTriggeredEvents(passingRun, webhook)).toEqual(['RUN_COMPLETED'])
+  })
+
+  it('compares the pass rate strictly against the threshold', () => {
+    expect(getTriggeredEvents(mockTestRun, { ...webhook, passRateThreshold: 50 })).not.toContain(
+      'PASS_RATE_BELOW_THRESHOLD'
+    )
+  })
+
+  it('leaves coverage breaches to the coverage checks', () => {
+    expect(
+      getTriggeredEvents(mockTestRun, { ...webhook, events: ['COVERAGE_THRESHOLD_BREACH'] })
+    ).toEqual([])
+  })
+
+  it('ignores cancelled and unfinished runs', () => {
+    expect(getTriggeredEvents({ ...mockTestRun, status: 'CANCELLED' }, webhook)).toEqual([])
+    expect(getTriggeredEvents({ ...mockTestRun, status: 'RUNNING' }, webhook)).toEqual([])
+  })
+})
+
+describe('buildWebhookPayload', () => {
+  it('summarizes the run with its failures', () => {
+    const payload = buildWebhookPayload(
+      'RUN_FAILED',
+      { ...mockTestRun, environment: { id: 'env-1', name: 'staging', baseUrl: 'https://x' } },
+      { id: 'pkg-1', name: 'Users API' },
+      new Date('2026-01-15T11:00:16Z')
+    )
+
+    expect(payload).toEqual({
+      event: 'RUN_FAILED',
+      timestamp: '2026-01-15T11:00:16.000Z',
+      data: {
+        package: { id: 'pkg-1', name: 'Users API' },
+        run: {
+          id: 'run-1',
+          status: 'COMPLETED',
+          startedAt: mockTestRun.startedAt,
+          completedAt: mockTestRun.completedAt,
+          environment: 'staging',
+          summary: mockTestRun.summary,
+          passRate: 50,
+          failedScenarios: [
+            { id: 'scenario-2', name: 'Get Users List', error: 'Connection timeout' },
+          ],
+        },
+      },
+    })
+  })
+})
+
+describe('isWebhookUrl', () => {
+  it('accepts absolute http(s) URLs only', () => {
+    expect(isWebhookUrl('http://webhook-capture:8080/qawave')).toBe(true)
+    expect(isWebhookUrl('https://hooks.example.com/x')).toBe(true)
+    expect(isWebhookUrl('ftp://example.com')).toBe(false)
+    expect(isWebhookUrl('/relative')).toBe(false)
+  })
+})
+
+describe('parseWebhookHeaders', () => {
+  it('reads one header per line and skips blank lines', () => {
+    expect(parseWebhookHeaders('Authorization: Bearer a:b\n\n X-Team : qa ')).toEqual({
+      Authorization: 'Bearer a:b',
+      'X-Team': 'qa',
+    })
+    expect(parseWebhookHeaders('')).toEqual({})
+  })
+
+  it('rejects lines that are not headers', () => {
+    expect(parseWebhookHeaders('Authorization Bearer a')).toBeNull()
+    expect(parseWebhookHeaders(': value')).toBeNull()
+    expect(parseWebhookHeaders('Bad Name: value')).toBeNull()
+  })
+})
@@ -0,0 +1,186 @@
+import type {
+  TestRun,
+  TestRunStatus,
+  TestRunSummary,
+  WebhookConfig,
+  WebhookEvent,
+  WebhookType,
+} from '@/api/types'
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  RUN_COMPLETED: 'Run completed',
+  RUN_FAILED: 'Run failed',
+  COVERAGE_THRESHOLD_BREACH: 'Coverage below threshold',
+  PASS_RATE_BELOW_THRESHOLD: 'Pass rate dropped',
+}
+
+/** Events a package webhook can subscribe to; editing keeps any other event it already has */
+export const WEBHOOK_EVENTS: { event: WebhookEvent; label: string; description: string }[] = [
+  {
+    event: 'RUN_COMPLETED',
+    label: WEBHOOK_EVENT_LABELS.RUN_COMPLETED,
+    description: 'Every finished run',
+  },
+  {
+    event: 'RUN_FAILED',
+    label: WEBHOOK_EVENT_LABELS.RUN_FAILED,
+    description: 'Runs with at least one failure',
+  },
+  {
+    event: 'PASS_RATE_BELOW_THRESHOLD',
+    label: WEBHOOK_EVENT_LABELS.PASS_RATE_BELOW_THRESHOLD,
+    description: 'Runs whose pass rate is below the threshold',
+  },
+]
+
+export const WEBHOOK_TYPE_LABELS: Record<WebhookType, string> = {
+  GENERIC: 'Generic JSON',
+  SLACK: 'Slack',
+  EMAIL: 'Email',
+}
+
+/** Attempts the backend makes before a delivery fails for good */
+export const WEBHOOK_MAX_ATTEMPTS = 3
+
+/** Body the backend POSTs to generic targets; Slack targets get it inside a message block */
+export interface WebhookPayload {
+  event: WebhookEvent
+  timestamp: string
+  data: {
+    package: { id: string; name: string }
+    run: {
+      id: string
+      status: TestRunStatus
+      startedAt: string | null
+      completedAt: string | null
+      environment: string | null
+      summary: TestRunSummary
+      /** Passed share of the executed scenarios in percent; null when none ran */
+      passRate: number | null
+      failedScenarios: { id: string; name: string; error: string | null }[]
+    }
+  }
+}
+
+/** Webhook targets must be absolute http(s) URLs */
+export function isWebhookUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Parses one `Name: value` header per line; null when a line is not a header
+ */
+export function parseWebhookHeaders(text: string): Record<string, string> | null {
+  const headers: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue
+    const separator = line.indexOf(':')
+    const name = line.slice(0, separator).trim()
+    if (separator < 0 || !/^[!#$%&'*+.^`|~\w-]+$/.test(name)) return null
+    headers[name] = line.slice(separator + 1).trim()
+  }
+  return headers
+}
+
+export function calculatePassRate(summary: TestRunSummary): number | null {
+  const executed = summary.passedScenarios + summary.failedScenarios
+  if (executed === 0) return null
+  return Math.round((summary.passedScenarios / executed) * 1000) / 10
+}
+
+/**
+ * Events of the webhook that a run triggers; cancelled and unfinished runs trigger none
+ */
+export function getTriggeredEvents(
+  run: TestRun,
+  webhook: Pick<WebhookConfig, 'events' | 'passRateThreshold'>
+): WebhookEvent[] {
+  if (run.status !== 'COMPLETED') return []
+  const passRate = calculatePassRate(run.summary)
+
+  return webhook.events.filter((event) => {
+    switch (event) {
+      case 'RUN_COMPLETED':
+        return true
+      case 'RUN_FAILED':
+        return run.summary.failedScenarios > 0
+      case 'COVERAGE_THRESHOLD_BREACH':
+        // Raised by coverage checks, not by the outcome of a run
+        return false
+      case 'PASS_RATE_BELOW_THRESHOLD':
+        return (
+          passRate !== null &&
+          webhook.passRateThreshold !== null &&
+          passRate < webhook.passRateThreshold
+        )
+    }
+  })
+}
+
+export function buildWebhookPayload(
+  event: WebhookEvent,
+  run: TestRun,
+  pkg: { id: string; name: string },
+  deliveredAt: Date = new Date()
+): WebhookPayload {
+  return {
+    event,
+    timestamp: deliveredAt.toISOString(),
+    data: {
+      package: { id: pkg.id, name: pkg.name },
+      run: {
+        id: run.id,
+        status: run.status,
+        startedAt: run.startedAt,
+        completedAt: run.completedAt,
+        environment: run.environment?.name ?? null,
+        summary: run.summary,
+        passRate: calculatePassRate(run.summary),
+        failedScenarios: run.scenarioResults
+          .filter((result) => result.status === 'FAILED')
+          .map((result) => ({
+            id: result.scenarioId,
+            name: result.scenarioName,
+            error: result.error,
+          })),
+      },
+    },
+  }
+}
+
+/** Stand-in run for previewing payloads of packages that have not run yet */
+export function createSampleRun(packageId: string): TestRun {
+  return {
+    id: '00000000-0000-0000-0000-000000000000',
+    packageId,
+    status: 'COMPLETED',
+    startedAt: '2024-01-01T02:00:00Z',
+    completedAt: '2024-01-01T02:01:30Z',
+    environment: null,
+    replayOf: null,
+    options: null,
+    scenarioResults: [
+      {
+        scenarioId: 'sample-scenario',
+        scenarioName: 'Create user returns 201',
+        status: 'FAILED',
+        scenarioVersion: null,
+        stepResults: [],
+        duration: 1200,
+        error: 'Expected status 201 but got 500',
+      },
+    ],
+    summary: {
+      totalScenarios: 10,
+      passedScenarios: 9,
+      failedScenarios: 1,
+      skippedScenarios: 0,
+      duration: 90000,
+    },
+  }
+}
@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'vitest'
+import { strToU8, zipSync } from 'fflate'
+import { bundleSpecFiles, findExternalRefs, readSpecFile, readZipSpecFiles } from './bundle'
+import { OpenApiParseError, parseOpenApiSpec } from './parseSpec'
+
+const entrySpec = `openapi: 3.0.3
+info:
+  title: Pet Store
+  version: 2.1.0
+paths:
+  /pets:
+    $ref: paths/pets.yaml
+components:
+  schemas:
+    Error:
+      type: object
+`
+
+const petsPath = `get:
+  responses:
+    '200':
+      description: Pets
+      content:
+        application/json:
+          schema:
+            type: array
+            items:
+              $ref: '../schemas.yaml#/Pet'
+`
+
+const schemas = `Pet:
+  type: object
+  properties:
+    category:
+      $ref: '#/Category'
+Category:
+  type: object
+  properties:
+    name:
+      type: string
+`
+
+const files = (entries: Record<string, string>) => new Map(Object.entries(entries))
+
+/** Value at a path of a bundled JSON document */
+function valueAt(source: string, ...path: string[]): unknown {
+  return path.reduce<unknown>(
+    (value, key) =>
+      typeof value === 'object' && value !== null
+        ? (value as Record<string, unknown>)[key]
+        : undefined,
+    JSON.parse(source)
+  )
+}
+
+describe('bundleSpecFiles', () => {
+  it('resolves references into other files relative to the referring file', () => {
+    const bundled = bundleSpecFiles(
+      files({ 'openapi.yaml': entrySpec, 'paths/pets.yaml': petsPath, 'schemas.yaml': schemas })
+    )
+
+    expect(bundled.entry).toBe('openapi.yaml')
+    expect(bundled.warnings).toEqual([])
+    const response = ['paths', '/pets', 'get', 'responses', '200', 'content', 'application/json']
+    expect(valueAt(bundled.source, ...response, 'schema', 'type')).toBe('array')
+    expect(valueAt(bundled.source, ...response, 'schema', 'items')).toEqual({
+      $ref: '#/components/schemas/Pet',
+    })
+    const components = ['components', 'schemas']
+    expect(Object.keys(valueAt(bundled.source, ...components) as object)).toEqual([
+      'Error',
+      'Pet',
+      'Category',
+    ])
+    expect(valueAt(bundled.source, ...components, 'Pet', 'properties', 'category')).toEqual({
+      $ref: '#/components/schemas/Category',
+    })
+    expect(parseOpenApiSpec(bundled.source).operations).toHaveLength(1)
+  })
+
+  it('defines a schema once however often other files refer to it', () => {
+    const bundled = bundleSpecFiles(
+      files({
+        'openapi.yaml': `swagger: "2.0"
+paths:
+  /pets:
+    $ref: paths/pets.yaml
+definitions:
+  Owner:
+    type: object
+`,
+        'paths/pets.yaml': `get:
+  responses:
+    '200':
+      schema:
+        $ref: '../schemas.yaml#/Pet'
+post:
+  parameters:
+    - in: body
+      name: pet
+      schema:
+        $ref: '../schemas.yaml#/Pet'
+`,
+        'schemas.yaml': `Pet:
+  type: object
+  properties:
+    owner:
+      $ref: 'openapi.yaml#/definitions/Owner'
+`,
+      })
+    )
+
+    const pet = { $ref: '#/definitions/Pet' }
+    const path = ['paths', '/pets']
+    expect(valueAt(bundled.source, ...path, 'get', 'responses', '200', 'schema')).toEqual(pet)
+    expect(valueAt(bundled.source, ...path, 'post', 'parameters', '0', 'schema')).toEqual(pet)
+    expect(Object.keys(valueAt(bundled.source, 'definitions') as object)).toEqual(['Owner', 'Pet'])
+    expect(valueAt(bundled.source, 'definitions', 'Pet', 'properties', 'owner')).toEqual({
+      $ref: '#/definitions/Owner',
+    })
+  })
+
+  it('finds the entry by its openapi field, preferring the shallowest file', () => {
+    const bundled = bundleSpecFiles(
+      files({
+        'schemas.yaml': schemas,
+        'api/v1/openapi.yaml': 'openapi: 3.0.3\npaths: {}\n',
+        'api/openapi.yaml': 'swagger: "2.0"\npaths: {}\n',
+      })
+    )
+
+    expect(bundled.entry).toBe('api/openapi.yaml')
+  })
+
+  it('moves recursive schemas into the components and references them locally', () => {
+    const bundled = bundleSpecFiles(
+      files({
+        'openapi.json': JSON.stringify({
+          openapi: '3.0.3',
+          paths: {},
+          components: { schemas: { Node: { $ref: 'node.json' } } },
+        }),
+        'node.json': JSON.stringify({
+          type: 'object',
+          properties: { children: { type: 'array', items: { $ref: 'node.json' } } },
+        }),
+      })
+    )
+
+    const schemas = ['components', 'schemas']
+    expect(valueAt(bundled.source, ...schemas, 'Node')).toEqual({
+      $ref: '#/components/schemas/node',
+    })
+    expect(valueAt(bundled.source, ...schemas, 'node', 'properties', 'children', 'items')).toEqual({
+      $ref: '#/components/schemas/node',
+    })
+  })
+
+  it('keeps unresolved and remote references with a warning', () => {
+    const bundled = bundleSpecFiles(
+      files({
+        'openapi.yaml': `openapi: 3.0.3
+paths:
+  /a:
+    $ref: missing.yaml
+  /b:
+    $ref: https://example.com/paths.yaml
+`,
+      })
+    )
+
+    expect(bundled.warnings).toEqual([
+      'Unresolved reference missing.yaml in openapi.yaml',
+      'Remote reference https://example.com/paths.yaml in openapi.yaml was not downloaded',
+    ])
+    expect(valueAt(bundled.source, 'paths', '/a')).toEqual({ $ref: 'missing.yaml' })
+  })
+
+  it('rejects a set of files without an OpenAPI document', () => {
+    expect(() => bundleSpecFiles(files({ 'schemas.yaml': schemas }))).toThrow(OpenApiParseError)
+  })
+})
+
+describe('readZipSpecFiles', () => {
+  it('reads the spec files of an archive and skips everything else', () => {
+    const archive = zipSync({
+      'spec/openapi.yaml': strToU8(entrySpec),
+      'spec/README.md': strToU8('# Pets'),
+      '__MACOSX/spec/._openapi.yaml': strToU8('junk'),
+    })
+
+    expect([...readZipSpecFiles(archive).keys()]).toEqual(['spec/openapi.yaml'])
+  })
+
+  it('rejects data that is not a ZIP archive', () => {
+    expect(() => readZipSpecFiles(strToU8('not a zip'))).toThrow(OpenApiParseError)
+  })
+})
+
+describe('readSpecFile', () => {
+  it('bundles an uploaded ZIP archive', async () => {
+    const archive = zipSync({
+      'openapi.yaml': strToU8(entrySpec),
+      'paths/pets.yaml': strToU8(petsPath),
+      'schemas.yaml': strToU8(schemas),
+    })
+
+    const bundled = await readSpecFile(new File([archive], 'pets.zip'))
+
+    expect(parseOpenApiSpec(bundled.source).title).toBe('Pet Store')
+  })
+
+  it('warns when a single file refers to other files', async () => {
+    const bundled = await readSpecFile(new File([entrySpec], 'openapi.yaml'))
+
+    expect(bundled.source).toBe(entrySpec)
+    expect(bundled.warnings).toEqual([
+      'paths/pets.yaml points to another file; upload the spec as a ZIP to include it',
+    ])
+  })
+
+  it('rejects other file types', async () => {
+    await expect(readSpecFile(new File(['x'], 'spec.txt'))).rejects.toThrow(OpenApiParseError)
+  })
+})
+
+describe('findExternalRefs', () => {
+  it('ignores local references', () => {
+    expect(findExternalRefs(schemas)).toEqual([])
+    expect(findExternalRefs(petsPath)).toEqual(['../schemas.yaml#/Pet'])
+  })
+})
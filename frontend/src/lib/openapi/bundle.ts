@@ -0,0 +1,244 @@
+import { strFromU8, unzipSync } from 'fflate'
+import { parse as parseYaml } from 'yaml'
+import { readFile } from '@/lib/files'
+import { OpenApiParseError, resolveLocalRef } from './parseSpec'
+
+type JsonObject = Record<string, unknown>
+
+export interface BundledSpec {
+  /** Single-document spec as JSON */
+  source: string
+  /** File the bundle starts from */
+  entry: string
+  /** References that could not be resolved and were left as they are */
+  warnings: string[]
+}
+
+const SPEC_FILE_PATTERN = /\.(json|ya?ml)$/i
+
+/** Keys whose values are schemas, or maps of them, in OpenAPI 3 and Swagger 2.0 documents */
+const SCHEMA_KEYS = new Set(['schema', 'schemas', 'definitions'])
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Reads the JSON and YAML files of a ZIP archive, keyed by their path inside the archive
+ */
+export function readZipSpecFiles(data: Uint8Array): Map<string, string> {
+  let entries: Record<string, Uint8Array>
+  try {
+    entries = unzipSync(data, {
+      filter: (file) => SPEC_FILE_PATTERN.test(file.name) && !file.name.startsWith('__MACOSX/'),
+    })
+  } catch {
+    throw new OpenApiParseError('The file is not a readable ZIP archive')
+  }
+  return new Map(Object.entries(entries).map(([path, content]) => [path, strFromU8(content)]))
+}
+
+/**
+ * Combines a multi-file spec into one document. Schemas from other files are added to the
+ * components (definitions for Swagger 2.0) once and referenced locally wherever they are
+ * used; other references into other files are inlined. The entry is the file with an
+ * `openapi`/`swagger` field closest to the root.
+ */
+export function bundleSpecFiles(files: Map<string, string>): BundledSpec {
+  const documents = new Map<string, unknown>()
+  const load = (path: string): unknown => {
+    if (!documents.has(path)) {
+      const content = files.get(path)
+      documents.set(path, content === undefined ? undefined : parseFile(path, content))
+    }
+    return documents.get(path)
+  }
+
+  const entry = findEntry(files, load)
+  const root = load(entry)
+  if (!isObject(root)) {
+    throw new OpenApiParseError(`${entry} is not a JSON or YAML object`)
+  }
+
+  const warnings: string[] = []
+  const hoisted = new Map<string, { name: string; value: unknown }>()
+  const isSwagger2 = 'swagger' in root
+  const existingSchemas = isSwagger2
+    ? root.definitions
+    : isObject(root.components)
+      ? root.components.schemas
+      : undefined
+  const usedNames = new Set(isObject(existingSchemas) ? Object.keys(existingSchemas) : [])
+  const localRef = (name: string) =>
+    isSwagger2 ? `#/definitions/${name}` : `#/components/schemas/${name}`
+
+  const resolve = (value: unknown, file: string, inSchema: boolean, stack: string[]): unknown => {
+    if (Array.isArray(value)) return value.map((item) => resolve(item, file, inSchema, stack))
+    if (!isObject(value)) return value
+
+    const ref = value.$ref
+    if (typeof ref === 'string' && !(file === entry && ref.startsWith('#'))) {
+      if (/^[a-z][a-z0-9+.-]*:/i.test(ref)) {
+        warnings.push(`Remote reference ${ref} in ${file} was not downloaded`)
+        return value
+      }
+
+      const [filePart = '', pointer = ''] = ref.split('#')
+      const target = filePart ? joinPath(dirname(file), filePart) : file
+      const key = `${target}#${pointer}`
+
+      // The entry keeps its structure, so references back into it stay valid locally
+      if (target === entry && pointer) return { $ref: `#${pointer}` }
+
+      const known = inSchema ? hoisted.get(key) : undefined
+      if (known) return { $ref: localRef(known.name) }
+      if (stack.includes(key)) {
+        warnings.push(`Circular reference ${ref} in ${file} was left as it is`)
+        return value
+      }
+
+      const document = load(target)
+      const resolved = pointer ? pointerTarget(document, pointer) : document
+      if (resolved === undefined) {
+        warnings.push(`Unresolved reference ${ref} in ${file}`)
+        return value
+      }
+
+      if (!inSchema) return resolve(resolved, target, false, [...stack, key])
+
+      // Registered before resolving so recursive references find it
+      const hoist = { name: hoistedName(target, pointer, usedNames), value: undefined as unknown }
+      usedNames.add(hoist.name)
+      hoisted.set(key, hoist)
+      hoist.value = resolve(resolved, target, true, stack)
+      return { $ref: localRef(hoist.name) }
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([name, child]) => [
+        name,
+        resolve(child, file, inSchema || SCHEMA_KEYS.has(name), stack),
+      ])
+    )
+  }
+
+  const bundled = resolve(root, entry, false, []) as JsonObject
+  if (hoisted.size > 0) {
+    const schemas = Object.fromEntries(
+      [...hoisted.values()].map(({ name, value }) => [name, value])
+    )
+    if (isSwagger2) {
+      bundled.definitions = {
+        ...(isObject(bundled.definitions) ? bundled.definitions : {}),
+        ...schemas,
+      }
+    } else {
+      const components = isObject(bundled.components) ? bundled.components : {}
+      bundled.components = {
+        ...components,
+        schemas: { ...(isObject(components.schemas) ? components.schemas : {}), ...schemas },
+      }
+    }
+  }
+
+  return { source: JSON.stringify(bundled, null, 2), entry, warnings }
+}
+
+/**
+ * Reads an uploaded spec: JSON and YAML files as they are, ZIP archives bundled into one
+ * document
+ */
+export async function readSpecFile(file: File): Promise<BundledSpec> {
+  if (/\.zip$/i.test(file.name) || file.type === 'application/zip') {
+    const files = readZipSpecFiles(new Uint8Array(await readFile(file, 'arrayBuffer')))
+    return bundleSpecFiles(files)
+  }
+  if (!SPEC_FILE_PATTERN.test(file.name)) {
+    throw new OpenApiParseError('Upload a .json, .yaml, .yml or .zip file')
+  }
+
+  const source = await readFile(file, 'text')
+  const warnings = findExternalRefs(source).map(
+    (ref) => `${ref} points to another file; upload the spec as a ZIP to include it`
+  )
+  return { source, entry: file.name, warnings }
+}
+
+/** `$ref`s of a single document that point into other files, which it cannot resolve alone */
+export function findExternalRefs(source: string): string[] {
+  const refs = new Set<string>()
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit)
+    } else if (isObject(value)) {
+      if (typeof value.$ref === 'string' && !value.$ref.startsWith('#')) refs.add(value.$ref)
+      Object.values(value).forEach(visit)
+    }
+  }
+  try {
+    visit(parseFile('spec', source))
+  } catch {
+    return []
+  }
+  return [...refs]
+}
+
+function parseFile(path: string, content: string): unknown {
+  try {
+    return content.trim().startsWith('{') ? JSON.parse(content) : parseYaml(content)
+  } catch (error) {
+    throw new OpenApiParseError(
+      `${path}: ${error instanceof Error ? error.message : 'not valid JSON or YAML'}`
+    )
+  }
+}
+
+function findEntry(files: Map<string, string>, load: (path: string) => unknown): string {
+  const candidates = [...files.keys()]
+    .filter((path) => {
+      try {
+        const document = load(path)
+        return isObject(document) && ('openapi' in document || 'swagger' in document)
+      } catch {
+        return false
+      }
+    })
+    .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))
+
+  const [entry] = candidates
+  if (!entry) {
+    throw new OpenApiParseError('No file with an "openapi" or "swagger" field was found')
+  }
+  return entry
+}
+
+function pointerTarget(document: unknown, pointer: string): unknown {
+  if (!isObject(document)) return undefined
+  return pointer === '' || pointer === '/' ? document : resolveLocalRef(document, `#${pointer}`)
+}
+
+/** Schema name for a hoisted reference: the last pointer segment, else the file name */
+function hoistedName(file: string, pointer: string, usedNames: Set<string>): string {
+  const base =
+    pointer.split('/').filter(Boolean).pop() ??
+    (file.split('/').pop() ?? 'Schema').replace(SPEC_FILE_PATTERN, '')
+  let name = base
+  for (let suffix = 2; usedNames.has(name); suffix++) name = `${base}${String(suffix)}`
+  return name
+}
+
+function dirname(path: string): string {
+  const index = path.lastIndexOf('/')
+  return index === -1 ? '' : path.slice(0, index)
+}
+
+/** Joins a relative reference onto a directory, resolving `.` and `..` segments */
+function joinPath(directory: string, relative: string): string {
+  const segments: string[] = []
+  for (const segment of [...directory.split('/'), ...relative.split('/')]) {
+    if (segment === '' || segment === '.') continue
+    if (segment === '..') segments.pop()
+    else segments.push(segment)
+  }
+  return segments.join('/')
+}
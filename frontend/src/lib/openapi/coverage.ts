@@ -0,0 +1,140 @@
+import type { HttpMethod, Scenario } from '@/api/types'
+import { createOperationMatcher } from './matchOperation'
+import type { ParsedOpenApiSpec } from './types'
+
+export type CoverageStatus = 'covered' | 'failing' | 'untested'
+
+export interface OperationCoverage {
+  endpoint: string
+  method: HttpMethod
+  summary: string | null
+  status: CoverageStatus
+  scenarioCount: number
+  scenarios: Array<{ id: string; name: string; status: string }>
+}
+
+export interface CoverageStats {
+  total: number
+  covered: number
+  failing: number
+  untested: number
+  percentage: number
+}
+
+export interface OperationCoverageResult {
+  operations: OperationCoverage[]
+  stats: CoverageStats
+  /** Step endpoints that match no operation in the spec (always empty without a spec) */
+  unmatched: OperationCoverage[]
+}
+
+/**
+ * Compute per-operation coverage. With a spec, every spec operation is listed (untested when
+ * no scenario touches it) and percentages are relative to the spec; without one, operations
+ * are derived from the scenario steps alone.
+ */
+export function calculateOperationCoverage(
+  scenarios: Scenario[],
+  spec: Pick<ParsedOpenApiSpec, 'operations' | 'servers'> | null = null
+): OperationCoverageResult {
+  const useSpec = spec !== null && spec.operations.length > 0
+  const operationMap = new Map<string, OperationCoverage>()
+  const unmatchedMap = new Map<string, OperationCoverage>()
+
+  if (useSpec) {
+    spec.operations.forEach((operation) => {
+      operationMap.set(`${operation.method}:${operation.path}`, {
+        endpoint: operation.path,
+        method: operation.method,
+        summary: operation.summary,
+        status: 'untested',
+        scenarioCount: 0,
+        scenarios: [],
+      })
+    })
+  }
+
+  const matchOperation = useSpec ? createOperationMatcher(spec.operations, spec.servers) : null
+
+  scenarios.forEach((scenario) => {
+    scenario.steps.forEach((step) => {
+      let target: Map<string, OperationCoverage> = operationMap
+      let key = `${step.method}:${step.endpoint}`
+
+      if (matchOperation) {
+        const operation = matchOperation(step.method, step.endpoint)
+        if (operation) {
+          key = `${operation.method}:${operation.path}`
+        } else {
+          target = unmatchedMap
+        }
+      }
+
+      const existing = target.get(key) ?? {
+        endpoint: step.endpoint,
+        method: step.method,
+        summary: null,
+        status: 'untested' as CoverageStatus,
+        scenarioCount: 0,
+        scenarios: [],
+      }
+      target.set(key, existing)
+
+      // A scenario hitting the same operation in several steps counts once
+      if (existing.scenarios.some((s) => s.id === scenario.id)) return
+
+      existing.scenarioCount++
+      existing.scenarios.push({
+        id: scenario.id,
+        name: scenario.name,
+        status: scenario.status,
+      })
+
+      // Priority: covered > failing > untested
+      if (scenario.status === 'PASSED') {
+        existing.status = 'covered'
+      } else if (scenario.status === 'FAILED' && existing.status === 'untested') {
+        existing.status = 'failing'
+      }
+    })
+  })
+
+  const operations = Array.from(operationMap.values())
+  const covered = operations.filter((e) => e.status === 'covered').length
+  const failing = operations.filter((e) => e.status === 'failing').length
+  const untested = operations.filter((e) => e.status === 'untested').length
+  const total = operations.length
+  const percentage = total > 0 ? Math.round((covered / total) * 100) : 0
+
+  // Sort: failing first, then covered, then untested
+  const order: Record<CoverageStatus, number> = { failing: 0, covered: 1, untested: 2 }
+  operations.sort((a, b) => order[a.status] - order[b.status])
+
+  return {
+    operations,
+    stats: { total, covered, failing, untested, percentage },
+    unmatched: Array.from(unmatchedMap.values()),
+  }
+}
+
+/**
+ * Coverage of each scenario tag, counting only the scenarios that carry it. With a spec a tag's
+ * percentage is its share of the whole API; without one, of the operations its scenarios call.
+ */
+export function calculateTagCoverage(
+  scenarios: Scenario[],
+  spec: Pick<ParsedOpenApiSpec, 'operations' | 'servers'> | null = null
+): Map<string, CoverageStats> {
+  const tags = [...new Set(scenarios.flatMap((scenario) => scenario.tags))].sort((a, b) =>
+    a.localeCompare(b)
+  )
+  return new Map(
+    tags.map((tag) => [
+      tag,
+      calculateOperationCoverage(
+        scenarios.filter((scenario) => scenario.tags.includes(tag)),
+        spec
+      ).stats,
+    ])
+  )
+}
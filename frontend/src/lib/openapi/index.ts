@@ -0,0 +1,22 @@
+export { parseOpenApiSpec, resolveLocalRef, OpenApiParseError } from './parseSpec'
+export { createOperationMatcher, normalizeEndpoint } from './matchOperation'
+export { calculateOperationCoverage, calculateTagCoverage } from './coverage'
+export type {
+  CoverageStatus,
+  CoverageStats,
+  OperationCoverage,
+  OperationCoverageResult,
+} from './coverage'
+export { bundleSpecFiles, findExternalRefs, readSpecFile, readZipSpecFiles } from './bundle'
+export type { BundledSpec } from './bundle'
+export { diffOpenApiSpecs, findImpactedScenarios, hasSpecChanges } from './specDiff'
+export type {
+  ImpactedScenario,
+  OperationDiff,
+  OperationDiffStatus,
+  SpecChange,
+  SpecChangeArea,
+  SpecChangeSeverity,
+  SpecDiff,
+} from './specDiff'
+export type { ApiOperation, ParsedOpenApiSpec } from './types'
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { createOperationMatcher, normalizeEndpoint } from './matchOperation'
+import type { ApiOperation } from './types'
+
+const operation = (method: ApiOperation['method'], path: string): ApiOperation => ({
+  method,
+  path,
+  operationId: null,
+  summary: null,
+  tags: [],
+})
+
+const operations: ApiOperation[] = [
+  operation('GET', '/users'),
+  operation('GET', '/users/{id}'),
+  operation('GET', '/users/me'),
+  operation('DELETE', '/users/{id}'),
+  operation('GET', '/files/{name}.json'),
+]
+
+describe('normalizeEndpoint', () => {
+  it.each([
+    ['{baseUrl}/users', '/users'],
+    ['{{baseUrl}}/users/', '/users'],
+    ['https://api.example.com/users?page=1', '/users'],
+    ['users#top', '/users'],
+    ['/', '/'],
+  ])('normalizes %s to %s', (input, expected) => {
+    expect(normalizeEndpoint(input)).toBe(expected)
+  })
+})
+
+describe('createOperationMatcher', () => {
+  const match = createOperationMatcher(operations)
+
+  it('matches literal paths', () => {
+    expect(match('GET', '/users')?.path).toBe('/users')
+  })
+
+  it('matches concrete values against path parameters', () => {
+    expect(match('GET', '/users/42')?.path).toBe('/users/{id}')
+    expect(match('DELETE', '{baseUrl}/users/42')?.path).toBe('/users/{id}')
+  })
+
+  it('matches step placeholders against path parameters only', () => {
+    expect(match('GET', '/users/{userId}')?.path).toBe('/users/{id}')
+    expect(match('GET', '/users/{{userId}}')?.path).toBe('/users/{id}')
+  })
+
+  it('prefers the most literal match', () => {
+    expect(match('GET', '/users/me')?.path).toBe('/users/me')
+  })
+
+  it('matches templated segments with surrounding text', () => {
+    expect(match('GET', '/files/report.json')?.path).toBe('/files/{name}.json')
+  })
+
+  it('requires the method to match', () => {
+    expect(match('POST', '/users')).toBeNull()
+  })
+
+  it('returns null for unknown paths', () => {
+    expect(match('GET', '/orders')).toBeNull()
+    expect(match('GET', '/users/1/posts')).toBeNull()
+  })
+
+  it('strips server base paths from step endpoints', () => {
+    const withServer = createOperationMatcher(operations, ['https://api.example.com/v1'])
+
+    expect(withServer('GET', '/v1/users/7')?.path).toBe('/users/{id}')
+    expect(withServer('GET', '/users/7')?.path).toBe('/users/{id}')
+  })
+})
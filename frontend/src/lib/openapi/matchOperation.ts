@@ -0,0 +1,100 @@
+import type { HttpMethod } from '@/api/types'
+import type { ApiOperation } from './types'
+
+// Stands in for a step placeholder such as {userId}; never appears in a literal path segment
+const PLACEHOLDER_TOKEN = '\u0000'
+
+interface CompiledOperation {
+  operation: ApiOperation
+  pattern: RegExp
+  literalSegments: number
+}
+
+/**
+ * Reduce a step endpoint to a bare path: drops a leading `{baseUrl}`-style placeholder
+ * or absolute origin, the query string and fragment, and any trailing slash.
+ */
+export function normalizeEndpoint(endpoint: string): string {
+  let path = endpoint.trim()
+
+  // Leading placeholder without a slash before it is a base URL variable
+  path = path.replace(/^\{\{?[^}/]+\}?\}/, '')
+  path = path.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '')
+  path = path.split(/[?#]/)[0] ?? ''
+
+  if (!path.startsWith('/')) path = `/${path}`
+  if (path.length > 1) path = path.replace(/\/+$/, '')
+
+  return path
+}
+
+/**
+ * Build a matcher that maps a step's method and endpoint to the spec operation it exercises.
+ * Step placeholders (`{id}`, `{{id}}`) only match templated path segments, concrete values
+ * match either literal or templated segments, and the most literal match wins.
+ */
+export function createOperationMatcher(operations: ApiOperation[], servers: string[] = []) {
+  const compiled = operations.map(compileOperation)
+  const basePaths = getServerBasePaths(servers)
+
+  return function matchOperation(method: HttpMethod, endpoint: string): ApiOperation | null {
+    const path = normalizeEndpoint(endpoint).replace(/\{\{?[^}/]+\}?\}/g, PLACEHOLDER_TOKEN)
+    const candidates = [
+      path,
+      ...basePaths
+        .filter((base) => path.startsWith(`${base}/`))
+        .map((base) => path.slice(base.length)),
+    ]
+
+    let best: CompiledOperation | null = null
+    for (const candidate of candidates) {
+      for (const entry of compiled) {
+        if (entry.operation.method !== method || !entry.pattern.test(candidate)) continue
+        if (!best || entry.literalSegments > best.literalSegments) {
+          best = entry
+        }
+      }
+      if (best) break
+    }
+
+    return best?.operation ?? null
+  }
+}
+
+function compileOperation(operation: ApiOperation): CompiledOperation {
+  const segments = normalizeEndpoint(operation.path).split('/').filter(Boolean)
+  let literalSegments = 0
+
+  const source = segments
+    .map((segment) => {
+      if (!segment.includes('{')) {
+        literalSegments++
+        return escapeRegExp(segment)
+      }
+      return segment
+        .split(/(\{[^}]+\})/)
+        .map((part) => (part.startsWith('{') ? '[^/]+' : escapeRegExp(part)))
+        .join('')
+    })
+    .join('/')
+
+  return {
+    operation,
+    pattern: new RegExp(`^/${source}$`),
+    literalSegments,
+  }
+}
+
+function getServerBasePaths(servers: string[]): string[] {
+  return servers
+    .map((server) => {
+      // Server URLs may be relative ("/v1") or contain variables ("https://{host}/v1")
+      const path = normalizeEndpoint(server.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, ''))
+      return path === '/' ? null : path
+    })
+    .filter((path): path is string => path !== null)
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
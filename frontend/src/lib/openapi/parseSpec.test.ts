@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { parseOpenApiSpec, OpenApiParseError } from './parseSpec'
+
+const jsonSpec = JSON.stringify({
+  openapi: '3.0.3',
+  info: { title: 'Users API', version: '1.2.0' },
+  servers: [{ url: 'https://api.example.com/v1' }],
+  paths: {
+    '/users': {
+      get: { operationId: 'listUsers', summary: 'List users', tags: ['users'] },
+      post: { operationId: 'createUser' },
+    },
+    '/users/{id}': {
+      parameters: [{ name: 'id', in: 'path', required: true }],
+      get: { operationId: 'getUser' },
+      delete: { operationId: 'deleteUser' },
+      head: { operationId: 'headUser' },
+    },
+  },
+})
+
+const yamlSpec = `
+openapi: 3.1.0
+info:
+  title: Orders API
+  version: 2.0.0
+paths:
+  /orders:
+    get:
+      summary: List orders
+  /orders/{orderId}:
+    $ref: '#/components/pathItems/Order'
+components:
+  pathItems:
+    Order:
+      get:
+        operationId: getOrder
+      patch:
+        operationId: updateOrder
+`
+
+describe('parseOpenApiSpec', () => {
+  it('parses a JSON 3.0 spec', () => {
+    const spec = parseOpenApiSpec(jsonSpec)
+
+    expect(spec.openApiVersion).toBe('3.0.3')
+    expect(spec.title).toBe('Users API')
+    expect(spec.version).toBe('1.2.0')
+    expect(spec.servers).toEqual(['https://api.example.com/v1'])
+    expect(spec.operations.map((op) => `${op.method} ${op.path}`)).toEqual([
+      'GET /users',
+      'POST /users',
+      'GET /users/{id}',
+      'DELETE /users/{id}',
+    ])
+    expect(spec.operations[0]).toMatchObject({
+      operationId: 'listUsers',
+      summary: 'List users',
+      tags: ['users'],
+    })
+  })
+
+  it('parses a YAML 3.1 spec and resolves path item references', () => {
+    const spec = parseOpenApiSpec(yamlSpec)
+
+    expect(spec.openApiVersion).toBe('3.1.0')
+    expect(spec.operations.map((op) => `${op.method} ${op.path}`)).toEqual([
+      'GET /orders',
+      'GET /orders/{orderId}',
+      'PATCH /orders/{orderId}',
+    ])
+  })
+
+  it('derives servers from a Swagger 2.0 host and basePath', () => {
+    const spec = parseOpenApiSpec(
+      JSON.stringify({ swagger: '2.0', host: 'api.example.com', basePath: '/v2', paths: {} })
+    )
+
+    expect(spec.servers).toEqual(['https://api.example.com/v2'])
+  })
+
+  it('returns no operations when paths are missing', () => {
+    expect(parseOpenApiSpec('{"openapi": "3.0.0"}').operations).toEqual([])
+  })
+
+  it('throws for empty, invalid or non-OpenAPI input', () => {
+    expect(() => parseOpenApiSpec('  ')).toThrow(OpenApiParseError)
+    expect(() => parseOpenApiSpec('{ not json')).toThrow(OpenApiParseError)
+    expect(() => parseOpenApiSpec('- just\n- a list')).toThrow(OpenApiParseError)
+    expect(() => parseOpenApiSpec('{"info": {}}')).toThrow('Missing "openapi" version field')
+  })
+
+  it('reports specs stored as a URL', () => {
+    expect(() => parseOpenApiSpec('https://api.example.com/openapi.yaml')).toThrow(
+      /stored as a URL/
+    )
+  })
+})
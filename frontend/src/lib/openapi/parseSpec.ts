@@ -0,0 +1,146 @@
+import { parse as parseYaml } from 'yaml'
+import type { HttpMethod } from '@/api/types'
+import type { ApiOperation, ParsedOpenApiSpec } from './types'
+
+export class OpenApiParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OpenApiParseError'
+  }
+}
+
+// Methods a scenario step can use; HEAD/OPTIONS/TRACE operations are ignored
+export const SUPPORTED_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+
+type JsonObject = Record<string, unknown>
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' ? value : null
+}
+
+/**
+ * Parse an OpenAPI document (JSON or YAML, 2.0 / 3.0 / 3.1) into a flat list of operations.
+ * Throws OpenApiParseError when the source is not a readable spec.
+ */
+export function parseOpenApiSpec(source: string): ParsedOpenApiSpec {
+  const document = parseOpenApiDocument(source)
+
+  return {
+    openApiVersion: asString(document.openapi) ?? asString(document.swagger),
+    title: isObject(document.info) ? asString(document.info.title) : null,
+    version: isObject(document.info) ? asString(document.info.version) : null,
+    servers: extractServers(document),
+    operations: extractOperations(document),
+  }
+}
+
+/** Parse the raw OpenAPI document; throws OpenApiParseError like parseOpenApiSpec */
+export function parseOpenApiDocument(source: string): JsonObject {
+  const trimmed = source.trim()
+
+  if (!trimmed) {
+    throw new OpenApiParseError('The OpenAPI spec is empty')
+  }
+
+  if (/^https?:\/\/\S+$/.test(trimmed)) {
+    throw new OpenApiParseError('The OpenAPI spec is stored as a URL and cannot be read directly')
+  }
+
+  let parsed: unknown
+  try {
+    parsed = trimmed.startsWith('{') ? JSON.parse(trimmed) : parseYaml(trimmed)
+  } catch (error) {
+    throw new OpenApiParseError(
+      error instanceof Error ? error.message : 'The OpenAPI spec is not valid JSON or YAML'
+    )
+  }
+
+  if (!isObject(parsed)) {
+    throw new OpenApiParseError('The OpenAPI spec must be a JSON or YAML object')
+  }
+
+  if (!('openapi' in parsed) && !('swagger' in parsed)) {
+    throw new OpenApiParseError('Missing "openapi" version field')
+  }
+
+  return parsed
+}
+
+function extractServers(document: JsonObject): string[] {
+  // OpenAPI 3.x
+  if (Array.isArray(document.servers)) {
+    return document.servers
+      .map((server) => (isObject(server) ? asString(server.url) : null))
+      .filter((url): url is string => url !== null)
+  }
+
+  // Swagger 2.0
+  const host = asString(document.host)
+  const basePath = asString(document.basePath) ?? ''
+  if (host) {
+    const schemes = Array.isArray(document.schemes) ? document.schemes : []
+    const scheme = asString(schemes[0]) ?? 'https'
+    return [`${scheme}://${host}${basePath}`]
+  }
+  return basePath ? [basePath] : []
+}
+
+function extractOperations(document: JsonObject): ApiOperation[] {
+  if (!isObject(document.paths)) return []
+
+  const operations: ApiOperation[] = []
+
+  for (const [path, rawPathItem] of Object.entries(document.paths)) {
+    const pathItem = resolvePathItem(document, rawPathItem)
+    if (!pathItem) continue
+
+    for (const method of SUPPORTED_METHODS) {
+      const operation = pathItem[method.toLowerCase()]
+      if (!isObject(operation)) continue
+
+      operations.push({
+        method,
+        path,
+        operationId: asString(operation.operationId),
+        summary: asString(operation.summary),
+        tags: Array.isArray(operation.tags)
+          ? operation.tags.filter((tag): tag is string => typeof tag === 'string')
+          : [],
+      })
+    }
+  }
+
+  return operations
+}
+
+// Path items may be local references (e.g. OpenAPI 3.1 components.pathItems)
+export function resolvePathItem(document: JsonObject, pathItem: unknown): JsonObject | null {
+  if (!isObject(pathItem)) return null
+
+  const ref = asString(pathItem.$ref)
+  if (!ref) return pathItem
+
+  const resolved = resolveLocalRef(document, ref)
+  return isObject(resolved) ? { ...resolved, ...omitRef(pathItem) } : null
+}
+
+function omitRef(value: JsonObject): JsonObject {
+  const { $ref: _, ...rest } = value
+  return rest
+}
+
+export function resolveLocalRef(document: JsonObject, ref: string): unknown {
+  if (!ref.startsWith('#/')) return undefined
+
+  let current: unknown = document
+  for (const rawSegment of ref.slice(2).split('/')) {
+    const segment = decodeURIComponent(rawSegment).replace(/~1/g, '/').replace(/~0/g, '~')
+    if (!isObject(current)) return undefined
+    current = current[segment]
+  }
+  return current
+}
@@ -0,0 +1,240 @@
+import { describe, expect, it } from 'vitest'
+import { diffOpenApiSpecs, findImpactedScenarios, hasSpecChanges } from './specDiff'
+import { OpenApiParseError } from './parseSpec'
+import { mockScenario } from '@/test/mocks'
+import type { Scenario, TestStep } from '@/api/types'
+
+const userSchema = {
+  type: 'object',
+  required: ['id', 'email'],
+  properties: {
+    id: { type: 'string' },
+    email: { type: 'string' },
+    age: { type: 'integer' },
+  },
+}
+
+const previousSpec = {
+  openapi: '3.0.3',
+  info: { title: 'Users API', version: '1.0.0' },
+  paths: {
+    '/users': {
+      get: {
+        parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' } }],
+        responses: {
+          '200': {
+            description: 'Users',
+            content: {
+              'application/json': {
+                schema: { type: 'array', items: { $ref: '#/components/schemas/User' } },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['email'],
+                properties: { email: { type: 'string' }, name: { type: 'string' } },
+              },
+            },
+          },
+        },
+        responses: { '201': { description: 'Created' } },
+      },
+    },
+    '/users/{id}': {
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+      get: { responses: { '200': { description: 'User' }, '404': { description: 'Missing' } } },
+      delete: { responses: { '204': { description: 'Deleted' } } },
+    },
+  },
+  components: { schemas: { User: userSchema } },
+}
+
+const nextSpec = {
+  ...previousSpec,
+  paths: {
+    '/users': {
+      get: {
+        parameters: [
+          { name: 'limit', in: 'query', required: true, schema: { type: 'integer' } },
+          { name: 'cursor', in: 'query', schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': {
+            description: 'Users',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: {
+                    allOf: [
+                      { $ref: '#/components/schemas/User' },
+                      { type: 'object', properties: { createdAt: { type: 'string' } } },
+                    ],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['email', 'name'],
+                properties: { email: { type: 'string' }, name: { type: 'string' } },
+              },
+            },
+          },
+        },
+        responses: { '201': { description: 'Created' } },
+      },
+    },
+    '/users/{userId}': {
+      parameters: [{ name: 'userId', in: 'path', required: true, schema: { type: 'string' } }],
+      get: { responses: { '200': { description: 'User' }, '404': { description: 'Missing' } } },
+    },
+    '/teams': {
+      get: { responses: { '200': { description: 'Teams' } } },
+    },
+  },
+  components: {
+    schemas: {
+      User: { ...userSchema, properties: { ...userSchema.properties, age: { type: 'string' } } },
+    },
+  },
+}
+
+const diff = diffOpenApiSpecs(JSON.stringify(previousSpec), JSON.stringify(nextSpec))
+const messagesOf = (method: string, path: string) =>
+  diff.operations
+    .find((operation) => operation.method === method && operation.path === path)
+    ?.changes.map((c) => `${c.severity}: ${c.message}`)
+
+describe('diffOpenApiSpecs', () => {
+  it('lists added, removed and changed operations', () => {
+    expect(diff.operations.map((o) => `${o.status} ${o.method} ${o.path}`)).toEqual([
+      'added GET /teams',
+      'changed GET /users',
+      'changed POST /users',
+      'removed DELETE /users/{id}',
+    ])
+  })
+
+  it('classifies parameter changes', () => {
+    expect(messagesOf('GET', '/users')).toEqual(
+      expect.arrayContaining([
+        'breaking: Query parameter `limit` became required',
+        'non-breaking: Optional query parameter `cursor` added',
+      ])
+    )
+  })
+
+  it('follows references and allOf into response schemas', () => {
+    expect(messagesOf('GET', '/users')).toEqual(
+      expect.arrayContaining([
+        'breaking: Response 200 field `[].age` type changed from integer to string',
+        'non-breaking: Response 200 field `[].createdAt` added',
+      ])
+    )
+  })
+
+  it('flags request fields that became required', () => {
+    expect(messagesOf('POST', '/users')).toEqual(['breaking: Request field `name` became required'])
+  })
+
+  it('treats renamed path parameters as the same operation', () => {
+    expect(messagesOf('GET', '/users/{userId}')).toBeUndefined()
+    expect(diff.operations.find((o) => o.previousPath === '/users/{id}')?.status).toBe('removed')
+  })
+
+  it('counts changes by severity', () => {
+    expect(diff.breakingChanges).toBe(4)
+    expect(diff.nonBreakingChanges).toBe(3)
+  })
+
+  it('reports no changes for the same spec in another format', () => {
+    const yaml = `
+openapi: 3.0.3
+paths:
+  /teams:
+    get:
+      responses:
+        '200':
+          description: Teams
+`
+    const json = JSON.stringify({
+      openapi: '3.0.3',
+      paths: { '/teams': { get: { responses: { '200': { description: 'Teams' } } } } },
+    })
+
+    expect(hasSpecChanges(diffOpenApiSpecs(yaml, json))).toBe(false)
+  })
+
+  it('reads Swagger 2.0 body parameters as the request body', () => {
+    const swagger = (required: string[]) =>
+      JSON.stringify({
+        swagger: '2.0',
+        paths: {
+          '/orders': {
+            post: {
+              parameters: [
+                {
+                  name: 'body',
+                  in: 'body',
+                  schema: { type: 'object', required, properties: { sku: { type: 'string' } } },
+                },
+              ],
+            },
+          },
+        },
+      })
+
+    expect(diffOpenApiSpecs(swagger([]), swagger(['sku'])).operations[0]?.changes).toEqual([
+      {
+        area: 'request-body',
+        severity: 'breaking',
+        message: 'Request field `sku` became required',
+      },
+    ])
+  })
+
+  it('rejects unreadable specs', () => {
+    expect(() => diffOpenApiSpecs('https://example.com/openapi.yaml', '{}')).toThrow(
+      OpenApiParseError
+    )
+  })
+})
+
+describe('findImpactedScenarios', () => {
+  const step = (method: TestStep['method'], endpoint: string): TestStep => ({
+    ...(mockScenario.steps[0] as TestStep),
+    method,
+    endpoint,
+  })
+  const scenario = (id: string, steps: TestStep[]): Scenario => ({ ...mockScenario, id, steps })
+
+  it('lists scenarios whose steps call removed or changed operations', () => {
+    const impacted = findImpactedScenarios(diff, JSON.stringify(previousSpec), [
+      scenario('create-and-delete', [step('POST', '/users'), step('DELETE', '/users/{userId}')]),
+      scenario('read-user', [step('GET', '{{baseUrl}}/users/42')]),
+    ])
+
+    expect(impacted).toHaveLength(1)
+    expect(impacted[0]?.scenario.id).toBe('create-and-delete')
+    expect(impacted[0]?.operations.map((o) => `${o.method} ${o.path}`)).toEqual([
+      'POST /users',
+      'DELETE /users/{id}',
+    ])
+    expect(impacted[0]?.breaking).toBe(true)
+  })
+})
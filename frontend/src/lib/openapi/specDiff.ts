@@ -0,0 +1,499 @@
+import type { HttpMethod, Scenario } from '@/api/types'
+import {
+  SUPPORTED_METHODS,
+  parseOpenApiDocument,
+  parseOpenApiSpec,
+  resolveLocalRef,
+  resolvePathItem,
+} from './parseSpec'
+import { createOperationMatcher } from './matchOperation'
+
+export type SpecChangeSeverity = 'breaking' | 'non-breaking'
+
+export type SpecChangeArea = 'operation' | 'parameter' | 'request-body' | 'response'
+
+export interface SpecChange {
+  area: SpecChangeArea
+  severity: SpecChangeSeverity
+  message: string
+}
+
+export type OperationDiffStatus = 'added' | 'removed' | 'changed'
+
+export interface OperationDiff {
+  method: HttpMethod
+  /** Path in the new spec; the old path for removed operations */
+  path: string
+  /** Path in the old spec; null for added operations */
+  previousPath: string | null
+  status: OperationDiffStatus
+  changes: SpecChange[]
+  breaking: boolean
+}
+
+export interface SpecDiff {
+  /** Operations with at least one change, by path and method */
+  operations: OperationDiff[]
+  breakingChanges: number
+  nonBreakingChanges: number
+}
+
+export interface ImpactedScenario {
+  scenario: Scenario
+  /** Removed or changed operations the scenario's steps call */
+  operations: OperationDiff[]
+  breaking: boolean
+}
+
+type JsonObject = Record<string, unknown>
+
+interface FieldShape {
+  type: string | null
+  required: boolean
+}
+
+interface ParameterShape extends FieldShape {
+  name: string
+  in: string
+}
+
+interface OperationShape {
+  method: HttpMethod
+  path: string
+  parameters: Map<string, ParameterShape>
+  requestBody: { required: boolean; fields: Map<string, FieldShape> } | null
+  responses: Map<string, Map<string, FieldShape>>
+}
+
+// Deep enough for real payloads while keeping huge specs cheap to compare
+const MAX_SCHEMA_DEPTH = 6
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? (value as unknown[]) : []
+}
+
+function asStrings(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : []
+}
+
+/**
+ * Structural diff of two OpenAPI documents: added, removed and changed operations with their
+ * parameter, request body and response schema changes, each classified as breaking when
+ * requests or assertions that worked against the old spec may fail against the new one.
+ * Throws OpenApiParseError when either spec cannot be read.
+ */
+export function diffOpenApiSpecs(previousSource: string, nextSource: string): SpecDiff {
+  const previous = extractOperationShapes(parseOpenApiDocument(previousSource))
+  const next = extractOperationShapes(parseOpenApiDocument(nextSource))
+  const operations: OperationDiff[] = []
+
+  for (const [key, before] of previous) {
+    const after = next.get(key)
+    const changes = after
+      ? compareOperations(before, after)
+      : [change('operation', 'breaking', 'Operation removed')]
+    if (changes.length > 0) {
+      operations.push(
+        operationDiff(after ?? before, before.path, after ? 'changed' : 'removed', changes)
+      )
+    }
+  }
+  for (const [key, after] of next) {
+    if (!previous.has(key)) {
+      operations.push(
+        operationDiff(after, null, 'added', [
+          change('operation', 'non-breaking', 'Operation added'),
+        ])
+      )
+    }
+  }
+
+  operations.sort(
+    (a, b) =>
+      a.path.localeCompare(b.path) ||
+      SUPPORTED_METHODS.indexOf(a.method) - SUPPORTED_METHODS.indexOf(b.method)
+  )
+
+  const allChanges = operations.flatMap((operation) => operation.changes)
+  return {
+    operations,
+    breakingChanges: allChanges.filter((c) => c.severity === 'breaking').length,
+    nonBreakingChanges: allChanges.filter((c) => c.severity === 'non-breaking').length,
+  }
+}
+
+export function hasSpecChanges(diff: SpecDiff): boolean {
+  return diff.operations.length > 0
+}
+
+/**
+ * Scenarios with steps that call a removed or changed operation of the previous spec
+ */
+export function findImpactedScenarios(
+  diff: SpecDiff,
+  previousSource: string,
+  scenarios: Scenario[]
+): ImpactedScenario[] {
+  const affected = diff.operations.filter((operation) => operation.previousPath !== null)
+  if (affected.length === 0) return []
+
+  const previousSpec = parseOpenApiSpec(previousSource)
+  const matchOperation = createOperationMatcher(previousSpec.operations, previousSpec.servers)
+
+  return scenarios.flatMap((scenario) => {
+    const operations = new Set<OperationDiff>()
+    for (const step of scenario.steps) {
+      const operation = matchOperation(step.method, step.endpoint)
+      const hit = operation
+        ? affected.find((o) => o.method === operation.method && o.previousPath === operation.path)
+        : undefined
+      if (hit) operations.add(hit)
+    }
+    if (operations.size === 0) return []
+    const hits = [...operations]
+    return [{ scenario, operations: hits, breaking: hits.some((o) => o.breaking) }]
+  })
+}
+
+function change(area: SpecChangeArea, severity: SpecChangeSeverity, message: string): SpecChange {
+  return { area, severity, message }
+}
+
+function operationDiff(
+  shape: OperationShape,
+  previousPath: string | null,
+  status: OperationDiffStatus,
+  changes: SpecChange[]
+): OperationDiff {
+  return {
+    method: shape.method,
+    path: shape.path,
+    previousPath,
+    status,
+    changes,
+    breaking: changes.some((c) => c.severity === 'breaking'),
+  }
+}
+
+// Path parameter names do not matter for matching, so /users/{id} and /users/{userId} are one
+const operationKey = (method: HttpMethod, path: string) =>
+  `${method} ${path.replace(/\{[^}]+\}/g, '{}')}`
+
+function extractOperationShapes(document: JsonObject): Map<string, OperationShape> {
+  const shapes = new Map<string, OperationShape>()
+  if (!isObject(document.paths)) return shapes
+
+  for (const [path, rawPathItem] of Object.entries(document.paths)) {
+    const pathItem = resolvePathItem(document, rawPathItem)
+    if (!pathItem) continue
+    const pathParameterNames = [...path.matchAll(/\{([^}]+)\}/g)].map((match) => match[1])
+
+    for (const method of SUPPORTED_METHODS) {
+      const operation = pathItem[method.toLowerCase()]
+      if (!isObject(operation)) continue
+
+      // Operation-level parameters override path-level ones with the same name and location
+      const rawParameters: unknown[] = [
+        ...asArray(pathItem.parameters),
+        ...asArray(operation.parameters),
+      ]
+      const parameters = new Map<string, ParameterShape>()
+      let requestBody: OperationShape['requestBody'] = null
+
+      for (const rawParameter of rawParameters) {
+        const parameter = resolveRef(document, rawParameter)
+        if (!parameter || typeof parameter.name !== 'string' || typeof parameter.in !== 'string') {
+          continue
+        }
+        // Swagger 2.0 describes the request body as a parameter
+        if (parameter.in === 'body') {
+          requestBody = {
+            required: parameter.required === true,
+            fields: collectFields(document, parameter.schema),
+          }
+          continue
+        }
+        // Path parameters are keyed by position so renaming one is not a remove and an add
+        const key =
+          parameter.in === 'path'
+            ? `path:#${String(pathParameterNames.indexOf(parameter.name))}`
+            : `${parameter.in}:${parameter.name}`
+        parameters.set(key, {
+          name: parameter.name,
+          in: parameter.in,
+          required: parameter.required === true,
+          type:
+            schemaType(resolveSchema(document, parameter.schema)?.schema) ?? schemaType(parameter),
+        })
+      }
+
+      const body = resolveRef(document, operation.requestBody)
+      if (body) {
+        requestBody = {
+          required: body.required === true,
+          fields: collectFields(document, contentSchema(body)),
+        }
+      }
+
+      const responses = new Map<string, Map<string, FieldShape>>()
+      if (isObject(operation.responses)) {
+        for (const [status, rawResponse] of Object.entries(operation.responses)) {
+          const response = resolveRef(document, rawResponse)
+          responses.set(
+            status,
+            collectFields(document, response ? (contentSchema(response) ?? response.schema) : null)
+          )
+        }
+      }
+
+      shapes.set(operationKey(method, path), {
+        method,
+        path,
+        parameters,
+        requestBody,
+        responses,
+      })
+    }
+  }
+
+  return shapes
+}
+
+function resolveRef(document: JsonObject, value: unknown): JsonObject | null {
+  let current = value
+  const seen = new Set<string>()
+  while (isObject(current) && typeof current.$ref === 'string' && !seen.has(current.$ref)) {
+    seen.add(current.$ref)
+    current = resolveLocalRef(document, current.$ref)
+  }
+  return isObject(current) && typeof current.$ref !== 'string' ? current : null
+}
+
+// JSON content wins; otherwise the first media type's schema
+function contentSchema(value: JsonObject): unknown {
+  if (!isObject(value.content)) return undefined
+  const mediaTypes = Object.entries(value.content)
+  const [, media] =
+    mediaTypes.find(([type]) => type === 'application/json' || type.endsWith('+json')) ??
+    mediaTypes[0] ??
+    []
+  return isObject(media) ? media.schema : undefined
+}
+
+/** Follows references and merges allOf members; `seen` guards against recursive schemas */
+function resolveSchema(
+  document: JsonObject,
+  value: unknown,
+  seen: ReadonlySet<string> = new Set()
+): { schema: JsonObject; seen: ReadonlySet<string> } | null {
+  let current = value
+  let refs = seen
+  while (isObject(current) && typeof current.$ref === 'string') {
+    if (refs.has(current.$ref)) return null
+    refs = new Set([...refs, current.$ref])
+    current = resolveLocalRef(document, current.$ref)
+  }
+  if (!isObject(current)) return null
+
+  if (Array.isArray(current.allOf)) {
+    const merged: JsonObject = { ...current, properties: {}, required: asStrings(current.required) }
+    for (const member of current.allOf) {
+      const resolved = resolveSchema(document, member, refs)
+      if (!resolved) continue
+      merged.properties = {
+        ...(merged.properties as JsonObject),
+        ...(isObject(resolved.schema.properties) ? resolved.schema.properties : {}),
+      }
+      merged.required = [...asStrings(merged.required), ...asStrings(resolved.schema.required)]
+      merged.type ??= resolved.schema.type
+    }
+    if (isObject(current.properties)) {
+      merged.properties = { ...(merged.properties as JsonObject), ...current.properties }
+    }
+    return { schema: merged, seen: refs }
+  }
+
+  return { schema: current, seen: refs }
+}
+
+function schemaType(schema: JsonObject | undefined): string | null {
+  if (!schema) return null
+  if (typeof schema.type === 'string') return schema.type
+  if (Array.isArray(schema.type)) return asStrings(schema.type).join(' | ')
+  return isObject(schema.properties) ? 'object' : null
+}
+
+/** Flattens a schema into dotted field paths; array items use `[]`, e.g. `items[].id` */
+function collectFields(
+  document: JsonObject,
+  value: unknown,
+  fields = new Map<string, FieldShape>(),
+  prefix = '',
+  seen: ReadonlySet<string> = new Set(),
+  depth = 0
+): Map<string, FieldShape> {
+  const resolved = resolveSchema(document, value, seen)
+  if (!resolved || depth > MAX_SCHEMA_DEPTH) return fields
+  const { schema } = resolved
+
+  if (isObject(schema.properties)) {
+    const required = asStrings(schema.required)
+    for (const [name, property] of Object.entries(schema.properties)) {
+      const path = prefix ? `${prefix}.${name}` : name
+      fields.set(path, {
+        type: schemaType(resolveSchema(document, property, resolved.seen)?.schema),
+        required: required.includes(name),
+      })
+      collectFields(document, property, fields, path, resolved.seen, depth + 1)
+    }
+  }
+  if (schema.type === 'array') {
+    collectFields(document, schema.items, fields, `${prefix}[]`, resolved.seen, depth + 1)
+  }
+
+  return fields
+}
+
+function compareOperations(before: OperationShape, after: OperationShape): SpecChange[] {
+  const changes: SpecChange[] = []
+
+  for (const [key, parameter] of after.parameters) {
+    const old = before.parameters.get(key)
+    const label = `${parameter.in} parameter \`${parameter.name}\``
+    if (!old) {
+      changes.push(
+        parameter.required
+          ? change('parameter', 'breaking', `Required ${label} added`)
+          : change('parameter', 'non-breaking', `Optional ${label} added`)
+      )
+      continue
+    }
+    changes.push(...compareField('parameter', capitalize(label), old, parameter, 'request'))
+  }
+  for (const [key, parameter] of before.parameters) {
+    if (!after.parameters.has(key)) {
+      changes.push(
+        change(
+          'parameter',
+          'breaking',
+          `${capitalize(parameter.in)} parameter \`${parameter.name}\` removed`
+        )
+      )
+    }
+  }
+
+  changes.push(...compareRequestBodies(before.requestBody, after.requestBody))
+
+  for (const [status, fields] of after.responses) {
+    const old = before.responses.get(status)
+    if (!old) {
+      changes.push(change('response', 'non-breaking', `Response ${status} added`))
+      continue
+    }
+    changes.push(...compareFields('response', `Response ${status} field`, old, fields, 'response'))
+  }
+  for (const status of before.responses.keys()) {
+    if (!after.responses.has(status)) {
+      changes.push(change('response', 'breaking', `Response ${status} removed`))
+    }
+  }
+
+  return changes
+}
+
+function compareRequestBodies(
+  before: OperationShape['requestBody'],
+  after: OperationShape['requestBody']
+): SpecChange[] {
+  if (!before && !after) return []
+  if (!before && after) {
+    return [
+      after.required
+        ? change('request-body', 'breaking', 'Required request body added')
+        : change('request-body', 'non-breaking', 'Optional request body added'),
+    ]
+  }
+  if (before && !after) return [change('request-body', 'breaking', 'Request body removed')]
+  if (!before || !after) return []
+
+  const changes: SpecChange[] = []
+  if (!before.required && after.required) {
+    changes.push(change('request-body', 'breaking', 'Request body became required'))
+  } else if (before.required && !after.required) {
+    changes.push(change('request-body', 'non-breaking', 'Request body became optional'))
+  }
+  changes.push(
+    ...compareFields('request-body', 'Request field', before.fields, after.fields, 'request')
+  )
+  return changes
+}
+
+type Direction = 'request' | 'response'
+
+function compareFields(
+  area: SpecChangeArea,
+  label: string,
+  before: Map<string, FieldShape>,
+  after: Map<string, FieldShape>,
+  direction: Direction
+): SpecChange[] {
+  const changes: SpecChange[] = []
+
+  for (const [path, field] of after) {
+    const old = before.get(path)
+    if (old) {
+      changes.push(...compareField(area, `${label} \`${path}\``, old, field, direction))
+    } else if (direction === 'request' && field.required) {
+      changes.push(change(area, 'breaking', `Required ${label.toLowerCase()} \`${path}\` added`))
+    } else {
+      changes.push(change(area, 'non-breaking', `${label} \`${path}\` added`))
+    }
+  }
+  for (const path of before.keys()) {
+    if (!after.has(path)) {
+      changes.push(change(area, 'breaking', `${label} \`${path}\` removed`))
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Type changes always break. A request value becoming required breaks callers that omit it; a
+ * response value becoming optional breaks assertions that expect it.
+ */
+function compareField(
+  area: SpecChangeArea,
+  label: string,
+  before: FieldShape,
+  after: FieldShape,
+  direction: Direction
+): SpecChange[] {
+  const changes: SpecChange[] = []
+
+  if (before.type && after.type && before.type !== after.type) {
+    changes.push(
+      change(area, 'breaking', `${label} type changed from ${before.type} to ${after.type}`)
+    )
+  }
+  if (before.required !== after.required) {
+    const breaking = direction === 'request' ? after.required : !after.required
+    changes.push(
+      change(
+        area,
+        breaking ? 'breaking' : 'non-breaking',
+        `${label} became ${after.required ? 'required' : 'optional'}`
+      )
+    )
+  }
+
+  return changes
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
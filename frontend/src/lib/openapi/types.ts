@@ -0,0 +1,17 @@
+import type { HttpMethod } from '@/api/types'
+
+export interface ApiOperation {
+  method: HttpMethod
+  path: string
+  operationId: string | null
+  summary: string | null
+  tags: string[]
+}
+
+export interface ParsedOpenApiSpec {
+  openApiVersion: string | null
+  title: string | null
+  version: string | null
+  servers: string[]
+  operations: ApiOperation[]
+}
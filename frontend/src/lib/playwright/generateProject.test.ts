@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { generatePlaywrightProject } from './generateProject'
+import type { Scenario, TestStep } from '@/api/types'
+
+const step = (overrides: Partial<TestStep>): TestStep => ({
+  id: 'step',
+  order: 1,
+  method: 'GET',
+  endpoint: '/',
+  headers: {},
+  body: null,
+  expectedStatus: 200,
+  assertions: [],
+  extractors: [],
+  timeoutMs: 5000,
+  ...overrides,
+})
+
+const scenario: Scenario = {
+  id: 'scenario-1',
+  packageId: 'pkg-1',
+  name: 'Create and fetch user',
+  description: null,
+  status: 'PASSED',
+  tags: [],
+  createdAt: '2026-01-15T10:00:00Z',
+  updatedAt: '2026-01-15T10:00:00Z',
+  steps: [
+    step({
+      id: 'step-2',
+      order: 2,
+      endpoint: '{baseUrl}/users/{userId}',
+      assertions: [{ type: 'JSON_PATH', path: '$.name', expected: 'Ada', operator: 'EQUALS' }],
+    }),
+    step({
+      id: 'step-1',
+      order: 1,
+      method: 'POST',
+      endpoint: '{{baseUrl}}/users',
+      headers: { Authorization: 'Bearer secret-token', 'X-Tenant': '{{tenantId}}' },
+      body: '{"name": "Ada"}',
+      expectedStatus: 201,
+      extractors: [{ name: 'userId', type: 'JSON_PATH', path: '$.id' }],
+    }),
+  ],
+}
+
+function generate() {
+  const files = generatePlaywrightProject([scenario], {
+    projectName: 'Users API',
+    baseUrl: 'https://api.example.com',
+  })
+  const file = (path: string) => files.find((f) => f.path === path)?.content ?? ''
+  return { files, file }
+}
+
+describe('generatePlaywrightProject', () => {
+  it('produces a runnable project layout', () => {
+    const { files } = generate()
+
+    expect(files.map((f) => f.path)).toEqual([
+      'package.json',
+      'playwright.config.ts',
+      'tsconfig.json',
+      '.gitignore',
+      '.env.example',
+      'README.md',
+      'tests/helpers.ts',
+      'tests/create-and-fetch-user.spec.ts',
+    ])
+  })
+
+  it('orders steps and chains extracted values through vars', () => {
+    const spec = generate().file('tests/create-and-fetch-user.spec.ts')
+
+    expect(spec.indexOf('QAWave step step-1')).toBeLessThan(spec.indexOf('QAWave step step-2'))
+    expect(spec).toContain(`vars['userId'] = jsonPath(body, '$.id')`)
+    expect(spec).toContain("request.fetch(`/users/${String(vars['userId'])}`")
+    expect(spec).toContain(`expect(jsonPath(body, '$.name'), 'JSON_PATH $.name').toEqual("Ada")`)
+  })
+
+  it('keeps secrets and unresolved placeholders in the environment', () => {
+    const { file } = generate()
+    const spec = file('tests/create-and-fetch-user.spec.ts')
+
+    expect(spec).not.toContain('secret-token')
+    expect(spec).toContain(`'Authorization': env('AUTHORIZATION')`)
+    expect(spec).toContain("'X-Tenant': `${env('TENANT_ID')}`")
+    expect(file('.env.example')).toBe(
+      'BASE_URL=https://api.example.com\nAUTHORIZATION=\nTENANT_ID=\n'
+    )
+    expect(file('playwright.config.ts')).toContain(
+      "baseURL: process.env.BASE_URL ?? 'https://api.example.com'"
+    )
+  })
+
+  it('adds traceability comments for the scenario and steps', () => {
+    const spec = generate().file('tests/create-and-fetch-user.spec.ts')
+
+    expect(spec).toContain('// QAWave scenario scenario-1 (package pkg-1)')
+    expect(spec).toContain('// QAWave step step-2')
+  })
+})
@@ -0,0 +1,269 @@
+import type { Scenario, StepAssertion, StepExtractor, TestStep } from '@/api/types'
+import { findPlaceholders, hasPlaceholder } from '@/lib/scenario'
+import { GITIGNORE, HELPERS_TS, TSCONFIG_JSON } from './templates'
+
+export interface GeneratedFile {
+  path: string
+  content: string
+}
+
+export interface PlaywrightProjectOptions {
+  projectName: string
+  /** Default for BASE_URL in .env.example and the Playwright config */
+  baseUrl?: string | undefined
+}
+
+const BASE_URL_PLACEHOLDER = /^\{\{?\s*base_?url\s*\}?\}/i
+const SENSITIVE_HEADER = /authorization|cookie|token|secret|api[-_]?key/i
+
+/**
+ * Generate a Playwright `request`-based test project from scenarios. Values extracted by
+ * earlier steps are chained through a per-test `vars` object; every other placeholder and
+ * any literal credential header becomes an environment variable listed in .env.example.
+ */
+export function generatePlaywrightProject(
+  scenarios: Scenario[],
+  options: PlaywrightProjectOptions
+): GeneratedFile[] {
+  const envVars = new Map<string, string>([['BASE_URL', options.baseUrl ?? '']])
+  const usedNames = new Set<string>()
+
+  const specFiles = scenarios.map((scenario) => {
+    let fileName = slugify(scenario.name) || 'scenario'
+    for (let i = 2; usedNames.has(fileName); i++)
+      fileName = `${slugify(scenario.name)}-${String(i)}`
+    usedNames.add(fileName)
+
+    return {
+      path: `tests/${fileName}.spec.ts`,
+      content: generateSpecFile(scenario, envVars),
+    }
+  })
+
+  return [
+    { path: 'package.json', content: packageJson(options.projectName) },
+    { path: 'playwright.config.ts', content: playwrightConfig(options.baseUrl) },
+    { path: 'tsconfig.json', content: TSCONFIG_JSON },
+    { path: '.gitignore', content: GITIGNORE },
+    { path: '.env.example', content: envExample(envVars) },
+    { path: 'README.md', content: readme(options.projectName, scenarios.length) },
+    { path: 'tests/helpers.ts', content: HELPERS_TS },
+    ...specFiles,
+  ]
+}
+
+function generateSpecFile(scenario: Scenario, envVars: Map<string, string>): string {
+  const extracted = new Set<string>()
+  const steps = [...scenario.steps].sort((a, b) => a.order - b.order)
+
+  const stepBlocks = steps.map((step, index) => {
+    const block = generateStep(step, index, { extracted, envVars })
+    step.extractors.forEach((extractor) => extracted.add(extractor.name))
+    return block
+  })
+
+  return [
+    `import { test, expect } from '@playwright/test'`,
+    `import { env, extractRegex, jsonPath, parseJson } from './helpers'`,
+    '',
+    `// QAWave scenario ${scenario.id} (package ${scenario.packageId})`,
+    ...(scenario.description ? [`// ${toComment(scenario.description)}`] : []),
+    `test(${quote(scenario.name)}, async ({ request }) => {`,
+    '  const vars: Record<string, unknown> = {}',
+    '',
+    stepBlocks.join('\n\n'),
+    '})',
+    '',
+  ].join('\n')
+}
+
+interface StepContext {
+  extracted: Set<string>
+  envVars: Map<string, string>
+}
+
+function generateStep(step: TestStep, index: number, context: StepContext): string {
+  const title = `Step ${String(index + 1)}: ${step.method} ${step.endpoint}`
+  const url = toTemplate(step.endpoint.replace(BASE_URL_PLACEHOLDER, ''), context)
+
+  const headerEntries = Object.entries(step.headers).map(([name, value]) => {
+    const isLiteralSecret = SENSITIVE_HEADER.test(name) && !hasPlaceholder(value)
+    if (isLiteralSecret) {
+      const envName = toEnvName(name)
+      context.envVars.set(envName, '')
+      return `${quote(name)}: env(${quote(envName)})`
+    }
+    return `${quote(name)}: ${toTemplate(value, context)}`
+  })
+
+  const requestOptions = [
+    `method: ${quote(step.method)}`,
+    ...(headerEntries.length > 0 ? [`headers: { ${headerEntries.join(', ')} }`] : []),
+    ...(step.body !== null && step.body !== '' ? [`data: ${toTemplate(step.body, context)}`] : []),
+    `timeout: ${String(step.timeoutMs)}`,
+  ]
+
+  const lines = [
+    `// QAWave step ${step.id}`,
+    `await test.step(${quote(title)}, async () => {`,
+    `  const response = await request.fetch(${url}, {`,
+    ...requestOptions.map((option) => `    ${option},`),
+    '  })',
+    '  const text = await response.text()',
+    '  const body = parseJson(text)',
+    '',
+    `  expect(response.status(), 'status').toBe(${String(step.expectedStatus)})`,
+    ...step.assertions.map((assertion) => `  ${generateAssertion(assertion, context)}`),
+    ...step.extractors.map((extractor) => `  ${generateExtractor(extractor)}`),
+    '})',
+  ]
+
+  return lines.map((line) => (line ? `  ${line}` : line)).join('\n')
+}
+
+function generateAssertion(assertion: StepAssertion, context: StepContext): string {
+  const actual = {
+    STATUS: 'response.status()',
+    JSON_PATH: `jsonPath(body, ${quote(assertion.path)})`,
+    HEADER: `response.headers()[${quote(assertion.path.toLowerCase())}]`,
+    BODY_CONTAINS: 'text',
+  }[assertion.type]
+  const label = quote(`${assertion.type} ${assertion.path}`.trim())
+
+  const expected =
+    typeof assertion.expected === 'string' && hasPlaceholder(assertion.expected)
+      ? toTemplate(assertion.expected, context)
+      : JSON.stringify(assertion.expected ?? null)
+
+  if (assertion.type === 'BODY_CONTAINS') {
+    return `expect(${actual}, ${label}).toContain(String(${expected}))`
+  }
+
+  switch (assertion.operator) {
+    case 'EQUALS':
+      return `expect(${actual}, ${label}).toEqual(${expected})`
+    case 'NOT_EQUALS':
+      return `expect(${actual}, ${label}).not.toEqual(${expected})`
+    case 'CONTAINS':
+      return `expect(${actual}, ${label}).toContain(${expected})`
+    case 'GREATER_THAN':
+      return `expect(Number(${actual}), ${label}).toBeGreaterThan(Number(${expected}))`
+    case 'LESS_THAN':
+      return `expect(Number(${actual}), ${label}).toBeLessThan(Number(${expected}))`
+  }
+}
+
+function generateExtractor(extractor: StepExtractor): string {
+  const target = `vars[${quote(extractor.name)}]`
+  switch (extractor.type) {
+    case 'JSON_PATH':
+      return `${target} = jsonPath(body, ${quote(extractor.path)})`
+    case 'HEADER':
+      return `${target} = response.headers()[${quote(extractor.path.toLowerCase())}]`
+    case 'REGEX':
+      return `${target} = extractRegex(text, ${quote(extractor.path)})`
+  }
+}
+
+/**
+ * Turn text containing placeholders into a template literal. Names extracted by an earlier
+ * step read from `vars`; anything else is read from the environment.
+ */
+function toTemplate(text: string, context: StepContext): string {
+  if (!hasPlaceholder(text) && !text.includes('\n')) return quote(text)
+
+  let result = ''
+  let lastIndex = 0
+
+  for (const match of findPlaceholders(text)) {
+    result += escapeTemplate(text.slice(lastIndex, match.index))
+    if (context.extracted.has(match.name)) {
+      result += `\${String(vars[${quote(match.name)}])}`
+    } else {
+      const envName = toEnvName(match.name)
+      if (!context.envVars.has(envName)) context.envVars.set(envName, '')
+      result += `\${env(${quote(envName)})}`
+    }
+    lastIndex = match.index + match.length
+  }
+  result += escapeTemplate(text.slice(lastIndex))
+
+  return `\`${result}\``
+}
+
+function escapeTemplate(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${')
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`
+}
+
+function toComment(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ')
+}
+
+function toEnvName(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toUpperCase()
+}
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+}
+
+function packageJson(projectName: string): string {
+  const pkg = {
+    name: slugify(projectName) || 'qawave-api-tests',
+    private: true,
+    scripts: { test: 'playwright test' },
+    devDependencies: {
+      '@playwright/test': '^1.48.0',
+      '@types/node': '^20.0.0',
+      dotenv: '^16.4.0',
+      typescript: '^5.4.0',
+    },
+  }
+  return `${JSON.stringify(pkg, null, 2)}\n`
+}
+
+function playwrightConfig(baseUrl: string | undefined): string {
+  return `import 'dotenv/config'
+import { defineConfig } from '@playwright/test'
+
+export default defineConfig({
+  testDir: './tests',
+  reporter: [['list'], ['html', { open: 'never' }]],
+  use: {
+    baseURL: process.env.BASE_URL ?? ${quote(baseUrl ?? '')},
+  },
+})
+`
+}
+
+function envExample(envVars: Map<string, string>): string {
+  return `${[...envVars].map(([name, value]) => `${name}=${value}`).join('\n')}\n`
+}
+
+function readme(projectName: string, scenarioCount: number): string {
+  return `# ${projectName}
+
+Playwright API tests exported from QAWave (${String(scenarioCount)} scenario${scenarioCount === 1 ? '' : 's'}).
+Each test and step carries a comment with the QAWave scenario or step ID it was generated from.
+
+## Running
+
+\`\`\`bash
+npm install
+cp .env.example .env   # fill in BASE_URL and any secrets
+npm test
+\`\`\`
+`
+}
@@ -0,0 +1,3 @@
+export { generatePlaywrightProject, slugify } from './generateProject'
+export type { GeneratedFile, PlaywrightProjectOptions } from './generateProject'
+export { zipProject } from './zip'
@@ -0,0 +1,52 @@
+// Static files copied into every generated Playwright project
+
+export const HELPERS_TS = `import { expect } from '@playwright/test'
+
+/** Read a required environment variable, failing the test with a clear message when unset */
+export function env(name: string): string {
+  const value = process.env[name]
+  expect(value, \`Environment variable \${name} is not set (see .env.example)\`).toBeDefined()
+  return value ?? ''
+}
+
+/** Parse a response body as JSON, or return undefined for non-JSON bodies */
+export function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown
+  } catch {
+    return undefined
+  }
+}
+
+/** Resolve a simple JSONPath expression such as $.items[0].id */
+export function jsonPath(value: unknown, path: string): unknown {
+  const segments = path.replace(/^\\$\\.?/, '').match(/[^.[\\]'"]+/g) ?? []
+  return segments.reduce<unknown>((current, segment) => {
+    if (current === null || typeof current !== 'object') return undefined
+    return (current as Record<string, unknown>)[segment]
+  }, value)
+}
+
+/** Return the first capture group of a pattern, or the whole match when it has none */
+export function extractRegex(text: string, pattern: string): string | undefined {
+  const match = new RegExp(pattern).exec(text)
+  return match?.[1] ?? match?.[0]
+}
+`
+
+export const TSCONFIG_JSON = `{
+  "compilerOptions": {
+    "target": "ES2022",
+    "module": "commonjs",
+    "strict": true,
+    "esModuleInterop": true,
+    "skipLibCheck": true
+  }
+}
+`
+
+export const GITIGNORE = `node_modules/
+test-results/
+playwright-report/
+.env
+`
@@ -0,0 +1,12 @@
+import { strToU8, zipSync } from 'fflate'
+import type { GeneratedFile } from './generateProject'
+
+/**
+ * Pack generated files into a ZIP archive under a single top-level folder.
+ */
+export function zipProject(folder: string, files: GeneratedFile[]): Blob {
+  const entries = Object.fromEntries(
+    files.map((file) => [`${folder}/${file.path}`, strToU8(file.content)])
+  )
+  return new Blob([zipSync(entries)], { type: 'application/zip' })
+}
@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { PreferencesProvider, usePreferences } from './PreferencesProvider'
+import { DEFAULT_PREFERENCES, loadStoredPreferences, storePreferences } from './preferences'
+import { renderWithQuery } from '@/test/test-utils'
+
+vi.mock('@/lib/auth', () => ({
+  useAuth: () => ({ user: { id: 'user-1' } }),
+}))
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+function Preferences() {
+  const { preferences, updatePreferences, saveError } = usePreferences()
+  return (
+    <div>
+      <span data-testid="page-size">{preferences.pageSize}</span>
+      <span data-testid="theme">{preferences.theme}</span>
+      {saveError && <span role="alert">{saveError.message}</span>}
+      <button
+        onClick={() => {
+          updatePreferences({ pageSize: 50, theme: 'light' })
+        }}
+      >
+        Update
+      </button>
+    </div>
+  )
+}
+
+function renderProvider() {
+  return renderWithQuery(
+    <PreferencesProvider>
+      <Preferences />
+    </PreferencesProvider>
+  )
+}
+
+describe('PreferencesProvider', () => {
+  afterEach(() => {
+    localStorage.clear()
+    // Restoring every mock would also reset the matchMedia stub from the test setup
+    vi.mocked(globalThis.fetch).mockRestore()
+  })
+
+  it('applies the server preferences over the stored copy', async () => {
+    storePreferences('user-1', { ...DEFAULT_PREFERENCES, pageSize: 10 })
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      jsonResponse({ ...DEFAULT_PREFERENCES, pageSize: 100 })
+    )
+    renderProvider()
+
+    expect(screen.getByTestId('page-size')).toHaveTextContent('10')
+    await waitFor(() => {
+      expect(screen.getByTestId('page-size')).toHaveTextContent('100')
+    })
+    expect(loadStoredPreferences('user-1').pageSize).toBe(100)
+  })
+
+  it('falls back to the stored copy when the server is unavailable', async () => {
+    storePreferences('user-1', { ...DEFAULT_PREFERENCES, theme: 'light' })
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(jsonResponse({ message: 'Unavailable' }, 503))
+    renderProvider()
+
+    await waitFor(() => {
+      expect(fetchSpy).toHaveBeenCalled()
+    })
+    expect(screen.getByTestId('theme')).toHaveTextContent('light')
+    expect(document.documentElement.dataset.theme).toBe('light')
+  })
+
+  it('saves changes locally and to the server', async () => {
+    const user = userEvent.setup()
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockImplementation((_url, init) =>
+        Promise.resolve(
+          init?.method === 'PUT'
+            ? jsonResponse(JSON.parse(init.body as string))
+            : jsonResponse(DEFAULT_PREFERENCES)
+        )
+      )
+    renderProvider()
+
+    await user.click(screen.getByRole('button', { name: 'Update' }))
+
+    expect(screen.getByTestId('page-size')).toHaveTextContent('50')
+    expect(document.documentElement.dataset.theme).toBe('light')
+    expect(loadStoredPreferences('user-1')).toMatchObject({ pageSize: 50, theme: 'light' })
+    await waitFor(() => {
+      expect(fetchSpy.mock.calls.some(([, init]) => init?.method === 'PUT')).toBe(true)
+    })
+    const put = fetchSpy.mock.calls.find(([, init]) => init?.method === 'PUT')
+    expect(put?.[0]).toContain('/api/qa/me/preferences')
+    expect(JSON.parse(put?.[1]?.body as string)).toMatchObject({ pageSize: 50, theme: 'light' })
+  })
+
+  it('keeps a change the server rejects and reports the error', async () => {
+    const user = userEvent.setup()
+    vi.spyOn(globalThis, 'fetch').mockImplementation((_url, init) =>
+      Promise.resolve(
+        init?.method === 'PUT'
+          ? jsonResponse({ message: 'Read-only profile' }, 403)
+          : jsonResponse(DEFAULT_PREFERENCES)
+      )
+    )
+    renderProvider()
+
+    await user.click(screen.getByRole('button', { name: 'Update' }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Read-only profile')
+    expect(screen.getByTestId('page-size')).toHaveTextContent('50')
+    expect(loadStoredPreferences('user-1').pageSize).toBe(50)
+  })
+})
@@ -0,0 +1,164 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from 'react'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { preferencesApi } from '@/api'
+import type { UserPreferences } from '@/api/types'
+import { useAuth } from '@/lib/auth'
+import {
+  DEFAULT_PREFERENCES,
+  loadStoredPreferences,
+  normalizePreferences,
+  storePreferences,
+} from './preferences'
+import { formatDate, formatDateTime, formatTimestamp } from './format'
+import {
+  applyTheme,
+  prefersLightScheme,
+  resolveTheme,
+  watchColorScheme,
+  type ResolvedTheme,
+} from './theme'
+
+export interface PreferencesContextType {
+  preferences: UserPreferences
+  updatePreferences: (changes: Partial<UserPreferences>) => void
+  /** The theme in effect, with `system` resolved against the OS color scheme */
+  resolvedTheme: ResolvedTheme
+  isSaving: boolean
+  /** Set when the server rejected the last save; the change still applies in this browser */
+  saveError: Error | null
+}
+
+// Outside the provider (e.g. in component tests) everything renders with the defaults
+const PreferencesContext = createContext<PreferencesContextType>({
+  preferences: DEFAULT_PREFERENCES,
+  updatePreferences: () => undefined,
+  resolvedTheme: 'dark',
+  isSaving: false,
+  saveError: null,
+})
+
+interface PreferencesProviderProps {
+  children: ReactNode
+}
+
+export function PreferencesProvider({ children }: PreferencesProviderProps) {
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+
+  // Keyed so signing in as someone else starts from their stored preferences
+  return (
+    <UserPreferencesProvider key={userId ?? 'anonymous'} userId={userId}>
+      {children}
+    </UserPreferencesProvider>
+  )
+}
+
+function UserPreferencesProvider({
+  userId,
+  children,
+}: PreferencesProviderProps & { userId: string | null }) {
+  const [preferences, setPreferences] = useState<UserPreferences>(() =>
+    userId ? loadStoredPreferences(userId) : DEFAULT_PREFERENCES
+  )
+  const hasLocalChanges = useRef(false)
+
+  // Preferences follow the user across workspaces, so the key carries no workspace
+  const { data: serverPreferences } = useQuery({
+    queryKey: ['preferences', userId],
+    queryFn: ({ signal }) => preferencesApi.get(signal),
+    enabled: userId !== null,
+    staleTime: Infinity,
+    retry: false,
+  })
+
+  const savePreferences = useMutation({
+    mutationFn: (next: UserPreferences) => preferencesApi.update(next),
+  })
+
+  // The server copy wins over the local fallback unless the user already changed something
+  useEffect(() => {
+    if (!serverPreferences || !userId || hasLocalChanges.current) return
+    const next = normalizePreferences(serverPreferences)
+    setPreferences(next)
+    storePreferences(userId, next)
+  }, [serverPreferences, userId])
+
+  const { mutate: save } = savePreferences
+  const updatePreferences = useCallback(
+    (changes: Partial<UserPreferences>) => {
+      const next = normalizePreferences({ ...preferences, ...changes })
+      hasLocalChanges.current = true
+      setPreferences(next)
+      if (userId) {
+        storePreferences(userId, next)
+        save(next)
+      }
+    },
+    [preferences, userId, save]
+  )
+
+  const [prefersLight, setPrefersLight] = useState(prefersLightScheme)
+  useEffect(
+    () =>
+      watchColorScheme(() => {
+        setPrefersLight(prefersLightScheme())
+      }),
+    []
+  )
+
+  const resolvedTheme = resolveTheme(preferences.theme, prefersLight)
+  useEffect(() => {
+    applyTheme(resolvedTheme)
+  }, [resolvedTheme])
+
+  const value = useMemo<PreferencesContextType>(
+    () => ({
+      preferences,
+      updatePreferences,
+      resolvedTheme,
+      isSaving: savePreferences.isPending,
+      saveError: savePreferences.error,
+    }),
+    [
+      preferences,
+      updatePreferences,
+      resolvedTheme,
+      savePreferences.isPending,
+      savePreferences.error,
+    ]
+  )
+
+  return <PreferencesContext.Provider value={value}>{children}</PreferencesContext.Provider>
+}
+
+// eslint-disable-next-line react-refresh/only-export-components
+export function usePreferences(): PreferencesContextType {
+  return useContext(PreferencesContext)
+}
+
+/**
+ * Date formatters bound to the user's time zone, clock and relative-time preferences
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export function useDateFormat() {
+  const { preferences } = usePreferences()
+
+  return useMemo(
+    () => ({
+      formatDate: (value: string | Date) => formatDate(value, preferences),
+      formatDateTime: (value: string | Date, options?: { seconds?: boolean }) =>
+        formatDateTime(value, preferences, options),
+      formatTimestamp: (value: string | Date) => formatTimestamp(value, preferences),
+    }),
+    [preferences]
+  )
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatDate,
+  formatDateTime,
+  formatRelativeTime,
+  formatTimestamp,
+  type DateFormatPreferences,
+} from './format'
+
+const utc24: DateFormatPreferences = { timeZone: 'UTC', hour12: false, timeDisplay: 'relative' }
+const value = '2024-03-05T21:30:15Z'
+
+describe('formatDate', () => {
+  it('formats the calendar date in the preferred time zone', () => {
+    expect(formatDate(value, utc24)).toBe('Mar 5, 2024')
+    expect(formatDate(value, { ...utc24, timeZone: 'Asia/Tokyo' })).toBe('Mar 6, 2024')
+  })
+})
+
+describe('formatDateTime', () => {
+  it('uses the preferred clock', () => {
+    expect(formatDateTime(value, utc24)).toBe('Mar 5, 2024, 21:30')
+    expect(formatDateTime(value, { ...utc24, hour12: true })).toBe('Mar 5, 2024, 09:30 PM')
+  })
+
+  it('adds seconds on request', () => {
+    expect(formatDateTime(value, utc24, { seconds: true })).toBe('Mar 5, 2024, 21:30:15')
+  })
+})
+
+describe('formatRelativeTime', () => {
+  const now = new Date('2024-03-10T12:00:00Z')
+
+  it('describes recent dates relative to now', () => {
+    expect(formatRelativeTime('2024-03-10T11:59:30Z', now)).toBe('just now')
+    expect(formatRelativeTime('2024-03-10T11:15:00Z', now)).toBe('45m ago')
+    expect(formatRelativeTime('2024-03-10T02:00:00Z', now)).toBe('10h ago')
+    expect(formatRelativeTime('2024-03-07T12:00:00Z', now)).toBe('3d ago')
+  })
+
+  it('gives up after a week', () => {
+    expect(formatRelativeTime('2024-03-03T12:00:00Z', now)).toBeNull()
+  })
+})
+
+describe('formatTimestamp', () => {
+  const now = new Date('2024-03-05T21:35:15Z')
+
+  it('prefers relative text and falls back to the date for older timestamps', () => {
+    expect(formatTimestamp(value, utc24, now)).toBe('5m ago')
+    expect(formatTimestamp('2024-01-01T00:00:00Z', utc24, now)).toBe('Jan 1, 2024')
+  })
+
+  it('always shows date and time with the absolute display', () => {
+    expect(formatTimestamp(value, { ...utc24, timeDisplay: 'absolute' }, now)).toBe(
+      'Mar 5, 2024, 21:30'
+    )
+  })
+})
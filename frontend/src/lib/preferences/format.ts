@@ -0,0 +1,72 @@
+import type { UserPreferences } from '@/api/types'
+
+export type DateFormatPreferences = Pick<UserPreferences, 'timeZone' | 'hour12' | 'timeDisplay'>
+
+type DateInput = string | Date
+
+const LOCALE = 'en-US'
+
+const RELATIVE_LIMIT_DAYS = 7
+
+const toDate = (value: DateInput) => (typeof value === 'string' ? new Date(value) : value)
+
+// Omitting the zone formats in the browser's zone
+const zoneOptions = ({ timeZone }: DateFormatPreferences): Intl.DateTimeFormatOptions =>
+  timeZone ? { timeZone } : {}
+
+/** Calendar date, e.g. "Mar 5, 2024" */
+export function formatDate(value: DateInput, preferences: DateFormatPreferences): string {
+  return toDate(value).toLocaleDateString(LOCALE, {
+    ...zoneOptions(preferences),
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+/** Date and time on the preferred clock, e.g. "Mar 5, 2024, 14:30" */
+export function formatDateTime(
+  value: DateInput,
+  preferences: DateFormatPreferences,
+  { seconds = false }: { seconds?: boolean } = {}
+): string {
+  return toDate(value).toLocaleString(LOCALE, {
+    ...zoneOptions(preferences),
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    ...(seconds ? { second: '2-digit' } : {}),
+    hour12: preferences.hour12,
+  })
+}
+
+/** "5m ago" style text; null once the date is a week or more in the past */
+export function formatRelativeTime(value: DateInput, now: Date = new Date()): string | null {
+  const diffMs = now.getTime() - toDate(value).getTime()
+  const diffMins = Math.floor(diffMs / (1000 * 60))
+  const diffHours = Math.floor(diffMs / (1000 * 60 * 60))
+  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24))
+
+  if (diffMins < 1) return 'just now'
+  if (diffMins < 60) return `${String(diffMins)}m ago`
+  if (diffHours < 24) return `${String(diffHours)}h ago`
+  if (diffDays < RELATIVE_LIMIT_DAYS) return `${String(diffDays)}d ago`
+  return null
+}
+
+/**
+ * Timestamp in the user's preferred display: relative for recent dates, falling back to the
+ * calendar date, or always the full date and time
+ */
+export function formatTimestamp(
+  value: DateInput,
+  preferences: DateFormatPreferences,
+  now: Date = new Date()
+): string {
+  if (preferences.timeDisplay === 'absolute') {
+    return formatDateTime(value, preferences)
+  }
+  return formatRelativeTime(value, now) ?? formatDate(value, preferences)
+}
@@ -0,0 +1,18 @@
+export { PreferencesProvider, usePreferences, useDateFormat } from './PreferencesProvider'
+export type { PreferencesContextType } from './PreferencesProvider'
+export {
+  DEFAULT_PREFERENCES,
+  EDITOR_FONT_SIZE_RANGE,
+  PAGE_SIZE_OPTIONS,
+  loadStoredPreferences,
+  normalizePreferences,
+  storePreferences,
+} from './preferences'
+export {
+  formatDate,
+  formatDateTime,
+  formatRelativeTime,
+  formatTimestamp,
+  type DateFormatPreferences,
+} from './format'
+export { applyTheme, resolveTheme, type ResolvedTheme } from './theme'
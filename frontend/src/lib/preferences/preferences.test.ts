@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  DEFAULT_PREFERENCES,
+  loadStoredPreferences,
+  normalizePreferences,
+  storePreferences,
+} from './preferences'
+
+describe('normalizePreferences', () => {
+  it('keeps valid fields and defaults the rest', () => {
+    expect(
+      normalizePreferences({
+        timeZone: 'Europe/Berlin',
+        hour12: 'yes',
+        timeDisplay: 'absolute',
+        pageSize: 33,
+        theme: 'light',
+        editorFontSize: 99,
+      })
+    ).toEqual({
+      ...DEFAULT_PREFERENCES,
+      timeZone: 'Europe/Berlin',
+      timeDisplay: 'absolute',
+      theme: 'light',
+    })
+  })
+
+  it('drops unknown time zones', () => {
+    expect(normalizePreferences({ timeZone: 'Mars/Olympus' }).timeZone).toBeNull()
+  })
+
+  it('defaults anything that is not an object', () => {
+    expect(normalizePreferences(null)).toEqual(DEFAULT_PREFERENCES)
+    expect(normalizePreferences('dark')).toEqual(DEFAULT_PREFERENCES)
+  })
+})
+
+describe('stored preferences', () => {
+  afterEach(() => {
+    localStorage.clear()
+  })
+
+  it('round-trips per user', () => {
+    const preferences = { ...DEFAULT_PREFERENCES, pageSize: 50 }
+    storePreferences('user-1', preferences)
+
+    expect(loadStoredPreferences('user-1')).toEqual(preferences)
+    expect(loadStoredPreferences('user-2')).toEqual(DEFAULT_PREFERENCES)
+  })
+
+  it('ignores corrupt entries', () => {
+    localStorage.setItem('qawave.preferences.user-1', '{not json')
+    expect(loadStoredPreferences('user-1')).toEqual(DEFAULT_PREFERENCES)
+  })
+})
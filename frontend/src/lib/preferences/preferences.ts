@@ -0,0 +1,68 @@
+import type { ThemePreference, TimeDisplay, UserPreferences } from '@/api/types'
+import { isValidTimeZone } from '@/lib/schedule'
+
+export const PAGE_SIZE_OPTIONS = [10, 20, 50, 100] as const
+
+export const EDITOR_FONT_SIZE_RANGE = { min: 10, max: 24 } as const
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  timeZone: null,
+  hour12: false,
+  timeDisplay: 'relative',
+  pageSize: 20,
+  theme: 'dark',
+  editorFontSize: 14,
+}
+
+const THEMES: readonly ThemePreference[] = ['system', 'dark', 'light']
+const TIME_DISPLAYS: readonly TimeDisplay[] = ['relative', 'absolute']
+
+const STORAGE_KEY_PREFIX = 'qawave.preferences'
+
+/**
+ * Keeps the valid fields of stored or server-sent preferences and fills the rest with defaults
+ */
+export function normalizePreferences(value: unknown): UserPreferences {
+  if (typeof value !== 'object' || value === null) return DEFAULT_PREFERENCES
+  const raw = value as Record<string, unknown>
+  const { min, max } = EDITOR_FONT_SIZE_RANGE
+
+  return {
+    timeZone:
+      typeof raw.timeZone === 'string' && isValidTimeZone(raw.timeZone)
+        ? raw.timeZone
+        : DEFAULT_PREFERENCES.timeZone,
+    hour12: typeof raw.hour12 === 'boolean' ? raw.hour12 : DEFAULT_PREFERENCES.hour12,
+    timeDisplay:
+      TIME_DISPLAYS.find((option) => option === raw.timeDisplay) ?? DEFAULT_PREFERENCES.timeDisplay,
+    pageSize:
+      PAGE_SIZE_OPTIONS.find((size) => size === raw.pageSize) ?? DEFAULT_PREFERENCES.pageSize,
+    theme: THEMES.find((theme) => theme === raw.theme) ?? DEFAULT_PREFERENCES.theme,
+    editorFontSize:
+      typeof raw.editorFontSize === 'number' &&
+      Number.isInteger(raw.editorFontSize) &&
+      raw.editorFontSize >= min &&
+      raw.editorFontSize <= max
+        ? raw.editorFontSize
+        : DEFAULT_PREFERENCES.editorFontSize,
+  }
+}
+
+const storageKey = (userId: string) => `${STORAGE_KEY_PREFIX}.${userId}`
+
+export function loadStoredPreferences(userId: string): UserPreferences {
+  try {
+    const stored = localStorage.getItem(storageKey(userId))
+    return stored ? normalizePreferences(JSON.parse(stored)) : DEFAULT_PREFERENCES
+  } catch {
+    return DEFAULT_PREFERENCES
+  }
+}
+
+export function storePreferences(userId: string, preferences: UserPreferences): void {
+  try {
+    localStorage.setItem(storageKey(userId), JSON.stringify(preferences))
+  } catch {
+    // Storage can be unavailable (private mode); the server copy still applies on next load
+  }
+}
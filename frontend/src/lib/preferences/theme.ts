@@ -0,0 +1,33 @@
+import type { ThemePreference } from '@/api/types'
+
+export type ResolvedTheme = 'dark' | 'light'
+
+const LIGHT_SCHEME_QUERY = '(prefers-color-scheme: light)'
+
+export function resolveTheme(theme: ThemePreference, prefersLight: boolean): ResolvedTheme {
+  if (theme === 'system') return prefersLight ? 'light' : 'dark'
+  return theme
+}
+
+/** Whether the OS asks for a light scheme; false where media queries are unavailable */
+export function prefersLightScheme(): boolean {
+  return typeof window.matchMedia === 'function' && window.matchMedia(LIGHT_SCHEME_QUERY).matches
+}
+
+/**
+ * Calls the listener when the OS color scheme changes; returns the unsubscribe function
+ */
+export function watchColorScheme(listener: () => void): () => void {
+  if (typeof window.matchMedia !== 'function') return () => undefined
+  const query = window.matchMedia(LIGHT_SCHEME_QUERY)
+  query.addEventListener('change', listener)
+  return () => {
+    query.removeEventListener('change', listener)
+  }
+}
+
+export function applyTheme(theme: ResolvedTheme, root: HTMLElement = document.documentElement) {
+  root.dataset.theme = theme
+  root.classList.toggle('dark', theme === 'dark')
+  root.style.colorScheme = theme
+}
@@ -0,0 +1,4 @@
+export { generateSnippet, toCurl, toHttpie, toFetch, SNIPPET_FORMATS } from './snippets'
+export type { SnippetFormat } from './snippets'
+export { diffResponses } from './responseDiff'
+export type { RecordedResponse, HeaderChange, ResponseDiff } from './responseDiff'
@@ -0,0 +1,69 @@
+import type { ReplayResponse } from '@/api/types'
+import { diffLines, hasChanges, type DiffLine } from '@/lib/diff'
+
+export interface RecordedResponse {
+  status: number
+  headers: Record<string, string>
+  body: string | null
+}
+
+export interface HeaderChange {
+  name: string
+  before: string | null
+  after: string | null
+}
+
+export interface ResponseDiff {
+  statusChanged: boolean
+  headerChanges: HeaderChange[]
+  bodyDiff: DiffLine[]
+  bodyChanged: boolean
+  identical: boolean
+}
+
+/**
+ * Compare a recorded step response with a replayed one. Header names are compared
+ * case-insensitively and JSON bodies are pretty-printed so formatting noise is ignored.
+ */
+export function diffResponses(recorded: RecordedResponse, replayed: ReplayResponse): ResponseDiff {
+  const statusChanged = recorded.status !== replayed.status
+  const headerChanges = diffHeaders(recorded.headers, replayed.headers)
+  const bodyDiff = diffLines(formatBody(recorded.body), formatBody(replayed.body))
+  const bodyChanged = hasChanges(bodyDiff)
+
+  return {
+    statusChanged,
+    headerChanges,
+    bodyDiff,
+    bodyChanged,
+    identical: !statusChanged && headerChanges.length === 0 && !bodyChanged,
+  }
+}
+
+function diffHeaders(
+  before: Record<string, string>,
+  after: Record<string, string>
+): HeaderChange[] {
+  const normalize = (headers: Record<string, string>) =>
+    new Map(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]))
+  const beforeMap = normalize(before)
+  const afterMap = normalize(after)
+  const names = [...new Set([...beforeMap.keys(), ...afterMap.keys()])].sort()
+
+  return names
+    .map((name) => ({
+      name,
+      before: beforeMap.get(name) ?? null,
+      after: afterMap.get(name) ?? null,
+    }))
+    .filter((change) => change.before !== change.after)
+}
+
+function formatBody(body: string | null): string {
+  if (body === null) return ''
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2)
+  } catch {
+    return body
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { toCurl, toFetch, toHttpie } from './snippets'
+import type { ResolvedRequest } from '@/api/types'
+
+const request: ResolvedRequest = {
+  method: 'POST',
+  url: 'https://api.example.com/users?team=qa',
+  headers: { 'Content-Type': 'application/json', Authorization: 'Bearer abc' },
+  body: `{"name": "O'Brien"}`,
+}
+
+describe('request snippets', () => {
+  it('renders a cURL command with escaped single quotes', () => {
+    expect(toCurl(request)).toBe(
+      [
+        `curl -X POST 'https://api.example.com/users?team=qa' \\`,
+        `  -H 'Content-Type: application/json' \\`,
+        `  -H 'Authorization: Bearer abc' \\`,
+        `  --data-raw '{"name": "O'\\''Brien"}'`,
+      ].join('\n')
+    )
+  })
+
+  it('omits the method and body for a plain GET', () => {
+    expect(
+      toCurl({ method: 'GET', url: 'https://api.example.com/users', headers: {}, body: null })
+    ).toBe(`curl 'https://api.example.com/users'`)
+  })
+
+  it('renders an HTTPie command', () => {
+    expect(toHttpie(request)).toBe(
+      [
+        `http POST 'https://api.example.com/users?team=qa' \\`,
+        `  'Content-Type:application/json' \\`,
+        `  'Authorization:Bearer abc' \\`,
+        `  --raw '{"name": "O'\\''Brien"}'`,
+      ].join('\n')
+    )
+  })
+
+  it('renders a fetch call', () => {
+    expect(toFetch(request)).toBe(
+      [
+        'await fetch("https://api.example.com/users?team=qa", {',
+        '  method: "POST",',
+        '  headers: {',
+        '    "Content-Type": "application/json",',
+        '    "Authorization": "Bearer abc"',
+        '  },',
+        `  body: "{\\"name\\": \\"O'Brien\\"}",`,
+        '})',
+      ].join('\n')
+    )
+  })
+})
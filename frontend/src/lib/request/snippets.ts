@@ -0,0 +1,74 @@
+import type { ResolvedRequest } from '@/api/types'
+
+export type SnippetFormat = 'curl' | 'httpie' | 'fetch'
+
+export const SNIPPET_FORMATS: { value: SnippetFormat; label: string }[] = [
+  { value: 'curl', label: 'cURL' },
+  { value: 'httpie', label: 'HTTPie' },
+  { value: 'fetch', label: 'fetch' },
+]
+
+/**
+ * Render a resolved request as a copy-pasteable command or code snippet.
+ */
+export function generateSnippet(request: ResolvedRequest, format: SnippetFormat): string {
+  switch (format) {
+    case 'curl':
+      return toCurl(request)
+    case 'httpie':
+      return toHttpie(request)
+    case 'fetch':
+      return toFetch(request)
+  }
+}
+
+export function toCurl(request: ResolvedRequest): string {
+  const parts = [
+    `curl${request.method === 'GET' ? '' : ` -X ${request.method}`} ${shellQuote(request.url)}`,
+  ]
+
+  Object.entries(request.headers).forEach(([name, value]) => {
+    parts.push(`-H ${shellQuote(`${name}: ${value}`)}`)
+  })
+  if (request.body !== null) {
+    parts.push(`--data-raw ${shellQuote(request.body)}`)
+  }
+
+  return parts.join(' \\\n  ')
+}
+
+export function toHttpie(request: ResolvedRequest): string {
+  const parts = [`http ${request.method} ${shellQuote(request.url)}`]
+
+  Object.entries(request.headers).forEach(([name, value]) => {
+    parts.push(shellQuote(`${name}:${value}`))
+  })
+  if (request.body !== null) {
+    parts.push(`--raw ${shellQuote(request.body)}`)
+  }
+
+  return parts.join(' \\\n  ')
+}
+
+export function toFetch(request: ResolvedRequest): string {
+  const lines = [
+    `await fetch(${JSON.stringify(request.url)}, {`,
+    `  method: ${JSON.stringify(request.method)},`,
+  ]
+
+  if (Object.keys(request.headers).length > 0) {
+    const headers = JSON.stringify(request.headers, null, 2).replace(/\n/g, '\n  ')
+    lines.push(`  headers: ${headers},`)
+  }
+  if (request.body !== null) {
+    lines.push(`  body: ${JSON.stringify(request.body)},`)
+  }
+  lines.push('})')
+
+  return lines.join('\n')
+}
+
+// POSIX single-quoting: close the quote, emit an escaped quote, reopen
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
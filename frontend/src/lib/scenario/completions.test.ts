@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { getCompletionContext } from './completions'
+
+const source = `[
+  {
+    "order": 1,
+    "method": "POST",
+    "endpoint": "/users",
+    "assertions": [{ "type": "STATUS", "operator": "EQUALS" }],
+    "extractors": [{ "name": "userId", "type": "JSON_PATH", "path": "$.id" }]
+  },
+  {
+    "order": 2,
+    "method": "GET",
+    "endpoint": "/users/{us"
+  }
+]`
+
+const contextAfter = (marker: string) =>
+  getCompletionContext(source, source.indexOf(marker) + marker.length)
+
+describe('getCompletionContext', () => {
+  it('completes HTTP methods', () => {
+    expect(contextAfter('"method": "P')).toMatchObject({ kind: 'method', prefix: 'P' })
+  })
+
+  it('distinguishes assertion and extractor types', () => {
+    expect(contextAfter('{ "type": "')).toMatchObject({ kind: 'assertionType', prefix: '' })
+    expect(contextAfter('"type": "JSON')).toMatchObject({ kind: 'extractorType', prefix: 'JSON' })
+  })
+
+  it('completes comparison operators', () => {
+    expect(contextAfter('"operator": "EQ')?.values).toContain('GREATER_THAN')
+  })
+
+  it('offers variables extracted by earlier steps inside placeholders', () => {
+    expect(contextAfter('/users/{us')).toEqual({
+      kind: 'variable',
+      prefix: 'us',
+      values: ['baseUrl', 'userId'],
+    })
+  })
+
+  it('returns null elsewhere', () => {
+    expect(contextAfter('"endpoint": "/us')).toBeNull()
+  })
+})
@@ -0,0 +1,79 @@
+import { ASSERTION_TYPES, COMPARISON_OPERATORS, EXTRACTOR_TYPES, HTTP_METHODS } from './constants'
+import { parseJsonWithLocations } from './jsonLocations'
+import {
+  analyzeVariableFlow,
+  getAvailableVariables,
+  type VariableFlowOptions,
+} from './variableFlow'
+
+export type CompletionKind = 'variable' | 'method' | 'assertionType' | 'extractorType' | 'operator'
+
+export interface CompletionContext {
+  kind: CompletionKind
+  /** Text already typed for the value being completed */
+  prefix: string
+  values: string[]
+}
+
+const ENUM_VALUE_PATTERN = /"(method|type|operator)"\s*:\s*"(\w*)$/
+const PLACEHOLDER_PREFIX_PATTERN = /\{\{?\s*([\w.-]*)$/
+
+/**
+ * Work out what can be completed at `offset` in the JSON source of a step array:
+ * variable names inside a `{placeholder}`, or enum values for method, assertion or
+ * extractor type and operator.
+ */
+export function getCompletionContext(
+  source: string,
+  offset: number,
+  options: VariableFlowOptions = {}
+): CompletionContext | null {
+  const before = source.slice(0, offset)
+  const currentLine = before.slice(before.lastIndexOf('\n') + 1)
+
+  const enumMatch = ENUM_VALUE_PATTERN.exec(currentLine)
+  if (enumMatch) {
+    const [, property, prefix = ''] = enumMatch
+    if (property === 'method') return { kind: 'method', prefix, values: HTTP_METHODS }
+    if (property === 'operator') return { kind: 'operator', prefix, values: COMPARISON_OPERATORS }
+    // "type" is shared by assertions and extractors; the closer enclosing array decides
+    return before.lastIndexOf('"extractors"') > before.lastIndexOf('"assertions"')
+      ? { kind: 'extractorType', prefix, values: EXTRACTOR_TYPES }
+      : { kind: 'assertionType', prefix, values: ASSERTION_TYPES }
+  }
+
+  const placeholderMatch = PLACEHOLDER_PREFIX_PATTERN.exec(currentLine)
+  if (placeholderMatch && isInsideString(currentLine)) {
+    return {
+      kind: 'variable',
+      prefix: placeholderMatch[1] ?? '',
+      values: getVariablesAt(source, offset, options),
+    }
+  }
+
+  return null
+}
+
+function getVariablesAt(source: string, offset: number, options: VariableFlowOptions): string[] {
+  try {
+    const { value, locations } = parseJsonWithLocations(source)
+    if (!Array.isArray(value)) return []
+
+    const flow = analyzeVariableFlow(value, options)
+    const stepIndex = value.findIndex((_, index) => {
+      const location = locations.get(String(index))
+      return location !== undefined && location.start <= offset && offset <= location.end
+    })
+    if (stepIndex >= 0) return getAvailableVariables(flow, stepIndex, options)
+
+    return [...new Set(flow.definitions.map((definition) => definition.name))]
+  } catch {
+    // Mid-edit source that is not valid JSON; only the static names are certain
+    return getAvailableVariables(analyzeVariableFlow([], options), -1, options)
+  }
+}
+
+function isInsideString(line: string): boolean {
+  const quotes = line.replace(/\\./g, '').match(/"/g)?.length ?? 0
+  return quotes % 2 === 1
+}
@@ -0,0 +1,43 @@
+import type { AssertionType, ComparisonOperator, ExtractorType, HttpMethod } from '@/api/types'
+
+// Keyed records make the compiler flag any union member missing from the lists below
+
+const HTTP_METHOD_KEYS: Record<HttpMethod, true> = {
+  GET: true,
+  POST: true,
+  PUT: true,
+  PATCH: true,
+  DELETE: true,
+}
+
+const ASSERTION_TYPE_KEYS: Record<AssertionType, true> = {
+  STATUS: true,
+  JSON_PATH: true,
+  HEADER: true,
+  BODY_CONTAINS: true,
+}
+
+const COMPARISON_OPERATOR_KEYS: Record<ComparisonOperator, true> = {
+  EQUALS: true,
+  NOT_EQUALS: true,
+  CONTAINS: true,
+  GREATER_THAN: true,
+  LESS_THAN: true,
+}
+
+const EXTRACTOR_TYPE_KEYS: Record<ExtractorType, true> = {
+  JSON_PATH: true,
+  HEADER: true,
+  REGEX: true,
+}
+
+export const HTTP_METHODS = Object.keys(HTTP_METHOD_KEYS) as HttpMethod[]
+
+export const ASSERTION_TYPES = Object.keys(ASSERTION_TYPE_KEYS) as AssertionType[]
+
+export const COMPARISON_OPERATORS = Object.keys(COMPARISON_OPERATOR_KEYS) as ComparisonOperator[]
+
+export const EXTRACTOR_TYPES = Object.keys(EXTRACTOR_TYPE_KEYS) as ExtractorType[]
+
+/** Variables supplied by the run itself rather than extracted by a step */
+export const BUILT_IN_VARIABLES = ['baseUrl']
@@ -0,0 +1,54 @@
+export { analyzeVariableFlow, analyzeScenarioSource, getAvailableVariables } from './variableFlow'
+export type {
+  VariableFlow,
+  VariableFlowOptions,
+  VariableDefinition,
+  VariableReference,
+  VariableIssue,
+  VariableIssueKind,
+  VariableSite,
+  ScenarioDiagnostic,
+} from './variableFlow'
+export { getCompletionContext } from './completions'
+export type { CompletionContext, CompletionKind } from './completions'
+export { findPlaceholders, hasPlaceholder, PLACEHOLDER_PATTERN } from './placeholders'
+export type { PlaceholderMatch } from './placeholders'
+export {
+  parseJsonWithLocations,
+  offsetToPosition,
+  stringIndexToOffset,
+  toPointer,
+} from './jsonLocations'
+export type { JsonPath, JsonLocation, LocatedJson, TextPosition } from './jsonLocations'
+export {
+  HTTP_METHODS,
+  ASSERTION_TYPES,
+  COMPARISON_OPERATORS,
+  EXTRACTOR_TYPES,
+  BUILT_IN_VARIABLES,
+} from './constants'
+export { TEST_STEPS_SCHEMA, TEST_STEPS_SCHEMA_URI, findShapeError } from './testStepSchema'
+export type { JsonSchema } from './testStepSchema'
+export {
+  createStepId,
+  createEmptyStep,
+  createEmptyAssertion,
+  createEmptyExtractor,
+  renumberSteps,
+  moveStep,
+  duplicateStep,
+  removeStep,
+  formatExpectedValue,
+  parseExpectedValue,
+} from './stepEditing'
+export { buildScenarioCatalog, filterScenarios } from './selection'
+export type { ScenarioCatalog, ScenarioFacets, ScenarioSelectionFilter } from './selection'
+export {
+  REGENERATION_TAG,
+  normalizeTag,
+  parseTagInput,
+  addTags,
+  collectTags,
+  hasAllTags,
+  filterByTags,
+} from './tags'
@@ -0,0 +1,112 @@
+export type JsonPath = (string | number)[]
+
+export interface JsonLocation {
+  /** Offset of the first character of the value */
+  start: number
+  /** Offset just past the last character of the value */
+  end: number
+}
+
+export interface LocatedJson {
+  value: unknown
+  locations: Map<string, JsonLocation>
+}
+
+export interface TextPosition {
+  line: number
+  column: number
+}
+
+/** Key for a value path, escaped as a JSON Pointer */
+export function toPointer(path: JsonPath): string {
+  return path.map((segment) => String(segment).replace(/~/g, '~0').replace(/\//g, '~1')).join('/')
+}
+
+/**
+ * Parse JSON and record the source range of every value, keyed by `toPointer(path)`.
+ * Throws a SyntaxError for invalid input, like JSON.parse.
+ */
+export function parseJsonWithLocations(text: string): LocatedJson {
+  const value = JSON.parse(text) as unknown
+  const locations = new Map<string, JsonLocation>()
+  let pos = 0
+
+  const skipWhitespace = () => {
+    while (pos < text.length && ' \t\n\r'.includes(text.charAt(pos))) pos++
+  }
+
+  const readString = (): string => {
+    const start = pos
+    pos++
+    while (text.charAt(pos) !== '"') {
+      if (text.charAt(pos) === '\\') pos++
+      pos++
+    }
+    pos++
+    return JSON.parse(text.slice(start, pos)) as string
+  }
+
+  const readValue = (path: JsonPath) => {
+    skipWhitespace()
+    const start = pos
+    const char = text.charAt(pos)
+
+    if (char === '{' || char === '[') {
+      const isObject = char === '{'
+      const close = isObject ? '}' : ']'
+      pos++
+      skipWhitespace()
+      for (let index = 0; text.charAt(pos) !== close; index++) {
+        if (isObject) {
+          const key = readString()
+          skipWhitespace()
+          pos++ // colon
+          readValue([...path, key])
+        } else {
+          readValue([...path, index])
+        }
+        skipWhitespace()
+        if (text.charAt(pos) === ',') {
+          pos++
+          skipWhitespace()
+        }
+      }
+      pos++
+    } else if (char === '"') {
+      readString()
+    } else {
+      while (pos < text.length && !',}] \t\n\r'.includes(text.charAt(pos))) pos++
+    }
+
+    locations.set(toPointer(path), { start, end: pos })
+  }
+
+  readValue([])
+  return { value, locations }
+}
+
+/**
+ * Map an index within a decoded string value to its offset in the source, accounting
+ * for escape sequences. `literalStart` is the offset of the opening quote.
+ */
+export function stringIndexToOffset(text: string, literalStart: number, index: number): number {
+  let offset = literalStart + 1
+  for (let decoded = 0; decoded < index; decoded++) {
+    if (text.charAt(offset) === '\\') {
+      offset += text.charAt(offset + 1) === 'u' ? 6 : 2
+    } else {
+      offset++
+    }
+  }
+  return offset
+}
+
+/** Convert a source offset to a 1-based line and column */
+export function offsetToPosition(text: string, offset: number): TextPosition {
+  const before = text.slice(0, offset)
+  const lastNewline = before.lastIndexOf('\n')
+  return {
+    line: before.split('\n').length,
+    column: offset - lastNewline,
+  }
+}
@@ -0,0 +1,21 @@
+// Matches {name} and {{name}} placeholders in endpoints, headers, bodies and expected values
+export const PLACEHOLDER_PATTERN = /\{\{?\s*([A-Za-z_][\w.-]*)\s*\}?\}/g
+
+export interface PlaceholderMatch {
+  name: string
+  /** Index of the opening brace within the searched text */
+  index: number
+  length: number
+}
+
+export function findPlaceholders(text: string): PlaceholderMatch[] {
+  return Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => ({
+    name: match[1] ?? '',
+    index: match.index,
+    length: match[0].length,
+  }))
+}
+
+export function hasPlaceholder(text: string): boolean {
+  return findPlaceholders(text).length > 0
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { buildScenarioCatalog, filterScenarios } from './selection'
+import { mockScenario } from '@/test/mocks'
+import type { ApiOperation } from '@/lib/openapi'
+import type { HttpMethod, Scenario, ScenarioStatus } from '@/api/types'
+
+const operations: ApiOperation[] = [
+  { method: 'POST', path: '/users', operationId: null, summary: null, tags: ['users'] },
+  { method: 'GET', path: '/users/{id}', operationId: null, summary: null, tags: ['users'] },
+  { method: 'POST', path: '/login', operationId: null, summary: null, tags: ['auth'] },
+]
+
+function scenario(
+  id: string,
+  name: string,
+  status: ScenarioStatus,
+  steps: [HttpMethod, string][]
+): Scenario {
+  return {
+    ...mockScenario,
+    id,
+    name,
+    status,
+    tags: [],
+    steps: steps.map(([method, endpoint], index) => ({
+      ...mockScenario.steps[0],
+      id: `${id}-step-${String(index)}`,
+      order: index + 1,
+      method,
+      endpoint,
+      headers: {},
+      body: null,
+      expectedStatus: 200,
+      assertions: [],
+      extractors: [],
+      timeoutMs: 5000,
+    })),
+  }
+}
+
+const scenarios = [
+  scenario('login', 'Login flow', 'PASSED', [['POST', '/login']]),
+  scenario('create', 'Create user', 'FAILED', [
+    ['POST', '{{baseUrl}}/login'],
+    ['POST', '/users'],
+    ['GET', '/users/{{userId}}'],
+  ]),
+  scenario('health', 'Health check', 'PENDING', [['GET', '/health?verbose=1']]),
+]
+
+describe('buildScenarioCatalog', () => {
+  it('collects tags and spec paths from the operations each scenario calls', () => {
+    const catalog = buildScenarioCatalog(scenarios, { operations, servers: [] })
+
+    expect(catalog.facets.get('create')).toEqual({
+      tags: ['auth', 'users'],
+      endpoints: ['GET /users/{id}', 'POST /login', 'POST /users'],
+    })
+    expect(catalog.facets.get('health')).toEqual({ tags: [], endpoints: ['GET /health'] })
+    expect(catalog.tags).toEqual(['auth', 'users'])
+    expect(catalog.endpoints).toEqual([
+      'GET /health',
+      'GET /users/{id}',
+      'POST /login',
+      'POST /users',
+    ])
+  })
+
+  it('falls back to normalized step endpoints without a spec', () => {
+    const catalog = buildScenarioCatalog(scenarios)
+
+    expect(catalog.tags).toEqual([])
+    expect(catalog.facets.get('create')?.endpoints).toContain('GET /users/{{userId}}')
+  })
+
+  it('merges the scenarios\' own tags with the operation tags', () => {
+    const tagged = scenarios.map((s) => (s.id === 'login' ? { ...s, tags: ['smoke', 'auth'] } : s))
+    const catalog = buildScenarioCatalog(tagged, { operations, servers: [] })
+
+    expect(catalog.facets.get('login')?.tags).toEqual(['auth', 'smoke'])
+    expect(catalog.tags).toEqual(['auth', 'smoke', 'users'])
+    expect(buildScenarioCatalog(tagged).tags).toEqual(['auth', 'smoke'])
+  })
+})
+
+describe('filterScenarios', () => {
+  const catalog = buildScenarioCatalog(scenarios, { operations, servers: [] })
+  const ids = (result: Scenario[]) => result.map((s) => s.id)
+
+  it('returns everything without criteria', () => {
+    expect(ids(filterScenarios(scenarios, {}, catalog))).toEqual(['login', 'create', 'health'])
+  })
+
+  it('combines name, tag, endpoint and status criteria', () => {
+    expect(ids(filterScenarios(scenarios, { query: 'USER' }, catalog))).toEqual(['create'])
+    expect(ids(filterScenarios(scenarios, { tag: 'auth' }, catalog))).toEqual(['login', 'create'])
+    expect(ids(filterScenarios(scenarios, { endpoint: 'POST /login' }, catalog))).toEqual([
+      'login',
+      'create',
+    ])
+    expect(ids(filterScenarios(scenarios, { tag: 'auth', status: 'FAILED' }, catalog))).toEqual([
+      'create',
+    ])
+  })
+})
@@ -0,0 +1,74 @@
+import { createOperationMatcher, normalizeEndpoint, type ParsedOpenApiSpec } from '@/lib/openapi'
+import type { Scenario, ScenarioStatus } from '@/api/types'
+
+export interface ScenarioFacets {
+  /** The scenario's own tags plus the OpenAPI tags of the operations its steps call */
+  tags: string[]
+  /** `METHOD /path` per step, using the spec path when the step matches an operation */
+  endpoints: string[]
+}
+
+export interface ScenarioSelectionFilter {
+  /** Case-insensitive substring of the scenario name */
+  query?: string
+  tag?: string
+  endpoint?: string
+  status?: ScenarioStatus
+}
+
+export interface ScenarioCatalog {
+  facets: Map<string, ScenarioFacets>
+  /** Every tag and endpoint across the scenarios, sorted */
+  tags: string[]
+  endpoints: string[]
+}
+
+/**
+ * Derive the tags and endpoints each scenario touches, for filtering a scenario picker.
+ * Without a spec, only the scenarios' own tags are known and endpoints come from the steps alone.
+ */
+export function buildScenarioCatalog(
+  scenarios: Scenario[],
+  spec: Pick<ParsedOpenApiSpec, 'operations' | 'servers'> | null = null
+): ScenarioCatalog {
+  const matchOperation = spec ? createOperationMatcher(spec.operations, spec.servers) : null
+  const facets = new Map<string, ScenarioFacets>()
+  const allTags = new Set<string>()
+  const allEndpoints = new Set<string>()
+
+  for (const scenario of scenarios) {
+    const tags = new Set<string>(scenario.tags)
+    const endpoints = new Set<string>()
+    for (const step of scenario.steps) {
+      const operation = matchOperation?.(step.method, step.endpoint) ?? null
+      endpoints.add(`${step.method} ${operation?.path ?? normalizeEndpoint(step.endpoint)}`)
+      operation?.tags.forEach((tag) => tags.add(tag))
+    }
+    tags.forEach((tag) => allTags.add(tag))
+    endpoints.forEach((endpoint) => allEndpoints.add(endpoint))
+    facets.set(scenario.id, { tags: [...tags].sort(), endpoints: [...endpoints].sort() })
+  }
+
+  return {
+    facets,
+    tags: [...allTags].sort((a, b) => a.localeCompare(b)),
+    endpoints: [...allEndpoints].sort((a, b) => a.localeCompare(b)),
+  }
+}
+
+export function filterScenarios(
+  scenarios: Scenario[],
+  filter: ScenarioSelectionFilter,
+  catalog: ScenarioCatalog
+): Scenario[] {
+  const query = filter.query?.trim().toLowerCase() ?? ''
+
+  return scenarios.filter((scenario) => {
+    const facets = catalog.facets.get(scenario.id)
+    if (query && !scenario.name.toLowerCase().includes(query)) return false
+    if (filter.tag && !facets?.tags.includes(filter.tag)) return false
+    if (filter.endpoint && !facets?.endpoints.includes(filter.endpoint)) return false
+    if (filter.status && scenario.status !== filter.status) return false
+    return true
+  })
+}
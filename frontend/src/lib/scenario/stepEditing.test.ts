@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createEmptyStep,
+  duplicateStep,
+  formatExpectedValue,
+  moveStep,
+  parseExpectedValue,
+  removeStep,
+  renumberSteps,
+} from './stepEditing'
+import type { TestStep } from '@/api/types'
+
+const step = (id: string, order: number): TestStep => ({
+  ...createEmptyStep(order),
+  id,
+  endpoint: `/${id}`,
+})
+
+const steps = [step('a', 1), step('b', 2), step('c', 3)]
+
+const ids = (list: TestStep[]) => list.map((s) => `${s.id}:${String(s.order)}`)
+
+describe('step editing', () => {
+  it('moves a step and renumbers the sequence', () => {
+    expect(ids(moveStep(steps, 0, 2))).toEqual(['b:1', 'c:2', 'a:3'])
+    expect(ids(moveStep(steps, 2, 0))).toEqual(['c:1', 'a:2', 'b:3'])
+  })
+
+  it('ignores out-of-range moves', () => {
+    expect(moveStep(steps, 0, 3)).toBe(steps)
+    expect(moveStep(steps, 1, 1)).toBe(steps)
+  })
+
+  it('duplicates a step deeply with a new ID right after the original', () => {
+    const withHeaders = [{ ...steps[0], headers: { Accept: 'application/json' } } as TestStep]
+    const result = duplicateStep(withHeaders, 0)
+
+    expect(result).toHaveLength(2)
+    expect(result[1]?.id).not.toBe('a')
+    expect(result[1]?.order).toBe(2)
+    expect(result[1]?.headers).toEqual({ Accept: 'application/json' })
+    expect(result[1]?.headers).not.toBe(result[0]?.headers)
+  })
+
+  it('removes a step and renumbers the rest', () => {
+    expect(ids(removeStep(steps, 1))).toEqual(['a:1', 'c:2'])
+  })
+
+  it('keeps steps that are already in order', () => {
+    const result = renumberSteps(steps)
+    expect(result[0]).toBe(steps[0])
+  })
+})
+
+describe('parseExpectedValue', () => {
+  it('reads JSON values with their type', () => {
+    expect(parseExpectedValue('200')).toBe(200)
+    expect(parseExpectedValue('true')).toBe(true)
+    expect(parseExpectedValue('null')).toBeNull()
+    expect(parseExpectedValue('{"a":1}')).toEqual({ a: 1 })
+    expect(parseExpectedValue('"200"')).toBe('200')
+  })
+
+  it('reads anything else as text', () => {
+    expect(parseExpectedValue('active')).toBe('active')
+    expect(parseExpectedValue('')).toBe('')
+  })
+
+  it('round-trips every value through formatExpectedValue', () => {
+    for (const value of ['ok', '', '200', 'true', ' 42', 200, 0, false, null, [1, 'a'], { a: 1 }]) {
+      expect(parseExpectedValue(formatExpectedValue(value))).toEqual(value)
+    }
+    expect(formatExpectedValue('ok')).toBe('ok')
+    expect(formatExpectedValue('200')).toBe('"200"')
+  })
+})
@@ -0,0 +1,85 @@
+import type { StepAssertion, StepExtractor, TestStep } from '@/api/types'
+
+const DEFAULT_TIMEOUT_MS = 30000
+
+export function createStepId(): string {
+  return typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `step-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function createEmptyStep(order: number): TestStep {
+  return {
+    id: createStepId(),
+    order,
+    method: 'GET',
+    endpoint: '',
+    headers: {},
+    body: null,
+    expectedStatus: 200,
+    assertions: [],
+    extractors: [],
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+  }
+}
+
+export function createEmptyAssertion(): StepAssertion {
+  return { type: 'JSON_PATH', path: '$.', expected: '', operator: 'EQUALS' }
+}
+
+export function createEmptyExtractor(): StepExtractor {
+  return { name: '', type: 'JSON_PATH', path: '$.' }
+}
+
+/** Rewrite `order` to match array position; steps already in place are returned as-is */
+export function renumberSteps(steps: TestStep[]): TestStep[] {
+  return steps.map((step, index) =>
+    step.order === index + 1 ? step : { ...step, order: index + 1 }
+  )
+}
+
+export function moveStep(steps: TestStep[], from: number, to: number): TestStep[] {
+  if (from === to || from < 0 || to < 0 || from >= steps.length || to >= steps.length) return steps
+  const next = [...steps]
+  const [moved] = next.splice(from, 1)
+  if (moved) next.splice(to, 0, moved)
+  return renumberSteps(next)
+}
+
+/** Insert a deep copy of a step right after it, with a fresh ID */
+export function duplicateStep(steps: TestStep[], index: number): TestStep[] {
+  const source = steps[index]
+  if (!source) return steps
+  const copy: TestStep = { ...structuredClone(source), id: createStepId() }
+  return renumberSteps([...steps.slice(0, index + 1), copy, ...steps.slice(index + 1)])
+}
+
+export function removeStep(steps: TestStep[], index: number): TestStep[] {
+  return renumberSteps(steps.filter((_, i) => i !== index))
+}
+
+/**
+ * Display text for an assertion's expected value. Strings are shown as typed, except
+ * those that would read back as another JSON value, which keep their quotes.
+ */
+export function formatExpectedValue(expected: unknown): string {
+  if (typeof expected === 'string' && parseJson(expected) === undefined) return expected
+  return JSON.stringify(expected ?? null)
+}
+
+/**
+ * Parse edited expected-value text: JSON values such as `200`, `true`, `null` or `"200"`
+ * keep their type and anything else is a string. Inverse of formatExpectedValue.
+ */
+export function parseExpectedValue(text: string): unknown {
+  const value = parseJson(text)
+  return value === undefined ? text : value
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown
+  } catch {
+    return undefined
+  }
+}
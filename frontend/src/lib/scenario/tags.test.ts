@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { addTags, collectTags, filterByTags, normalizeTag, parseTagInput } from './tags'
+
+describe('normalizeTag', () => {
+  it('lower-cases, trims and dashes inner whitespace', () => {
+    expect(normalizeTag('  Smoke Test ')).toBe('smoke-test')
+    expect(normalizeTag('#Auth')).toBe('auth')
+    expect(normalizeTag('   ')).toBe('')
+  })
+})
+
+describe('parseTagInput', () => {
+  it('splits on commas and drops blanks and duplicates', () => {
+    expect(parseTagInput('smoke, Auth,,smoke , regression')).toEqual([
+      'smoke',
+      'auth',
+      'regression',
+    ])
+  })
+})
+
+describe('addTags', () => {
+  it('appends only new tags', () => {
+    expect(addTags(['smoke'], ['SMOKE', 'auth'])).toEqual(['smoke', 'auth'])
+  })
+})
+
+describe('collectTags', () => {
+  it('counts scenarios per tag, sorted by tag', () => {
+    const counts = collectTags([{ tags: ['users', 'smoke'] }, { tags: ['smoke'] }, { tags: [] }])
+
+    expect([...counts]).toEqual([
+      ['smoke', 2],
+      ['users', 1],
+    ])
+  })
+})
+
+describe('filterByTags', () => {
+  const scenarios = [
+    { id: 'a', tags: ['smoke', 'auth'] },
+    { id: 'b', tags: ['smoke'] },
+    { id: 'c', tags: [] },
+  ]
+
+  it('keeps scenarios carrying every selected tag', () => {
+    expect(filterByTags(scenarios, ['smoke']).map((s) => s.id)).toEqual(['a', 'b'])
+    expect(filterByTags(scenarios, ['smoke', 'auth']).map((s) => s.id)).toEqual(['a'])
+  })
+
+  it('returns a copy of everything without a selection', () => {
+    const result = filterByTags(scenarios, [])
+
+    expect(result).toEqual(scenarios)
+    expect(result).not.toBe(scenarios)
+  })
+})
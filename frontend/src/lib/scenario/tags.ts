@@ -0,0 +1,50 @@
+import type { Scenario } from '@/api/types'
+
+const MAX_TAG_LENGTH = 50
+
+/** Marks scenarios whose operations changed in the spec so they get regenerated or reviewed */
+export const REGENERATION_TAG = 'needs-regeneration'
+
+/**
+ * Canonical form of a tag: trimmed, lower case, inner whitespace collapsed to dashes.
+ * Returns an empty string when nothing usable is left.
+ */
+export function normalizeTag(raw: string): string {
+  return raw.trim().toLowerCase().replace(/^#+/, '').replace(/\s+/g, '-').slice(0, MAX_TAG_LENGTH)
+}
+
+/** Split comma-separated input into normalized, de-duplicated tags */
+export function parseTagInput(text: string): string[] {
+  return addTags([], text.split(','))
+}
+
+/** Append tags that are not already present, keeping the existing order */
+export function addTags(tags: string[], additions: string[]): string[] {
+  const result = [...tags]
+  for (const addition of additions) {
+    const tag = normalizeTag(addition)
+    if (tag && !result.includes(tag)) result.push(tag)
+  }
+  return result
+}
+
+/** Every tag used by the scenarios with the number of scenarios carrying it, sorted by tag */
+export function collectTags(scenarios: Pick<Scenario, 'tags'>[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const scenario of scenarios) {
+    new Set(scenario.tags).forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1))
+  }
+  return new Map([...counts].sort(([a], [b]) => a.localeCompare(b)))
+}
+
+/** Whether the scenario carries every selected tag; an empty selection matches everything */
+export function hasAllTags(scenario: Pick<Scenario, 'tags'>, selected: string[]): boolean {
+  return selected.every((tag) => scenario.tags.includes(tag))
+}
+
+export function filterByTags<T extends Pick<Scenario, 'tags'>>(
+  scenarios: T[],
+  selected: string[]
+): T[] {
+  return scenarios.filter((scenario) => hasAllTags(scenario, selected))
+}
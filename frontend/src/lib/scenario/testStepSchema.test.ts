@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { TEST_STEPS_SCHEMA, findShapeError, type JsonSchema } from './testStepSchema'
+import { mockScenario } from '@/test/mocks'
+
+const stepSchema = TEST_STEPS_SCHEMA.items as JsonSchema
+const itemsOf = (property: string) => stepSchema.properties?.[property]?.items as JsonSchema
+
+describe('TEST_STEPS_SCHEMA', () => {
+  it('describes an array of closed TestStep objects', () => {
+    expect(TEST_STEPS_SCHEMA.type).toBe('array')
+    expect(stepSchema).toMatchObject({ type: 'object', additionalProperties: false })
+  })
+
+  it('requires every TestStep field', () => {
+    const [step] = mockScenario.steps
+
+    expect([...(stepSchema.required ?? [])].sort()).toEqual(Object.keys(step ?? {}).sort())
+  })
+
+  it('documents every property', () => {
+    Object.values(stepSchema.properties ?? {}).forEach((property) => {
+      expect(property.description).toBeTruthy()
+    })
+  })
+
+  it('lists the enum values from api/types', () => {
+    expect(stepSchema.properties?.method?.enum).toEqual(['GET', 'POST', 'PUT', 'PATCH', 'DELETE'])
+    expect(itemsOf('assertions').properties?.type?.enum).toEqual([
+      'STATUS',
+      'JSON_PATH',
+      'HEADER',
+      'BODY_CONTAINS',
+    ])
+    expect(itemsOf('assertions').properties?.operator?.enum).toContain('GREATER_THAN')
+    expect(itemsOf('extractors').properties?.type?.enum).toEqual(['JSON_PATH', 'HEADER', 'REGEX'])
+  })
+})
+
+describe('findShapeError', () => {
+  it('accepts complete steps', () => {
+    expect(findShapeError(mockScenario.steps, TEST_STEPS_SCHEMA)).toBeNull()
+  })
+
+  it('names the first missing or mistyped field', () => {
+    const [step] = mockScenario.steps
+
+    expect(findShapeError([{}], TEST_STEPS_SCHEMA)).toBe('[0] is missing "id"')
+    expect(findShapeError({}, TEST_STEPS_SCHEMA)).toBe('value should be array')
+    expect(findShapeError([{ ...step, extractors: null }], TEST_STEPS_SCHEMA)).toBe(
+      '[0].extractors should be array'
+    )
+    expect(findShapeError([{ ...step, headers: { Accept: 1 } }], TEST_STEPS_SCHEMA)).toBe(
+      '[0].headers.Accept should be string'
+    )
+    expect(findShapeError([{ ...step, assertions: [{ type: 'STATUS' }] }], TEST_STEPS_SCHEMA)).toBe(
+      '[0].assertions[0] is missing "path"'
+    )
+  })
+
+  it('leaves value constraints to the editor diagnostics', () => {
+    const [step] = mockScenario.steps
+
+    expect(
+      findShapeError([{ ...step, method: 'TRACE', endpoint: '' }], TEST_STEPS_SCHEMA)
+    ).toBeNull()
+  })
+})
@@ -0,0 +1,166 @@
+import type { StepAssertion, StepExtractor, TestStep } from '@/api/types'
+import { ASSERTION_TYPES, COMPARISON_OPERATORS, EXTRACTOR_TYPES, HTTP_METHODS } from './constants'
+
+export interface JsonSchema {
+  $schema?: string
+  $id?: string
+  title?: string
+  description?: string
+  type?: string | string[]
+  enum?: readonly unknown[]
+  items?: JsonSchema
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  minimum?: number
+  maximum?: number
+  minLength?: number
+}
+
+export const TEST_STEPS_SCHEMA_URI = 'https://qawave.local/schemas/test-steps.json'
+
+// Typing the property maps by `keyof` keeps the schema in step with api/types.ts:
+// adding or renaming a field there fails compilation until the schema follows.
+
+const assertionProperties: Record<keyof StepAssertion, JsonSchema> = {
+  type: {
+    description: 'What the assertion inspects',
+    enum: ASSERTION_TYPES,
+  },
+  path: {
+    description: 'JSONPath for JSON_PATH, header name for HEADER; ignored for STATUS',
+    type: 'string',
+  },
+  expected: {
+    description: 'Expected value; strings may reference variables as {name}',
+  },
+  operator: {
+    description: 'How the actual value is compared with the expected value',
+    enum: COMPARISON_OPERATORS,
+  },
+}
+
+const extractorProperties: Record<keyof StepExtractor, JsonSchema> = {
+  name: {
+    description: 'Variable name later steps reference as {name}',
+    type: 'string',
+    minLength: 1,
+  },
+  type: {
+    description: 'Where the value is read from',
+    enum: EXTRACTOR_TYPES,
+  },
+  path: {
+    description: 'JSONPath, header name or regular expression (first capture group is used)',
+    type: 'string',
+  },
+}
+
+const stepProperties: Record<keyof TestStep, JsonSchema> = {
+  id: { description: 'Unique step identifier', type: 'string' },
+  order: { description: 'Execution order within the scenario', type: 'integer', minimum: 0 },
+  method: { description: 'HTTP method', enum: HTTP_METHODS },
+  endpoint: {
+    description: 'Request path or URL; may start with {baseUrl} and reference variables as {name}',
+    type: 'string',
+    minLength: 1,
+  },
+  headers: {
+    description: 'Request headers; values may reference variables',
+    type: 'object',
+    additionalProperties: { type: 'string' },
+  },
+  body: { description: 'Raw request body, or null for none', type: ['string', 'null'] },
+  expectedStatus: {
+    description: 'Expected HTTP status code',
+    type: 'integer',
+    minimum: 100,
+    maximum: 599,
+  },
+  assertions: {
+    description: 'Checks applied to the response',
+    type: 'array',
+    items: objectSchema('StepAssertion', assertionProperties),
+  },
+  extractors: {
+    description: 'Values captured from the response for later steps',
+    type: 'array',
+    items: objectSchema('StepExtractor', extractorProperties),
+  },
+  timeoutMs: { description: 'Request timeout in milliseconds', type: 'integer', minimum: 1 },
+}
+
+/** JSON Schema for the step array edited in the scenario editor */
+export const TEST_STEPS_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: TEST_STEPS_SCHEMA_URI,
+  title: 'Test steps',
+  type: 'array',
+  items: objectSchema('TestStep', stepProperties),
+}
+
+/**
+ * First place where a value lacks the structure a schema describes (types, required
+ * properties, items), or null. Value constraints such as enums and ranges are not checked.
+ */
+export function findShapeError(value: unknown, schema: JsonSchema, path = ''): string | null {
+  const label = path || 'value'
+  const types = typeof schema.type === 'string' ? [schema.type] : schema.type
+  if (types && !types.some((type) => hasJsonType(value, type))) {
+    return `${label} should be ${types.join(' or ')}`
+  }
+
+  if (Array.isArray(value)) {
+    const { items } = schema
+    if (!items) return null
+    for (const [index, item] of value.entries()) {
+      const error = findShapeError(item, items, `${path}[${String(index)}]`)
+      if (error) return error
+    }
+    return null
+  }
+
+  if (typeof value !== 'object' || value === null) return null
+  const record = value as Record<string, unknown>
+  const missing = schema.required?.find((name) => !(name in record))
+  if (missing) return `${label} is missing "${missing}"`
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    if (!(name in record)) continue
+    const error = findShapeError(record[name], property, `${path}.${name}`)
+    if (error) return error
+  }
+  const { additionalProperties } = schema
+  if (typeof additionalProperties === 'object') {
+    for (const [name, child] of Object.entries(record)) {
+      if (schema.properties?.[name]) continue
+      const error = findShapeError(child, additionalProperties, `${path}.${name}`)
+      if (error) return error
+    }
+  }
+  return null
+}
+
+function hasJsonType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value)
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value)
+    case 'integer':
+      return Number.isInteger(value)
+    case 'null':
+      return value === null
+    default:
+      return typeof value === type
+  }
+}
+
+function objectSchema(title: string, properties: Record<string, JsonSchema>): JsonSchema {
+  return {
+    title,
+    type: 'object',
+    properties,
+    required: Object.keys(properties),
+    additionalProperties: false,
+  }
+}
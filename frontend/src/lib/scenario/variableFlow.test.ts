@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeScenarioSource, analyzeVariableFlow, getAvailableVariables } from './variableFlow'
+import type { TestStep } from '@/api/types'
+
+const step = (overrides: Partial<TestStep>): TestStep => ({
+  id: 'step',
+  order: 1,
+  method: 'GET',
+  endpoint: '/',
+  headers: {},
+  body: null,
+  expectedStatus: 200,
+  assertions: [],
+  extractors: [],
+  timeoutMs: 5000,
+  ...overrides,
+})
+
+const createUser = step({
+  id: 'create',
+  order: 1,
+  method: 'POST',
+  endpoint: '{baseUrl}/users',
+  extractors: [{ name: 'userId', type: 'JSON_PATH', path: '$.id' }],
+})
+
+const getUser = step({
+  id: 'get',
+  order: 2,
+  endpoint: '/users/{{userId}}',
+  headers: { Authorization: 'Bearer {token}' },
+})
+
+describe('analyzeVariableFlow', () => {
+  it('accepts variables extracted by an earlier step', () => {
+    const flow = analyzeVariableFlow([createUser, getUser], { knownVariables: ['token'] })
+
+    expect(flow.definitions.map((d) => d.name)).toEqual(['userId'])
+    expect(flow.references.map((r) => r.name)).toEqual(['baseUrl', 'userId', 'token'])
+    expect(flow.issues).toEqual([])
+  })
+
+  it('flags unknown variables', () => {
+    const { issues } = analyzeVariableFlow([createUser, getUser])
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        kind: 'unknown',
+        name: 'token',
+        severity: 'warning',
+        site: { stepIndex: 1, path: ['headers', 'Authorization'], index: 7, length: 7 },
+      }),
+    ])
+  })
+
+  it('flags variables used before the step that extracts them, following step order', () => {
+    const { issues } = analyzeVariableFlow(
+      [
+        { ...getUser, order: 1 },
+        { ...createUser, order: 2 },
+      ],
+      {
+        knownVariables: ['token'],
+      }
+    )
+
+    expect(issues.map((i) => [i.kind, i.name, i.severity])).toEqual([
+      ['used-before-defined', 'userId', 'error'],
+      ['unused', 'userId', 'warning'],
+    ])
+  })
+
+  it('flags extractors that no later step uses', () => {
+    const { issues } = analyzeVariableFlow([createUser])
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        kind: 'unused',
+        name: 'userId',
+        site: { stepIndex: 0, path: ['extractors', 0, 'name'], index: 0, length: 6 },
+      }),
+    ])
+  })
+
+  it('tolerates partially written steps', () => {
+    expect(analyzeVariableFlow([null, { endpoint: 42 }, { extractors: 'x' }]).issues).toEqual([])
+  })
+
+  it('lists variables available to a step', () => {
+    const flow = analyzeVariableFlow([createUser, getUser])
+
+    expect(getAvailableVariables(flow, 0)).toEqual(['baseUrl'])
+    expect(getAvailableVariables(flow, 1, { knownVariables: ['token'] })).toEqual([
+      'baseUrl',
+      'token',
+      'userId',
+    ])
+  })
+})
+
+describe('analyzeScenarioSource', () => {
+  it('maps issues to source ranges, accounting for escapes', () => {
+    const source = JSON.stringify(
+      [
+        step({
+          body: '{"id": "{{orderId}}"}',
+          extractors: [{ name: 'x', type: 'HEADER', path: 'Location' }],
+        }),
+      ],
+      null,
+      2
+    )
+    const lines = source.split('\n')
+
+    const [unknown, unused] = analyzeScenarioSource(source)
+
+    const bodyLine = lines.findIndex((line) => line.includes('"body"'))
+    expect(unknown).toMatchObject({ severity: 'warning', startLineNumber: bodyLine + 1 })
+    expect(
+      lines[bodyLine]?.slice((unknown?.startColumn ?? 0) - 1, (unknown?.endColumn ?? 0) - 1)
+    ).toBe('{{orderId}}')
+
+    const nameLine = lines.findIndex((line) => line.includes('"name": "x"'))
+    expect(unused).toMatchObject({ startLineNumber: nameLine + 1 })
+    expect(lines[nameLine]?.charAt((unused?.startColumn ?? 0) - 1)).toBe('x')
+  })
+
+  it('returns nothing for invalid JSON', () => {
+    expect(analyzeScenarioSource('[{"endpoint": "{x}"')).toEqual([])
+  })
+})
@@ -0,0 +1,231 @@
+import { BUILT_IN_VARIABLES } from './constants'
+import { findPlaceholders } from './placeholders'
+import {
+  offsetToPosition,
+  parseJsonWithLocations,
+  stringIndexToOffset,
+  toPointer,
+  type JsonPath,
+} from './jsonLocations'
+
+/** Where a variable appears: a string field of a step and the range within that string */
+export interface VariableSite {
+  stepIndex: number
+  path: JsonPath
+  index: number
+  length: number
+}
+
+export interface VariableDefinition {
+  name: string
+  stepIndex: number
+  site: VariableSite
+}
+
+export interface VariableReference {
+  name: string
+  stepIndex: number
+  site: VariableSite
+}
+
+export type VariableIssueKind = 'unknown' | 'used-before-defined' | 'unused'
+
+export interface VariableIssue {
+  kind: VariableIssueKind
+  name: string
+  severity: 'error' | 'warning'
+  message: string
+  site: VariableSite
+}
+
+export interface VariableFlow {
+  definitions: VariableDefinition[]
+  references: VariableReference[]
+  issues: VariableIssue[]
+  /** Step indexes in execution order (by `order`, then position) */
+  executionOrder: number[]
+}
+
+export interface VariableFlowOptions {
+  /** Variables provided outside the scenario, such as environment values */
+  knownVariables?: string[]
+}
+
+export interface ScenarioDiagnostic {
+  message: string
+  severity: 'error' | 'warning'
+  startLineNumber: number
+  startColumn: number
+  endLineNumber: number
+  endColumn: number
+}
+
+/**
+ * Build the variable flow across steps: which extractor defines each name and which
+ * `{placeholder}` references consume it. Tolerates partially written steps, since it
+ * runs on every edit.
+ */
+export function analyzeVariableFlow(
+  steps: readonly unknown[],
+  options: VariableFlowOptions = {}
+): VariableFlow {
+  const known = new Set([...BUILT_IN_VARIABLES, ...(options.knownVariables ?? [])])
+  const executionOrder = steps
+    .map((step, index) => ({ index, order: toRecord(step).order }))
+    .sort((a, b) => orderValue(a.order, a.index) - orderValue(b.order, b.index))
+    .map((entry) => entry.index)
+  const rank = new Map(executionOrder.map((stepIndex, position) => [stepIndex, position]))
+  const rankOf = (stepIndex: number) => rank.get(stepIndex) ?? 0
+
+  const definitions: VariableDefinition[] = []
+  const references: VariableReference[] = []
+
+  steps.forEach((rawStep, stepIndex) => {
+    const step = toRecord(rawStep)
+
+    const addReferences = (text: unknown, path: JsonPath) => {
+      if (typeof text !== 'string') return
+      findPlaceholders(text).forEach((match) => {
+        references.push({
+          name: match.name,
+          stepIndex,
+          site: { stepIndex, path, index: match.index, length: match.length },
+        })
+      })
+    }
+
+    addReferences(step.endpoint, ['endpoint'])
+    addReferences(step.body, ['body'])
+    Object.entries(toRecord(step.headers)).forEach(([name, value]) => {
+      addReferences(value, ['headers', name])
+    })
+    toArray(step.assertions).forEach((assertion, index) => {
+      addReferences(toRecord(assertion).expected, ['assertions', index, 'expected'])
+    })
+    toArray(step.extractors).forEach((extractor, index) => {
+      const name = toRecord(extractor).name
+      if (typeof name !== 'string' || name.trim() === '') return
+      definitions.push({
+        name,
+        stepIndex,
+        site: { stepIndex, path: ['extractors', index, 'name'], index: 0, length: name.length },
+      })
+    })
+  })
+
+  const issues: VariableIssue[] = []
+
+  references.forEach((reference) => {
+    if (known.has(reference.name)) return
+    const sources = definitions.filter((d) => d.name === reference.name)
+
+    if (sources.length === 0) {
+      issues.push({
+        kind: 'unknown',
+        name: reference.name,
+        severity: 'warning',
+        message: `Unknown variable "${reference.name}": no step extracts it`,
+        site: reference.site,
+      })
+    } else if (!sources.some((d) => rankOf(d.stepIndex) < rankOf(reference.stepIndex))) {
+      const firstSource = Math.min(...sources.map((d) => rankOf(d.stepIndex)))
+      issues.push({
+        kind: 'used-before-defined',
+        name: reference.name,
+        severity: 'error',
+        message: `Variable "${reference.name}" is used before it is extracted in step ${String(firstSource + 1)}`,
+        site: reference.site,
+      })
+    }
+  })
+
+  definitions.forEach((definition) => {
+    const isUsed = references.some(
+      (r) => r.name === definition.name && rankOf(r.stepIndex) > rankOf(definition.stepIndex)
+    )
+    if (!isUsed) {
+      issues.push({
+        kind: 'unused',
+        name: definition.name,
+        severity: 'warning',
+        message: `Extracted variable "${definition.name}" is never used by a later step`,
+        site: definition.site,
+      })
+    }
+  })
+
+  return { definitions, references, issues, executionOrder }
+}
+
+/**
+ * Names available to a step: built-ins, known variables and values extracted by steps
+ * that run before it.
+ */
+export function getAvailableVariables(
+  flow: VariableFlow,
+  stepIndex: number,
+  options: VariableFlowOptions = {}
+): string[] {
+  const position = flow.executionOrder.indexOf(stepIndex)
+  const earlierSteps = new Set(position < 0 ? [] : flow.executionOrder.slice(0, position))
+  const extracted = flow.definitions
+    .filter((definition) => earlierSteps.has(definition.stepIndex))
+    .map((definition) => definition.name)
+
+  return [...new Set([...BUILT_IN_VARIABLES, ...(options.knownVariables ?? []), ...extracted])]
+}
+
+/**
+ * Analyze the JSON source of a step array and map variable issues to editor ranges.
+ * Returns no diagnostics for invalid JSON; syntax errors are reported separately.
+ */
+export function analyzeScenarioSource(
+  source: string,
+  options: VariableFlowOptions = {}
+): ScenarioDiagnostic[] {
+  let located
+  try {
+    located = parseJsonWithLocations(source)
+  } catch {
+    return []
+  }
+  if (!Array.isArray(located.value)) return []
+
+  const { issues } = analyzeVariableFlow(located.value, options)
+
+  return issues.flatMap((issue) => {
+    const { stepIndex, path, index, length } = issue.site
+    const location = located.locations.get(toPointer([stepIndex, ...path]))
+    if (!location) return []
+
+    const start = offsetToPosition(source, stringIndexToOffset(source, location.start, index))
+    const end = offsetToPosition(
+      source,
+      stringIndexToOffset(source, location.start, index + length)
+    )
+    return [
+      {
+        message: issue.message,
+        severity: issue.severity,
+        startLineNumber: start.line,
+        startColumn: start.column,
+        endLineNumber: end.line,
+        endColumn: end.column,
+      },
+    ]
+  })
+}
+
+function toRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {}
+}
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? (value as unknown[]) : []
+}
+
+function orderValue(order: unknown, index: number): number {
+  return typeof order === 'number' && Number.isFinite(order) ? order : index
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import { CronParseError, getNextRuns, isValidCron, isValidTimeZone, parseCron } from './cron'
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString())
+
+describe('parseCron', () => {
+  it('expands wildcards, lists, ranges and steps', () => {
+    const schedule = parseCron('*/15 9-11 1,15 * MON-FRI')
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45])
+    expect([...schedule.hours]).toEqual([9, 10, 11])
+    expect([...schedule.daysOfMonth]).toEqual([1, 15])
+    expect(schedule.months.size).toBe(12)
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5])
+    expect(schedule.dayOfMonthRestricted).toBe(true)
+    expect(schedule.dayOfWeekRestricted).toBe(true)
+  })
+
+  it('supports month names, macros and 7 as Sunday', () => {
+    expect([...parseCron('0 0 1 jan,jul *').months]).toEqual([1, 7])
+    expect([...parseCron('@daily').hours]).toEqual([0])
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0])
+  })
+
+  it('treats a single value with a step as a start offset', () => {
+    expect([...parseCron('5/20 * * * *').minutes]).toEqual([5, 25, 45])
+  })
+
+  it.each([
+    ['0 0 * *', /Expected 5 fields/],
+    ['60 * * * *', /minute field/],
+    ['* 24 * * *', /hour field/],
+    ['* * 0 * *', /day of month field/],
+    ['* * * 13 *', /month field/],
+    ['*/0 * * * *', /Invalid step/],
+    ['10-5 * * * *', /Invalid range/],
+    ['abc * * * *', /minute field/],
+  ])('rejects %s', (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(CronParseError)
+    expect(() => parseCron(expression)).toThrow(message)
+  })
+
+  it('reports validity without throwing', () => {
+    expect(isValidCron('0 2 * * *')).toBe(true)
+    expect(isValidCron('not cron')).toBe(false)
+  })
+})
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA names and rejects unknown zones', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true)
+    expect(isValidTimeZone('UTC')).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false)
+  })
+})
+
+describe('getNextRuns', () => {
+  const from = new Date('2024-01-15T10:30:00Z') // a Monday
+
+  it('returns fire times strictly after the start, in UTC by default', () => {
+    expect(iso(getNextRuns('0 * * * *', { from, count: 3 }))).toEqual([
+      '2024-01-15T11:00:00.000Z',
+      '2024-01-15T12:00:00.000Z',
+      '2024-01-15T13:00:00.000Z',
+    ])
+    expect(iso(getNextRuns('30 10 * * *', { from, count: 1 }))).toEqual([
+      '2024-01-16T10:30:00.000Z',
+    ])
+  })
+
+  it('evaluates the expression in the given time zone', () => {
+    // 09:00 in New York is 14:00 UTC in winter
+    expect(iso(getNextRuns('0 9 * * *', { from, count: 2, timeZone: 'America/New_York' }))).toEqual(
+      ['2024-01-15T14:00:00.000Z', '2024-01-16T14:00:00.000Z']
+    )
+  })
+
+  it('keeps the wall-clock time across a daylight saving change', () => {
+    const runs = getNextRuns('0 9 * * *', {
+      from: new Date('2024-03-30T00:00:00Z'),
+      count: 2,
+      timeZone: 'Europe/Berlin',
+    })
+    // CET (+1) on March 30th, CEST (+2) after the switch on March 31st
+    expect(iso(runs)).toEqual(['2024-03-30T08:00:00.000Z', '2024-03-31T07:00:00.000Z'])
+  })
+
+  it('skips wall-clock times that do not exist on the switch day', () => {
+    const runs = getNextRuns('30 2 * * *', {
+      from: new Date('2024-03-30T12:00:00Z'),
+      count: 1,
+      timeZone: 'Europe/Berlin',
+    })
+    // 02:30 does not exist on March 31st in Berlin
+    expect(iso(runs)).toEqual(['2024-04-01T00:30:00.000Z'])
+  })
+
+  it('fires on either day field when both are restricted', () => {
+    const runs = getNextRuns('0 0 1 * FRI', { from, count: 3 })
+    expect(iso(runs)).toEqual([
+      '2024-01-19T00:00:00.000Z',
+      '2024-01-26T00:00:00.000Z',
+      '2024-02-01T00:00:00.000Z',
+    ])
+  })
+
+  it('finds rare dates such as February 29th', () => {
+    expect(iso(getNextRuns('0 0 29 2 *', { from, count: 2 }))).toEqual([
+      '2024-02-29T00:00:00.000Z',
+      '2028-02-29T00:00:00.000Z',
+    ])
+  })
+
+  it('returns nothing for dates that never occur', () => {
+    expect(getNextRuns('0 0 31 2 *', { from })).toEqual([])
+  })
+
+  it('rejects unknown time zones', () => {
+    expect(() => getNextRuns('0 0 * * *', { timeZone: 'Mars/Olympus' })).toThrow(CronParseError)
+  })
+})
@@ -0,0 +1,275 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated
+ * in an IANA time zone. Supports `*`, lists, ranges, steps, month and weekday names,
+ * and the @hourly/@daily/@weekly/@monthly/@yearly shortcuts.
+ */
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CronParseError'
+  }
+}
+
+export interface CronSchedule {
+  minutes: ReadonlySet<number>
+  hours: ReadonlySet<number>
+  daysOfMonth: ReadonlySet<number>
+  months: ReadonlySet<number>
+  /** 0 = Sunday */
+  daysOfWeek: ReadonlySet<number>
+  /** Standard cron: when both day fields are restricted, a day matching either one fires */
+  dayOfMonthRestricted: boolean
+  dayOfWeekRestricted: boolean
+}
+
+interface FieldSpec {
+  name: string
+  min: number
+  max: number
+  names?: readonly string[]
+}
+
+const FIELDS: readonly FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+  },
+  // 7 is accepted as an alias for Sunday
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+]
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+}
+
+// Long enough to find the next run of "0 0 29 2 *" (Feb 29) from any start date
+const MAX_SEARCH_DAYS = 366 * 8
+
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim()
+  const source = MACROS[trimmed.toLowerCase()] ?? trimmed
+  const parts = source.split(/\s+/)
+
+  if (parts.length !== FIELDS.length) {
+    throw new CronParseError(
+      `Expected 5 fields (minute hour day-of-month month day-of-week), got ${String(parts.length)}`
+    )
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELDS.map((field, index) =>
+    parseField(parts[index] ?? '', field)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>]
+
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0)
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !(parts[2] ?? '').startsWith('*'),
+    dayOfWeekRestricted: !(parts[4] ?? '').startsWith('*'),
+  }
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function parseField(text: string, field: FieldSpec): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of text.split(',')) {
+    const [rangeText = '', stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronParseError(`Invalid step "${stepText ?? ''}" in ${field.name} field`)
+    }
+
+    let start: number
+    let end: number
+    if (rangeText === '*') {
+      start = field.min
+      end = field.max
+    } else if (rangeText.includes('-')) {
+      const [from = '', to = ''] = rangeText.split('-')
+      start = parseValue(from, field)
+      end = parseValue(to, field)
+    } else {
+      start = parseValue(rangeText, field)
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : field.max
+    }
+
+    if (start > end) {
+      throw new CronParseError(`Invalid range "${rangeText}" in ${field.name} field`)
+    }
+    for (let value = start; value <= end; value += step) values.add(value)
+  }
+
+  return values
+}
+
+function parseValue(text: string, field: FieldSpec): number {
+  const nameIndex = field.names?.indexOf(text.toUpperCase()) ?? -1
+  const value = nameIndex >= 0 ? nameIndex + (field.min === 1 ? 1 : 0) : Number(text)
+
+  if (text === '' || !Number.isInteger(value) || value < field.min || value > field.max) {
+    throw new CronParseError(
+      `Invalid value "${text}" in ${field.name} field (expected ${String(field.min)}-${String(field.max)})`
+    )
+  }
+  return value
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+interface WallTime {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    })
+    formatterCache.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/** Wall-clock fields of an instant in a time zone */
+function toWallTime(date: Date, timeZone: string): WallTime {
+  const parts = getFormatter(timeZone).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0)
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+  }
+}
+
+function wallTimeToUtcMs(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute)
+}
+
+/**
+ * Instant at which the zone's clock shows `wall`, or null when that time is skipped
+ * by a daylight saving jump. Ambiguous times (clocks going back) resolve to the
+ * earlier instant.
+ */
+function fromWallTime(wall: WallTime, timeZone: string): Date | null {
+  const target = wallTimeToUtcMs(wall)
+  const candidates = new Set<number>()
+  // The zone offset at the target is one of the offsets around it; try both sides
+  for (const probe of [target - 12 * 3_600_000, target + 12 * 3_600_000]) {
+    const offset = wallTimeToUtcMs(toWallTime(new Date(probe), timeZone)) - probe
+    candidates.add(target - offset)
+  }
+
+  const matches = [...candidates]
+    .filter((instant) => wallTimeToUtcMs(toWallTime(new Date(instant), timeZone)) === target)
+    .sort((a, b) => a - b)
+  return matches[0] === undefined ? null : new Date(matches[0])
+}
+
+function matchesDay(schedule: CronSchedule, year: number, month: number, day: number): boolean {
+  if (!schedule.months.has(month)) return false
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+  const domMatch = schedule.daysOfMonth.has(day)
+  const dowMatch = schedule.daysOfWeek.has(weekday)
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return domMatch || dowMatch
+  if (schedule.dayOfMonthRestricted) return domMatch
+  if (schedule.dayOfWeekRestricted) return dowMatch
+  return true
+}
+
+export interface NextRunsOptions {
+  count?: number
+  /** Runs strictly after this instant; defaults to now */
+  from?: Date
+  /** IANA time zone the expression is evaluated in; defaults to UTC */
+  timeZone?: string
+}
+
+/**
+ * The next `count` fire times of a cron expression. Wall-clock times that do not
+ * exist in the zone (skipped by a daylight saving jump) do not fire.
+ */
+export function getNextRuns(
+  expression: string | CronSchedule,
+  options: NextRunsOptions = {}
+): Date[] {
+  const { count = 5, from = new Date(), timeZone = 'UTC' } = options
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression
+  if (!isValidTimeZone(timeZone)) throw new CronParseError(`Unknown time zone "${timeZone}"`)
+
+  const hours = [...schedule.hours].sort((a, b) => a - b)
+  const minutes = [...schedule.minutes].sort((a, b) => a - b)
+  const start = toWallTime(from, timeZone)
+  const runs: Date[] = []
+
+  // Walk calendar days in the zone; Date.UTC is only used for day arithmetic here
+  const cursor = new Date(Date.UTC(start.year, start.month - 1, start.day))
+  for (let i = 0; i < MAX_SEARCH_DAYS && runs.length < count; i++) {
+    const year = cursor.getUTCFullYear()
+    const month = cursor.getUTCMonth() + 1
+    const day = cursor.getUTCDate()
+    cursor.setUTCDate(day + 1)
+
+    if (!matchesDay(schedule, year, month, day)) continue
+
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        const instant = fromWallTime({ year, month, day, hour, minute }, timeZone)
+        if (!instant || instant <= from) continue
+        runs.push(instant)
+        if (runs.length >= count) return runs
+      }
+    }
+  }
+
+  return runs
+}
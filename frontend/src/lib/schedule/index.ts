@@ -0,0 +1,2 @@
+export { CronParseError, getNextRuns, isValidCron, isValidTimeZone, parseCron } from './cron'
+export type { CronSchedule, NextRunsOptions } from './cron'
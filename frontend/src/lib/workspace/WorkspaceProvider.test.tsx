@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { WorkspaceProvider, useWorkspace } from './WorkspaceProvider'
+import { WORKSPACE_HEADER, WORKSPACE_STORAGE_KEY, setCurrentWorkspaceId } from './currentWorkspace'
+import { apiClient } from '@/api/client'
+import { packageKeys } from '@/hooks/usePackages'
+
+vi.mock('@/lib/auth', () => ({
+  useAuth: () => ({
+    user: {
+      workspaces: [
+        { id: 'payments', name: 'Payments' },
+        { id: 'search', name: 'Search' },
+      ],
+    },
+  }),
+}))
+
+function CurrentWorkspace() {
+  const { currentWorkspace, switchWorkspace } = useWorkspace()
+  return (
+    <div>
+      <span data-testid="current">{currentWorkspace?.name}</span>
+      <span data-testid="key">{JSON.stringify(packageKeys.all)}</span>
+      <button
+        onClick={() => {
+          switchWorkspace('search')
+        }}
+      >
+        Switch
+      </button>
+    </div>
+  )
+}
+
+describe('WorkspaceProvider', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    setCurrentWorkspaceId(null)
+    vi.restoreAllMocks()
+  })
+
+  it('defaults to the first workspace and namespaces query keys with it', () => {
+    render(
+      <WorkspaceProvider>
+        <CurrentWorkspace />
+      </WorkspaceProvider>
+    )
+
+    expect(screen.getByTestId('current')).toHaveTextContent('Payments')
+    expect(screen.getByTestId('key')).toHaveTextContent('["packages","payments"]')
+  })
+
+  it('ignores a stored workspace the user no longer belongs to', () => {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, 'removed')
+    render(
+      <WorkspaceProvider>
+        <CurrentWorkspace />
+      </WorkspaceProvider>
+    )
+
+    expect(screen.getByTestId('current')).toHaveTextContent('Payments')
+  })
+
+  it('switches, remembers the choice and scopes requests to it', async () => {
+    const user = userEvent.setup()
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockImplementation(() => Promise.resolve(new Response(null, { status: 204 })))
+    render(
+      <WorkspaceProvider>
+        <CurrentWorkspace />
+      </WorkspaceProvider>
+    )
+
+    await user.click(screen.getByRole('button', { name: 'Switch' }))
+
+    expect(screen.getByTestId('current')).toHaveTextContent('Search')
+    expect(screen.getByTestId('key')).toHaveTextContent('["packages","search"]')
+    expect(localStorage.getItem(WORKSPACE_STORAGE_KEY)).toBe('search')
+
+    await apiClient.get('/api/qa/packages')
+    const init = fetchSpy.mock.calls[0]?.[1]
+    expect(new Headers(init?.headers).get(WORKSPACE_HEADER)).toBe('search')
+  })
+})
@@ -0,0 +1,63 @@
+import {
+  createContext,
+  Fragment,
+  useCallback,
+  useContext,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react'
+import { useAuth, type Workspace } from '@/lib/auth'
+import { loadStoredWorkspaceId, setCurrentWorkspaceId, storeWorkspaceId } from './currentWorkspace'
+
+export interface WorkspaceContextType {
+  workspaces: Workspace[]
+  /** Null while signed out or when the user belongs to no workspace */
+  currentWorkspace: Workspace | null
+  switchWorkspace: (id: string) => void
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | null>(null)
+
+interface WorkspaceProviderProps {
+  children: ReactNode
+}
+
+export function WorkspaceProvider({ children }: WorkspaceProviderProps) {
+  const { user } = useAuth()
+  const [selectedId, setSelectedId] = useState<string | null>(loadStoredWorkspaceId)
+
+  const workspaces = useMemo(() => user?.workspaces ?? [], [user])
+  // A stored choice the token no longer grants falls back to the first membership
+  const currentWorkspace =
+    workspaces.find((workspace) => workspace.id === selectedId) ?? workspaces[0] ?? null
+
+  // Set during render so the children's query keys and requests already use this workspace
+  setCurrentWorkspaceId(currentWorkspace?.id ?? null)
+
+  const switchWorkspace = useCallback((id: string) => {
+    storeWorkspaceId(id)
+    setSelectedId(id)
+  }, [])
+
+  const value = useMemo<WorkspaceContextType>(
+    () => ({ workspaces, currentWorkspace, switchWorkspace }),
+    [workspaces, currentWorkspace, switchWorkspace]
+  )
+
+  // Remount on switch so no component keeps state that belongs to the previous workspace
+  return (
+    <WorkspaceContext.Provider value={value}>
+      <Fragment key={currentWorkspace?.id ?? 'none'}>{children}</Fragment>
+    </WorkspaceContext.Provider>
+  )
+}
+
+// eslint-disable-next-line react-refresh/only-export-components
+export function useWorkspace(): WorkspaceContextType {
+  const context = useContext(WorkspaceContext)
+  if (!context) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider')
+  }
+  return context
+}
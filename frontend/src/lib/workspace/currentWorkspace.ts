@@ -0,0 +1,41 @@
+import { addRequestInterceptor } from '@/api/client'
+
+export const WORKSPACE_HEADER = 'X-Workspace-Id'
+export const WORKSPACE_STORAGE_KEY = 'qawave.workspaceId'
+
+// Read by the request interceptor and the query key factories, outside React
+let currentWorkspaceId: string | null = null
+
+export function setCurrentWorkspaceId(id: string | null): void {
+  currentWorkspaceId = id
+}
+
+export function getCurrentWorkspaceId(): string | null {
+  return currentWorkspaceId
+}
+
+// Scope every API request to the active workspace
+addRequestInterceptor((config) => {
+  if (currentWorkspaceId) {
+    const headers = new Headers(config.headers)
+    headers.set(WORKSPACE_HEADER, currentWorkspaceId)
+    return { ...config, headers }
+  }
+  return config
+})
+
+export function loadStoredWorkspaceId(): string | null {
+  try {
+    return localStorage.getItem(WORKSPACE_STORAGE_KEY)
+  } catch {
+    return null
+  }
+}
+
+export function storeWorkspaceId(id: string): void {
+  try {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, id)
+  } catch {
+    // Storage can be unavailable (private mode); the choice then lasts for the session only
+  }
+}
@@ -0,0 +1,8 @@
+export { WorkspaceProvider, useWorkspace } from './WorkspaceProvider'
+export type { WorkspaceContextType } from './WorkspaceProvider'
+export {
+  getCurrentWorkspaceId,
+  setCurrentWorkspaceId,
+  WORKSPACE_HEADER,
+  WORKSPACE_STORAGE_KEY,
+} from './currentWorkspace'
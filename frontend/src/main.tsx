@@ -4,6 +4,8 @@ import { RouterProvider } from '@tanstack/react-router'
 import { router } from './router'
 import { QueryProvider } from './lib/query'
 import { AuthProvider } from './lib/auth'
+import { WorkspaceProvider } from './lib/workspace'
+import { PreferencesProvider } from './lib/preferences'
 import './index.css'
 
 const rootElement = document.getElementById('root')
@@ -15,9 +17,13 @@ if (!rootElement) {
 createRoot(rootElement).render(
   <StrictMode>
     <AuthProvider>
-      <QueryProvider>
-        <RouterProvider router={router} />
-      </QueryProvider>
+      <WorkspaceProvider>
+        <QueryProvider>
+          <PreferencesProvider>
+            <RouterProvider router={router} />
+          </PreferencesProvider>
+        </QueryProvider>
+      </WorkspaceProvider>
     </AuthProvider>
   </StrictMode>
 )
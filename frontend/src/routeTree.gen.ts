@@ -11,17 +11,20 @@
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as AppRouteImport } from './routes/_app'
 import { Route as AppIndexRouteImport } from './routes/_app/index'
-import { Route as AppUnauthorizedRouteImport } from './routes/_app/unauthorized'
-import { Route as AppSettingsRouteImport } from './routes/_app/settings'
-import { Route as AppScenariosRouteImport } from './routes/_app/scenarios'
-import { Route as AppRunsRouteImport } from './routes/_app/runs'
-import { Route as AppPackagesRouteImport } from './routes/_app/packages'
+import { Route as AppAnalyticsRouteImport } from './routes/_app/analytics'
 import { Route as AppDashboardRouteImport } from './routes/_app/dashboard'
-import { Route as AppScenariosScenarioIdRouteImport } from './routes/_app/scenarios.$scenarioId'
-import { Route as AppRunsCompareRouteImport } from './routes/_app/runs.compare'
-import { Route as AppRunsRunIdRouteImport } from './routes/_app/runs.$runId'
-import { Route as AppPackagesNewRouteImport } from './routes/_app/packages.new'
+import { Route as AppFlakyScenariosRouteImport } from './routes/_app/flaky-scenarios'
+import { Route as AppPackagesRouteImport } from './routes/_app/packages'
+import { Route as AppRunsRouteImport } from './routes/_app/runs'
+import { Route as AppScenariosRouteImport } from './routes/_app/scenarios'
+import { Route as AppSchedulesRouteImport } from './routes/_app/schedules'
+import { Route as AppSettingsRouteImport } from './routes/_app/settings'
+import { Route as AppUnauthorizedRouteImport } from './routes/_app/unauthorized'
 import { Route as AppPackagesPackageIdRouteImport } from './routes/_app/packages.$packageId'
+import { Route as AppPackagesNewRouteImport } from './routes/_app/packages.new'
+import { Route as AppRunsRunIdRouteImport } from './routes/_app/runs.$runId'
+import { Route as AppRunsCompareRouteImport } from './routes/_app/runs.compare'
+import { Route as AppScenariosScenarioIdRouteImport } from './routes/_app/scenarios.$scenarioId'
 
 const AppRoute = AppRouteImport.update({
   id: '/_app',
@@ -32,19 +35,24 @@ const AppIndexRoute = AppIndexRouteImport.update({
   path: '/',
   getParentRoute: () => AppRoute,
 } as any)
-const AppUnauthorizedRoute = AppUnauthorizedRouteImport.update({
-  id: '/unauthorized',
-  path: '/unauthorized',
+const AppAnalyticsRoute = AppAnalyticsRouteImport.update({
+  id: '/analytics',
+  path: '/analytics',
   getParentRoute: () => AppRoute,
 } as any)
-const AppSettingsRoute = AppSettingsRouteImport.update({
-  id: '/settings',
-  path: '/settings',
+const AppDashboardRoute = AppDashboardRouteImport.update({
+  id: '/dashboard',
+  path: '/dashboard',
   getParentRoute: () => AppRoute,
 } as any)
-const AppScenariosRoute = AppScenariosRouteImport.update({
-  id: '/scenarios',
-  path: '/scenarios',
+const AppFlakyScenariosRoute = AppFlakyScenariosRouteImport.update({
+  id: '/flaky-scenarios',
+  path: '/flaky-scenarios',
+  getParentRoute: () => AppRoute,
+} as any)
+const AppPackagesRoute = AppPackagesRouteImport.update({
+  id: '/packages',
+  path: '/packages',
   getParentRoute: () => AppRoute,
 } as any)
 const AppRunsRoute = AppRunsRouteImport.update({
@@ -52,48 +60,61 @@ const AppRunsRoute = AppRunsRouteImport.update({
   path: '/runs',
   getParentRoute: () => AppRoute,
 } as any)
-const AppPackagesRoute = AppPackagesRouteImport.update({
-  id: '/packages',
-  path: '/packages',
+const AppScenariosRoute = AppScenariosRouteImport.update({
+  id: '/scenarios',
+  path: '/scenarios',
   getParentRoute: () => AppRoute,
 } as any)
-const AppDashboardRoute = AppDashboardRouteImport.update({
-  id: '/dashboard',
-  path: '/dashboard',
+const AppSchedulesRoute = AppSchedulesRouteImport.update({
+  id: '/schedules',
+  path: '/schedules',
   getParentRoute: () => AppRoute,
 } as any)
-const AppScenariosScenarioIdRoute = AppScenariosScenarioIdRouteImport.update({
-  id: '/$scenarioId',
-  path: '/$scenarioId',
-  getParentRoute: () => AppScenariosRoute,
+const AppSettingsRoute = AppSettingsRouteImport.update({
+  id: '/settings',
+  path: '/settings',
+  getParentRoute: () => AppRoute,
 } as any)
-const AppRunsCompareRoute = AppRunsCompareRouteImport.update({
-  id: '/compare',
-  path: '/compare',
-  getParentRoute: () => AppRunsRoute,
+const AppUnauthorizedRoute = AppUnauthorizedRouteImport.update({
+  id: '/unauthorized',
+  path: '/unauthorized',
+  getParentRoute: () => AppRoute,
 } as any)
-const AppRunsRunIdRoute = AppRunsRunIdRouteImport.update({
-  id: '/$runId',
-  path: '/$runId',
-  getParentRoute: () => AppRunsRoute,
+const AppPackagesPackageIdRoute = AppPackagesPackageIdRouteImport.update({
+  id: '/$packageId',
+  path: '/$packageId',
+  getParentRoute: () => AppPackagesRoute,
 } as any)
 const AppPackagesNewRoute = AppPackagesNewRouteImport.update({
   id: '/new',
   path: '/new',
   getParentRoute: () => AppPackagesRoute,
 } as any)
-const AppPackagesPackageIdRoute = AppPackagesPackageIdRouteImport.update({
-  id: '/$packageId',
-  path: '/$packageId',
-  getParentRoute: () => AppPackagesRoute,
+const AppRunsRunIdRoute = AppRunsRunIdRouteImport.update({
+  id: '/$runId',
+  path: '/$runId',
+  getParentRoute: () => AppRunsRoute,
+} as any)
+const AppRunsCompareRoute = AppRunsCompareRouteImport.update({
+  id: '/compare',
+  path: '/compare',
+  getParentRoute: () => AppRunsRoute,
+} as any)
+const AppScenariosScenarioIdRoute = AppScenariosScenarioIdRouteImport.update({
+  id: '/$scenarioId',
+  path: '/$scenarioId',
+  getParentRoute: () => AppScenariosRoute,
 } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof AppIndexRoute
+  '/analytics': typeof AppAnalyticsRoute
   '/dashboard': typeof AppDashboardRoute
+  '/flaky-scenarios': typeof AppFlakyScenariosRoute
   '/packages': typeof AppPackagesRouteWithChildren
   '/runs': typeof AppRunsRouteWithChildren
   '/scenarios': typeof AppScenariosRouteWithChildren
+  '/schedules': typeof AppSchedulesRoute
   '/settings': typeof AppSettingsRoute
   '/unauthorized': typeof AppUnauthorizedRoute
   '/packages/$packageId': typeof AppPackagesPackageIdRoute
@@ -103,10 +124,13 @@ export interface FileRoutesByFullPath {
   '/scenarios/$scenarioId': typeof AppScenariosScenarioIdRoute
 }
 export interface FileRoutesByTo {
+  '/analytics': typeof AppAnalyticsRoute
   '/dashboard': typeof AppDashboardRoute
+  '/flaky-scenarios': typeof AppFlakyScenariosRoute
   '/packages': typeof AppPackagesRouteWithChildren
   '/runs': typeof AppRunsRouteWithChildren
   '/scenarios': typeof AppScenariosRouteWithChildren
+  '/schedules': typeof AppSchedulesRoute
   '/settings': typeof AppSettingsRoute
   '/unauthorized': typeof AppUnauthorizedRoute
   '/': typeof AppIndexRoute
@@ -119,10 +143,13 @@ export interface FileRoutesByTo {
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/_app': typeof AppRouteWithChildren
+  '/_app/analytics': typeof AppAnalyticsRoute
   '/_app/dashboard': typeof AppDashboardRoute
+  '/_app/flaky-scenarios': typeof AppFlakyScenariosRoute
   '/_app/packages': typeof AppPackagesRouteWithChildren
   '/_app/runs': typeof AppRunsRouteWithChildren
   '/_app/scenarios': typeof AppScenariosRouteWithChildren
+  '/_app/schedules': typeof AppSchedulesRoute
   '/_app/settings': typeof AppSettingsRoute
   '/_app/unauthorized': typeof AppUnauthorizedRoute
   '/_app/': typeof AppIndexRoute
@@ -136,10 +163,13 @@ export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
+    | '/analytics'
     | '/dashboard'
+    | '/flaky-scenarios'
     | '/packages'
     | '/runs'
     | '/scenarios'
+    | '/schedules'
     | '/settings'
     | '/unauthorized'
     | '/packages/$packageId'
@@ -149,10 +179,13 @@ export interface FileRouteTypes {
     | '/scenarios/$scenarioId'
   fileRoutesByTo: FileRoutesByTo
   to:
+    | '/analytics'
     | '/dashboard'
+    | '/flaky-scenarios'
     | '/packages'
     | '/runs'
     | '/scenarios'
+    | '/schedules'
     | '/settings'
     | '/unauthorized'
     | '/'
@@ -164,10 +197,13 @@ export interface FileRouteTypes {
   id:
     | '__root__'
     | '/_app'
+    | '/_app/analytics'
     | '/_app/dashboard'
+    | '/_app/flaky-scenarios'
     | '/_app/packages'
     | '/_app/runs'
     | '/_app/scenarios'
+    | '/_app/schedules'
     | '/_app/settings'
     | '/_app/unauthorized'
     | '/_app/'
@@ -198,25 +234,32 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppIndexRouteImport
       parentRoute: typeof AppRoute
     }
-    '/_app/unauthorized': {
-      id: '/_app/unauthorized'
-      path: '/unauthorized'
-      fullPath: '/unauthorized'
-      preLoaderRoute: typeof AppUnauthorizedRouteImport
+    '/_app/analytics': {
+      id: '/_app/analytics'
+      path: '/analytics'
+      fullPath: '/analytics'
+      preLoaderRoute: typeof AppAnalyticsRouteImport
       parentRoute: typeof AppRoute
     }
-    '/_app/settings': {
-      id: '/_app/settings'
-      path: '/settings'
-      fullPath: '/settings'
-      preLoaderRoute: typeof AppSettingsRouteImport
+    '/_app/dashboard': {
+      id: '/_app/dashboard'
+      path: '/dashboard'
+      fullPath: '/dashboard'
+      preLoaderRoute: typeof AppDashboardRouteImport
       parentRoute: typeof AppRoute
     }
-    '/_app/scenarios': {
-      id: '/_app/scenarios'
-      path: '/scenarios'
-      fullPath: '/scenarios'
-      preLoaderRoute: typeof AppScenariosRouteImport
+    '/_app/flaky-scenarios': {
+      id: '/_app/flaky-scenarios'
+      path: '/flaky-scenarios'
+      fullPath: '/flaky-scenarios'
+      preLoaderRoute: typeof AppFlakyScenariosRouteImport
+      parentRoute: typeof AppRoute
+    }
+    '/_app/packages': {
+      id: '/_app/packages'
+      path: '/packages'
+      fullPath: '/packages'
+      preLoaderRoute: typeof AppPackagesRouteImport
       parentRoute: typeof AppRoute
     }
     '/_app/runs': {
@@ -226,40 +269,40 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppRunsRouteImport
       parentRoute: typeof AppRoute
     }
-    '/_app/packages': {
-      id: '/_app/packages'
-      path: '/packages'
-      fullPath: '/packages'
-      preLoaderRoute: typeof AppPackagesRouteImport
+    '/_app/scenarios': {
+      id: '/_app/scenarios'
+      path: '/scenarios'
+      fullPath: '/scenarios'
+      preLoaderRoute: typeof AppScenariosRouteImport
       parentRoute: typeof AppRoute
     }
-    '/_app/dashboard': {
-      id: '/_app/dashboard'
-      path: '/dashboard'
-      fullPath: '/dashboard'
-      preLoaderRoute: typeof AppDashboardRouteImport
+    '/_app/schedules': {
+      id: '/_app/schedules'
+      path: '/schedules'
+      fullPath: '/schedules'
+      preLoaderRoute: typeof AppSchedulesRouteImport
       parentRoute: typeof AppRoute
     }
-    '/_app/scenarios/$scenarioId': {
-      id: '/_app/scenarios/$scenarioId'
-      path: '/$scenarioId'
-      fullPath: '/scenarios/$scenarioId'
-      preLoaderRoute: typeof AppScenariosScenarioIdRouteImport
-      parentRoute: typeof AppScenariosRoute
+    '/_app/settings': {
+      id: '/_app/settings'
+      path: '/settings'
+      fullPath: '/settings'
+      preLoaderRoute: typeof AppSettingsRouteImport
+      parentRoute: typeof AppRoute
     }
-    '/_app/runs/compare': {
-      id: '/_app/runs/compare'
-      path: '/compare'
-      fullPath: '/runs/compare'
-      preLoaderRoute: typeof AppRunsCompareRouteImport
-      parentRoute: typeof AppRunsRoute
+    '/_app/unauthorized': {
+      id: '/_app/unauthorized'
+      path: '/unauthorized'
+      fullPath: '/unauthorized'
+      preLoaderRoute: typeof AppUnauthorizedRouteImport
+      parentRoute: typeof AppRoute
     }
-    '/_app/runs/$runId': {
-      id: '/_app/runs/$runId'
-      path: '/$runId'
-      fullPath: '/runs/$runId'
-      preLoaderRoute: typeof AppRunsRunIdRouteImport
-      parentRoute: typeof AppRunsRoute
+    '/_app/packages/$packageId': {
+      id: '/_app/packages/$packageId'
+      path: '/$packageId'
+      fullPath: '/packages/$packageId'
+      preLoaderRoute: typeof AppPackagesPackageIdRouteImport
+      parentRoute: typeof AppPackagesRoute
     }
     '/_app/packages/new': {
       id: '/_app/packages/new'
@@ -268,12 +311,26 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppPackagesNewRouteImport
       parentRoute: typeof AppPackagesRoute
     }
-    '/_app/packages/$packageId': {
-      id: '/_app/packages/$packageId'
-      path: '/$packageId'
-      fullPath: '/packages/$packageId'
-      preLoaderRoute: typeof AppPackagesPackageIdRouteImport
-      parentRoute: typeof AppPackagesRoute
+    '/_app/runs/$runId': {
+      id: '/_app/runs/$runId'
+      path: '/$runId'
+      fullPath: '/runs/$runId'
+      preLoaderRoute: typeof AppRunsRunIdRouteImport
+      parentRoute: typeof AppRunsRoute
+    }
+    '/_app/runs/compare': {
+      id: '/_app/runs/compare'
+      path: '/compare'
+      fullPath: '/runs/compare'
+      preLoaderRoute: typeof AppRunsCompareRouteImport
+      parentRoute: typeof AppRunsRoute
+    }
+    '/_app/scenarios/$scenarioId': {
+      id: '/_app/scenarios/$scenarioId'
+      path: '/$scenarioId'
+      fullPath: '/scenarios/$scenarioId'
+      preLoaderRoute: typeof AppScenariosScenarioIdRouteImport
+      parentRoute: typeof AppScenariosRoute
     }
   }
 }
@@ -318,20 +375,26 @@ const AppScenariosRouteWithChildren = AppScenariosRoute._addFileChildren(
 )
 
 interface AppRouteChildren {
+  AppAnalyticsRoute: typeof AppAnalyticsRoute
   AppDashboardRoute: typeof AppDashboardRoute
+  AppFlakyScenariosRoute: typeof AppFlakyScenariosRoute
   AppPackagesRoute: typeof AppPackagesRouteWithChildren
   AppRunsRoute: typeof AppRunsRouteWithChildren
   AppScenariosRoute: typeof AppScenariosRouteWithChildren
+  AppSchedulesRoute: typeof AppSchedulesRoute
   AppSettingsRoute: typeof AppSettingsRoute
   AppUnauthorizedRoute: typeof AppUnauthorizedRoute
   AppIndexRoute: typeof AppIndexRoute
 }
 
 const AppRouteChildren: AppRouteChildren = {
+  AppAnalyticsRoute: AppAnalyticsRoute,
   AppDashboardRoute: AppDashboardRoute,
+  AppFlakyScenariosRoute: AppFlakyScenariosRoute,
   AppPackagesRoute: AppPackagesRouteWithChildren,
   AppRunsRoute: AppRunsRouteWithChildren,
   AppScenariosRoute: AppScenariosRouteWithChildren,
+  AppSchedulesRoute: AppSchedulesRoute,
   AppSettingsRoute: AppSettingsRoute,
   AppUnauthorizedRoute: AppUnauthorizedRoute,
   AppIndexRoute: AppIndexRoute,
@@ -1,5 +1,6 @@
 import { createFileRoute, Outlet } from '@tanstack/react-router'
 import { MainLayout } from '@/components/layouts'
+import { NotificationProvider } from '@/lib/notifications'
 
 export const Route = createFileRoute('/_app')({
   component: AppLayout,
@@ -7,8 +8,10 @@ export const Route = createFileRoute('/_app')({
 
 function AppLayout() {
   return (
-    <MainLayout>
-      <Outlet />
-    </MainLayout>
+    <NotificationProvider>
+      <MainLayout>
+        <Outlet />
+      </MainLayout>
+    </NotificationProvider>
   )
 }
@@ -0,0 +1,292 @@
+import { useMemo } from 'react'
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { usePackages, useRunHistory } from '@/hooks'
+import { Skeleton, EmptyState, TrendChart } from '@/components/ui'
+import {
+  buildRunTrends,
+  filterRuns,
+  getTopFailingScenarios,
+  summarizeRuns,
+  type TrendBucket,
+} from '@/lib/analytics'
+import { useDateFormat } from '@/lib/preferences'
+
+const DATE_RANGES = {
+  '7d': { label: 'Last 7 days', days: 7, bucket: 'day' },
+  '30d': { label: 'Last 30 days', days: 30, bucket: 'day' },
+  '90d': { label: 'Last 90 days', days: 90, bucket: 'week' },
+} satisfies Record<string, { label: string; days: number; bucket: TrendBucket }>
+
+type DateRange = keyof typeof DATE_RANGES
+
+interface AnalyticsSearchParams {
+  range?: DateRange | undefined
+  packageId?: string | undefined
+}
+
+const isDateRange = (value: unknown): value is DateRange =>
+  typeof value === 'string' && value in DATE_RANGES
+
+export const Route = createFileRoute('/_app/analytics')({
+  component: AnalyticsPage,
+  validateSearch: (search: Record<string, unknown>): AnalyticsSearchParams => ({
+    range: isDateRange(search.range) ? search.range : undefined,
+    packageId: typeof search.packageId === 'string' ? search.packageId : undefined,
+  }),
+})
+
+function AnalyticsPage() {
+  const { range = '30d', packageId } = Route.useSearch()
+  const navigate = Route.useNavigate()
+  const { formatDate } = useDateFormat()
+  const { days, bucket } = DATE_RANGES[range]
+
+  // Whole local days, ending at the end of today
+  const period = useMemo(() => {
+    const to = new Date()
+    to.setHours(0, 0, 0, 0)
+    to.setDate(to.getDate() + 1)
+    const from = new Date(to)
+    from.setDate(from.getDate() - days)
+    return { from, to }
+  }, [days])
+
+  const { data: packages } = usePackages(0, 100)
+  const {
+    data: history,
+    isLoading,
+    isError,
+    error,
+  } = useRunHistory({
+    packageId,
+    from: period.from.toISOString(),
+    to: period.to.toISOString(),
+  })
+
+  const runs = useMemo(
+    () => filterRuns(history?.content ?? [], { ...period, packageId }),
+    [history, period, packageId]
+  )
+  const totals = useMemo(() => summarizeRuns(runs), [runs])
+  const trends = useMemo(() => buildRunTrends(runs, { bucket, ...period }), [runs, bucket, period])
+  const failingScenarios = useMemo(() => getTopFailingScenarios(runs, 10), [runs])
+
+  const labels = trends.map((point) => point.date)
+
+  const updateSearch = (patch: AnalyticsSearchParams) => {
+    void navigate({ search: (prev) => ({ ...prev, ...patch }) })
+  }
+
+  return (
+    <div className="analytics-page">
+      <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+        <div>
+          <h1 className="page-title">Analytics</h1>
+          <p className="text-secondary-400">Pass rate, duration and failure trends across runs</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={packageId ?? ''}
+            onChange={(e) => {
+              updateSearch({ packageId: e.target.value || undefined })
+            }}
+            className="input"
+            aria-label="Package"
+          >
+            <option value="">All packages</option>
+            {packages?.content.map((pkg) => (
+              <option key={pkg.id} value={pkg.id}>
+                {pkg.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={range}
+            onChange={(e) => {
+              if (isDateRange(e.target.value)) updateSearch({ range: e.target.value })
+            }}
+            className="input"
+            aria-label="Date range"
+          >
+            {Object.entries(DATE_RANGES).map(([value, option]) => (
+              <option key={value} value={value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </header>
+
+      {isError ? (
+        <div className="error-state">
+          <h2>Error loading run history</h2>
+          <p>{error.message}</p>
+        </div>
+      ) : isLoading ? (
+        <AnalyticsSkeleton />
+      ) : runs.length === 0 ? (
+        <EmptyState
+          title="No completed runs"
+          description="No completed runs started in this period. Try another range or package."
+        />
+      ) : (
+        <div className="space-y-6">
+          {history?.truncated && (
+            <p className="text-sm text-yellow-400">
+              Only {history.content.length} of the {history.totalElements} runs started in this
+              period could be loaded, so these figures are partial.
+            </p>
+          )}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <MetricCard title="Runs" value={String(totals.runCount)} />
+            <MetricCard title="Pass Rate" value={formatPercent(totals.passRate)} />
+            <MetricCard title="Median Duration" value={formatDuration(totals.medianDuration)} />
+            <MetricCard title="p95 Duration" value={formatDuration(totals.p95Duration)} />
+          </div>
+
+          <div className="grid lg:grid-cols-2 gap-6">
+            <TrendChart
+              title="Pass rate"
+              labels={labels}
+              maxValue={100}
+              formatValue={(value) => `${String(Math.round(value))}%`}
+              series={[
+                {
+                  label: 'Pass rate',
+                  colorClass: 'text-green-400',
+                  values: trends.map((p) => p.passRate),
+                },
+              ]}
+            />
+            <TrendChart
+              title="Run duration"
+              labels={labels}
+              formatValue={formatDuration}
+              series={[
+                {
+                  label: 'Median',
+                  colorClass: 'text-blue-400',
+                  values: trends.map((p) => p.medianDuration),
+                },
+                {
+                  label: 'p95',
+                  colorClass: 'text-orange-400',
+                  values: trends.map((p) => p.p95Duration),
+                },
+              ]}
+            />
+            <TrendChart
+              title="Scenarios per run"
+              labels={labels}
+              series={[
+                {
+                  label: 'Scenarios',
+                  colorClass: 'text-primary-400',
+                  values: trends.map((p) => p.scenarioCount),
+                },
+              ]}
+            />
+            <TrendChart
+              title="Runs"
+              labels={labels}
+              series={[
+                {
+                  label: 'Runs',
+                  colorClass: 'text-secondary-300',
+                  values: trends.map((p) => p.runCount),
+                },
+              ]}
+            />
+          </div>
+
+          <div className="card">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-semibold text-white">Top failing scenarios</h2>
+              <Link
+                to="/flaky-scenarios"
+                className="text-sm text-primary-400 hover:text-primary-300"
+              >
+                Flaky scenarios →
+              </Link>
+            </div>
+            {failingScenarios.length === 0 ? (
+              <p className="text-sm text-secondary-400">No scenario failed in this period.</p>
+            ) : (
+              <table className="w-full text-sm" data-testid="failing-scenarios">
+                <thead>
+                  <tr className="text-left text-secondary-400 border-b border-secondary-700">
+                    <th className="py-2 font-medium">Scenario</th>
+                    <th className="py-2 font-medium text-right">Failures</th>
+                    <th className="py-2 font-medium text-right">Failure rate</th>
+                    <th className="py-2 font-medium text-right">Last failed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {failingScenarios.map((scenario) => (
+                    <tr key={scenario.scenarioId} className="border-b border-secondary-800">
+                      <td className="py-2">
+                        <Link
+                          to="/scenarios/$scenarioId"
+                          params={{ scenarioId: scenario.scenarioId }}
+                          className="text-white hover:text-primary-400"
+                        >
+                          {scenario.scenarioName}
+                        </Link>
+                      </td>
+                      <td className="py-2 text-right text-red-400">
+                        {scenario.failures}/{scenario.executions}
+                      </td>
+                      <td className="py-2 text-right text-secondary-300">
+                        {formatPercent(scenario.failureRate)}
+                      </td>
+                      <td className="py-2 text-right text-secondary-400">
+                        {scenario.lastFailedAt ? formatDate(scenario.lastFailedAt) : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function MetricCard({ title, value }: { title: string; value: string }) {
+  return (
+    <div className="card">
+      <p className="text-sm text-secondary-400 mb-1">{title}</p>
+      <p className="text-2xl font-bold text-white">{value}</p>
+    </div>
+  )
+}
+
+function AnalyticsSkeleton() {
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {[1, 2, 3, 4].map((i) => (
+          <Skeleton key={i} className="h-20" />
+        ))}
+      </div>
+      <div className="grid lg:grid-cols-2 gap-6">
+        {[1, 2, 3, 4].map((i) => (
+          <Skeleton key={i} className="h-56" />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${value.toFixed(1)}%`
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '—'
+  if (ms < 1000) return `${String(Math.round(ms))}ms`
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`
+  return `${(ms / 60000).toFixed(1)}m`
+}
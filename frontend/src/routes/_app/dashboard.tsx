@@ -1,6 +1,7 @@
 import { createFileRoute, Link } from '@tanstack/react-router'
 import { usePackages, useScenarios } from '@/hooks'
 import { StatusBadge, Skeleton } from '@/components/ui'
+import { useDateFormat } from '@/lib/preferences'
 import type { QaPackage } from '@/api/types'
 
 export const Route = createFileRoute('/_app/dashboard')({
@@ -122,6 +123,7 @@ interface RecentPackagesProps {
 }
 
 function RecentPackages({ packages, isLoading }: RecentPackagesProps) {
+  const { formatTimestamp } = useDateFormat()
   const recentPackages = packages
     .slice()
     .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
@@ -169,7 +171,7 @@ function RecentPackages({ packages, isLoading }: RecentPackagesProps) {
                   )}
                 </div>
                 <div className="text-xs text-secondary-500 ml-4 shrink-0">
-                  {formatRelativeTime(pkg.updatedAt)}
+                  {formatTimestamp(pkg.updatedAt)}
                 </div>
               </div>
             </Link>
@@ -212,6 +214,15 @@ function QuickActions() {
           </span>
           <span className="text-white">View Scenarios</span>
         </Link>
+        <Link
+          to="/analytics"
+          className="flex items-center gap-3 p-3 rounded-lg bg-secondary-800/50 hover:bg-secondary-800 transition-colors"
+        >
+          <span className="w-8 h-8 rounded-lg bg-orange-500/20 flex items-center justify-center text-orange-400">
+            📈
+          </span>
+          <span className="text-white">View Analytics</span>
+        </Link>
         <Link
           to="/settings"
           className="flex items-center gap-3 p-3 rounded-lg bg-secondary-800/50 hover:bg-secondary-800 transition-colors"
@@ -343,18 +354,3 @@ function calculateStats(packages: QaPackage[]) {
     activePackages,
   }
 }
-
-function formatRelativeTime(dateString: string): string {
-  const date = new Date(dateString)
-  const now = new Date()
-  const diffMs = now.getTime() - date.getTime()
-  const diffMins = Math.floor(diffMs / (1000 * 60))
-  const diffHours = Math.floor(diffMs / (1000 * 60 * 60))
-  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24))
-
-  if (diffMins < 1) return 'just now'
-  if (diffMins < 60) return `${String(diffMins)}m ago`
-  if (diffHours < 24) return `${String(diffHours)}h ago`
-  if (diffDays < 7) return `${String(diffDays)}d ago`
-  return date.toLocaleDateString()
-}
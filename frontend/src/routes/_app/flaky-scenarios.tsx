@@ -0,0 +1,160 @@
+import { useMemo, useState } from 'react'
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { usePackages, useScenarioFlakiness } from '@/hooks'
+import { EmptyState, FlakyBadge, Skeleton } from '@/components/ui'
+import type { FlakyOutcome } from '@/lib/analytics'
+
+export const Route = createFileRoute('/_app/flaky-scenarios')({
+  component: FlakyScenariosPage,
+})
+
+const WINDOW_OPTIONS = [10, 20, 50]
+
+function FlakyScenariosPage() {
+  const [packageId, setPackageId] = useState('')
+  const [windowSize, setWindowSize] = useState(20)
+  const [search, setSearch] = useState('')
+  const [showUnstable, setShowUnstable] = useState(false)
+
+  const { data: packages } = usePackages(0, 100)
+  const {
+    data: flakiness,
+    isLoading,
+    isError,
+    error,
+  } = useScenarioFlakiness({ packageId: packageId || undefined, windowSize })
+
+  const scenarios = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    return [...(flakiness?.values() ?? [])]
+      .filter((entry) => (showUnstable ? entry.flips > 0 : entry.isFlaky))
+      .filter((entry) => !query || entry.scenarioName.toLowerCase().includes(query))
+      .sort((a, b) => b.score - a.score || b.flips - a.flips)
+  }, [flakiness, search, showUnstable])
+
+  return (
+    <div className="flaky-scenarios-page">
+      <header className="mb-8">
+        <div className="flex items-center gap-2 text-secondary-400 text-sm mb-2">
+          <Link to="/scenarios" className="hover:text-white transition-colors">
+            Scenarios
+          </Link>
+          <span>/</span>
+          <span className="text-white">Flaky</span>
+        </div>
+        <h1 className="page-title">Flaky Scenarios</h1>
+        <p className="text-secondary-400">
+          Scenarios whose result flips between passed and failed without their content changing
+        </p>
+      </header>
+
+      <div className="bg-secondary-800/50 rounded-lg p-4 mb-6 flex flex-col lg:flex-row gap-4">
+        <input
+          type="text"
+          placeholder="Search scenarios..."
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value)
+          }}
+          className="flex-1 px-4 py-2 bg-secondary-800 border border-secondary-700 rounded-lg text-white placeholder-secondary-500 focus:outline-none focus:border-primary-500 transition-colors"
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={packageId}
+            onChange={(e) => {
+              setPackageId(e.target.value)
+            }}
+            className="px-3 py-2 bg-secondary-800 border border-secondary-700 rounded-lg text-white text-sm focus:outline-none focus:border-primary-500 transition-colors"
+            aria-label="Package"
+          >
+            <option value="">All Packages</option>
+            {packages?.content.map((pkg) => (
+              <option key={pkg.id} value={pkg.id}>
+                {pkg.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={windowSize}
+            onChange={(e) => {
+              setWindowSize(Number(e.target.value))
+            }}
+            className="px-3 py-2 bg-secondary-800 border border-secondary-700 rounded-lg text-white text-sm focus:outline-none focus:border-primary-500 transition-colors"
+            aria-label="Run window"
+          >
+            {WINDOW_OPTIONS.map((size) => (
+              <option key={size} value={size}>
+                Last {size} runs
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-secondary-300">
+            <input
+              type="checkbox"
+              checked={showUnstable}
+              onChange={(e) => {
+                setShowUnstable(e.target.checked)
+              }}
+              className="w-4 h-4 rounded border-secondary-600 bg-secondary-700 text-primary-500"
+            />
+            Include any status flip
+          </label>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-16" />
+          ))}
+        </div>
+      ) : isError ? (
+        <div className="error-state">
+          <h2>Error loading run history</h2>
+          <p>{error.message}</p>
+        </div>
+      ) : scenarios.length === 0 ? (
+        <EmptyState
+          title="No flaky scenarios"
+          description={`No scenario flipped between passed and failed often enough in the last ${String(windowSize)} runs`}
+        />
+      ) : (
+        <div className="card p-0 divide-y divide-secondary-700" data-testid="flaky-scenarios">
+          {scenarios.map((entry) => (
+            <div key={entry.scenarioId} className="flex flex-wrap items-center gap-4 px-4 py-3">
+              <div className="flex-1 min-w-0">
+                <Link
+                  to="/scenarios/$scenarioId"
+                  params={{ scenarioId: entry.scenarioId }}
+                  className="font-medium text-white hover:text-primary-400"
+                >
+                  {entry.scenarioName}
+                </Link>
+                <div className="text-sm text-secondary-400">
+                  {entry.flips} flips in {entry.comparisons} comparable runs · {entry.passes}{' '}
+                  passed, {entry.failures} failed
+                </div>
+              </div>
+              <OutcomeStrip outcomes={entry.outcomes} />
+              <FlakyBadge flakiness={entry} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function OutcomeStrip({ outcomes }: { outcomes: FlakyOutcome[] }) {
+  return (
+    <div className="flex items-center gap-0.5" aria-label="Outcomes, oldest first">
+      {outcomes.map((outcome, index) => (
+        <span
+          key={index}
+          className={`w-2 h-4 rounded-sm ${outcome === 'PASSED' ? 'bg-green-500' : 'bg-red-500'}`}
+          title={outcome === 'PASSED' ? 'Passed' : 'Failed'}
+        />
+      ))}
+    </div>
+  )
+}
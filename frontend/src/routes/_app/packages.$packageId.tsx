@@ -1,32 +1,86 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useMemo } from 'react'
 import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
 import {
   usePackage,
+  useAllPackageScenarios,
   usePackageScenarios,
   usePackageRuns,
-  useStartRun,
+  usePackageEnvironments,
+  useDeleteEnvironment,
   useGenerateScenarios,
   useUpdatePackage,
   useDeletePackage,
+  useScenarioFlakiness,
+  useSchedules,
+  useWebhooks,
+  useBulkTagScenarios,
 } from '@/hooks'
-import { StatusBadge, Skeleton, OperationCoverageTable } from '@/components/ui'
-import type { Scenario, TestRun, QaPackage, UpdateQaPackageRequest } from '@/api/types'
+import {
+  StatusBadge,
+  Skeleton,
+  OperationCoverageTable,
+  PlaywrightExportButton,
+  FlakyBadge,
+  Modal,
+} from '@/components/ui'
+import { ScheduleFormModal, ScheduleList } from '@/components/schedules'
+import {
+  EnvironmentFormModal,
+  ImportScenariosModal,
+  SpecDiffModal,
+  StartRunDialog,
+} from '@/components/packages'
+import { WebhookFormModal, WebhookList } from '@/components/notifications'
+import { Can } from '@/components/auth'
+import { usePermission } from '@/lib/auth'
+import type { ScenarioFlakiness } from '@/lib/analytics'
+import { useDateFormat } from '@/lib/preferences'
+import { useNotifications } from '@/lib/notifications'
+import {
+  calculateOperationCoverage,
+  diffOpenApiSpecs,
+  findImpactedScenarios,
+  hasSpecChanges,
+  parseOpenApiSpec,
+  OpenApiParseError,
+  type ImpactedScenario,
+  type ParsedOpenApiSpec,
+  type SpecDiff,
+} from '@/lib/openapi'
+import { REGENERATION_TAG } from '@/lib/scenario'
+import type {
+  Scenario,
+  TestRun,
+  QaPackage,
+  UpdateQaPackageRequest,
+  PackageEnvironment,
+} from '@/api/types'
 
 export const Route = createFileRoute('/_app/packages/$packageId')({
   component: PackageDetailPage,
 })
 
-type TabId = 'scenarios' | 'runs' | 'coverage' | 'settings'
+type TabId =
+  | 'scenarios'
+  | 'runs'
+  | 'environments'
+  | 'schedules'
+  | 'notifications'
+  | 'coverage'
+  | 'settings'
 
 function PackageDetailPage() {
   const { packageId } = Route.useParams()
   const [activeTab, setActiveTab] = useState<TabId>('scenarios')
+  const { formatDateTime } = useDateFormat()
 
   const { data: pkg, isLoading, isError, error } = usePackage(packageId)
   const { data: scenarios, isLoading: scenariosLoading } = usePackageScenarios(packageId)
   const { data: runs, isLoading: runsLoading } = usePackageRuns(packageId)
-  const startRun = useStartRun()
+  const [isStartRunOpen, setIsStartRunOpen] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
   const generateScenarios = useGenerateScenarios()
+  const { watchRun, watchGeneration } = useNotifications()
 
   if (isLoading) {
     return <PackageDetailSkeleton />
@@ -44,12 +98,12 @@ function PackageDetailPage() {
     )
   }
 
-  const handleStartRun = () => {
-    startRun.mutate(packageId)
-  }
-
   const handleGenerateScenarios = () => {
-    generateScenarios.mutate(packageId)
+    generateScenarios.mutate(packageId, {
+      onSuccess: () => {
+        watchGeneration(pkg)
+      },
+    })
   }
 
   const canStartRun = pkg.status === 'READY' || pkg.status === 'COMPLETED' || pkg.status === 'FAILED'
@@ -79,23 +133,38 @@ function PackageDetailPage() {
           </div>
 
           <div className="flex gap-2">
-            {canGenerateScenarios && (
+            <Can permission="scenario:edit">
               <button
-                onClick={handleGenerateScenarios}
-                disabled={generateScenarios.isPending}
-                className="btn btn-secondary disabled:opacity-50"
+                onClick={() => {
+                  setIsImportOpen(true)
+                }}
+                className="btn btn-ghost"
               >
-                {generateScenarios.isPending ? 'Generating...' : 'Generate Scenarios'}
+                Import Scenarios
               </button>
+            </Can>
+            {canGenerateScenarios && (
+              <Can permission="scenario:generate">
+                <button
+                  onClick={handleGenerateScenarios}
+                  disabled={generateScenarios.isPending}
+                  className="btn btn-secondary disabled:opacity-50"
+                >
+                  {generateScenarios.isPending ? 'Generating...' : 'Generate Scenarios'}
+                </button>
+              </Can>
             )}
             {canStartRun && (
-              <button
-                onClick={handleStartRun}
-                disabled={startRun.isPending}
-                className="btn btn-primary disabled:opacity-50"
-              >
-                {startRun.isPending ? 'Starting...' : 'Start Run'}
-              </button>
+              <Can permission="run:start">
+                <button
+                  onClick={() => {
+                    setIsStartRunOpen(true)
+                  }}
+                  className="btn btn-primary"
+                >
+                  Start Run
+                </button>
+              </Can>
             )}
           </div>
         </div>
@@ -115,11 +184,11 @@ function PackageDetailPage() {
           </div>
           <div>
             <dt className="text-sm text-secondary-500">Created</dt>
-            <dd className="text-white">{formatDate(pkg.createdAt)}</dd>
+            <dd className="text-white">{formatDateTime(pkg.createdAt)}</dd>
           </div>
           <div>
             <dt className="text-sm text-secondary-500">Last Updated</dt>
-            <dd className="text-white">{formatDate(pkg.updatedAt)}</dd>
+            <dd className="text-white">{formatDateTime(pkg.updatedAt)}</dd>
           </div>
         </dl>
       </section>
@@ -139,6 +208,24 @@ function PackageDetailPage() {
             activeTab={activeTab}
             onClick={setActiveTab}
           />
+          <TabButton
+            id="environments"
+            label="Environments"
+            activeTab={activeTab}
+            onClick={setActiveTab}
+          />
+          <TabButton
+            id="schedules"
+            label="Schedules"
+            activeTab={activeTab}
+            onClick={setActiveTab}
+          />
+          <TabButton
+            id="notifications"
+            label="Notifications"
+            activeTab={activeTab}
+            onClick={setActiveTab}
+          />
           <TabButton
             id="coverage"
             label="Coverage"
@@ -156,17 +243,50 @@ function PackageDetailPage() {
 
       {/* Tab Content */}
       {activeTab === 'scenarios' && (
-        <ScenariosTab scenarios={scenarios?.content ?? []} isLoading={scenariosLoading} />
+        <ScenariosTab
+          scenarios={scenarios?.content ?? []}
+          isLoading={scenariosLoading}
+          pkg={pkg}
+        />
       )}
       {activeTab === 'runs' && (
         <RunsTab runs={runs?.content ?? []} isLoading={runsLoading} />
       )}
+      {activeTab === 'environments' && <EnvironmentsTab packageId={packageId} />}
+      {activeTab === 'schedules' && <SchedulesTab packageId={packageId} />}
+      {activeTab === 'notifications' && (
+        <NotificationsTab
+          pkg={pkg}
+          latestRun={runs?.content.find((run) => run.status === 'COMPLETED')}
+        />
+      )}
       {activeTab === 'coverage' && (
-        <CoverageTab scenarios={scenarios?.content ?? []} isLoading={scenariosLoading} />
+        <CoverageTab packageId={packageId} openApiSpec={pkg.openApiSpec} />
       )}
       {activeTab === 'settings' && (
         <SettingsTab pkg={pkg} packageId={packageId} />
       )}
+
+      <StartRunDialog
+        isOpen={isStartRunOpen}
+        onClose={() => {
+          setIsStartRunOpen(false)
+        }}
+        pkg={pkg}
+        onStarted={(run) => {
+          watchRun(run, pkg.name)
+        }}
+      />
+      <ImportScenariosModal
+        isOpen={isImportOpen}
+        onClose={() => {
+          setIsImportOpen(false)
+        }}
+        pkg={pkg}
+        onImported={() => {
+          setActiveTab('scenarios')
+        }}
+      />
     </div>
   )
 }
@@ -197,7 +317,19 @@ function TabButton({
   )
 }
 
-function ScenariosTab({ scenarios, isLoading }: { scenarios: Scenario[]; isLoading: boolean }) {
+function ScenariosTab({
+  scenarios,
+  isLoading,
+  pkg,
+}: {
+  scenarios: Scenario[]
+  isLoading: boolean
+  pkg: QaPackage
+}) {
+  const { data: flakiness } = useScenarioFlakiness({ packageId: pkg.id })
+  // The list below shows one page; the export covers the whole package
+  const { data: exportList, isLoading: exportLoading } = useAllPackageScenarios(pkg.id)
+
   if (isLoading) {
     return (
       <div className="space-y-3">
@@ -231,14 +363,38 @@ function ScenariosTab({ scenarios, isLoading }: { scenarios: Scenario[]; isLoadi
 
   return (
     <div className="space-y-3">
+      <div className="flex items-center justify-end gap-3">
+        {exportList?.truncated && (
+          <p className="text-sm text-yellow-400">
+            Only {exportList.content.length} of the {exportList.totalElements} scenarios could be
+            loaded for export.
+          </p>
+        )}
+        <PlaywrightExportButton
+          scenarios={exportList?.content ?? []}
+          projectName={pkg.name}
+          baseUrl={pkg.baseUrl}
+          disabled={exportLoading}
+        />
+      </div>
       {scenarios.map((scenario) => (
-        <ScenarioCard key={scenario.id} scenario={scenario} />
+        <ScenarioCard
+          key={scenario.id}
+          scenario={scenario}
+          flakiness={flakiness?.get(scenario.id)}
+        />
       ))}
     </div>
   )
 }
 
-function ScenarioCard({ scenario }: { scenario: Scenario }) {
+function ScenarioCard({
+  scenario,
+  flakiness,
+}: {
+  scenario: Scenario
+  flakiness: ScenarioFlakiness | undefined
+}) {
   return (
     <div className="card hover:border-primary-500 transition-colors">
       <div className="flex justify-between items-start">
@@ -246,6 +402,7 @@ function ScenarioCard({ scenario }: { scenario: Scenario }) {
           <div className="flex items-center gap-2 mb-1">
             <h3 className="font-medium text-white">{scenario.name}</h3>
             <StatusBadge status={scenario.status} />
+            <FlakyBadge flakiness={flakiness} />
           </div>
           {scenario.description && (
             <p className="text-secondary-400 text-sm">{scenario.description}</p>
@@ -311,6 +468,7 @@ function RunsTab({
 }
 
 function RunCard({ run }: { run: TestRun }) {
+  const { formatDateTime } = useDateFormat()
   const statusColors: Record<string, string> = {
     PENDING: 'bg-yellow-500/10 text-yellow-500',
     RUNNING: 'bg-blue-500/10 text-blue-500',
@@ -333,13 +491,18 @@ function RunCard({ run }: { run: TestRun }) {
             >
               {run.status}
             </span>
+            {run.environment && (
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-secondary-700 text-secondary-300">
+                {run.environment.name}
+              </span>
+            )}
           </div>
           <div className="flex gap-4 text-sm text-secondary-400">
             <span>{run.summary.passedScenarios}/{run.summary.totalScenarios} passed</span>
             {run.summary.failedScenarios > 0 && (
               <span className="text-red-500">{run.summary.failedScenarios} failed</span>
             )}
-            {run.startedAt && <span>Started {formatDate(run.startedAt)}</span>}
+            {run.startedAt && <span>Started {formatDateTime(run.startedAt)}</span>}
           </div>
         </div>
         <div className="text-secondary-500">
@@ -352,14 +515,291 @@ function RunCard({ run }: { run: TestRun }) {
   )
 }
 
-function CoverageTab({ scenarios, isLoading }: { scenarios: Scenario[]; isLoading: boolean }) {
+function EnvironmentsTab({ packageId }: { packageId: string }) {
+  const { data: environments, isLoading, isError, error } = usePackageEnvironments(packageId)
+  const deleteEnvironment = useDeleteEnvironment(packageId)
+  const [editing, setEditing] = useState<PackageEnvironment | null>(null)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [deleting, setDeleting] = useState<PackageEnvironment | null>(null)
+
+  const openForm = (environment: PackageEnvironment | null) => {
+    setEditing(environment)
+    setIsFormOpen(true)
+  }
+
+  const handleDelete = () => {
+    if (!deleting) return
+    deleteEnvironment.mutate(deleting.id, {
+      onSuccess: () => {
+        setDeleting(null)
+      },
+    })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2].map((i) => (
+          <Skeleton key={i} className="h-20" />
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-secondary-400">
+          Named targets with their own base URL, variables and secrets, picked when a run starts
+        </p>
+        <Can permission="environment:manage">
+          <button
+            onClick={() => {
+              openForm(null)
+            }}
+            className="btn btn-primary"
+          >
+            New Environment
+          </button>
+        </Can>
+      </div>
+
+      {isError ? (
+        <div className="error-state">
+          <h2>Error loading environments</h2>
+          <p>{error.message}</p>
+        </div>
+      ) : !environments || environments.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-secondary-400">No environments yet. Runs use the package base URL.</p>
+        </div>
+      ) : (
+        <div className="card p-0 divide-y divide-secondary-700" data-testid="environment-list">
+          {environments.map((environment) => (
+            <div key={environment.id} className="flex flex-wrap items-center gap-4 px-4 py-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-white">{environment.name}</span>
+                  {environment.isDefault && (
+                    <span className="px-2 py-0.5 rounded-full text-xs bg-primary-500/10 text-primary-400">
+                      Default
+                    </span>
+                  )}
+                </div>
+                <div className="text-sm text-secondary-400 font-mono truncate">
+                  {environment.baseUrl}
+                </div>
+                <div className="text-xs text-secondary-500 mt-1">
+                  {[
+                    ...Object.keys(environment.variables),
+                    ...Object.keys(environment.secrets).map((name) => `${name} (secret)`),
+                  ].join(', ') || 'No variables'}
+                </div>
+              </div>
+              <Can permission="environment:manage">
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => {
+                      openForm(environment)
+                    }}
+                    className="btn btn-ghost text-sm"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => {
+                      setDeleting(environment)
+                    }}
+                    className="btn btn-ghost text-sm text-red-500"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </Can>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <EnvironmentFormModal
+        isOpen={isFormOpen}
+        onClose={() => {
+          setIsFormOpen(false)
+        }}
+        packageId={packageId}
+        environment={editing ?? undefined}
+        existingNames={(environments ?? [])
+          .filter((environment) => environment.id !== editing?.id)
+          .map((environment) => environment.name)}
+      />
+
+      <Modal
+        isOpen={deleting !== null}
+        onClose={() => {
+          setDeleting(null)
+        }}
+        title="Delete Environment"
+        size="sm"
+      >
+        <p className="text-secondary-300 mb-6">
+          Delete <span className="text-white font-medium">{deleting?.name}</span>? Past runs keep
+          the environment they ran against.
+        </p>
+        {deleteEnvironment.isError && (
+          <p className="text-red-500 text-sm mb-4">{deleteEnvironment.error.message}</p>
+        )}
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={() => {
+              setDeleting(null)
+            }}
+            className="btn btn-ghost"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={deleteEnvironment.isPending}
+            className="btn bg-red-500 text-white hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {deleteEnvironment.isPending ? 'Deleting...' : 'Delete'}
+          </button>
+        </div>
+      </Modal>
+    </div>
+  )
+}
+
+function SchedulesTab({ packageId }: { packageId: string }) {
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const { data: schedules, isLoading, isError, error } = useSchedules({ packageId })
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2].map((i) => (
+          <Skeleton key={i} className="h-20" />
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-secondary-400">
+          Run this package automatically on a cron schedule
+        </p>
+        <Can permission="schedule:manage">
+          <button
+            onClick={() => {
+              setIsCreateOpen(true)
+            }}
+            className="btn btn-primary"
+          >
+            New Schedule
+          </button>
+        </Can>
+      </div>
+
+      {isError ? (
+        <div className="error-state">
+          <h2>Error loading schedules</h2>
+          <p>{error.message}</p>
+        </div>
+      ) : !schedules || schedules.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-secondary-400">No schedules yet</p>
+        </div>
+      ) : (
+        <ScheduleList schedules={schedules} />
+      )}
+
+      <ScheduleFormModal
+        isOpen={isCreateOpen}
+        onClose={() => {
+          setIsCreateOpen(false)
+        }}
+        packageId={packageId}
+      />
+    </div>
+  )
+}
+
+function NotificationsTab({
+  pkg,
+  latestRun,
+}: {
+  pkg: QaPackage
+  /** Most recent finished run, used for payload previews */
+  latestRun?: TestRun | undefined
+}) {
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const { data: webhooks, isLoading, isError, error } = useWebhooks({ packageId: pkg.id })
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2].map((i) => (
+          <Skeleton key={i} className="h-20" />
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-secondary-400">
+          Call webhooks when runs of this package finish or fail
+        </p>
+        <Can permission="notification:manage">
+          <button
+            onClick={() => {
+              setIsCreateOpen(true)
+            }}
+            className="btn btn-primary"
+          >
+            New Webhook
+          </button>
+        </Can>
+      </div>
+
+      {isError ? (
+        <div className="error-state">
+          <h2>Error loading webhooks</h2>
+          <p>{error.message}</p>
+        </div>
+      ) : !webhooks || webhooks.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-secondary-400">No webhooks yet</p>
+        </div>
+      ) : (
+        <WebhookList webhooks={webhooks} pkg={pkg} previewRun={latestRun} />
+      )}
+
+      <WebhookFormModal
+        isOpen={isCreateOpen}
+        onClose={() => {
+          setIsCreateOpen(false)
+        }}
+        pkg={pkg}
+        previewRun={latestRun}
+      />
+    </div>
+  )
+}
+
+function CoverageTab({ packageId, openApiSpec }: { packageId: string; openApiSpec: string }) {
+  const { data: scenarioList, isLoading } = useAllPackageScenarios(packageId)
   const [isExporting, setIsExporting] = useState(false)
+  const scenarios = useMemo(() => scenarioList?.content ?? [], [scenarioList])
 
   const handleExport = useCallback(() => {
     setIsExporting(true)
     try {
       // Generate coverage report as JSON
-      const coverage = generateCoverageReport(scenarios)
+      const coverage = generateCoverageReport(scenarios, openApiSpec, scenarioList?.totalElements)
       const blob = new Blob([JSON.stringify(coverage, null, 2)], { type: 'application/json' })
       const url = URL.createObjectURL(blob)
       const link = document.createElement('a')
@@ -373,80 +813,52 @@ function CoverageTab({ scenarios, isLoading }: { scenarios: Scenario[]; isLoadin
     } finally {
       setIsExporting(false)
     }
-  }, [scenarios])
+  }, [scenarios, scenarioList, openApiSpec])
 
   return (
-    <OperationCoverageTable
-      scenarios={scenarios}
-      isLoading={isLoading}
-      onExport={handleExport}
-      isExporting={isExporting}
-    />
+    <div className="space-y-4">
+      {scenarioList?.truncated && (
+        <p className="text-sm text-yellow-400">
+          Only {scenarioList.content.length} of the {scenarioList.totalElements} scenarios in this
+          package could be loaded, so this coverage is partial.
+        </p>
+      )}
+      <OperationCoverageTable
+        scenarios={scenarios}
+        openApiSpec={openApiSpec}
+        isLoading={isLoading}
+        onExport={handleExport}
+        isExporting={isExporting}
+      />
+    </div>
   )
 }
 
-function generateCoverageReport(scenarios: Scenario[]) {
-  const operationMap = new Map<string, {
-    endpoint: string
-    method: string
-    status: string
-    scenarioCount: number
-    scenarios: Array<{ id: string; name: string; status: string }>
-  }>()
-
-  scenarios.forEach((scenario) => {
-    scenario.steps.forEach((step) => {
-      const key = `${step.method}:${step.endpoint}`
-      const existing = operationMap.get(key)
-
-      const isPassing = scenario.status === 'PASSED'
-      const isFailing = scenario.status === 'FAILED'
-
-      if (existing) {
-        existing.scenarioCount++
-        existing.scenarios.push({
-          id: scenario.id,
-          name: scenario.name,
-          status: scenario.status,
-        })
-        if (isPassing) {
-          existing.status = 'covered'
-        } else if (isFailing && existing.status === 'untested') {
-          existing.status = 'failing'
-        }
-      } else {
-        operationMap.set(key, {
-          endpoint: step.endpoint,
-          method: step.method,
-          status: isPassing ? 'covered' : isFailing ? 'failing' : 'untested',
-          scenarioCount: 1,
-          scenarios: [{
-            id: scenario.id,
-            name: scenario.name,
-            status: scenario.status,
-          }],
-        })
-      }
-    })
-  })
+function generateCoverageReport(
+  scenarios: Scenario[],
+  openApiSpec: string,
+  totalScenarios = scenarios.length
+) {
+  let spec: ParsedOpenApiSpec | null = null
+  try {
+    spec = parseOpenApiSpec(openApiSpec)
+  } catch {
+    // Unreadable spec: report step-derived coverage only
+  }
 
-  const operations = Array.from(operationMap.values())
-  const covered = operations.filter((e) => e.status === 'covered').length
-  const failing = operations.filter((e) => e.status === 'failing').length
-  const untested = operations.filter((e) => e.status === 'untested').length
-  const total = operations.length
-  const percentage = total > 0 ? Math.round((covered / total) * 100) : 0
+  const { operations, stats, unmatched } = calculateOperationCoverage(scenarios, spec)
 
   return {
     generatedAt: new Date().toISOString(),
-    summary: {
-      total,
-      covered,
-      failing,
-      untested,
-      percentage,
+    source: spec && spec.operations.length > 0 ? 'openapi-spec' : 'scenario-steps',
+    summary: stats,
+    scenarios: {
+      included: scenarios.length,
+      total: totalScenarios,
+      truncated: scenarios.length < totalScenarios,
     },
     operations,
+    unmatched,
   }
 }
 
@@ -454,6 +866,15 @@ function SettingsTab({ pkg, packageId }: { pkg: QaPackage; packageId: string })
   const navigate = useNavigate()
   const updatePackage = useUpdatePackage()
   const deletePackage = useDeletePackage()
+  const bulkTagScenarios = useBulkTagScenarios()
+  const { data: scenarioList } = useAllPackageScenarios(packageId)
+  const canEdit = usePermission('package:edit')
+  const canEditScenarios = usePermission('scenario:edit')
+  const [specReview, setSpecReview] = useState<{
+    diff: SpecDiff
+    impacted: ImpactedScenario[]
+    uncheckedScenarios: number | null
+  } | null>(null)
 
   const [formData, setFormData] = useState<UpdateQaPackageRequest>({
     name: pkg.name,
@@ -470,17 +891,56 @@ function SettingsTab({ pkg, packageId }: { pkg: QaPackage; packageId: string })
     setHasChanges(true)
   }
 
-  const handleSave = () => {
+  const savePackage = (scenarioIdsToMark: string[] = []) => {
     updatePackage.mutate(
       { id: packageId, data: formData },
       {
         onSuccess: () => {
           setHasChanges(false)
+          setSpecReview(null)
+          bulkTagScenarios.reset()
+          if (scenarioIdsToMark.length > 0) {
+            bulkTagScenarios.mutate({
+              scenarioIds: scenarioIdsToMark,
+              add: [REGENERATION_TAG],
+              remove: [],
+            })
+          }
         },
       }
     )
   }
 
+  // A replaced spec is reviewed before saving; specs that cannot be read (URLs) save directly
+  const handleSave = () => {
+    const nextSpec = formData.openApiSpec ?? pkg.openApiSpec
+    if (nextSpec === pkg.openApiSpec) {
+      savePackage()
+      return
+    }
+
+    let diff: SpecDiff
+    try {
+      diff = diffOpenApiSpecs(pkg.openApiSpec, nextSpec)
+    } catch (error) {
+      if (!(error instanceof OpenApiParseError)) throw error
+      savePackage()
+      return
+    }
+
+    if (!hasSpecChanges(diff)) {
+      savePackage()
+      return
+    }
+    setSpecReview({
+      diff,
+      impacted: findImpactedScenarios(diff, pkg.openApiSpec, scenarioList?.content ?? []),
+      uncheckedScenarios: scenarioList
+        ? scenarioList.totalElements - scenarioList.content.length
+        : null,
+    })
+  }
+
   const handleCancel = () => {
     setFormData({
       name: pkg.name,
@@ -503,6 +963,12 @@ function SettingsTab({ pkg, packageId }: { pkg: QaPackage; packageId: string })
 
   return (
     <div className="space-y-8">
+      {!canEdit && (
+        <p className="text-sm text-secondary-400">
+          You have read-only access to this package&apos;s settings.
+        </p>
+      )}
+
       {/* General Information */}
       <section className="card">
         <h3 className="text-lg font-semibold text-white mb-4">General Information</h3>
@@ -516,6 +982,7 @@ function SettingsTab({ pkg, packageId }: { pkg: QaPackage; packageId: string })
               type="text"
               value={formData.name ?? ''}
               onChange={(e) => { handleInputChange('name', e.target.value) }}
+              readOnly={!canEdit}
               className="w-full px-3 py-2 bg-secondary-800 border border-secondary-700 rounded-lg text-white placeholder-secondary-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
               placeholder="Enter package name"
             />
@@ -529,6 +996,7 @@ function SettingsTab({ pkg, packageId }: { pkg: QaPackage; packageId: string })
               id="description"
               value={formData.description ?? ''}
               onChange={(e) => { handleInputChange('description', e.target.value) }}
+              readOnly={!canEdit}
               rows={3}
               className="w-full px-3 py-2 bg-secondary-800 border border-secondary-700 rounded-lg text-white placeholder-secondary-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
               placeholder="Describe what this package tests"
@@ -543,18 +1011,20 @@ function SettingsTab({ pkg, packageId }: { pkg: QaPackage; packageId: string })
         <div className="space-y-4">
           <div>
             <label htmlFor="openApiSpec" className="block text-sm font-medium text-secondary-400 mb-1">
-              OpenAPI Specification URL *
+              OpenAPI Specification *
             </label>
-            <input
+            <textarea
               id="openApiSpec"
-              type="url"
               value={formData.openApiSpec ?? ''}
               onChange={(e) => { handleInputChange('openApiSpec', e.target.value) }}
+              readOnly={!canEdit}
+              rows={10}
               className="w-full px-3 py-2 bg-secondary-800 border border-secondary-700 rounded-lg text-white font-mono text-sm placeholder-secondary-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
               placeholder="https://api.example.com/openapi.yaml"
             />
             <p className="mt-1 text-xs text-secondary-500">
-              URL to your OpenAPI/Swagger specification file
+              The spec as JSON or YAML, or a URL to it. Changes to the operations are shown for
+              review before saving.
             </p>
           </div>
 
@@ -567,6 +1037,7 @@ function SettingsTab({ pkg, packageId }: { pkg: QaPackage; packageId: string })
               type="url"
               value={formData.baseUrl ?? ''}
               onChange={(e) => { handleInputChange('baseUrl', e.target.value) }}
+              readOnly={!canEdit}
               className="w-full px-3 py-2 bg-secondary-800 border border-secondary-700 rounded-lg text-white font-mono text-sm placeholder-secondary-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
               placeholder="https://api.staging.example.com"
             />
@@ -604,6 +1075,45 @@ function SettingsTab({ pkg, packageId }: { pkg: QaPackage; packageId: string })
         </div>
       )}
 
+      {specReview && (
+        <SpecDiffModal
+          isOpen
+          onClose={() => {
+            setSpecReview(null)
+          }}
+          diff={specReview.diff}
+          impacted={specReview.impacted}
+          uncheckedScenarios={specReview.uncheckedScenarios}
+          canMarkScenarios={canEditScenarios}
+          onConfirm={({ markForRegeneration }) => {
+            savePackage(
+              markForRegeneration ? specReview.impacted.map(({ scenario }) => scenario.id) : []
+            )
+          }}
+          isSaving={updatePackage.isPending}
+          error={updatePackage.isError ? 'Failed to save settings. Please try again.' : null}
+        />
+      )}
+
+      {bulkTagScenarios.isSuccess && (
+        <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+          <p className="text-yellow-500 text-sm">
+            Marked {bulkTagScenarios.data.updated} scenarios with the{' '}
+            <code className="font-mono">{REGENERATION_TAG}</code> tag.
+          </p>
+        </div>
+      )}
+
+      {bulkTagScenarios.isError && (
+        <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg" role="alert">
+          <p className="text-red-500 text-sm">
+            Settings were saved, but the impacted scenarios could not be marked with the{' '}
+            <code className="font-mono">{REGENERATION_TAG}</code> tag:{' '}
+            {bulkTagScenarios.error.message}
+          </p>
+        </div>
+      )}
+
       {updatePackage.isError && (
         <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
           <p className="text-red-500 text-sm">
@@ -613,25 +1123,27 @@ function SettingsTab({ pkg, packageId }: { pkg: QaPackage; packageId: string })
       )}
 
       {/* Danger Zone */}
-      <section className="card border-red-500/30">
-        <h3 className="text-lg font-semibold text-red-500 mb-4">Danger Zone</h3>
-        <div className="p-4 bg-red-500/5 border border-red-500/20 rounded-lg">
-          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-            <div>
-              <h4 className="font-medium text-white">Delete Package</h4>
-              <p className="text-sm text-secondary-400 mt-1">
-                Permanently delete this package and all its scenarios and run history.
-              </p>
+      <Can permission="package:delete">
+        <section className="card border-red-500/30">
+          <h3 className="text-lg font-semibold text-red-500 mb-4">Danger Zone</h3>
+          <div className="p-4 bg-red-500/5 border border-red-500/20 rounded-lg">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <div>
+                <h4 className="font-medium text-white">Delete Package</h4>
+                <p className="text-sm text-secondary-400 mt-1">
+                  Permanently delete this package and all its scenarios and run history.
+                </p>
+              </div>
+              <button
+                onClick={() => { setShowDeleteConfirm(true) }}
+                className="btn bg-red-500/10 text-red-500 border border-red-500/30 hover:bg-red-500/20 whitespace-nowrap"
+              >
+                Delete Package
+              </button>
             </div>
-            <button
-              onClick={() => { setShowDeleteConfirm(true) }}
-              className="btn bg-red-500/10 text-red-500 border border-red-500/30 hover:bg-red-500/20 whitespace-nowrap"
-            >
-              Delete Package
-            </button>
           </div>
-        </div>
-      </section>
+        </section>
+      </Can>
 
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
@@ -715,14 +1227,3 @@ function PackageDetailSkeleton() {
     </div>
   )
 }
-
-function formatDate(dateString: string): string {
-  const date = new Date(dateString)
-  return date.toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric',
-    hour: '2-digit',
-    minute: '2-digit',
-  })
-}
@@ -1,6 +1,8 @@
 import { useState } from 'react'
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { SpecSourceInput } from '@/components/packages'
 import { useCreatePackage } from '@/hooks'
+import { OpenApiParseError, parseOpenApiSpec } from '@/lib/openapi'
 
 export const Route = createFileRoute('/_app/packages/new')({
   component: NewPackagePage,
@@ -37,6 +39,14 @@ function NewPackagePage() {
 
     if (!openApiSpec.trim()) {
       newErrors.openApiSpec = 'OpenAPI specification is required'
+    } else {
+      try {
+        parseOpenApiSpec(openApiSpec)
+      } catch (error) {
+        if (error instanceof OpenApiParseError) {
+          newErrors.openApiSpec = `Invalid OpenAPI specification: ${error.message}`
+        }
+      }
     }
 
     setErrors(newErrors)
@@ -147,25 +157,17 @@ function NewPackagePage() {
           <label htmlFor="openApiSpec" className="block text-sm font-medium text-white mb-2">
             OpenAPI Specification *
           </label>
-          <textarea
+          <SpecSourceInput
             id="openApiSpec"
             value={openApiSpec}
-            onChange={(e) => {
-              setOpenApiSpec(e.target.value)
-            }}
-            placeholder='{"openapi": "3.0.0", ...}'
+            onChange={setOpenApiSpec}
+            error={errors.openApiSpec}
+            baseUrl={baseUrl}
+            onBaseUrlChange={setBaseUrl}
             rows={12}
-            className={`w-full px-4 py-2 bg-secondary-800 border rounded-lg text-white placeholder-secondary-500 focus:outline-none transition-colors font-mono text-sm ${
-              errors.openApiSpec
-                ? 'border-red-500 focus:border-red-500'
-                : 'border-secondary-700 focus:border-primary-500'
-            }`}
           />
-          {errors.openApiSpec && (
-            <p className="mt-1 text-sm text-red-500">{errors.openApiSpec}</p>
-          )}
           <p className="mt-2 text-sm text-secondary-500">
-            Paste your OpenAPI 3.0+ specification in JSON or YAML format
+            Paste, upload or fetch an OpenAPI 3.x or Swagger 2.0 spec in JSON or YAML format
           </p>
         </div>
 
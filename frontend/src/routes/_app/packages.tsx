@@ -1,14 +1,22 @@
 import { useState, useMemo } from 'react'
-import { createFileRoute, Link } from '@tanstack/react-router'
+import { createFileRoute, Link, Outlet, useChildMatches } from '@tanstack/react-router'
 import { usePackages } from '@/hooks'
 import { PackageCard, CreatePackageModal } from '@/components/packages'
+import { Can } from '@/components/auth'
 import { PackagesListSkeleton, EmptyState, StatusBadge } from '@/components/ui'
+import { PAGE_SIZE_OPTIONS, useDateFormat, usePreferences } from '@/lib/preferences'
 import type { QaPackage, QaPackageStatus } from '@/api/types'
 
 export const Route = createFileRoute('/_app/packages')({
-  component: PackagesPage,
+  component: PackagesRoute,
 })
 
+// Package detail and creation pages nest under this route and replace the list
+function PackagesRoute() {
+  const hasChildMatch = useChildMatches({ select: (matches) => matches.length > 0 })
+  return hasChildMatch ? <Outlet /> : <PackagesPage />
+}
+
 type SortOption = 'updated' | 'name' | 'created' | 'status'
 type ViewMode = 'grid' | 'list'
 
@@ -29,15 +37,15 @@ const SORT_OPTIONS: { value: SortOption; label: string }[] = [
   { value: 'status', label: 'Status' },
 ]
 
-const PAGE_SIZE_OPTIONS = [6, 12, 24, 48]
-
 function PackagesPage() {
   const [page, setPage] = useState(0)
   const [search, setSearch] = useState('')
   const [statusFilter, setStatusFilter] = useState<QaPackageStatus | 'all'>('all')
   const [sortBy, setSortBy] = useState<SortOption>('updated')
   const [viewMode, setViewMode] = useState<ViewMode>('grid')
-  const [pageSize, setPageSize] = useState(12)
+  const { preferences } = usePreferences()
+  const [chosenPageSize, setPageSize] = useState<number | null>(null)
+  const pageSize = chosenPageSize ?? preferences.pageSize
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false)
 
   const { data, isLoading, isError, error } = usePackages(page, pageSize)
@@ -94,14 +102,16 @@ function PackagesPage() {
           <h1 className="page-title">QA Packages</h1>
           <p className="text-secondary-400">Manage your QA automation packages</p>
         </div>
-        <button
-          onClick={() => {
-            setIsCreateModalOpen(true)
-          }}
-          className="btn btn-primary"
-        >
-          + New Package
-        </button>
+        <Can permission="package:create">
+          <button
+            onClick={() => {
+              setIsCreateModalOpen(true)
+            }}
+            className="btn btn-primary"
+          >
+            + New Package
+          </button>
+        </Can>
       </header>
 
       {/* Filters and Controls */}
@@ -211,14 +221,16 @@ function PackagesPage() {
           action={
             !search &&
             statusFilter === 'all' && (
-              <button
-                onClick={() => {
-                  setIsCreateModalOpen(true)
-                }}
-                className="btn btn-primary"
-              >
-                Create Package
-              </button>
+              <Can permission="package:create">
+                <button
+                  onClick={() => {
+                    setIsCreateModalOpen(true)
+                  }}
+                  className="btn btn-primary"
+                >
+                  Create Package
+                </button>
+              </Can>
             )
           }
           icon={
@@ -315,6 +327,7 @@ interface PackageListItemProps {
 }
 
 function PackageListItem({ pkg }: PackageListItemProps) {
+  const { formatDate } = useDateFormat()
   return (
     <Link
       to="/packages/$packageId"
@@ -338,15 +351,6 @@ function PackageListItem({ pkg }: PackageListItemProps) {
   )
 }
 
-function formatDate(dateString: string): string {
-  const date = new Date(dateString)
-  return date.toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric',
-  })
-}
-
 // Icons
 function GridIcon() {
   return (
@@ -1,45 +1,119 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import { createFileRoute, Link } from '@tanstack/react-router'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { runsApi } from '@/api'
-import { StatusBadge, Skeleton, Collapsible, JsonViewer, CopyButton, ExportDropdown, RetryFailedDialog } from '@/components/ui'
+import { runsApi, type RunStreamStatus } from '@/api'
+import {
+  runKeys,
+  useAllPackageScenarios,
+  useReplayRun,
+  useRunEvents,
+  useScenarioFlakiness,
+} from '@/hooks'
+import {
+  StatusBadge,
+  Skeleton,
+  Collapsible,
+  JsonViewer,
+  ExportDropdown,
+  RetryFailedDialog,
+  ReplayRunDialog,
+  RequestSnippets,
+  ResponseDiffView,
+  FlakyBadge,
+  TagFilter,
+} from '@/components/ui'
+import { Can } from '@/components/auth'
+import { usePermission } from '@/lib/auth'
+import { useDateFormat } from '@/lib/preferences'
+import type { ScenarioFlakiness } from '@/lib/analytics'
+import { collectTags, hasAllTags } from '@/lib/scenario'
 import type { ExportFormat } from '@/components/ui'
-import type { ScenarioResult, StepResult, TestRun } from '@/api/types'
+import type {
+  ReplayRunRequest,
+  ResolvedRequest,
+  RunOptions,
+  ScenarioResult,
+  StepResult,
+  TestRun,
+} from '@/api/types'
+
+interface RunDetailSearchParams {
+  /** Open the comparison with the replayed run once this replay completes */
+  autoCompare?: boolean | undefined
+}
 
 export const Route = createFileRoute('/_app/runs/$runId')({
   component: RunDetailPage,
+  validateSearch: (search: Record<string, unknown>): RunDetailSearchParams => ({
+    autoCompare: search.autoCompare === true ? true : undefined,
+  }),
 })
 
 function RunDetailPage() {
   const { runId } = Route.useParams()
+  const { autoCompare } = Route.useSearch()
+  const navigate = Route.useNavigate()
   const [showRetryFailedDialog, setShowRetryFailedDialog] = useState(false)
+  const [showReplayDialog, setShowReplayDialog] = useState(false)
   const [exportError, setExportError] = useState<string | null>(null)
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const canStartRun = usePermission('run:start')
+  const { formatDateTime } = useDateFormat()
 
-  // Fetch run data with polling for active runs
+  // Fetch run data; active runs stream live updates and only poll while the stream is down.
+  // The observer evaluates refetchInterval on construction, before useRunEvents has run.
+  const streamStatusRef = useRef<RunStreamStatus>('closed')
   const { data: run, isLoading, isError, error } = useQuery({
-    queryKey: ['runs', 'detail', runId],
+    queryKey: runKeys.detail(runId),
     queryFn: ({ signal }) => runsApi.get(runId, signal),
     enabled: Boolean(runId),
     refetchInterval: (query) => {
       const status = query.state.data?.status
-      return status === 'PENDING' || status === 'RUNNING' ? 3000 : false
+      const isActive = status === 'PENDING' || status === 'RUNNING'
+      return isActive && streamStatusRef.current !== 'open' ? 3000 : false
     },
   })
 
+  const { status: streamStatus } = useRunEvents(runId, {
+    enabled: run?.status === 'PENDING' || run?.status === 'RUNNING',
+  })
+  streamStatusRef.current = streamStatus
+
+  const { data: flakiness } = useScenarioFlakiness({
+    packageId: run?.packageId,
+    enabled: Boolean(run),
+  })
+
+  // Results carry no tags; take them from the package's current scenarios
+  const { data: packageScenarios } = useAllPackageScenarios(run?.packageId ?? '')
+  const scenarioTags = useMemo(
+    () => new Map(packageScenarios?.content.map((scenario) => [scenario.id, scenario.tags]) ?? []),
+    [packageScenarios]
+  )
+  const resultTags = useMemo(
+    () =>
+      collectTags(
+        run?.scenarioResults.map((result) => ({
+          tags: scenarioTags.get(result.scenarioId) ?? [],
+        })) ?? []
+      ),
+    [run?.scenarioResults, scenarioTags]
+  )
+
   const queryClient = useQueryClient()
 
   const cancelRun = useMutation({
     mutationFn: (id: string) => runsApi.cancel(id),
     onSuccess: () => {
-      void queryClient.invalidateQueries({ queryKey: ['runs', 'detail', runId] })
+      void queryClient.invalidateQueries({ queryKey: runKeys.detail(runId) })
     },
   })
 
   const retryRun = useMutation({
     mutationFn: (id: string) => runsApi.retry(id),
     onSuccess: (newRun: TestRun) => {
-      void queryClient.invalidateQueries({ queryKey: ['runs'] })
-      void queryClient.setQueryData(['runs', 'detail', newRun.id], newRun)
+      void queryClient.invalidateQueries({ queryKey: runKeys.all })
+      void queryClient.setQueryData(runKeys.detail(newRun.id), newRun)
     },
   })
 
@@ -67,12 +141,37 @@ function RunDetailPage() {
   const retryFailedMutation = useMutation({
     mutationFn: (scenarioIds: string[]) => runsApi.retryFailed(runId, scenarioIds),
     onSuccess: (newRun: TestRun) => {
-      void queryClient.invalidateQueries({ queryKey: ['runs'] })
-      void queryClient.setQueryData(['runs', 'detail', newRun.id], newRun)
+      void queryClient.invalidateQueries({ queryKey: runKeys.all })
+      void queryClient.setQueryData(runKeys.detail(newRun.id), newRun)
       setShowRetryFailedDialog(false)
     },
   })
 
+  const replayRun = useReplayRun()
+
+  const handleReplay = async (request: ReplayRunRequest) => {
+    const newRun = await replayRun.mutateAsync({ id: runId, data: request })
+    setShowReplayDialog(false)
+    void navigate({
+      to: '/runs/$runId',
+      params: { runId: newRun.id },
+      search: { autoCompare: true },
+    })
+  }
+
+  // A replay started from the original run opens the comparison as soon as it completes
+  const replayOf = run?.replayOf
+  const runStatus = run?.status
+  useEffect(() => {
+    if (autoCompare && replayOf && runStatus === 'COMPLETED') {
+      void navigate({
+        to: '/runs/compare',
+        search: { baseline: replayOf, compare: runId },
+        replace: true,
+      })
+    }
+  }, [autoCompare, replayOf, runStatus, runId, navigate])
+
   if (isLoading) {
     return <RunDetailSkeleton />
   }
@@ -90,12 +189,15 @@ function RunDetailPage() {
   }
 
   const isRunning = run.status === 'PENDING' || run.status === 'RUNNING'
-  const canRetry = run.status === 'COMPLETED' || run.status === 'CANCELLED'
+  const canRetry = canStartRun && (run.status === 'COMPLETED' || run.status === 'CANCELLED')
   const duration = run.completedAt && run.startedAt
     ? Math.round((new Date(run.completedAt).getTime() - new Date(run.startedAt).getTime()) / 1000)
     : null
   const failedScenarios = run.scenarioResults.filter((s) => s.status === 'FAILED')
   const hasFailedScenarios = failedScenarios.length > 0
+  const visibleResults = run.scenarioResults.filter((result) =>
+    hasAllTags({ tags: scenarioTags.get(result.scenarioId) ?? [] }, selectedTags)
+  )
 
   return (
     <div className="run-detail-page">
@@ -122,7 +224,47 @@ function RunDetailPage() {
             <div className="flex items-center gap-3">
               <h1 className="text-2xl font-bold text-white">Test Run #{runId.slice(0, 8)}</h1>
               <StatusBadge status={run.status} />
+              {isRunning && (
+                <span
+                  className="flex items-center gap-1.5 text-xs text-secondary-400"
+                  data-testid="run-stream-status"
+                >
+                  <span
+                    className={`w-2 h-2 rounded-full ${
+                      streamStatus === 'open' ? 'bg-green-500 animate-pulse' : 'bg-secondary-500'
+                    }`}
+                  />
+                  {streamStatus === 'open' ? 'Live' : 'Polling'}
+                </span>
+              )}
             </div>
+            {run.replayOf && (
+              <p className="text-sm text-secondary-400 mt-1">
+                Replay of{' '}
+                <Link
+                  to="/runs/$runId"
+                  params={{ runId: run.replayOf }}
+                  className="text-primary-400 hover:text-primary-300"
+                >
+                  Run #{run.replayOf.slice(0, 8)}
+                </Link>
+                {' · '}
+                <Link
+                  to="/runs/compare"
+                  search={{ baseline: run.replayOf, compare: run.id }}
+                  className="text-primary-400 hover:text-primary-300"
+                >
+                  Compare with original
+                </Link>
+              </p>
+            )}
+            {run.environment && (
+              <p className="text-sm text-secondary-400 mt-1">
+                Environment <span className="text-white">{run.environment.name}</span> ·{' '}
+                <span className="font-mono">{run.environment.baseUrl}</span>
+              </p>
+            )}
+            {run.options && <RunOptionsSummary options={run.options} />}
           </div>
 
           <div className="flex gap-2">
@@ -131,24 +273,36 @@ function RunDetailPage() {
               disabled={isRunning}
             />
             {isRunning && (
+              <Can permission="run:cancel">
+                <button
+                  onClick={() => {
+                    cancelRun.mutate(runId)
+                  }}
+                  disabled={cancelRun.isPending}
+                  className="btn btn-danger disabled:opacity-50"
+                >
+                  {cancelRun.isPending ? 'Cancelling...' : 'Cancel Run'}
+                </button>
+              </Can>
+            )}
+            {canRetry && hasFailedScenarios && (
               <button
                 onClick={() => {
-                  cancelRun.mutate(runId)
+                  setShowRetryFailedDialog(true)
                 }}
-                disabled={cancelRun.isPending}
-                className="btn btn-danger disabled:opacity-50"
+                className="btn btn-secondary"
               >
-                {cancelRun.isPending ? 'Cancelling...' : 'Cancel Run'}
+                Retry Failed
               </button>
             )}
-            {canRetry && hasFailedScenarios && (
+            {canRetry && (
               <button
                 onClick={() => {
-                  setShowRetryFailedDialog(true)
+                  setShowReplayDialog(true)
                 }}
                 className="btn btn-secondary"
               >
-                Retry Failed
+                Replay
               </button>
             )}
             {canRetry && (
@@ -166,6 +320,16 @@ function RunDetailPage() {
         </div>
       </header>
 
+      {/* Replay in progress */}
+      {autoCompare && run.replayOf && isRunning && (
+        <div className="mb-4 p-3 bg-primary-500/10 border border-primary-500/30 rounded-lg">
+          <p className="text-primary-300 text-sm">
+            Replaying Run #{run.replayOf.slice(0, 8)}. The comparison opens when this run
+            completes.
+          </p>
+        </div>
+      )}
+
       {/* Export Error */}
       {exportError && (
         <div className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center justify-between">
@@ -212,13 +376,15 @@ function RunDetailPage() {
           <div>
             <span className="text-secondary-500">Started:</span>{' '}
             <span className="text-white">
-              {run.startedAt ? formatDate(run.startedAt) : 'Not started'}
+              {run.startedAt ? formatDateTime(run.startedAt, { seconds: true }) : 'Not started'}
             </span>
           </div>
           <div>
             <span className="text-secondary-500">Completed:</span>{' '}
             <span className="text-white">
-              {run.completedAt ? formatDate(run.completedAt) : 'In progress...'}
+              {run.completedAt
+                ? formatDateTime(run.completedAt, { seconds: true })
+                : 'In progress...'}
             </span>
           </div>
         </div>
@@ -227,14 +393,35 @@ function RunDetailPage() {
       {/* Scenario Results */}
       <section>
         <h2 className="text-lg font-semibold text-white mb-4">Scenario Results</h2>
+        <TagFilter
+          tags={[...resultTags.keys()]}
+          selected={selectedTags}
+          onChange={setSelectedTags}
+          hints={new Map([...resultTags].map(([tag, count]) => [tag, String(count)]))}
+          className="mb-4"
+        />
+        {packageScenarios?.truncated && (
+          <p className="text-sm text-yellow-400 mb-4">
+            Tags are known for the first {packageScenarios.content.length} of{' '}
+            {packageScenarios.totalElements} scenarios in this package.
+          </p>
+        )}
         {run.scenarioResults.length === 0 ? (
           <div className="text-center py-8 text-secondary-400">
             {isRunning ? 'Waiting for results...' : 'No scenario results'}
           </div>
+        ) : visibleResults.length === 0 ? (
+          <div className="text-center py-8 text-secondary-400">
+            No scenario results carry the selected tags
+          </div>
         ) : (
           <div className="space-y-4">
-            {run.scenarioResults.map((result) => (
-              <ScenarioResultCard key={result.scenarioId} result={result} />
+            {visibleResults.map((result) => (
+              <ScenarioResultCard
+                key={result.scenarioId}
+                result={result}
+                flakiness={flakiness?.get(result.scenarioId)}
+              />
             ))}
           </div>
         )}
@@ -252,11 +439,28 @@ function RunDetailPage() {
         failedScenarios={failedScenarios}
         isLoading={retryFailedMutation.isPending}
       />
+
+      <ReplayRunDialog
+        isOpen={showReplayDialog}
+        onClose={() => {
+          setShowReplayDialog(false)
+          replayRun.reset()
+        }}
+        onConfirm={handleReplay}
+        originalBaseUrl={run.environment?.baseUrl}
+        error={replayRun.error?.message ?? null}
+      />
     </div>
   )
 }
 
-function ScenarioResultCard({ result }: { result: ScenarioResult }) {
+function ScenarioResultCard({
+  result,
+  flakiness,
+}: {
+  result: ScenarioResult
+  flakiness: ScenarioFlakiness | undefined
+}) {
   return (
     <div className="card">
       <Collapsible
@@ -265,6 +469,7 @@ function ScenarioResultCard({ result }: { result: ScenarioResult }) {
           <div className="flex items-center gap-3 flex-1">
             <StatusBadge status={result.status} />
             <span className="font-medium text-white">{result.scenarioName}</span>
+            <FlakyBadge flakiness={flakiness} />
             <span className="text-secondary-500 text-sm ml-auto mr-2">
               {result.duration}ms
             </span>
@@ -288,7 +493,14 @@ function ScenarioResultCard({ result }: { result: ScenarioResult }) {
 }
 
 function StepResultCard({ step, index }: { step: StepResult; index: number }) {
-  const curlCommand = generateCurlCommand(step)
+  const recordedResponse = useMemo(
+    () => ({ status: step.actualStatus, headers: step.responseHeaders, body: step.responseBody }),
+    [step.actualStatus, step.responseHeaders, step.responseBody]
+  )
+
+  const replay = useMutation({
+    mutationFn: (request: ResolvedRequest) => runsApi.replayRequest(request),
+  })
 
   return (
     <div className="border border-secondary-700 rounded-lg">
@@ -376,17 +588,45 @@ function StepResultCard({ step, index }: { step: StepResult; index: number }) {
             </div>
           )}
 
-          {/* cURL Command */}
-          {(step.status === 'FAILED' || step.status === 'ERROR') && curlCommand && (
+          {/* Request */}
+          {step.request ? (
             <div>
               <div className="flex items-center justify-between mb-2">
-                <h4 className="text-sm font-medium text-secondary-400">cURL Command</h4>
-                <CopyButton text={curlCommand} />
+                <h4 className="text-sm font-medium text-secondary-400">Request</h4>
+                <Can permission="scenario:run">
+                  <button
+                    onClick={() => {
+                      if (step.request) replay.mutate(step.request)
+                    }}
+                    disabled={replay.isPending}
+                    className="btn btn-secondary text-sm disabled:opacity-50"
+                  >
+                    {replay.isPending ? 'Replaying...' : 'Replay Request'}
+                  </button>
+                </Can>
               </div>
-              <pre className="bg-secondary-900 p-3 rounded-lg overflow-x-auto text-sm font-mono text-secondary-300">
-                {curlCommand}
-              </pre>
+              <p className="mb-2 text-sm font-mono text-white break-all">
+                <span className="text-primary-400 mr-2">{step.request.method}</span>
+                {step.request.url}
+              </p>
+              <RequestSnippets request={step.request} />
+
+              {replay.isError && (
+                <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
+                  <p className="text-red-500 text-sm">Replay failed: {replay.error.message}</p>
+                </div>
+              )}
+              {replay.data && (
+                <div className="mt-3">
+                  <h4 className="text-sm font-medium text-secondary-400 mb-2">Replay Comparison</h4>
+                  <ResponseDiffView recorded={recordedResponse} replayed={replay.data} />
+                </div>
+              )}
             </div>
+          ) : (
+            <p className="text-sm text-secondary-500">
+              The request was not recorded for this step, so it cannot be exported or replayed.
+            </p>
           )}
         </div>
       </Collapsible>
@@ -394,6 +634,31 @@ function StepResultCard({ step, index }: { step: StepResult; index: number }) {
   )
 }
 
+function RunOptionsSummary({ options }: { options: RunOptions }) {
+  const items = [
+    options.scenarioIds &&
+      `${String(options.scenarioIds.length)} selected scenario${options.scenarioIds.length === 1 ? '' : 's'}`,
+    options.maxConcurrency !== null && `Concurrency ${String(options.maxConcurrency)}`,
+    options.stepTimeoutMs !== null && `Step timeout ${String(options.stepTimeoutMs)} ms`,
+    options.failFast && 'Stop on first failure',
+  ].filter((item): item is string => typeof item === 'string')
+
+  if (items.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-2" data-testid="run-options">
+      {items.map((item) => (
+        <span
+          key={item}
+          className="px-2 py-0.5 rounded-full text-xs bg-secondary-700 text-secondary-300"
+        >
+          {item}
+        </span>
+      ))}
+    </div>
+  )
+}
+
 function RunDetailSkeleton() {
   return (
     <div className="run-detail-page">
@@ -420,18 +685,6 @@ function RunDetailSkeleton() {
   )
 }
 
-function formatDate(dateString: string): string {
-  const date = new Date(dateString)
-  return date.toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric',
-    hour: '2-digit',
-    minute: '2-digit',
-    second: '2-digit',
-  })
-}
-
 function tryParseJson(str: string): unknown {
   try {
     return JSON.parse(str)
@@ -439,9 +692,3 @@ function tryParseJson(str: string): unknown {
     return str
   }
 }
-
-function generateCurlCommand(_step: StepResult): string | null {
-  // This would typically use the original request data
-  // For now, return a placeholder
-  return null
-}
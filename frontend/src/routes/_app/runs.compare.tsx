@@ -2,6 +2,7 @@ import { useState, useMemo } from 'react'
 import { createFileRoute, Link } from '@tanstack/react-router'
 import { useQuery } from '@tanstack/react-query'
 import { runsApi, packagesApi } from '@/api'
+import { packageKeys, runKeys } from '@/hooks'
 import { StatusBadge, Skeleton, EmptyState } from '@/components/ui'
 import type { TestRun, ScenarioResult, ScenarioStatus } from '@/api/types'
 
@@ -39,27 +40,27 @@ function RunComparisonPage() {
 
   // Fetch recent runs for selection
   const { data: recentRuns } = useQuery({
-    queryKey: ['runs', 'list', { size: 20 }],
+    queryKey: runKeys.list({ size: 20 }),
     queryFn: ({ signal }) => runsApi.list({ size: 20 }, signal),
   })
 
   // Fetch baseline run
   const { data: baselineRun, isLoading: baselineLoading } = useQuery({
-    queryKey: ['runs', 'detail', selectedBaseline],
+    queryKey: runKeys.detail(selectedBaseline),
     queryFn: ({ signal }) => runsApi.get(selectedBaseline, signal),
     enabled: Boolean(selectedBaseline),
   })
 
   // Fetch comparison run
   const { data: compareRun, isLoading: compareLoading } = useQuery({
-    queryKey: ['runs', 'detail', selectedCompare],
+    queryKey: runKeys.detail(selectedCompare),
     queryFn: ({ signal }) => runsApi.get(selectedCompare, signal),
     enabled: Boolean(selectedCompare),
   })
 
   // Fetch packages for names
   const { data: packagesData } = useQuery({
-    queryKey: ['packages', 'list', { size: 100 }],
+    queryKey: packageKeys.list(0, 100),
     queryFn: ({ signal }) => packagesApi.list(0, 100, signal),
   })
 
@@ -1,13 +1,20 @@
 import { useState, useMemo } from 'react'
-import { createFileRoute, Link } from '@tanstack/react-router'
-import { useRuns, usePackages } from '@/hooks'
+import { createFileRoute, Link, Outlet, useChildMatches } from '@tanstack/react-router'
+import { useRuns, usePackages, usePackageEnvironments } from '@/hooks'
 import { StatusBadge, EmptyState, Skeleton } from '@/components/ui'
+import { PAGE_SIZE_OPTIONS, useDateFormat, usePreferences } from '@/lib/preferences'
 import type { TestRun, TestRunStatus } from '@/api/types'
 
 export const Route = createFileRoute('/_app/runs')({
-  component: RunsListPage,
+  component: RunsRoute,
 })
 
+// Run detail and comparison pages nest under this route and replace the list
+function RunsRoute() {
+  const hasChildMatch = useChildMatches({ select: (matches) => matches.length > 0 })
+  return hasChildMatch ? <Outlet /> : <RunsListPage />
+}
+
 type SortOption = 'started' | 'status' | 'duration'
 
 const STATUS_OPTIONS: { value: TestRunStatus | ''; label: string }[] = [
@@ -24,8 +31,6 @@ const SORT_OPTIONS: { value: SortOption; label: string }[] = [
   { value: 'duration', label: 'Duration' },
 ]
 
-const PAGE_SIZE_OPTIONS = [10, 20, 50]
-
 function RunsListSkeleton() {
   return (
     <div className="space-y-3">
@@ -50,7 +55,9 @@ interface RunCardProps {
 }
 
 function RunCard({ run, packageName }: RunCardProps) {
+  const { formatTimestamp } = useDateFormat()
   const isRunning = run.status === 'PENDING' || run.status === 'RUNNING'
+
   const progressPercent = run.summary.totalScenarios > 0
     ? ((run.summary.passedScenarios + run.summary.failedScenarios) / run.summary.totalScenarios) * 100
     : 0
@@ -82,6 +89,14 @@ function RunCard({ run, packageName }: RunCardProps) {
               />
             </svg>
             <span className="truncate">{packageName ?? 'Unknown Package'}</span>
+            {run.environment && (
+              <span
+                className="px-2 py-0.5 rounded-full text-xs font-medium bg-secondary-700 text-secondary-300"
+                title={run.environment.baseUrl}
+              >
+                {run.environment.name}
+              </span>
+            )}
           </div>
         </div>
 
@@ -130,7 +145,7 @@ function RunCard({ run, packageName }: RunCardProps) {
 
         {/* Timestamp */}
         <div className="text-sm text-secondary-500 shrink-0">
-          {run.startedAt ? formatRelativeTime(run.startedAt) : 'Not started'}
+          {run.startedAt ? formatTimestamp(run.startedAt) : 'Not started'}
         </div>
 
         <div className="text-secondary-400 shrink-0">→</div>
@@ -143,11 +158,16 @@ function RunsListPage() {
   const [page, setPage] = useState(0)
   const [selectedPackage, setSelectedPackage] = useState('')
   const [selectedStatus, setSelectedStatus] = useState<TestRunStatus | ''>('')
+  const [selectedEnvironment, setSelectedEnvironment] = useState('')
   const [sortBy, setSortBy] = useState<SortOption>('started')
-  const [pageSize, setPageSize] = useState(20)
+  const { preferences } = usePreferences()
+  // Follows the preferred page size until a size is picked here
+  const [chosenPageSize, setPageSize] = useState<number | null>(null)
+  const pageSize = chosenPageSize ?? preferences.pageSize
 
   // Fetch packages for filter dropdown
   const { data: packagesData } = usePackages(0, 100)
+  const { data: packageEnvironments } = usePackageEnvironments(selectedPackage)
 
   // Fetch runs
   const { data, isLoading, isError, error, refetch } = useRuns({
@@ -155,6 +175,7 @@ function RunsListPage() {
     size: pageSize,
     packageId: selectedPackage || undefined,
     status: selectedStatus || undefined,
+    environment: selectedEnvironment || undefined,
   })
 
   // Create a map of package IDs to names
@@ -166,6 +187,20 @@ function RunsListPage() {
     return map
   }, [packagesData])
 
+  // Environment names come from the selected package, or from the runs seen so far
+  const environmentOptions = useMemo(() => {
+    const names = new Set<string>()
+    if (selectedPackage) {
+      packageEnvironments?.forEach((env) => names.add(env.name))
+    } else {
+      data?.content.forEach((run) => {
+        if (run.environment) names.add(run.environment.name)
+      })
+    }
+    if (selectedEnvironment) names.add(selectedEnvironment)
+    return [...names].sort((a, b) => a.localeCompare(b))
+  }, [selectedPackage, packageEnvironments, data?.content, selectedEnvironment])
+
   // Sort runs (client-side)
   const sortedRuns = useMemo(() => {
     if (!data?.content) return []
@@ -265,6 +300,23 @@ function RunsListPage() {
             ))}
           </select>
 
+          {/* Environment Filter */}
+          <select
+            value={selectedEnvironment}
+            onChange={(e) => {
+              handleFilterChange(setSelectedEnvironment)(e.target.value)
+            }}
+            className="px-4 py-2 bg-secondary-800 border border-secondary-700 rounded-lg text-white focus:outline-none focus:border-primary-500 transition-colors"
+            aria-label="Environment"
+          >
+            <option value="">All Environments</option>
+            {environmentOptions.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+
           {/* Sort */}
           <select
             value={sortBy}
@@ -285,7 +337,7 @@ function RunsListPage() {
         {!isLoading && data && (
           <div className="mt-3 text-sm text-secondary-400">
             Showing {sortedRuns.length} of {data.totalElements} runs
-            {(selectedPackage || selectedStatus) && ' (filtered)'}
+            {(selectedPackage || selectedStatus || selectedEnvironment) && ' (filtered)'}
           </div>
         )}
       </div>
@@ -306,14 +358,14 @@ function RunsListPage() {
         </div>
       ) : sortedRuns.length === 0 ? (
         <EmptyState
-          title={selectedPackage || selectedStatus ? 'No runs found' : 'No test runs yet'}
+          title={selectedPackage || selectedStatus || selectedEnvironment ? 'No runs found' : 'No test runs yet'}
           description={
-            selectedPackage || selectedStatus
+            selectedPackage || selectedStatus || selectedEnvironment
               ? 'Try adjusting your filters'
               : 'Test runs will appear here after you run tests from a package'
           }
           action={
-            !(selectedPackage || selectedStatus) && (
+            !(selectedPackage || selectedStatus || selectedEnvironment) && (
               <Link to="/packages" className="btn btn-primary">
                 View Packages
               </Link>
@@ -397,18 +449,3 @@ function RunsListPage() {
     </div>
   )
 }
-
-function formatRelativeTime(dateString: string): string {
-  const date = new Date(dateString)
-  const now = new Date()
-  const diffMs = now.getTime() - date.getTime()
-  const diffMins = Math.floor(diffMs / (1000 * 60))
-  const diffHours = Math.floor(diffMs / (1000 * 60 * 60))
-  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24))
-
-  if (diffMins < 1) return 'just now'
-  if (diffMins < 60) return `${String(diffMins)}m ago`
-  if (diffHours < 24) return `${String(diffHours)}h ago`
-  if (diffDays < 7) return `${String(diffDays)}d ago`
-  return date.toLocaleDateString()
-}
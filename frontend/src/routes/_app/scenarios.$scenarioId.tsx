@@ -1,16 +1,61 @@
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { createFileRoute, Link } from '@tanstack/react-router'
-import { useScenario, useRunScenario } from '@/hooks'
+import {
+  useScenario,
+  useRunScenario,
+  useUpdateScenarioSteps,
+  useValidateScenario,
+  useScenarioVersions,
+  useScenarioVersion,
+  useRestoreScenarioVersion,
+  useScenarioTags,
+  useUpdateScenarioTags,
+  usePackageEnvironments,
+  packageKeys,
+  runKeys,
+} from '@/hooks'
 import { useQuery } from '@tanstack/react-query'
 import { packagesApi, runsApi } from '@/api'
-import { StatusBadge, Skeleton, Collapsible, JsonViewer, CopyButton, EmptyState } from '@/components/ui'
-import type { Scenario, TestStep, HttpMethod } from '@/api/types'
+import {
+  StatusBadge,
+  Skeleton,
+  Collapsible,
+  JsonViewer,
+  CopyButton,
+  EmptyState,
+  Modal,
+  ScenarioEditor,
+  ScenarioVersionDiff,
+  TagEditor,
+  TagList,
+  type ValidationError,
+} from '@/components/ui'
+import { Can } from '@/components/auth'
+import { usePermission } from '@/lib/auth'
+import { useDateFormat } from '@/lib/preferences'
+import { parseOpenApiSpec, type ApiOperation } from '@/lib/openapi'
+import type {
+  Scenario,
+  TestStep,
+  HttpMethod,
+  ScenarioVersionSource,
+  ScenarioVersionSummary,
+} from '@/api/types'
 
 export const Route = createFileRoute('/_app/scenarios/$scenarioId')({
   component: ScenarioDetailPage,
 })
 
-type TabId = 'steps' | 'history' | 'json'
+type TabId = 'steps' | 'edit' | 'versions' | 'history' | 'json'
+
+const VERSION_SOURCE_LABELS: Record<ScenarioVersionSource, { label: string; className: string }> = {
+  AI: { label: 'AI', className: 'bg-purple-500/10 text-purple-400 border-purple-500/30' },
+  MANUAL: { label: 'Manual', className: 'bg-blue-500/10 text-blue-400 border-blue-500/30' },
+  IMPORT: {
+    label: 'Import',
+    className: 'bg-secondary-500/10 text-secondary-300 border-secondary-500/30',
+  },
+}
 
 const HTTP_METHOD_COLORS: Record<HttpMethod, string> = {
   GET: 'bg-green-500/10 text-green-400 border-green-500/30',
@@ -23,11 +68,13 @@ const HTTP_METHOD_COLORS: Record<HttpMethod, string> = {
 function ScenarioDetailPage() {
   const { scenarioId } = Route.useParams()
   const [activeTab, setActiveTab] = useState<TabId>('steps')
+  const canEdit = usePermission('scenario:edit')
+  const { formatTimestamp } = useDateFormat()
 
   const { data: scenario, isLoading, isError, error } = useScenario(scenarioId)
 
   const { data: packageData } = useQuery({
-    queryKey: ['packages', 'detail', scenario?.packageId],
+    queryKey: packageKeys.detail(scenario?.packageId ?? ''),
     queryFn: ({ signal }) => packagesApi.get(scenario?.packageId ?? '', signal),
     enabled: Boolean(scenario?.packageId),
   })
@@ -89,21 +136,32 @@ function ScenarioDetailPage() {
                   {packageData?.name ?? 'Unknown Package'}
                 </span>
                 <span>{scenario.steps.length} steps</span>
-                <span>Created {formatRelativeTime(scenario.createdAt)}</span>
+                <span>Created {formatTimestamp(scenario.createdAt)}</span>
               </div>
+              <ScenarioTags scenario={scenario} />
             </div>
 
             <div className="flex gap-2">
-              <button
-                onClick={handleRunScenario}
-                disabled={runScenario.isPending}
-                className="btn btn-primary disabled:opacity-50"
-              >
-                {runScenario.isPending ? 'Running...' : 'Run Test'}
-              </button>
-              <button className="btn btn-ghost" disabled>
-                Edit
-              </button>
+              <Can permission="scenario:run">
+                <button
+                  onClick={handleRunScenario}
+                  disabled={runScenario.isPending}
+                  className="btn btn-primary disabled:opacity-50"
+                >
+                  {runScenario.isPending ? 'Running...' : 'Run Test'}
+                </button>
+              </Can>
+              <Can permission="scenario:edit">
+                <button
+                  onClick={() => {
+                    setActiveTab('edit')
+                  }}
+                  disabled={activeTab === 'edit'}
+                  className="btn btn-ghost disabled:opacity-50"
+                >
+                  Edit
+                </button>
+              </Can>
             </div>
           </div>
         </div>
@@ -113,6 +171,10 @@ function ScenarioDetailPage() {
       <div className="border-b border-secondary-700 mb-6">
         <nav className="flex gap-6">
           <TabButton id="steps" label="Steps" activeTab={activeTab} onClick={setActiveTab} />
+          <Can permission="scenario:edit">
+            <TabButton id="edit" label="Edit" activeTab={activeTab} onClick={setActiveTab} />
+          </Can>
+          <TabButton id="versions" label="History" activeTab={activeTab} onClick={setActiveTab} />
           <TabButton id="history" label="Run History" activeTab={activeTab} onClick={setActiveTab} />
           <TabButton id="json" label="JSON" activeTab={activeTab} onClick={setActiveTab} />
         </nav>
@@ -120,12 +182,49 @@ function ScenarioDetailPage() {
 
       {/* Tab Content */}
       {activeTab === 'steps' && <StepsTab scenario={scenario} />}
+      {activeTab === 'edit' && canEdit && (
+        <EditTab scenario={scenario} openApiSpec={packageData?.openApiSpec ?? null} />
+      )}
+      {activeTab === 'versions' && <VersionHistoryTab scenarioId={scenarioId} />}
       {activeTab === 'history' && <RunHistoryTab scenarioId={scenarioId} />}
       {activeTab === 'json' && <JsonTab scenario={scenario} />}
     </div>
   )
 }
 
+function ScenarioTags({ scenario }: { scenario: Scenario }) {
+  const updateTags = useUpdateScenarioTags(scenario.id)
+  const { data: packageTags } = useScenarioTags(scenario.packageId)
+  const canEdit = usePermission('scenario:edit')
+
+  if (!canEdit) {
+    return scenario.tags.length > 0 ? (
+      <div className="mt-3">
+        <TagList tags={scenario.tags} />
+      </div>
+    ) : null
+  }
+
+  return (
+    <div className="mt-3 max-w-xl">
+      <TagEditor
+        value={scenario.tags}
+        onChange={(tags) => {
+          updateTags.mutate(tags)
+        }}
+        suggestions={packageTags ?? []}
+        label="Add scenario tag"
+        disabled={updateTags.isPending}
+      />
+      {updateTags.error && (
+        <p className="mt-1 text-sm text-red-400">
+          Failed to save tags: {updateTags.error.message}
+        </p>
+      )}
+    </div>
+  )
+}
+
 function TabButton({
   id,
   label,
@@ -290,9 +389,10 @@ function StepCard({ step, index, isLast }: { step: TestStep; index: number; isLa
 }
 
 function RunHistoryTab({ scenarioId }: { scenarioId: string }) {
+  const { formatDateTime } = useDateFormat()
   // Fetch runs that include this scenario
   const { data: runsData, isLoading } = useQuery({
-    queryKey: ['runs', 'list', { size: 20 }],
+    queryKey: runKeys.list({ size: 20 }),
     queryFn: ({ signal }) => runsApi.list({ size: 20 }, signal),
   })
 
@@ -348,7 +448,7 @@ function RunHistoryTab({ scenarioId }: { scenarioId: string }) {
               <div className="flex-1">
                 <span className="font-medium text-white">Run #{run.id.slice(0, 8)}</span>
                 <div className="text-sm text-secondary-400">
-                  {run.startedAt ? formatDate(run.startedAt) : 'Not started'}
+                  {run.startedAt ? formatDateTime(run.startedAt) : 'Not started'}
                 </div>
               </div>
               <div className="text-sm text-secondary-400">
@@ -368,6 +468,232 @@ function RunHistoryTab({ scenarioId }: { scenarioId: string }) {
   )
 }
 
+function VersionHistoryTab({ scenarioId }: { scenarioId: string }) {
+  const { data: versions, isLoading, isError } = useScenarioVersions(scenarioId)
+  const restoreVersion = useRestoreScenarioVersion(scenarioId)
+  const [fromId, setFromId] = useState<string | null>(null)
+  const [toId, setToId] = useState<string | null>(null)
+  const [restoreTarget, setRestoreTarget] = useState<ScenarioVersionSummary | null>(null)
+  const { formatDateTime } = useDateFormat()
+
+  // Default to comparing the latest version with the one before it
+  const latest = versions?.[0]
+  const selectedToId = toId ?? latest?.id ?? null
+  const selectedFromId = fromId ?? versions?.[1]?.id ?? null
+
+  const { data: fromVersion, isLoading: isFromLoading } = useScenarioVersion(
+    scenarioId,
+    selectedFromId
+  )
+  const { data: toVersion, isLoading: isToLoading } = useScenarioVersion(scenarioId, selectedToId)
+
+  const handleRestore = () => {
+    if (!restoreTarget) return
+    restoreVersion.mutate(restoreTarget.id, {
+      onSuccess: () => {
+        setRestoreTarget(null)
+        setFromId(null)
+        setToId(null)
+      },
+    })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-16" />
+        <Skeleton className="h-16" />
+        <Skeleton className="h-64" />
+      </div>
+    )
+  }
+
+  if (isError) {
+    return <div className="card text-sm text-red-400">Failed to load the version history.</div>
+  }
+
+  if (!versions || versions.length === 0) {
+    return (
+      <EmptyState
+        title="No versions yet"
+        description="A version is recorded each time this scenario is generated, edited or restored"
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="card p-0 divide-y divide-secondary-700" data-testid="version-list">
+        {versions.map((version) => {
+          const source = VERSION_SOURCE_LABELS[version.source]
+          const isLatest = version.id === latest?.id
+
+          return (
+            <div key={version.id} className="flex flex-wrap items-center gap-3 px-4 py-3">
+              <span className="font-medium text-white">v{version.version}</span>
+              <span className={`px-2 py-0.5 rounded text-xs border ${source.className}`}>
+                {source.label}
+              </span>
+              {isLatest && <span className="text-xs text-green-400">Current</span>}
+              <div className="flex-1 min-w-0 text-sm text-secondary-400">
+                {version.author ?? 'Unknown author'} · {formatDateTime(version.createdAt)}
+                {version.restoredFrom !== null && (
+                  <span className="text-secondary-500">
+                    {' '}
+                    · restored from v{version.restoredFrom}
+                  </span>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => {
+                  setFromId(version.id)
+                }}
+                className={`btn btn-ghost text-xs ${version.id === selectedFromId ? 'text-primary-400' : ''}`}
+                aria-pressed={version.id === selectedFromId}
+              >
+                Compare from
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setToId(version.id)
+                }}
+                className={`btn btn-ghost text-xs ${version.id === selectedToId ? 'text-primary-400' : ''}`}
+                aria-pressed={version.id === selectedToId}
+              >
+                Compare to
+              </button>
+              <Can permission="scenario:edit">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setRestoreTarget(version)
+                  }}
+                  disabled={isLatest || restoreVersion.isPending}
+                  className="btn btn-secondary text-xs disabled:opacity-50"
+                >
+                  Restore
+                </button>
+              </Can>
+            </div>
+          )
+        })}
+      </div>
+
+      {versions.length < 2 ? (
+        <p className="text-sm text-secondary-500">
+          Only one version exists, so there is nothing to compare yet.
+        </p>
+      ) : isFromLoading || isToLoading ? (
+        <Skeleton className="h-64" />
+      ) : fromVersion && toVersion ? (
+        <ScenarioVersionDiff original={fromVersion} modified={toVersion} />
+      ) : (
+        <p className="text-sm text-red-400">Failed to load the selected versions.</p>
+      )}
+
+      <Modal
+        isOpen={restoreTarget !== null}
+        onClose={() => {
+          setRestoreTarget(null)
+        }}
+        title="Restore version"
+        size="sm"
+      >
+        <p className="text-secondary-300 text-sm">
+          Replace the current steps with version {restoreTarget?.version}? The current version stays
+          in the history, so this can be undone.
+        </p>
+        {restoreVersion.isError && (
+          <p className="mt-3 text-sm text-red-400">{restoreVersion.error.message}</p>
+        )}
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            type="button"
+            onClick={() => {
+              setRestoreTarget(null)
+            }}
+            className="btn btn-ghost"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleRestore}
+            disabled={restoreVersion.isPending}
+            className="btn btn-primary disabled:opacity-50"
+          >
+            {restoreVersion.isPending ? 'Restoring...' : 'Restore'}
+          </button>
+        </div>
+      </Modal>
+    </div>
+  )
+}
+
+function EditTab({ scenario, openApiSpec }: { scenario: Scenario; openApiSpec: string | null }) {
+  const updateSteps = useUpdateScenarioSteps(scenario.id)
+  const validateScenario = useValidateScenario()
+  const { data: environments } = usePackageEnvironments(scenario.packageId)
+
+  // Values and secrets of any environment can fill a placeholder at run time
+  const knownVariables = useMemo(() => {
+    const names = new Set<string>()
+    for (const environment of environments ?? []) {
+      Object.keys(environment.variables).forEach((name) => names.add(name))
+      Object.keys(environment.secrets).forEach((name) => names.add(name))
+    }
+    return [...names]
+  }, [environments])
+
+  // The builder still works without a usable spec; it just offers no operation presets
+  const operations = useMemo<ApiOperation[]>(() => {
+    if (!openApiSpec) return []
+    try {
+      return parseOpenApiSpec(openApiSpec).operations
+    } catch {
+      return []
+    }
+  }, [openApiSpec])
+
+  const handleSave = async (steps: TestStep[]) => {
+    await updateSteps.mutateAsync(steps)
+  }
+
+  const handleValidate = async (json: string): Promise<ValidationError[]> => {
+    const result = await validateScenario.mutateAsync(json)
+    return [
+      ...result.errors.map(({ line, column, message }) => ({
+        line,
+        column,
+        message,
+        severity: 'error' as const,
+      })),
+      ...result.warnings.map(({ line, column, message }) => ({
+        line,
+        column,
+        message,
+        severity: 'warning' as const,
+      })),
+    ]
+  }
+
+  return (
+    <div className="card p-0 overflow-hidden h-[70vh]">
+      <ScenarioEditor
+        initialValue={scenario.steps}
+        onSave={handleSave}
+        onValidate={handleValidate}
+        knownVariables={knownVariables}
+        operations={operations}
+        defaultMode="form"
+        isLoading={updateSteps.isPending}
+      />
+    </div>
+  )
+}
+
 function JsonTab({ scenario }: { scenario: Scenario }) {
   const jsonString = JSON.stringify(scenario, null, 2)
 
@@ -410,32 +736,6 @@ function ScenarioDetailSkeleton() {
   )
 }
 
-function formatRelativeTime(dateString: string): string {
-  const date = new Date(dateString)
-  const now = new Date()
-  const diffMs = now.getTime() - date.getTime()
-  const diffMins = Math.floor(diffMs / (1000 * 60))
-  const diffHours = Math.floor(diffMs / (1000 * 60 * 60))
-  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24))
-
-  if (diffMins < 1) return 'just now'
-  if (diffMins < 60) return `${String(diffMins)}m ago`
-  if (diffHours < 24) return `${String(diffHours)}h ago`
-  if (diffDays < 7) return `${String(diffDays)}d ago`
-  return date.toLocaleDateString()
-}
-
-function formatDate(dateString: string): string {
-  const date = new Date(dateString)
-  return date.toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric',
-    hour: '2-digit',
-    minute: '2-digit',
-  })
-}
-
 function tryParseJson(str: string): unknown {
   try {
     return JSON.parse(str)
@@ -1,13 +1,37 @@
 import { useState, useMemo } from 'react'
-import { createFileRoute, Link } from '@tanstack/react-router'
-import { useScenarios, usePackages } from '@/hooks'
-import { StatusBadge, EmptyState, Skeleton } from '@/components/ui'
+import { createFileRoute, Link, Outlet, useChildMatches } from '@tanstack/react-router'
+import {
+  useScenarios,
+  usePackages,
+  useScenarioFlakiness,
+  useScenarioTags,
+  useBulkTagScenarios,
+} from '@/hooks'
+import {
+  StatusBadge,
+  EmptyState,
+  Skeleton,
+  PlaywrightExportButton,
+  FlakyBadge,
+  TagFilter,
+  TagList,
+  BulkTagDialog,
+} from '@/components/ui'
+import type { ScenarioFlakiness } from '@/lib/analytics'
+import { filterByTags } from '@/lib/scenario'
+import { PAGE_SIZE_OPTIONS, usePreferences } from '@/lib/preferences'
 import type { Scenario, ScenarioStatus, HttpMethod } from '@/api/types'
 
 export const Route = createFileRoute('/_app/scenarios')({
-  component: ScenariosPage,
+  component: ScenariosRoute,
 })
 
+// The scenario detail page nests under this route and replaces the list
+function ScenariosRoute() {
+  const hasChildMatch = useChildMatches({ select: (matches) => matches.length > 0 })
+  return hasChildMatch ? <Outlet /> : <ScenariosPage />
+}
+
 type SortOption = 'name' | 'status' | 'steps' | 'updated'
 type ViewMode = 'flat' | 'grouped'
 
@@ -36,8 +60,6 @@ const SORT_OPTIONS: { value: SortOption; label: string }[] = [
   { value: 'updated', label: 'Recently Updated' },
 ]
 
-const PAGE_SIZE_OPTIONS = [10, 20, 50]
-
 function ScenariosListSkeleton() {
   return (
     <div className="space-y-3">
@@ -59,9 +81,18 @@ function ScenariosListSkeleton() {
 interface ScenarioRowProps {
   scenario: Scenario
   packageName: string | undefined
+  flakiness: ScenarioFlakiness | undefined
+  isSelected: boolean
+  onToggleSelect: (scenario: Scenario) => void
 }
 
-function ScenarioRow({ scenario, packageName }: ScenarioRowProps) {
+function ScenarioRow({
+  scenario,
+  packageName,
+  flakiness,
+  isSelected,
+  onToggleSelect,
+}: ScenarioRowProps) {
   // Get primary method and endpoint from first step
   const primaryStep = scenario.steps[0]
   const primaryMethod = primaryStep?.method ?? 'GET'
@@ -70,11 +101,22 @@ function ScenarioRow({ scenario, packageName }: ScenarioRowProps) {
   return (
     <div className="card hover:border-primary-500 transition-colors">
       <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={() => {
+            onToggleSelect(scenario)
+          }}
+          className="w-4 h-4 rounded border-secondary-600 bg-secondary-700 text-primary-500 focus:ring-primary-500"
+          aria-label={`Select ${scenario.name}`}
+        />
+
         {/* Main info */}
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-3">
             <h3 className="text-lg font-semibold text-white truncate">{scenario.name}</h3>
             <StatusBadge status={scenario.status} />
+            <FlakyBadge flakiness={flakiness} />
           </div>
           <div className="flex items-center gap-2 mt-1">
             <MethodBadge method={primaryMethod} />
@@ -83,6 +125,7 @@ function ScenarioRow({ scenario, packageName }: ScenarioRowProps) {
           {scenario.description && (
             <p className="text-secondary-500 text-sm line-clamp-1 mt-1">{scenario.description}</p>
           )}
+          <TagList tags={scenario.tags} className="mt-2" />
         </div>
 
         {/* Meta info */}
@@ -150,9 +193,10 @@ function MethodBadge({ method }: { method: HttpMethod }) {
 interface GroupedViewProps {
   scenarios: Scenario[]
   packageNameMap: Map<string, string>
+  flakiness: Map<string, ScenarioFlakiness> | undefined
 }
 
-function GroupedView({ scenarios, packageNameMap }: GroupedViewProps) {
+function GroupedView({ scenarios, packageNameMap, flakiness }: GroupedViewProps) {
   // Group scenarios by package
   const groupedScenarios = useMemo(() => {
     const groups = new Map<string, Scenario[]>()
@@ -187,7 +231,11 @@ function GroupedView({ scenarios, packageNameMap }: GroupedViewProps) {
           </div>
           <div className="divide-y divide-secondary-700">
             {pkgScenarios.map((scenario) => (
-              <GroupedScenarioRow key={scenario.id} scenario={scenario} />
+              <GroupedScenarioRow
+                key={scenario.id}
+                scenario={scenario}
+                flakiness={flakiness?.get(scenario.id)}
+              />
             ))}
           </div>
         </div>
@@ -196,7 +244,13 @@ function GroupedView({ scenarios, packageNameMap }: GroupedViewProps) {
   )
 }
 
-function GroupedScenarioRow({ scenario }: { scenario: Scenario }) {
+function GroupedScenarioRow({
+  scenario,
+  flakiness,
+}: {
+  scenario: Scenario
+  flakiness: ScenarioFlakiness | undefined
+}) {
   const primaryStep = scenario.steps[0]
   const primaryMethod = primaryStep?.method ?? 'GET'
   const primaryEndpoint = primaryStep?.endpoint ?? ''
@@ -212,8 +266,10 @@ function GroupedScenarioRow({ scenario }: { scenario: Scenario }) {
         <div className="flex items-center gap-2 mt-0.5">
           <MethodBadge method={primaryMethod} />
           <span className="text-secondary-500 text-sm truncate">{primaryEndpoint}</span>
+          <TagList tags={scenario.tags} />
         </div>
       </div>
+      <FlakyBadge flakiness={flakiness} />
       <StatusBadge status={scenario.status} />
     </div>
   )
@@ -239,9 +295,17 @@ function ScenariosPage() {
   const [selectedPackage, setSelectedPackage] = useState('')
   const [selectedStatus, setSelectedStatus] = useState<ScenarioStatus | ''>('')
   const [selectedMethod, setSelectedMethod] = useState<HttpMethod | ''>('')
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
   const [sortBy, setSortBy] = useState<SortOption>('name')
   const [viewMode, setViewMode] = useState<ViewMode>('flat')
-  const [pageSize, setPageSize] = useState(20)
+  const { preferences } = usePreferences()
+  const [chosenPageSize, setPageSize] = useState<number | null>(null)
+  const pageSize = chosenPageSize ?? preferences.pageSize
+  // Keyed by ID so the selection survives paging and filtering
+  const [selectedScenarios, setSelectedScenarios] = useState<Map<string, Scenario>>(
+    () => new Map()
+  )
+  const [showBulkTagDialog, setShowBulkTagDialog] = useState(false)
 
   // Fetch packages for the filter dropdown
   const { data: packagesData } = usePackages(0, 100)
@@ -253,8 +317,20 @@ function ScenariosPage() {
     packageId: selectedPackage || undefined,
     status: selectedStatus || undefined,
     search: search || undefined,
+    tags: selectedTags.length > 0 ? selectedTags : undefined,
   })
 
+  const { data: tagOptions } = useScenarioTags(selectedPackage || undefined)
+  const bulkTag = useBulkTagScenarios()
+
+  // Keep selected tags visible even when they fall outside the current package
+  const tagChoices = useMemo(
+    () => [...new Set([...(tagOptions ?? []), ...selectedTags])].sort((a, b) => a.localeCompare(b)),
+    [tagOptions, selectedTags]
+  )
+
+  const { data: flakiness } = useScenarioFlakiness({ packageId: selectedPackage || undefined })
+
   // Create a map of package IDs to names for display
   const packageNameMap = useMemo(() => {
     const map = new Map<string, string>()
@@ -268,7 +344,8 @@ function ScenariosPage() {
   const filteredAndSortedScenarios = useMemo(() => {
     if (!data?.content) return []
 
-    let result = [...data.content]
+    // Tags are filtered server-side too; this keeps the page consistent while it refetches
+    let result = filterByTags(data.content, selectedTags)
 
     // Filter by method (check first step)
     if (selectedMethod) {
@@ -295,7 +372,7 @@ function ScenariosPage() {
     })
 
     return result
-  }, [data?.content, selectedMethod, sortBy])
+  }, [data?.content, selectedMethod, selectedTags, sortBy])
 
   // Reset to first page when filters change
   const handleFilterChange = <T,>(setter: React.Dispatch<React.SetStateAction<T>>) => {
@@ -310,11 +387,78 @@ function ScenariosPage() {
     setPage(0)
   }
 
+  const handleToggleSelect = (scenario: Scenario) => {
+    setSelectedScenarios((prev) => {
+      const next = new Map(prev)
+      if (next.has(scenario.id)) {
+        next.delete(scenario.id)
+      } else {
+        next.set(scenario.id, scenario)
+      }
+      return next
+    })
+  }
+
+  const hasActiveFilters =
+    Boolean(search || selectedPackage || selectedStatus || selectedMethod) || selectedTags.length > 0
+
+  const handleBulkTag = async (changes: { add: string[]; remove: string[] }) => {
+    await bulkTag.mutateAsync({ scenarioIds: Array.from(selectedScenarios.keys()), ...changes })
+    setShowBulkTagDialog(false)
+  }
+
+  // Export the selection, or everything currently shown when nothing is selected
+  const exportScenarios =
+    selectedScenarios.size > 0 ? Array.from(selectedScenarios.values()) : filteredAndSortedScenarios
+  const exportPackageIds = new Set(exportScenarios.map((scenario) => scenario.packageId))
+  const exportPackage =
+    exportPackageIds.size === 1
+      ? packagesData?.content.find((pkg) => exportPackageIds.has(pkg.id))
+      : undefined
+
   return (
     <div className="scenarios-page">
-      <header className="mb-8">
-        <h1 className="page-title">Test Scenarios</h1>
-        <p className="text-secondary-400">View and manage test scenarios across all packages</p>
+      <header className="mb-8 flex flex-col sm:flex-row justify-between items-start gap-4">
+        <div>
+          <h1 className="page-title">Test Scenarios</h1>
+          <p className="text-secondary-400">View and manage test scenarios across all packages</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Link to="/flaky-scenarios" className="btn btn-ghost text-sm">
+            Flaky scenarios
+          </Link>
+          {selectedScenarios.size > 0 && (
+            <>
+              <button
+                onClick={() => {
+                  setSelectedScenarios(new Map())
+                }}
+                className="text-sm text-secondary-400 hover:text-white transition-colors"
+              >
+                Clear selection
+              </button>
+              <button
+                onClick={() => {
+                  bulkTag.reset()
+                  setShowBulkTagDialog(true)
+                }}
+                className="btn btn-secondary text-sm"
+              >
+                Tag {selectedScenarios.size}
+              </button>
+            </>
+          )}
+          <PlaywrightExportButton
+            scenarios={exportScenarios}
+            projectName={exportPackage?.name ?? 'QAWave Scenarios'}
+            baseUrl={exportPackage?.baseUrl}
+            label={
+              selectedScenarios.size > 0
+                ? `Export ${String(selectedScenarios.size)} to Playwright`
+                : 'Export to Playwright'
+            }
+          />
+        </div>
       </header>
 
       {/* Filters */}
@@ -416,11 +560,18 @@ function ScenariosPage() {
           </div>
         </div>
 
+        <TagFilter
+          tags={tagChoices}
+          selected={selectedTags}
+          onChange={handleFilterChange(setSelectedTags)}
+          className="mt-3"
+        />
+
         {/* Results count */}
         {!isLoading && data && (
           <div className="mt-3 text-sm text-secondary-400">
             Showing {filteredAndSortedScenarios.length} of {data.totalElements} scenarios
-            {(search || selectedPackage || selectedStatus || selectedMethod) && ' (filtered)'}
+            {hasActiveFilters && ' (filtered)'}
           </div>
         )}
       </div>
@@ -443,14 +594,14 @@ function ScenariosPage() {
         </div>
       ) : filteredAndSortedScenarios.length === 0 ? (
         <EmptyState
-          title={search || selectedPackage || selectedStatus || selectedMethod ? 'No scenarios found' : 'No scenarios yet'}
+          title={hasActiveFilters ? 'No scenarios found' : 'No scenarios yet'}
           description={
-            search || selectedPackage || selectedStatus || selectedMethod
+            hasActiveFilters
               ? 'Try adjusting your filters'
               : 'Scenarios will appear here after generating them from a QA package'
           }
           action={
-            !(search || selectedPackage || selectedStatus || selectedMethod) && (
+            !hasActiveFilters && (
               <Link to="/packages" className="btn btn-primary">
                 View Packages
               </Link>
@@ -474,13 +625,31 @@ function ScenariosPage() {
               key={scenario.id}
               scenario={scenario}
               packageName={packageNameMap.get(scenario.packageId)}
+              flakiness={flakiness?.get(scenario.id)}
+              isSelected={selectedScenarios.has(scenario.id)}
+              onToggleSelect={handleToggleSelect}
             />
           ))}
         </div>
       ) : (
-        <GroupedView scenarios={filteredAndSortedScenarios} packageNameMap={packageNameMap} />
+        <GroupedView
+          scenarios={filteredAndSortedScenarios}
+          packageNameMap={packageNameMap}
+          flakiness={flakiness}
+        />
       )}
 
+      <BulkTagDialog
+        isOpen={showBulkTagDialog}
+        onClose={() => {
+          setShowBulkTagDialog(false)
+        }}
+        onConfirm={handleBulkTag}
+        scenarioCount={selectedScenarios.size}
+        suggestions={tagOptions ?? []}
+        error={bulkTag.error?.message ?? null}
+      />
+
       {/* Pagination */}
       {data && data.totalPages > 1 && (
         <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mt-8 pt-4 border-t border-secondary-700">
@@ -0,0 +1,96 @@
+import { useMemo, useState } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
+import { usePackages, useSchedules } from '@/hooks'
+import { EmptyState, Skeleton } from '@/components/ui'
+import { ScheduleFormModal, ScheduleList } from '@/components/schedules'
+import { Can } from '@/components/auth'
+
+export const Route = createFileRoute('/_app/schedules')({
+  component: SchedulesPage,
+})
+
+function SchedulesPage() {
+  const [packageId, setPackageId] = useState('')
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+
+  const { data: packages } = usePackages(0, 100)
+  const {
+    data: schedules,
+    isLoading,
+    isError,
+    error,
+  } = useSchedules({ packageId: packageId || undefined })
+
+  const packageNames = useMemo(
+    () => new Map(packages?.content.map((pkg) => [pkg.id, pkg.name])),
+    [packages]
+  )
+
+  return (
+    <div className="schedules-page">
+      <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+        <div>
+          <h1 className="page-title">Schedules</h1>
+          <p className="text-secondary-400">
+            Package runs that start automatically on a cron schedule
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={packageId}
+            onChange={(e) => {
+              setPackageId(e.target.value)
+            }}
+            className="input"
+            aria-label="Package"
+          >
+            <option value="">All packages</option>
+            {packages?.content.map((pkg) => (
+              <option key={pkg.id} value={pkg.id}>
+                {pkg.name}
+              </option>
+            ))}
+          </select>
+          <Can permission="schedule:manage">
+            <button
+              onClick={() => {
+                setIsCreateOpen(true)
+              }}
+              className="btn btn-primary"
+            >
+              New Schedule
+            </button>
+          </Can>
+        </div>
+      </header>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-20" />
+          ))}
+        </div>
+      ) : isError ? (
+        <div className="error-state">
+          <h2>Error loading schedules</h2>
+          <p>{error.message}</p>
+        </div>
+      ) : !schedules || schedules.length === 0 ? (
+        <EmptyState
+          title="No schedules"
+          description="Create a schedule to run a package automatically, e.g. every night"
+        />
+      ) : (
+        <ScheduleList schedules={schedules} packageNames={packageNames} />
+      )}
+
+      <ScheduleFormModal
+        isOpen={isCreateOpen}
+        onClose={() => {
+          setIsCreateOpen(false)
+        }}
+        packageId={packageId || undefined}
+      />
+    </div>
+  )
+}
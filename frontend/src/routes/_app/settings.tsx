@@ -1,4 +1,5 @@
-import { createFileRoute } from '@tanstack/react-router'
+import { createFileRoute, type ErrorComponentProps } from '@tanstack/react-router'
+import { ApiTokensSection, PreferencesSection } from '@/components/settings'
 
 export const Route = createFileRoute('/_app/settings')({
   component: SettingsPage,
@@ -9,8 +10,15 @@ export const Route = createFileRoute('/_app/settings')({
 function SettingsPage() {
   return (
     <div className="settings-page">
-      <h1>Settings</h1>
-      <p>Configure your QAWave settings here.</p>
+      <header className="mb-8">
+        <h1 className="page-title">Settings</h1>
+        <p className="text-secondary-400">Configure your QAWave settings here.</p>
+      </header>
+
+      <div className="space-y-8">
+        <PreferencesSection />
+        <ApiTokensSection />
+      </div>
     </div>
   )
 }
@@ -23,11 +31,11 @@ function SettingsLoading() {
   )
 }
 
-function SettingsError({ error }: { error: Error }) {
+function SettingsError({ error }: ErrorComponentProps) {
   return (
     <div className="settings-error">
       <h2>Error loading settings</h2>
-      <p>{error.message}</p>
+      <p>{error instanceof Error ? error.message : 'Unknown error'}</p>
     </div>
   )
 }
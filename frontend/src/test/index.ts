@@ -1,2 +1,3 @@
 export * from './test-utils'
 export * from './mocks'
+export * from './mockEventSource'
@@ -0,0 +1,62 @@
+import type { EventSourceLike } from '@/api'
+
+type Listener = (event: MessageEvent<string>) => void
+
+/**
+ * In-memory stand-in for EventSource. Every instance is recorded so tests can
+ * drive the most recent connection.
+ */
+export class MockEventSource implements EventSourceLike {
+  static instances: MockEventSource[] = []
+
+  static latest(): MockEventSource {
+    const instance = MockEventSource.instances.at(-1)
+    if (!instance) throw new Error('No MockEventSource has been created')
+    return instance
+  }
+
+  static reset() {
+    MockEventSource.instances = []
+  }
+
+  static create = (url: string): MockEventSource => new MockEventSource(url)
+
+  readonly url: string
+  closed = false
+  private listeners = new Map<string, Listener[]>()
+
+  constructor(url: string) {
+    this.url = url
+    MockEventSource.instances.push(this)
+  }
+
+  addEventListener(type: string, listener: Listener) {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener])
+  }
+
+  close() {
+    this.closed = true
+  }
+
+  open() {
+    this.dispatch('open', new MessageEvent('open'))
+  }
+
+  emit(type: string, data: unknown, id?: string) {
+    this.dispatch(
+      type,
+      new MessageEvent(type, { data: JSON.stringify(data), lastEventId: id ?? '' })
+    )
+  }
+
+  fail() {
+    this.dispatch('error', new MessageEvent('error'))
+  }
+
+  private dispatch(type: string, event: MessageEvent<string>) {
+    if (this.closed) return
+    this.listeners.get(type)?.forEach((listener) => {
+      listener(event)
+    })
+  }
+}
@@ -1,10 +1,13 @@
 import type {
+  PackageEnvironment,
   QaPackage,
   Scenario,
   TestRun,
   PaginatedResponse,
   ScenarioResult,
   TestRunSummary,
+  WebhookConfig,
+  WebhookDelivery,
 } from '@/api/types'
 
 // Mock QA Packages
@@ -74,6 +77,7 @@ export const mockScenario: Scenario = {
     },
   ],
   status: 'PASSED',
+  tags: ['smoke', 'users'],
   createdAt: '2026-01-15T10:00:00Z',
   updatedAt: '2026-01-15T10:00:00Z',
 }
@@ -87,6 +91,7 @@ export const mockScenarios: Scenario[] = [
     description: 'Test listing users',
     steps: [],
     status: 'PENDING',
+    tags: ['users'],
     createdAt: '2026-01-15T10:00:00Z',
     updatedAt: '2026-01-15T10:00:00Z',
   },
@@ -115,10 +120,17 @@ export const mockScenarioResult: ScenarioResult = {
   scenarioId: 'scenario-1',
   scenarioName: 'Create User Flow',
   status: 'PASSED',
+  scenarioVersion: 1,
   stepResults: [
     {
       stepId: 'step-1',
       status: 'PASSED',
+      request: {
+        method: 'POST',
+        url: 'https://api.example.com/users',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{"name": "Test User"}',
+      },
       actualStatus: 201,
       responseBody: '{"id": "user-1", "name": "Test User"}',
       responseHeaders: { 'content-type': 'application/json' },
@@ -138,12 +150,16 @@ export const mockTestRun: TestRun = {
   status: 'COMPLETED',
   startedAt: '2026-01-15T11:00:00Z',
   completedAt: '2026-01-15T11:00:15Z',
+  environment: null,
+  replayOf: null,
+  options: null,
   scenarioResults: [
     mockScenarioResult,
     {
       scenarioId: 'scenario-2',
       scenarioName: 'Get Users List',
       status: 'FAILED',
+      scenarioVersion: 1,
       stepResults: [],
       duration: 100,
       error: 'Connection timeout',
@@ -163,3 +179,50 @@ export const mockTestRunsPage: PaginatedResponse<TestRun> = {
   first: true,
   last: true,
 }
+
+// Mock Environments
+export const mockEnvironment: PackageEnvironment = {
+  id: 'env-1',
+  packageId: 'pkg-1',
+  name: 'staging',
+  baseUrl: 'https://staging.api.example.com',
+  variables: { tenant: 'qa' },
+  secrets: { apiKey: 'vault:qa/staging#api-key' },
+  isDefault: true,
+  createdAt: '2026-01-10T09:00:00Z',
+  updatedAt: '2026-01-10T09:00:00Z',
+}
+
+// Mock Webhooks
+export const mockWebhook: WebhookConfig = {
+  id: 'webhook-1',
+  packageId: 'pkg-1',
+  name: 'Capture',
+  url: 'http://webhook-capture:8080/qawave',
+  webhookType: 'GENERIC',
+  events: ['RUN_FAILED', 'PASS_RATE_BELOW_THRESHOLD'],
+  passRateThreshold: 90,
+  isActive: true,
+  createdBy: 'user-1',
+  createdAt: '2026-01-12T08:00:00Z',
+  updatedAt: '2026-01-12T08:00:00Z',
+}
+
+export const mockWebhookDelivery: WebhookDelivery = {
+  id: 'delivery-1',
+  eventType: 'RUN_FAILED',
+  status: 'FAILED',
+  attemptCount: 3,
+  lastAttemptAt: '2026-01-15T11:04:16Z',
+  responseStatus: 500,
+  errorMessage: 'Internal Server Error',
+  createdAt: '2026-01-15T11:00:16Z',
+  completedAt: '2026-01-15T11:04:16Z',
+}
+
+// Realm roles of the Admin, QA Engineer and Viewer personas
+export const mockPersonas = [
+  { persona: 'Admin', roles: ['admin', 'tester', 'viewer'], canWrite: true, isAdmin: true },
+  { persona: 'QA Engineer', roles: ['tester', 'viewer'], canWrite: true, isAdmin: false },
+  { persona: 'Viewer', roles: ['viewer'], canWrite: false, isAdmin: false },
+]
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { ReactNode } from 'react'
+import { screen } from '@testing-library/react'
+import { mockApiRoutes, renderWithRouter } from '@/test/test-utils'
+import { mockPackagesPage, mockTestRun } from '@/test/mocks'
+import type { PaginatedResponse, TestRun } from '@/api/types'
+
+vi.mock('@/lib/auth/useAuth', () => ({
+  useAuth: () => ({
+    isAuthenticated: true,
+    user: { id: 'user-1', email: 'qa@example.com', name: 'QA', roles: ['viewer'] },
+  }),
+}))
+
+vi.mock('@/components/layouts', () => ({
+  MainLayout: ({ children }: { children: ReactNode }) => children,
+}))
+
+describe('analytics page', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('says when the run history was cut off', async () => {
+    const startedAt = new Date()
+    startedAt.setHours(0, 0, 1, 0)
+    // Every page holds one run; the history stops following pages after 20 of them
+    const page: PaginatedResponse<TestRun> = {
+      content: [{ ...mockTestRun, startedAt: startedAt.toISOString() }],
+      page: 0,
+      size: 100,
+      totalElements: 2500,
+      totalPages: 25,
+      first: true,
+      last: false,
+    }
+    mockApiRoutes({ '/api/qa/runs': page, '/api/qa/packages': mockPackagesPage })
+
+    renderWithRouter({ initialPath: '/analytics' })
+
+    expect(
+      await screen.findByText(/^Only 20 of the 2500 runs started in this period could be loaded/)
+    ).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,198 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { ReactNode } from 'react'
+import { screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { mockApiRoutes, renderWithRouter } from '@/test/test-utils'
+import {
+  mockEnvironment,
+  mockPackage,
+  mockPersonas,
+  mockScenario,
+  mockScenariosPage,
+  mockTestRunsPage,
+} from '@/test/mocks'
+import { generatePlaywrightProject } from '@/lib/playwright'
+import type { PaginatedResponse, Scenario } from '@/api/types'
+
+const auth = vi.hoisted(() => ({ roles: [] as string[] }))
+
+vi.mock('@/lib/auth/useAuth', () => ({
+  useAuth: () => ({
+    isAuthenticated: true,
+    user: { id: 'user-1', email: 'qa@example.com', name: 'QA', roles: auth.roles },
+  }),
+}))
+
+vi.mock('@/components/layouts', () => ({
+  MainLayout: ({ children }: { children: ReactNode }) => children,
+}))
+
+vi.mock('@/lib/playwright', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/playwright')>()
+  return { ...actual, generatePlaywrightProject: vi.fn(actual.generatePlaywrightProject) }
+})
+
+async function openPackage(roles: string[]) {
+  auth.roles = roles
+  mockApiRoutes({
+    '/api/qa/packages/pkg-1': mockPackage,
+    '/api/qa/packages/pkg-1/runs': mockTestRunsPage,
+    '/api/qa/packages/pkg-1/environments': [mockEnvironment],
+    '/api/qa/scenarios': mockScenariosPage,
+  })
+  renderWithRouter({ initialPath: '/packages/pkg-1' })
+  await screen.findByRole('heading', { name: mockPackage.name })
+}
+
+describe.each(mockPersonas)('package detail page as $persona', ({ roles, canWrite, isAdmin }) => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('offers importing scenarios and starting runs only to writers', async () => {
+    await openPackage(roles)
+
+    expect(screen.queryByRole('button', { name: 'Import Scenarios' }) !== null).toBe(canWrite)
+    expect(screen.queryByRole('button', { name: 'Start Run' }) !== null).toBe(canWrite)
+  })
+
+  it('lets only admins manage environments', async () => {
+    await openPackage(roles)
+    await userEvent.setup().click(screen.getByRole('button', { name: 'Environments' }))
+
+    const list = await screen.findByTestId('environment-list')
+    expect(list).toHaveTextContent(mockEnvironment.name)
+    expect(screen.queryByRole('button', { name: 'New Environment' }) !== null).toBe(isAdmin)
+    expect(within(list).queryByRole('button', { name: 'Edit' }) !== null).toBe(isAdmin)
+    expect(within(list).queryByRole('button', { name: 'Delete' }) !== null).toBe(isAdmin)
+  })
+
+  it('keeps settings read-only for viewers and the danger zone for admins', async () => {
+    await openPackage(roles)
+    await userEvent.setup().click(screen.getByRole('button', { name: 'Settings' }))
+
+    for (const label of [/Package Name/, /Description/, /OpenAPI Specification/, /Base URL/]) {
+      expect(screen.getByLabelText(label).hasAttribute('readonly')).toBe(!canWrite)
+    }
+    expect(screen.queryByRole('heading', { name: 'Danger Zone' }) !== null).toBe(isAdmin)
+  })
+})
+
+/** Serves the package scenarios page by page, as the backend slices them */
+function mockScenarioPages(scenarios: Scenario[], totalElements = scenarios.length) {
+  const routes: Record<string, unknown> = {
+    '/api/qa/packages/pkg-1': mockPackage,
+    '/api/qa/packages/pkg-1/runs': mockTestRunsPage,
+  }
+  vi.spyOn(globalThis, 'fetch').mockImplementation((input) => {
+    const url = new URL(input instanceof Request ? input.url : String(input), 'http://localhost')
+    let body = routes[url.pathname]
+    if (url.pathname === '/api/qa/scenarios') {
+      const page = Number(url.searchParams.get('page'))
+      const size = Number(url.searchParams.get('size'))
+      const totalPages = Math.ceil(totalElements / size)
+      const response: PaginatedResponse<Scenario> = {
+        content: scenarios.slice(page * size, (page + 1) * size),
+        page,
+        size,
+        totalElements,
+        totalPages,
+        first: page === 0,
+        last: page + 1 >= totalPages,
+      }
+      body = response
+    }
+    return Promise.resolve(
+      new Response(JSON.stringify(body ?? { message: 'Not found', code: 'NOT_FOUND' }), {
+        status: body === undefined ? 404 : 200,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    )
+  })
+}
+
+function createScenarios(count: number): Scenario[] {
+  return Array.from({ length: count }, (_, index) => ({
+    ...mockScenario,
+    id: `scenario-${String(index + 1)}`,
+    name: `Scenario ${String(index + 1)}`,
+    tags: [],
+  }))
+}
+
+describe('package coverage tab', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  async function openCoverage() {
+    auth.roles = ['viewer']
+    renderWithRouter({ initialPath: '/packages/pkg-1' })
+    await screen.findByRole('heading', { name: mockPackage.name })
+    await userEvent.setup().click(screen.getByRole('button', { name: 'Coverage' }))
+  }
+
+  it('covers operations of scenarios beyond the first page of the list', async () => {
+    const scenarios = createScenarios(25)
+    const last = scenarios[24]
+    if (last?.steps[0]) {
+      scenarios[24] = { ...last, steps: [{ ...last.steps[0], method: 'DELETE' }] }
+    }
+    mockScenarioPages(scenarios)
+
+    await openCoverage()
+
+    expect(await screen.findByText('DELETE')).toBeInTheDocument()
+    expect(screen.queryByText(/scenarios in this package could be loaded/)).not.toBeInTheDocument()
+  })
+
+  it('offers tags of scenarios beyond the first page of the list', async () => {
+    const scenarios = createScenarios(25)
+    scenarios[24] = { ...mockScenario, id: 'scenario-25', tags: ['billing'] }
+    mockScenarioPages(scenarios)
+
+    await openCoverage()
+
+    expect(await screen.findByRole('button', { name: /^#billing/ })).toBeInTheDocument()
+  })
+
+  it('says when the scenario list was cut off', async () => {
+    mockScenarioPages(createScenarios(3), 5000)
+
+    await openCoverage()
+
+    expect(
+      await screen.findByText(/^Only 3 of the 5000 scenarios in this package could be loaded/)
+    ).toBeInTheDocument()
+  })
+})
+
+describe('package scenarios tab', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('exports every scenario of the package to Playwright, not only the listed page', async () => {
+    auth.roles = ['viewer']
+    vi.stubGlobal(
+      'URL',
+      class extends URL {
+        static override createObjectURL = () => 'blob:playwright'
+        static override revokeObjectURL = () => undefined
+      }
+    )
+    mockScenarioPages(createScenarios(25))
+    renderWithRouter({ initialPath: '/packages/pkg-1' })
+    await screen.findByRole('heading', { name: mockPackage.name })
+
+    const exportButton = screen.getByRole('button', { name: 'Export Playwright' })
+    await waitFor(() => {
+      expect(exportButton).toBeEnabled()
+    })
+    await userEvent.setup().click(exportButton)
+
+    expect(screen.getAllByRole('heading', { name: /^Scenario \d+$/ })).toHaveLength(20)
+    expect(vi.mocked(generatePlaywrightProject).mock.calls[0]?.[0]).toHaveLength(25)
+  })
+})
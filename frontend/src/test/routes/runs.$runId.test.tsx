@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { QueryClient } from '@tanstack/react-query'
+import type { ReactNode } from 'react'
+import { screen } from '@testing-library/react'
+import { runKeys } from '@/hooks'
+import { mockApiRoutes, renderWithRouter } from '@/test/test-utils'
+import { mockPersonas, mockTestRun } from '@/test/mocks'
+import type { TestRun } from '@/api/types'
+
+const auth = vi.hoisted(() => ({ roles: ['tester', 'viewer'] }))
+
+vi.mock('@/lib/auth/useAuth', () => ({
+  useAuth: () => ({
+    isAuthenticated: true,
+    user: { id: 'user-1', email: 'qa@example.com', name: 'QA', roles: auth.roles },
+  }),
+}))
+
+vi.mock('@/components/layouts', () => ({
+  MainLayout: ({ children }: { children: ReactNode }) => children,
+}))
+
+const runningRun: TestRun = {
+  ...mockTestRun,
+  status: 'RUNNING',
+  completedAt: null,
+}
+
+describe('run detail page', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('opens an active run that is already cached', async () => {
+    mockApiRoutes({ '/api/qa/runs/run-1': runningRun })
+    // Kept cached while the router resolves the route
+    const queryClient = new QueryClient({
+      defaultOptions: { queries: { retry: false, gcTime: Infinity } },
+    })
+    queryClient.setQueryData(runKeys.detail('run-1'), runningRun)
+
+    renderWithRouter({ initialPath: '/runs/run-1', queryClient })
+
+    expect(await screen.findByRole('heading', { name: 'Test Run #run-1' })).toBeInTheDocument()
+    expect(screen.getByTestId('run-stream-status')).toHaveTextContent('Polling')
+    expect(screen.getByRole('button', { name: 'Cancel Run' })).toBeInTheDocument()
+  })
+
+  describe.each(mockPersonas)('as $persona', ({ roles, canWrite }) => {
+    it('offers cancelling an active run only to writers', async () => {
+      auth.roles = roles
+      mockApiRoutes({ '/api/qa/runs/run-1': runningRun })
+
+      renderWithRouter({ initialPath: '/runs/run-1' })
+
+      expect(await screen.findByRole('heading', { name: 'Test Run #run-1' })).toBeInTheDocument()
+      expect(screen.queryByRole('button', { name: 'Cancel Run' }) !== null).toBe(canWrite)
+    })
+
+    it('offers replaying and retrying a finished run only to writers', async () => {
+      auth.roles = roles
+      mockApiRoutes({ '/api/qa/runs/run-1': mockTestRun })
+
+      renderWithRouter({ initialPath: '/runs/run-1' })
+
+      expect(await screen.findByRole('heading', { name: 'Test Run #run-1' })).toBeInTheDocument()
+      for (const name of ['Retry Failed', 'Replay', 'Retry Run']) {
+        expect(screen.queryByRole('button', { name }) !== null).toBe(canWrite)
+      }
+      expect(screen.getByRole('button', { name: /Export/ })).toBeEnabled()
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { ReactNode } from 'react'
+import { screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { mockApiRoutes, renderWithRouter } from '@/test/test-utils'
+import { mockEnvironment, mockPackage, mockPersonas, mockScenario } from '@/test/mocks'
+import type { Scenario } from '@/api/types'
+
+const auth = vi.hoisted(() => ({ roles: [] as string[] }))
+
+vi.mock('@/lib/auth/useAuth', () => ({
+  useAuth: () => ({
+    isAuthenticated: true,
+    user: { id: 'user-1', email: 'qa@example.com', name: 'QA', roles: auth.roles },
+  }),
+}))
+
+vi.mock('@/components/layouts', () => ({
+  MainLayout: ({ children }: { children: ReactNode }) => children,
+}))
+
+vi.mock('@monaco-editor/react', () => ({
+  default: () => null,
+}))
+
+describe.each(mockPersonas)('scenario detail page as $persona', ({ roles, canWrite }) => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('offers running and editing only to writers, and shows tags read-only otherwise', async () => {
+    auth.roles = roles
+    mockApiRoutes({
+      '/api/qa/scenarios/scenario-1': mockScenario,
+      '/api/qa/packages/pkg-1': mockPackage,
+    })
+
+    renderWithRouter({ initialPath: '/scenarios/scenario-1' })
+
+    expect(await screen.findByRole('heading', { name: mockScenario.name })).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Run Test' }) !== null).toBe(canWrite)
+    expect(screen.queryAllByRole('button', { name: 'Edit' })).toHaveLength(canWrite ? 2 : 0)
+    expect(screen.queryByRole('textbox', { name: 'Add scenario tag' }) !== null).toBe(canWrite)
+    expect(screen.queryByRole('list', { name: 'Tags' }) !== null).toBe(!canWrite)
+  })
+})
+
+describe('scenario edit tab', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('does not flag placeholders that the package environments provide', async () => {
+    auth.roles = ['tester', 'viewer']
+    const [step] = mockScenario.steps
+    const scenario: Scenario = {
+      ...mockScenario,
+      steps: step ? [{ ...step, endpoint: '/users/{tenant}/{apiKey}/{region}' }] : [],
+    }
+    mockApiRoutes({
+      '/api/qa/scenarios/scenario-1': scenario,
+      '/api/qa/packages/pkg-1': mockPackage,
+      '/api/qa/packages/pkg-1/environments': [mockEnvironment],
+    })
+
+    renderWithRouter({ initialPath: '/scenarios/scenario-1' })
+    await screen.findByRole('heading', { name: mockScenario.name })
+    await userEvent.setup().click(screen.getAllByRole('button', { name: 'Edit' })[0] as HTMLElement)
+
+    const issues = await screen.findByTestId('variable-issues')
+    expect(issues).toHaveTextContent('"region"')
+    expect(issues).not.toHaveTextContent('"tenant"')
+    expect(issues).not.toHaveTextContent('"apiKey"')
+  })
+})
@@ -39,3 +39,9 @@ class IntersectionObserverMock {
 }
 
 window.IntersectionObserver = IntersectionObserverMock as unknown as typeof IntersectionObserver
+
+// The root route renders the router devtools in development; their injected styles pile up
+// in document.head across route tests and slow every style lookup
+vi.mock('@tanstack/router-devtools', () => ({
+  TanStackRouterDevtools: () => null,
+}))
@@ -3,6 +3,7 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { RouterProvider, createMemoryHistory, createRouter } from '@tanstack/react-router'
 import { render, type RenderOptions } from '@testing-library/react'
 import { type ReactElement, type ReactNode } from 'react'
+import { vi } from 'vitest'
 import { routeTree } from '@/routeTree.gen'
 
 // Create a fresh query client for each test
@@ -84,6 +85,20 @@ export function renderWithRouter(options?: RouterRenderOptions) {
   }
 }
 
+// Answer API requests by path, ignoring the query string; other paths get a 404
+export function mockApiRoutes(routes: Record<string, unknown>) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation((input) => {
+    const url = new URL(input instanceof Request ? input.url : String(input), 'http://localhost')
+    const body = routes[url.pathname]
+    return Promise.resolve(
+      new Response(JSON.stringify(body ?? { message: 'Not found', code: 'NOT_FOUND' }), {
+        status: body === undefined ? 404 : 200,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    )
+  })
+}
+
 // Re-export everything from testing-library
 export * from '@testing-library/react'
 export { default as userEvent } from '@testing-library/user-event'